@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
-import { Brain, Calendar, TrendingUp, Target, Loader, Sparkles, AlertCircle } from 'lucide-react';
+import { Brain, Calendar, TrendingUp, Target, Loader, Sparkles, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { getCurrentSession, RecommendationAction, RecommendationFollowUp } from '../../lib/supabase';
+import { EMOTION_META, isEmotion } from '../../lib/emotions';
+import { CrisisResources } from './CrisisResources';
+import { RecommendationFollowUpSummary, RecommendationList } from './RecommendationList';
 import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 
 interface AIRecapsModalProps {
@@ -15,6 +19,9 @@ interface RecapData {
   moodAverage?: number;
   reflectionCount: number;
   topEmotions?: string[];
+  safetyMode?: boolean; // written with the safety-first prompt
+  reportId: string;
+  followUp: RecommendationFollowUp[]; // how the previous recap's recommendations went
 }
 
 type TimeFrame = 'daily' | 'weekly' | 'monthly';
@@ -23,6 +30,7 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<TimeFrame>('daily');
   const [recapData, setRecapData] = useState<RecapData | null>(null);
+  const [actions, setActions] = useState<RecommendationAction[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -40,10 +48,11 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
     setRecapData(null);
     
     try {
+      const session = await getCurrentSession();
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-ai-recap`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -59,6 +68,7 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
 
       const data = await response.json();
       setRecapData(data);
+      setActions([]);
     } catch (err) {
       console.error('Error generating insights:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate insights');
@@ -83,18 +93,8 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
     }
   };
 
-  const getSentimentColor = (emotion: string) => {
-    switch (emotion.toLowerCase()) {
-      case 'positive':
-        return 'bg-green-100 text-green-700 border-green-200';
-      case 'negative':
-        return 'bg-red-100 text-red-700 border-red-200';
-      case 'neutral':
-        return 'bg-gray-100 text-gray-700 border-gray-200';
-      default:
-        return 'bg-blue-100 text-blue-700 border-blue-200';
-    }
-  };
+  const getEmotionColor = (emotion: string) =>
+    isEmotion(emotion) ? EMOTION_META[emotion].badge : 'bg-gray-100 text-gray-700 border-gray-200';
 
   const getMoodColor = (mood: number) => {
     if (mood >= 8) return 'text-green-600';
@@ -191,6 +191,8 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
       {/* Results Display */}
       {recapData && (
         <div className="space-y-6">
+          {recapData.safetyMode && <CrisisResources />}
+
           {/* Stats Overview */}
           <div className="grid grid-cols-3 gap-4">
             <div className="text-center p-4 bg-blue-50 rounded-xl">
@@ -225,9 +227,9 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
                 {recapData.topEmotions.map((emotion, index) => (
                   <span
                     key={index}
-                    className={`px-3 py-1 text-sm rounded-full border ${getSentimentColor(emotion)}`}
+                    className={`px-3 py-1 text-sm rounded-full border ${getEmotionColor(emotion)}`}
                   >
-                    {emotion}
+                    {isEmotion(emotion) ? `${EMOTION_META[emotion].emoji} ${EMOTION_META[emotion].label}` : emotion}
                   </span>
                 ))}
               </div>
@@ -252,22 +254,30 @@ export function AIRecapsModal({ isOpen, onClose }: AIRecapsModalProps) {
             <p className="text-gray-700 leading-relaxed">{recapData.motivationalMessage}</p>
           </div>
 
+          {recapData.followUp.length > 0 && (
+            <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-xl p-6">
+              <div className="flex items-center gap-2 mb-3">
+                <CheckCircle2 className="w-5 h-5 text-emerald-600" />
+                <h4 className="font-semibold text-gray-900">Since Last Time</h4>
+              </div>
+              <RecommendationFollowUpSummary items={recapData.followUp} />
+            </div>
+          )}
+
           {/* Recommendations */}
           <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-6">
             <div className="flex items-center gap-2 mb-4">
               <Target className="w-5 h-5 text-blue-600" />
               <h4 className="font-semibold text-gray-900">Recommendations</h4>
             </div>
-            <div className="space-y-3">
-              {recapData.recommendations.map((recommendation, index) => (
-                <div key={index} className="flex items-start gap-3">
-                  <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                    <span className="text-xs font-medium text-blue-600">{index + 1}</span>
-                  </div>
-                  <p className="text-gray-700 text-sm leading-relaxed">{recommendation}</p>
-                </div>
-              ))}
-            </div>
+            <RecommendationList
+              reportId={recapData.reportId}
+              recommendations={recapData.recommendations}
+              actions={actions}
+              onActionChange={(updated) => setActions(prev => [...prev.filter(a => a.id !== updated.id), updated])}
+              accent="blue"
+              readOnly={recapData.safetyMode}
+            />
           </div>
 
           {/* Actions */}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Upload, Check, User, Heart, Dumbbell, ArrowRight, ArrowLeft, Loader, Camera, AlertCircle, Download, RefreshCw, CheckCircle, AlertTriangle, Sparkles, Clock, Target, UserCheck } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { supabase, getCurrentSession, BodyCoachAnalysis } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 
 interface BodyCoachModalProps {
@@ -27,35 +27,12 @@ interface FormData {
   targetAreas: string;
 }
 
-interface AnalysisResult {
-  strengths: string;
-  weaknesses: string;
+// analyze-body saves the plan itself and returns the structured analysis along with
+// the id of the saved body_feedback row and its text rendering
+interface AnalysisResult extends BodyCoachAnalysis {
+  id: string;
   workout_plan: string;
   nutrition_advice: string;
-  motivational_message: string;
-}
-
-interface WorkoutDay {
-  day: string;
-  exercises: Array<{
-    name: string;
-    sets: string;
-    reps?: string;
-    rest?: string;
-  }>;
-  notes?: string;
-}
-
-interface MealPlan {
-  name: string;
-  foods: string[];
-  portions?: string;
-}
-
-interface NutritionData {
-  meals: MealPlan[];
-  tips: string[];
-  hydration?: string;
 }
 
 const ACTIVITY_OPTIONS = [
@@ -189,23 +166,21 @@ export function BodyCoachModal({ isOpen, onClose }: BodyCoachModalProps) {
       throw new Error(`Image upload failed: ${error.message}`);
     }
 
-    const { data: { publicUrl } } = supabase.storage
-      .from('body-analysis')
-      .getPublicUrl(data.path);
-
-    return publicUrl;
+    // The bucket is private; analyze-body reads the photo by path with the service role
+    return data.path;
   };
 
-  const analyzeWithOpenAI = async (frontImageUrl: string, backImageUrl: string): Promise<AnalysisResult> => {
+  const analyzeWithOpenAI = async (frontImagePath: string, backImagePath: string): Promise<AnalysisResult> => {
+    const session = await getCurrentSession();
     const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-body`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${session.access_token}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        front_image_url: frontImageUrl,
-        back_image_url: backImageUrl,
+        front_image_path: frontImagePath,
+        back_image_path: backImagePath,
         preferences: {
           height: formData.height,
           weight: formData.weight,
@@ -245,49 +220,16 @@ export function BodyCoachModal({ isOpen, onClose }: BodyCoachModalProps) {
       const frontFilename = `${user.id}/front_${timestamp}.jpg`;
       const backFilename = `${user.id}/back_${timestamp}.jpg`;
 
-      const [frontImageUrl, backImageUrl] = await Promise.all([
+      const [frontImagePath, backImagePath] = await Promise.all([
         uploadImageToStorage(formData.frontImage, frontFilename),
         uploadImageToStorage(formData.backImage, backFilename)
       ]);
 
-      // Analyze with OpenAI
-      const analysis = await analyzeWithOpenAI(frontImageUrl, backImageUrl);
-
-      // Save to database
-      const { data: savedData, error: saveError } = await supabase
-        .from('body_feedback')
-        .insert([{
-          user_id: user.id,
-          front_image_url: frontImageUrl,
-          back_image_url: backImageUrl,
-          height: formData.height,
-          weight: formData.weight,
-          preferences: {
-            heightUnit: formData.heightUnit,
-            weightUnit: formData.weightUnit,
-            activities: formData.activities,
-            foods: formData.foods,
-            allergies: formData.allergies,
-            passions: formData.passions,
-            goals: formData.goals,
-            trainingDays: formData.trainingDays,
-            enjoysCardio: formData.enjoysCardio,
-            injuries: formData.injuries,
-            targetAreas: formData.targetAreas,
-          },
-          strengths: analysis.strengths,
-          weaknesses: analysis.weaknesses,
-          workout_plan: analysis.workout_plan,
-          nutrition_advice: analysis.nutrition_advice,
-          motivational_message: analysis.motivational_message,
-        }])
-        .select()
-        .single();
-
-      if (saveError) throw saveError;
+      // Analyze and save the plan
+      const analysis = await analyzeWithOpenAI(frontImagePath, backImagePath);
 
       setAnalysisResult(analysis);
-      setSavedAnalysisId(savedData.id);
+      setSavedAnalysisId(analysis.id);
       setCurrentStep(5); // Results step is now step 5
 
     } catch (err) {
@@ -344,194 +286,6 @@ Remember: Consistency beats perfection!
     URL.revokeObjectURL(url);
   };
 
-  // Enhanced workout plan parsing with better structure detection
-  const parseWorkoutPlan = (workoutText: string): WorkoutDay[] => {
-    if (typeof workoutText !== 'string') {
-      return [];
-    }
-
-    const lines = workoutText.split('\n').filter(line => line.trim());
-    const workouts: WorkoutDay[] = [];
-    let currentWorkout: WorkoutDay | null = null;
-    
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      
-      // Enhanced day detection patterns
-      if (
-        /^(Day\s*\d+|Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)/i.test(trimmed) ||
-        trimmed.includes('**Day') ||
-        (trimmed.includes(':') && /day|monday|tuesday|wednesday|thursday|friday|saturday|sunday/i.test(trimmed))
-      ) {
-        // Save previous workout if exists
-        if (currentWorkout) {
-          workouts.push(currentWorkout);
-        }
-        
-        // Clean up day name
-        const dayName = trimmed
-          .replace(/^\*\*|\*\*$/g, '')
-          .replace(/[:]/g, '')
-          .trim();
-        
-        currentWorkout = {
-          day: dayName,
-          exercises: [],
-          notes: ''
-        };
-      }
-      // Enhanced exercise detection
-      else if (currentWorkout && (
-        trimmed.includes('sets') || 
-        trimmed.includes('reps') ||
-        trimmed.includes('minutes') ||
-        /^\-/.test(trimmed) ||
-        /^\d+\./.test(trimmed) ||
-        trimmed.includes(':')
-      )) {
-        let exerciseName = '';
-        let sets = '';
-        let reps = '';
-        let rest = '';
-        
-        // Parse different formats
-        if (trimmed.includes(':')) {
-          const [name, details] = trimmed.split(':').map(s => s.trim());
-          exerciseName = name.replace(/^[\-\d\.]\s*/, '');
-          
-          // Extract sets, reps, and rest from details
-          const setsMatch = details.match(/(\d+)\s*sets?/i);
-          const repsMatch = details.match(/(\d+(?:-\d+)?)\s*reps?/i);
-          const restMatch = details.match(/(\d+(?:-\d+)?)\s*(?:seconds?|mins?)/i);
-          
-          sets = setsMatch ? setsMatch[1] + ' sets' : '';
-          reps = repsMatch ? repsMatch[1] + ' reps' : '';
-          rest = restMatch ? restMatch[0] : '';
-          
-          // If no structured format found, use the whole details as sets
-          if (!setsMatch && !repsMatch) {
-            sets = details;
-          }
-        } else {
-          // Handle bullet point or numbered format
-          exerciseName = trimmed.replace(/^[\-\d\.]\s*/, '');
-        }
-        
-        if (exerciseName) {
-          currentWorkout.exercises.push({
-            name: exerciseName,
-            sets: sets || 'As described',
-            reps,
-            rest
-          });
-        }
-      }
-      // Rest/note lines
-      else if (currentWorkout && (
-        trimmed.toLowerCase().includes('rest') ||
-        trimmed.toLowerCase().includes('note') ||
-        trimmed.toLowerCase().includes('tip')
-      )) {
-        currentWorkout.notes = (currentWorkout.notes || '') + (currentWorkout.notes ? ' ' : '') + trimmed;
-      }
-    });
-    
-    // Don't forget the last workout
-    if (currentWorkout) {
-      workouts.push(currentWorkout);
-    }
-    
-    return workouts;
-  };
-
-  // Enhanced nutrition plan parsing with better meal detection
-  const parseNutritionPlan = (nutritionText: string): NutritionData => {
-    if (typeof nutritionText !== 'string') {
-      return { meals: [], tips: [] };
-    }
-
-    const lines = nutritionText.split('\n').filter(line => line.trim());
-    const meals: MealPlan[] = [];
-    const tips: string[] = [];
-    let currentMeal: MealPlan | null = null;
-    let hydration = '';
-
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      
-      // Enhanced meal detection
-      if (
-        /^(\*\*|##)?(breakfast|lunch|dinner|snack)/i.test(trimmed) ||
-        trimmed.toLowerCase().includes('meal') ||
-        (trimmed.includes(':') && /breakfast|lunch|dinner|snack|morning|afternoon|evening/i.test(trimmed))
-      ) {
-        // Save previous meal
-        if (currentMeal) {
-          meals.push(currentMeal);
-        }
-        
-        // Clean meal name
-        const mealName = trimmed
-          .replace(/^\*\*|\*\*$|^##|##$/g, '')
-          .replace(/[:]/g, '')
-          .replace(/^\d+\.\s*/, '')
-          .trim();
-        
-        currentMeal = {
-          name: mealName,
-          foods: [],
-          portions: ''
-        };
-      }
-      // Food items and portions
-      else if (currentMeal && (
-        trimmed.startsWith('-') ||
-        trimmed.startsWith('•') ||
-        /\d+\s*(oz|cup|tbsp|tsp|slice|piece)/i.test(trimmed) ||
-        /^\d+\./.test(trimmed)
-      )) {
-        const foodItem = trimmed
-          .replace(/^[\-•\d\.]\s*/, '')
-          .trim();
-        
-        if (foodItem) {
-          currentMeal.foods.push(foodItem);
-        }
-      }
-      // Tips and hydration
-      else if (
-        trimmed.toLowerCase().includes('tip') ||
-        trimmed.toLowerCase().includes('hydration') ||
-        trimmed.toLowerCase().includes('water') ||
-        trimmed.toLowerCase().includes('drink')
-      ) {
-        if (trimmed.toLowerCase().includes('hydration') || trimmed.toLowerCase().includes('water')) {
-          hydration = trimmed;
-        } else {
-          tips.push(trimmed.replace(/^\*\*|\*\*$/g, ''));
-        }
-      }
-      // General nutritional advice
-      else if (
-        trimmed.length > 10 && 
-        !currentMeal &&
-        (trimmed.toLowerCase().includes('calories') ||
-         trimmed.toLowerCase().includes('protein') ||
-         trimmed.toLowerCase().includes('balance') ||
-         trimmed.toLowerCase().includes('avoid'))
-      ) {
-        tips.push(trimmed);
-      }
-    });
-    
-    // Don't forget the last meal
-    if (currentMeal) {
-      meals.push(currentMeal);
-    }
-    
-    return { meals, tips, hydration };
-  };
-
   const renderStep1 = () => (
     <div className="space-y-6">
       <div className="text-center">
@@ -862,8 +616,7 @@ Remember: Consistency beats perfection!
   const renderResults = () => {
     if (!analysisResult) return null;
 
-    const workouts = parseWorkoutPlan(analysisResult.workout_plan);
-    const nutritionData = parseNutritionPlan(analysisResult.nutrition_advice);
+    const { workout, nutrition } = analysisResult;
 
     return (
       <div className="space-y-8">
@@ -898,66 +651,68 @@ Remember: Consistency beats perfection!
             🏋️ Personalized Workout Plan
           </h4>
           
-          {workouts.length > 0 ? (
-            <div className="space-y-6">
-              {workouts.map((workout, index) => (
-                <div key={index} className="bg-white rounded-lg p-6 border border-purple-200 shadow-sm">
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="w-10 h-10 bg-purple-600 rounded-full flex items-center justify-center text-white font-bold">
-                      {index + 1}
-                    </div>
-                    <h5 className="text-lg font-bold text-purple-900">{workout.day}</h5>
+          <p className="text-purple-800 leading-relaxed mb-6">{workout.overview}</p>
+
+          <div className="space-y-6">
+            {workout.days.map((day, index) => (
+              <div key={index} className="bg-white rounded-lg p-6 border border-purple-200 shadow-sm">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 bg-purple-600 rounded-full flex items-center justify-center text-white font-bold">
+                    {index + 1}
+                  </div>
+                  <div>
+                    <h5 className="text-lg font-bold text-purple-900">{day.day}</h5>
+                    <p className="text-sm text-purple-700">{day.focus}</p>
                   </div>
-                  
-                  <div className="space-y-3">
-                    {workout.exercises.map((exercise, idx) => (
-                      <div key={idx} className="flex items-center justify-between p-4 bg-purple-25 rounded-lg border border-purple-100">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-3">
-                            <div className="w-2 h-2 bg-purple-600 rounded-full"></div>
-                            <span className="font-semibold text-purple-900">{exercise.name}</span>
-                          </div>
-                          {exercise.reps && (
-                            <div className="ml-5 mt-1 text-sm text-purple-700">
-                              Reps: {exercise.reps}
-                            </div>
-                          )}
-                          {exercise.rest && (
-                            <div className="ml-5 mt-1 text-sm text-purple-600 flex items-center gap-1">
-                              <Clock className="w-3 h-3" />
-                              Rest: {exercise.rest}
-                            </div>
-                          )}
+                </div>
+                
+                <div className="space-y-3">
+                  {day.exercises.map((exercise, idx) => (
+                    <div key={idx} className="flex items-center justify-between p-4 bg-purple-25 rounded-lg border border-purple-100">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3">
+                          <div className="w-2 h-2 bg-purple-600 rounded-full"></div>
+                          <span className="font-semibold text-purple-900">{exercise.name}</span>
+                        </div>
+                        <div className="ml-5 mt-1 text-sm text-purple-700">
+                          Reps: {exercise.reps}
                         </div>
-                        <div className="text-right">
-                          <span className="inline-flex items-center px-3 py-1 bg-purple-100 text-purple-800 text-sm font-medium rounded-full">
-                            {exercise.sets}
-                          </span>
+                        <div className="ml-5 mt-1 text-sm text-purple-600 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          Rest: {exercise.rest}
                         </div>
+                        {exercise.notes && (
+                          <div className="ml-5 mt-1 text-xs text-purple-600 italic">{exercise.notes}</div>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <span className="inline-flex items-center px-3 py-1 bg-purple-100 text-purple-800 text-sm font-medium rounded-full">
+                          {exercise.sets} sets
+                        </span>
                       </div>
-                    ))}
-                  </div>
-                  
-                  {workout.notes && (
-                    <div className="mt-4 p-3 bg-purple-100 rounded-lg">
-                      <p className="text-sm text-purple-800 italic">
-                        <strong>Note:</strong> {workout.notes}
-                      </p>
                     </div>
-                  )}
+                  ))}
                 </div>
-              ))}
-            </div>
-          ) : (
-            <div className="bg-white rounded-lg p-6 border border-purple-200">
-              <div className="text-purple-800 leading-relaxed space-y-3">
-                {analysisResult.workout_plan.split('\n').filter(line => line.trim()).map((line, idx) => (
-                  <div key={idx} className="flex items-start gap-2">
-                    <div className="w-2 h-2 bg-purple-600 rounded-full mt-2 flex-shrink-0"></div>
-                    <p>{line.trim()}</p>
+                
+                {day.notes && (
+                  <div className="mt-4 p-3 bg-purple-100 rounded-lg">
+                    <p className="text-sm text-purple-800 italic">
+                      <strong>Note:</strong> {day.notes}
+                    </p>
                   </div>
-                ))}
+                )}
               </div>
+            ))}
+          </div>
+
+          {workout.tips.length > 0 && (
+            <div className="mt-6 space-y-2">
+              {workout.tips.map((tip, idx) => (
+                <div key={idx} className="flex items-start gap-3 p-3 bg-white rounded-lg border border-purple-200">
+                  <div className="w-2 h-2 bg-purple-600 rounded-full mt-2 flex-shrink-0"></div>
+                  <p className="text-purple-800 text-sm leading-relaxed">💪 {tip}</p>
+                </div>
+              ))}
             </div>
           )}
         </div>
@@ -969,71 +724,58 @@ Remember: Consistency beats perfection!
             🍽️ Nutrition Plan
           </h4>
           
-          {nutritionData.meals.length > 0 ? (
-            <div className="space-y-6">
-              {/* Meal Plan */}
-              <div className="grid gap-4">
-                {nutritionData.meals.map((meal, index) => (
-                  <div key={index} className="bg-white rounded-lg p-5 border border-orange-200 shadow-sm">
-                    <div className="flex items-center gap-3 mb-3">
-                      <div className="w-8 h-8 bg-orange-600 rounded-full flex items-center justify-center text-white font-bold text-sm">
-                        {index + 1}
-                      </div>
-                      <h5 className="text-lg font-bold text-orange-900">{meal.name}</h5>
+          <p className="text-orange-800 leading-relaxed mb-6">{nutrition.overview}</p>
+
+          <div className="space-y-6">
+            {/* Meal Plan */}
+            <div className="grid gap-4">
+              {nutrition.meals.map((meal, index) => (
+                <div key={index} className="bg-white rounded-lg p-5 border border-orange-200 shadow-sm">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className="w-8 h-8 bg-orange-600 rounded-full flex items-center justify-center text-white font-bold text-sm">
+                      {index + 1}
                     </div>
-                    <div className="space-y-2">
-                      {meal.foods.map((food, idx) => (
-                        <div key={idx} className="flex items-start gap-3 p-2 bg-orange-25 rounded">
+                    <h5 className="text-lg font-bold text-orange-900">{meal.name}</h5>
+                  </div>
+                  <div className="space-y-2">
+                    {meal.foods.map((food, idx) => (
+                      <div key={idx} className="flex items-start justify-between gap-3 p-2 bg-orange-25 rounded">
+                        <div className="flex items-start gap-3">
                           <div className="w-1.5 h-1.5 bg-orange-600 rounded-full mt-2 flex-shrink-0"></div>
-                          <span className="text-orange-800 text-sm leading-relaxed">{food}</span>
+                          <span className="text-orange-800 text-sm leading-relaxed">{food.name}</span>
                         </div>
-                      ))}
-                    </div>
-                    {meal.portions && (
-                      <div className="mt-3 p-2 bg-orange-100 rounded text-xs text-orange-700">
-                        <strong>Portions:</strong> {meal.portions}
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-              
-              {/* Nutrition Tips */}
-              {(nutritionData.tips.length > 0 || nutritionData.hydration) && (
-                <div className="bg-white rounded-lg p-5 border border-orange-200 shadow-sm">
-                  <h5 className="font-bold text-orange-900 mb-4 flex items-center gap-2">
-                    <Target className="w-5 h-5" />
-                    Nutrition Tips
-                  </h5>
-                  <div className="space-y-3">
-                    {nutritionData.hydration && (
-                      <div className="flex items-start gap-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
-                        <div className="w-2 h-2 bg-blue-600 rounded-full mt-2"></div>
-                        <p className="text-blue-800 text-sm font-medium">{nutritionData.hydration}</p>
-                      </div>
-                    )}
-                    {nutritionData.tips.map((tip, idx) => (
-                      <div key={idx} className="flex items-start gap-3 p-3 bg-orange-25 rounded-lg">
-                        <div className="w-2 h-2 bg-orange-600 rounded-full mt-2"></div>
-                        <p className="text-orange-800 text-sm leading-relaxed">{tip}</p>
+                        <span className="text-xs text-orange-700 bg-orange-100 px-2 py-0.5 rounded whitespace-nowrap">{food.portion}</span>
                       </div>
                     ))}
                   </div>
                 </div>
-              )}
+              ))}
             </div>
-          ) : (
-            <div className="bg-white rounded-lg p-6 border border-orange-200">
-              <div className="text-orange-800 leading-relaxed space-y-3">
-                {analysisResult.nutrition_advice.split('\n').filter(line => line.trim()).map((line, idx) => (
-                  <div key={idx} className="flex items-start gap-2">
-                    <div className="w-2 h-2 bg-orange-600 rounded-full mt-2 flex-shrink-0"></div>
-                    <p>{line.trim()}</p>
-                  </div>
-                ))}
+            
+            {/* Nutrition Tips */}
+            {(nutrition.tips.length > 0 || nutrition.hydration) && (
+              <div className="bg-white rounded-lg p-5 border border-orange-200 shadow-sm">
+                <h5 className="font-bold text-orange-900 mb-4 flex items-center gap-2">
+                  <Target className="w-5 h-5" />
+                  Nutrition Tips
+                </h5>
+                <div className="space-y-3">
+                  {nutrition.hydration && (
+                    <div className="flex items-start gap-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                      <div className="w-2 h-2 bg-blue-600 rounded-full mt-2"></div>
+                      <p className="text-blue-800 text-sm font-medium">💧 {nutrition.hydration}</p>
+                    </div>
+                  )}
+                  {nutrition.tips.map((tip, idx) => (
+                    <div key={idx} className="flex items-start gap-3 p-3 bg-orange-25 rounded-lg">
+                      <div className="w-2 h-2 bg-orange-600 rounded-full mt-2"></div>
+                      <p className="text-orange-800 text-sm leading-relaxed">{tip}</p>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
 
         {/* Motivational Message */}
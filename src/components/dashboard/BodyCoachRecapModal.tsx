@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, ChevronDown, ChevronUp, Search, Filter, RotateCcw, X, Trash2, Dumbbell, Plus, Loader, AlertCircle, Clock, Target, Heart, CheckCircle, AlertTriangle, Sparkles, Download, Eye, EyeOff } from 'lucide-react';
+import { Calendar, ChevronDown, ChevronUp, Search, Filter, RotateCcw, X, Trash2, Dumbbell, Plus, Loader, AlertCircle, Clock, Target, Heart, CheckCircle, AlertTriangle, Sparkles, Download, Eye, EyeOff, ClipboardCheck, Ruler } from 'lucide-react';
 import { supabase, BodyFeedback } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import { useModal } from '../../hooks/useModal';
 import { format } from 'date-fns';
 import { Modal } from '../ui/Modal';
 import { BodyCoachModal } from './BodyCoachModal';
+import { WorkoutLogModal } from './WorkoutLogModal';
+import { BodyProgressModal } from './BodyProgressModal';
+import { calculateAdherence } from '../../lib/workouts';
 
 interface BodyCoachRecapModalProps {
   isOpen: boolean;
@@ -27,29 +30,6 @@ interface ExpandedSections {
   };
 }
 
-interface WorkoutDay {
-  day: string;
-  exercises: Array<{
-    name: string;
-    sets: string;
-    reps?: string;
-    rest?: string;
-  }>;
-  notes?: string;
-}
-
-interface MealPlan {
-  name: string;
-  foods: string[];
-  portions?: string;
-}
-
-interface NutritionData {
-  meals: MealPlan[];
-  tips: string[];
-  hydration?: string;
-}
-
 const initialFilters: FilterState = {
   searchText: '',
   startDate: '',
@@ -72,6 +52,9 @@ export function BodyCoachRecapModal({ isOpen, onClose }: BodyCoachRecapModalProp
   const [rawSearchText, setRawSearchText] = useState('');
   
   const bodyCoachModal = useModal();
+  const progressModal = useModal();
+  const [loggingPlanId, setLoggingPlanId] = useState<string | null>(null);
+  const loggingPlan = coachingPlans.find(p => p.id === loggingPlanId) || null;
 
   // Debounced effect for search text
   useEffect(() => {
@@ -103,7 +86,7 @@ export function BodyCoachRecapModal({ isOpen, onClose }: BodyCoachRecapModalProp
     try {
       const { data, error } = await supabase
         .from('body_feedback')
-        .select('*')
+        .select('*, body_coach_report:body_coach_reports(analysis), workout_sessions(completed)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -216,6 +199,16 @@ export function BodyCoachRecapModal({ isOpen, onClose }: BodyCoachRecapModalProp
     bodyCoachModal.close();
   };
 
+  const handleWorkoutLogClose = () => {
+    setLoggingPlanId(null);
+    // Pick up sessions logged in the meantime for the adherence badges
+    fetchCoachingPlans();
+  };
+
+  const handlePlanUpdated = (updated: BodyFeedback) => {
+    setCoachingPlans(prev => prev.map(p => p.id === updated.id ? { ...p, habit_id: updated.habit_id } : p));
+  };
+
   const handleDeletePlan = async (planId: string) => {
     if (!user) return;
     
@@ -268,195 +261,6 @@ export function BodyCoachRecapModal({ isOpen, onClose }: BodyCoachRecapModalProp
     });
   };
 
-  // Enhanced workout plan parsing
-  const parseWorkoutPlan = (workoutText: string): WorkoutDay[] => {
-    if (typeof workoutText !== 'string') {
-      return [];
-    }
-
-    const lines = workoutText.split('\n').filter(line => line.trim());
-    const workouts: WorkoutDay[] = [];
-    let currentWorkout: WorkoutDay | null = null;
-    
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      
-      // Enhanced day detection patterns
-      if (
-        /^(Day\s*\d+|Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)/i.test(trimmed) ||
-        trimmed.includes('**Day') ||
-        (trimmed.includes(':') && /day|monday|tuesday|wednesday|thursday|friday|saturday|sunday/i.test(trimmed))
-      ) {
-        // Save previous workout if exists
-        if (currentWorkout) {
-          workouts.push(currentWorkout);
-        }
-        
-        // Clean up day name
-        const dayName = trimmed
-          .replace(/^\*\*|\*\*$/g, '')
-          .replace(/[:]/g, '')
-          .trim();
-        
-        currentWorkout = {
-          day: dayName,
-          exercises: [],
-          notes: ''
-        };
-      }
-      // Enhanced exercise detection
-      else if (currentWorkout && (
-        trimmed.includes('sets') || 
-        trimmed.includes('reps') ||
-        trimmed.includes('minutes') ||
-        /^\-/.test(trimmed) ||
-        /^\d+\./.test(trimmed) ||
-        /^•/.test(trimmed) ||
-        trimmed.includes(':')
-      )) {
-        let exerciseName = '';
-        let sets = '';
-        let reps = '';
-        let rest = '';
-        
-        // Parse different formats
-        if (trimmed.includes(':')) {
-          const [name, details] = trimmed.split(':').map(s => s.trim());
-          exerciseName = name.replace(/^[\-\d\.•]\s*/, '');
-          
-          // Extract sets, reps, and rest from details
-          const setsMatch = details.match(/(\d+)\s*sets?/i);
-          const repsMatch = details.match(/(\d+(?:-\d+)?)\s*reps?/i);
-          const restMatch = details.match(/(\d+(?:-\d+)?)\s*(?:seconds?|mins?)/i);
-          
-          sets = setsMatch ? setsMatch[1] + ' sets' : '';
-          reps = repsMatch ? repsMatch[1] + ' reps' : '';
-          rest = restMatch ? restMatch[0] : '';
-          
-          // If no structured format found, use the whole details as sets
-          if (!setsMatch && !repsMatch) {
-            sets = details;
-          }
-        } else {
-          // Handle bullet point or numbered format
-          exerciseName = trimmed.replace(/^[\-\d\.•]\s*/, '');
-        }
-        
-        if (exerciseName) {
-          currentWorkout.exercises.push({
-            name: exerciseName,
-            sets: sets || 'As described',
-            reps,
-            rest
-          });
-        }
-      }
-      // Rest/note lines
-      else if (currentWorkout && (
-        trimmed.toLowerCase().includes('rest') ||
-        trimmed.toLowerCase().includes('note') ||
-        trimmed.toLowerCase().includes('tip')
-      )) {
-        currentWorkout.notes = (currentWorkout.notes || '') + (currentWorkout.notes ? ' ' : '') + trimmed;
-      }
-    });
-    
-    // Don't forget the last workout
-    if (currentWorkout) {
-      workouts.push(currentWorkout);
-    }
-    
-    return workouts;
-  };
-
-  // Enhanced nutrition plan parsing
-  const parseNutritionPlan = (nutritionText: string): NutritionData => {
-    if (typeof nutritionText !== 'string') {
-      return { meals: [], tips: [] };
-    }
-
-    const lines = nutritionText.split('\n').filter(line => line.trim());
-    const meals: MealPlan[] = [];
-    const tips: string[] = [];
-    let currentMeal: MealPlan | null = null;
-    let hydration = '';
-
-    lines.forEach(line => {
-      const trimmed = line.trim();
-      
-      // Enhanced meal detection
-      if (
-        /^(\*\*|##)?(breakfast|lunch|dinner|snack)/i.test(trimmed) ||
-        trimmed.toLowerCase().includes('meal') ||
-        (trimmed.includes(':') && /breakfast|lunch|dinner|snack|morning|afternoon|evening/i.test(trimmed))
-      ) {
-        // Save previous meal
-        if (currentMeal) {
-          meals.push(currentMeal);
-        }
-        
-        // Clean meal name
-        const mealName = trimmed
-          .replace(/^\*\*|\*\*$|^##|##$/g, '')
-          .replace(/[:]/g, '')
-          .replace(/^\d+\.\s*/, '')
-          .trim();
-        
-        currentMeal = {
-          name: mealName,
-          foods: [],
-          portions: ''
-        };
-      }
-      // Food items and portions
-      else if (currentMeal && (
-        trimmed.startsWith('-') ||
-        trimmed.startsWith('•') ||
-        /\d+\s*(oz|cup|tbsp|tsp|slice|piece)/i.test(trimmed) ||
-        /^\d+\./.test(trimmed)
-      )) {
-        const foodItem = trimmed
-          .replace(/^[\-•\d\.]\s*/, '')
-          .trim();
-        
-        if (foodItem) {
-          currentMeal.foods.push(foodItem);
-        }
-      }
-      // Tips and hydration
-      else if (
-        trimmed.toLowerCase().includes('tip') ||
-        trimmed.toLowerCase().includes('hydration') ||
-        trimmed.toLowerCase().includes('water') ||
-        trimmed.toLowerCase().includes('drink')
-      ) {
-        if (trimmed.toLowerCase().includes('hydration') || trimmed.toLowerCase().includes('water')) {
-          hydration = trimmed;
-        } else {
-          tips.push(trimmed.replace(/^\*\*|\*\*$/g, ''));
-        }
-      }
-      // General nutritional advice
-      else if (
-        trimmed.length > 10 && 
-        !currentMeal &&
-        (trimmed.toLowerCase().includes('calories') ||
-         trimmed.toLowerCase().includes('protein') ||
-         trimmed.toLowerCase().includes('balance') ||
-         trimmed.toLowerCase().includes('avoid'))
-      ) {
-        tips.push(trimmed);
-      }
-    });
-    
-    // Don't forget the last meal
-    if (currentMeal) {
-      meals.push(currentMeal);
-    }
-    
-    return { meals, tips, hydration };
-  };
-
   const getRatingFromGoals = (goals: string): number => {
     // Simple heuristic to assign a rating based on goal complexity and specificity
     if (!goals) return 5;
@@ -552,8 +356,8 @@ Remember: Consistency beats perfection!
           <p className="text-gray-600">Get personalized coaching plans and track your progress over time.</p>
         </div>
 
-        {/* Generate New Plan Button */}
-        <div className="text-center">
+        {/* Generate New Plan / Track Progress Buttons */}
+        <div className="flex flex-wrap items-center justify-center gap-3">
           <button
             onClick={bodyCoachModal.open}
             className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-8 py-4 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all transform hover:scale-105 inline-flex items-center gap-3"
@@ -561,6 +365,13 @@ Remember: Consistency beats perfection!
             <Plus className="w-6 h-6" />
             Generate New Plan
           </button>
+          <button
+            onClick={progressModal.open}
+            className="border-2 border-indigo-200 text-indigo-700 px-8 py-4 rounded-xl font-semibold hover:bg-indigo-50 transition-all inline-flex items-center gap-3"
+          >
+            <Ruler className="w-6 h-6" />
+            Track Progress
+          </button>
         </div>
 
         {/* Filter Controls - Only show if there are plans */}
@@ -756,8 +567,13 @@ Remember: Consistency beats perfection!
             {filteredPlans.map((plan) => {
               const rating = getRatingFromGoals(plan.preferences?.goals || '');
               const expanded = expandedSections[plan.id] || { workout: false, nutrition: false };
-              const workouts = parseWorkoutPlan(plan.workout_plan);
-              const nutritionData = parseNutritionPlan(plan.nutrition_advice);
+              // Plans saved before structured analysis existed only have the text preview
+              const analysis = plan.body_coach_report?.analysis;
+              const workouts = analysis?.workout.days ?? [];
+              const nutritionData = analysis?.nutrition ?? { overview: '', meals: [], tips: [] };
+              const adherence = workouts.length > 0
+                ? calculateAdherence(plan.created_at, workouts.length, plan.workout_sessions || [])
+                : null;
               
               return (
                 <div
@@ -779,6 +595,17 @@ Remember: Consistency beats perfection!
                     </div>
                     
                     <div className="flex items-center gap-3">
+                      {adherence && (
+                        <button
+                          onClick={() => setLoggingPlanId(plan.id)}
+                          className="px-3 py-1 text-sm rounded-full border border-purple-200 bg-purple-50 text-purple-700 hover:bg-purple-100 transition-colors flex items-center gap-2"
+                          title="Log a workout for this plan"
+                        >
+                          <ClipboardCheck className="w-4 h-4" />
+                          {adherence.percent}% done
+                        </button>
+                      )}
+
                       <span className={`px-3 py-1 text-sm rounded-full border flex items-center gap-2 ${getRatingColor(rating)}`}>
                         <Target className="w-4 h-4" />
                         {rating}/10 {getRatingLabel(rating)}
@@ -893,7 +720,10 @@ Remember: Consistency beats perfection!
                                   <div className="w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center text-white font-bold text-sm">
                                     {index + 1}
                                   </div>
-                                  <h6 className="text-lg font-bold text-purple-900">{workout.day}</h6>
+                                  <div>
+                                    <h6 className="text-lg font-bold text-purple-900">{workout.day}</h6>
+                                    <p className="text-xs text-purple-700">{workout.focus}</p>
+                                  </div>
                                 </div>
                                 
                                 <div className="space-y-3">
@@ -918,7 +748,7 @@ Remember: Consistency beats perfection!
                                       </div>
                                       <div className="text-right">
                                         <span className="inline-flex items-center px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded-full">
-                                          {exercise.sets}
+                                          {exercise.sets} sets
                                         </span>
                                       </div>
                                     </div>
@@ -1023,15 +853,12 @@ Remember: Consistency beats perfection!
                                     {meal.foods.map((food, idx) => (
                                       <div key={idx} className="flex items-start gap-3 p-2 bg-orange-50 rounded">
                                         <div className="w-1.5 h-1.5 bg-orange-600 rounded-full mt-2 flex-shrink-0"></div>
-                                        <span className="text-orange-800 text-sm leading-relaxed">{food}</span>
+                                        <span className="text-orange-800 text-sm leading-relaxed">
+                                          {food.name} <span className="text-orange-600">- {food.portion}</span>
+                                        </span>
                                       </div>
                                     ))}
                                   </div>
-                                  {meal.portions && (
-                                    <div className="mt-3 p-2 bg-orange-100 rounded text-xs text-orange-700">
-                                      <strong>Portions:</strong> {meal.portions}
-                                    </div>
-                                  )}
                                 </div>
                               ))}
                             </div>
@@ -1135,6 +962,31 @@ Remember: Consistency beats perfection!
           onClose={handleNewPlanComplete}
         />
       </Modal>
+
+      {/* Body Progress Modal */}
+      <Modal
+        isOpen={progressModal.isOpen}
+        onClose={progressModal.close}
+        title=""
+        size="lg"
+      >
+        <BodyProgressModal isOpen={progressModal.isOpen} />
+      </Modal>
+
+      {/* Workout Log Modal */}
+      <Modal
+        isOpen={loggingPlan !== null}
+        onClose={handleWorkoutLogClose}
+        title="Workout Log"
+        size="lg"
+      >
+        {loggingPlan && (
+          <WorkoutLogModal
+            plan={loggingPlan}
+            onPlanUpdated={handlePlanUpdated}
+          />
+        )}
+      </Modal>
     </>
   );
 }
\ No newline at end of file
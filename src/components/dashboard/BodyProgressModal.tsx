@@ -0,0 +1,510 @@
+import { useState, useEffect } from 'react';
+import { Ruler, Camera, Plus, Trash2, Loader, AlertCircle, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { supabase, requireAuth, BodyFeedback, BodyMeasurement, MeasurementMetric, MeasurementUnit } from '../../lib/supabase';
+import { getSignedUrls } from '../../lib/storage';
+import { format } from 'date-fns';
+
+interface BodyProgressModalProps {
+  isOpen: boolean;
+}
+
+type ProgressPhoto = Pick<BodyFeedback, 'id' | 'created_at' | 'front_image_url' | 'back_image_url'>;
+
+const METRICS: Record<MeasurementMetric, { label: string; units: MeasurementUnit[] }> = {
+  weight: { label: 'Weight', units: ['kg', 'lbs'] },
+  waist: { label: 'Waist', units: ['cm', 'in'] },
+  hips: { label: 'Hips', units: ['cm', 'in'] },
+  chest: { label: 'Chest', units: ['cm', 'in'] },
+  arm: { label: 'Arm', units: ['cm', 'in'] },
+  thigh: { label: 'Thigh', units: ['cm', 'in'] },
+  body_fat: { label: 'Body Fat', units: ['%'] },
+  height: { label: 'Height', units: ['cm', 'in', 'ft'] },
+};
+
+// Factors to a base unit per dimension (kg for mass, cm for length)
+const UNIT_FACTORS: Partial<Record<MeasurementUnit, number>> = {
+  kg: 1,
+  lbs: 0.45359237,
+  cm: 1,
+  in: 2.54,
+  ft: 30.48,
+};
+
+// Entries logged in different units are shown in the unit of the latest entry
+const convert = (value: number, from: MeasurementUnit, to: MeasurementUnit): number => {
+  const fromFactor = UNIT_FACTORS[from];
+  const toFactor = UNIT_FACTORS[to];
+  if (from === to || !fromFactor || !toFactor) return value;
+  return Math.round((value * fromFactor / toFactor) * 10) / 10;
+};
+
+interface MeasurementTooltipProps {
+  active?: boolean;
+  payload?: Array<{
+    value: number;
+  }>;
+  label?: string;
+  unit: MeasurementUnit;
+}
+
+function MeasurementTooltip({ active, payload, label, unit }: MeasurementTooltipProps) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
+      <div className="space-y-1">
+        <div className="font-semibold text-gray-900">
+          {label}
+        </div>
+        <div className="text-sm text-gray-600">
+          {payload[0].value} {unit}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function BodyProgressModal({ isOpen }: BodyProgressModalProps) {
+  const [activeTab, setActiveTab] = useState<'measurements' | 'photos'>('measurements');
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedMetric, setSelectedMetric] = useState<MeasurementMetric>('weight');
+  const [newValue, setNewValue] = useState('');
+  const [newUnit, setNewUnit] = useState<MeasurementUnit>('kg');
+  const [newDate, setNewDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>('');
+  const [photoSide, setPhotoSide] = useState<'front' | 'back'>('front');
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchProgress();
+    }
+  }, [isOpen]);
+
+  const fetchProgress = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const currentUser = await requireAuth();
+
+      const [measurementsResult, photosResult] = await Promise.all([
+        supabase
+          .from('body_measurements')
+          .select('*')
+          .eq('user_id', currentUser.id)
+          .order('measured_on', { ascending: true })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('body_feedback')
+          .select('id, created_at, front_image_url, back_image_url')
+          .eq('user_id', currentUser.id)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (measurementsResult.error) {
+        throw new Error(`Failed to fetch measurements: ${measurementsResult.error.message}`);
+      }
+      if (photosResult.error) {
+        throw new Error(`Failed to fetch progress photos: ${photosResult.error.message}`);
+      }
+
+      const photoData = photosResult.data || [];
+      setMeasurements(measurementsResult.data || []);
+      setPhotos(photoData);
+      setPhotoUrls(await getSignedUrls(
+        'body-analysis',
+        photoData.flatMap(photo => [photo.front_image_url, photo.back_image_url])
+      ));
+
+      // Default comparison: first analysis against the latest one
+      if (photoData.length > 0) {
+        setBeforeId(photoData[0].id);
+        setAfterId(photoData[photoData.length - 1].id);
+      }
+    } catch (err) {
+      console.error('Error fetching body progress:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load progress');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectMetric = (metric: MeasurementMetric) => {
+    setSelectedMetric(metric);
+    const latest = [...measurements].reverse().find(m => m.metric === metric);
+    setNewUnit(latest?.unit ?? METRICS[metric].units[0]);
+  };
+
+  const addMeasurement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(newValue);
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Please enter a positive number');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const currentUser = await requireAuth();
+
+      const { data, error: insertError } = await supabase
+        .from('body_measurements')
+        .insert([{
+          user_id: currentUser.id,
+          metric: selectedMetric,
+          value,
+          unit: newUnit,
+          measured_on: newDate,
+        }])
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Failed to save measurement: ${insertError.message}`);
+      }
+
+      setMeasurements(prev => [...prev, data].sort((a, b) =>
+        a.measured_on.localeCompare(b.measured_on) || a.created_at.localeCompare(b.created_at)
+      ));
+      setNewValue('');
+    } catch (err) {
+      console.error('Error adding measurement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save measurement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteMeasurement = async (measurementId: string) => {
+    try {
+      const currentUser = await requireAuth();
+      const { error: deleteError } = await supabase
+        .from('body_measurements')
+        .delete()
+        .eq('id', measurementId)
+        .eq('user_id', currentUser.id); // Extra security check
+
+      if (deleteError) throw deleteError;
+
+      setMeasurements(prev => prev.filter(m => m.id !== measurementId));
+    } catch (err) {
+      console.error('Error deleting measurement:', err);
+      setError('Failed to delete measurement. Please try again.');
+    }
+  };
+
+  const metricEntries = measurements.filter(m => m.metric === selectedMetric);
+  const displayUnit = metricEntries.length > 0 ? metricEntries[metricEntries.length - 1].unit : newUnit;
+  const chartData = metricEntries.map(m => ({
+    date: format(new Date(`${m.measured_on}T00:00:00`), 'MMM dd'),
+    value: convert(Number(m.value), m.unit, displayUnit),
+  }));
+
+  const getChange = () => {
+    if (chartData.length < 2) return null;
+    const diff = Math.round((chartData[chartData.length - 1].value - chartData[0].value) * 10) / 10;
+    if (diff === 0) return { icon: Minus, color: 'text-gray-500', text: 'No change' };
+    return {
+      icon: diff > 0 ? ArrowUp : ArrowDown,
+      color: 'text-indigo-600',
+      text: `${diff > 0 ? '+' : ''}${diff} ${displayUnit}`,
+    };
+  };
+
+  const change = getChange();
+  const beforePhoto = photos.find(p => p.id === beforeId);
+  const afterPhoto = photos.find(p => p.id === afterId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="text-6xl mb-4">📏</div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Body Progress</h2>
+        <p className="text-gray-600">Track your measurements and compare progress photos over time.</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-500" />
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="flex bg-gray-100 rounded-xl p-1" role="tablist">
+        {([
+          { id: 'measurements', label: 'Measurements', icon: Ruler },
+          { id: 'photos', label: 'Photos', icon: Camera },
+        ] as const).map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            role="tab"
+            aria-selected={activeTab === tab.id}
+            className={`flex-1 py-2 px-4 text-sm font-medium rounded-lg transition-all inline-flex items-center justify-center gap-2 ${
+              activeTab === tab.id
+                ? 'bg-white text-indigo-700 shadow-sm'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            <tab.icon className="w-4 h-4" />
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'measurements' ? (
+        <div className="space-y-6">
+          {/* Metric selection */}
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(METRICS) as MeasurementMetric[]).map(metric => (
+              <button
+                key={metric}
+                onClick={() => selectMetric(metric)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  selectedMetric === metric
+                    ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {METRICS[metric].label}
+              </button>
+            ))}
+          </div>
+
+          {/* Add measurement */}
+          <form onSubmit={addMeasurement} className="flex flex-wrap items-end gap-3 p-4 bg-gray-50 rounded-xl">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{METRICS[selectedMetric].label}</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={newValue}
+                onChange={(e) => setNewValue(e.target.value)}
+                placeholder="0.0"
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            </div>
+            <select
+              value={newUnit}
+              onChange={(e) => setNewUnit(e.target.value as MeasurementUnit)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {METRICS[selectedMetric].units.map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={newDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setNewDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={saving || !newValue}
+              className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-4 py-2 rounded-lg font-medium hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 transition-all inline-flex items-center gap-2"
+            >
+              {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add
+            </button>
+          </form>
+
+          {chartData.length === 0 ? (
+            <div className="text-center py-12" role="status">
+              <div className="text-5xl mb-3">📊</div>
+              <p className="text-gray-500">No {METRICS[selectedMetric].label.toLowerCase()} entries yet. Add one above to start your timeline.</p>
+            </div>
+          ) : (
+            <>
+              {/* Chart */}
+              <div
+                className="h-64 bg-gray-50 rounded-xl p-2 sm:p-4"
+                role="img"
+                aria-label={`${METRICS[selectedMetric].label} over time`}
+              >
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={chartData}
+                    margin={{ top: 20, right: 40, bottom: 20, left: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+                    <XAxis
+                      dataKey="date"
+                      stroke="#6b7280"
+                      fontSize={12}
+                      tick={{ fill: '#6b7280' }}
+                      axisLine={{ stroke: '#d1d5db' }}
+                    />
+                    <YAxis
+                      stroke="#6b7280"
+                      fontSize={12}
+                      domain={['auto', 'auto']}
+                      tick={{ fill: '#6b7280' }}
+                      axisLine={{ stroke: '#d1d5db' }}
+                    />
+                    <Tooltip content={<MeasurementTooltip unit={displayUnit} />} />
+                    <Line
+                      type="monotone"
+                      dataKey="value"
+                      stroke="#4f46e5"
+                      strokeWidth={3}
+                      dot={{ r: 5, fill: '#4f46e5', stroke: '#ffffff', strokeWidth: 2 }}
+                      activeDot={{ r: 7, stroke: '#4f46e5', strokeWidth: 3, fill: '#ffffff' }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Summary Stats */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center p-4 bg-indigo-50 rounded-xl">
+                  <p className="text-2xl font-bold text-indigo-600">
+                    {chartData[chartData.length - 1].value}
+                    <span className="text-sm font-medium ml-1">{displayUnit}</span>
+                  </p>
+                  <p className="text-sm text-indigo-700 font-medium">Latest</p>
+                </div>
+                <div className="text-center p-4 bg-purple-50 rounded-xl">
+                  <p className={`text-2xl font-bold flex items-center justify-center gap-1 ${change ? change.color : 'text-purple-600'}`}>
+                    {change ? (
+                      <>
+                        <change.icon className="w-5 h-5" />
+                        <span className="text-lg">{change.text}</span>
+                      </>
+                    ) : '—'}
+                  </p>
+                  <p className="text-sm text-purple-700 font-medium">Since First Entry</p>
+                </div>
+                <div className="text-center p-4 bg-blue-50 rounded-xl">
+                  <p className="text-2xl font-bold text-blue-600">{chartData.length}</p>
+                  <p className="text-sm text-blue-700 font-medium">Entries</p>
+                </div>
+              </div>
+
+              {/* Entries */}
+              <div className="space-y-2">
+                {[...metricEntries].reverse().map(measurement => (
+                  <div key={measurement.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {Number(measurement.value)} {measurement.unit}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {format(new Date(`${measurement.measured_on}T00:00:00`), 'PPP')}
+                        {measurement.body_feedback_id && ' · from body coach analysis'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => deleteMeasurement(measurement.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                      title="Delete measurement"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      ) : photos.length === 0 ? (
+        <div className="text-center py-12" role="status">
+          <div className="text-5xl mb-3">📸</div>
+          <p className="text-gray-500">Progress photos appear here after you generate a body coach plan.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Comparison controls */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={beforeId}
+              onChange={(e) => setBeforeId(e.target.value)}
+              aria-label="Before"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {photos.map(photo => (
+                <option key={photo.id} value={photo.id}>{format(new Date(photo.created_at), 'PPP')}</option>
+              ))}
+            </select>
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {(['front', 'back'] as const).map(side => (
+                <button
+                  key={side}
+                  onClick={() => setPhotoSide(side)}
+                  className={`flex-1 py-1 text-sm font-medium rounded-md capitalize transition-all ${
+                    photoSide === side ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600'
+                  }`}
+                >
+                  {side}
+                </button>
+              ))}
+            </div>
+            <select
+              value={afterId}
+              onChange={(e) => setAfterId(e.target.value)}
+              aria-label="After"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {photos.map(photo => (
+                <option key={photo.id} value={photo.id}>{format(new Date(photo.created_at), 'PPP')}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Side-by-side photos */}
+          <div className="grid grid-cols-2 gap-4">
+            {[
+              { label: 'Before', photo: beforePhoto },
+              { label: 'After', photo: afterPhoto },
+            ].map(({ label, photo }) => (
+              <div key={label} className="space-y-2">
+                <p className="text-sm font-semibold text-gray-700">
+                  {label}{photo && ` · ${format(new Date(photo.created_at), 'MMM d, yyyy')}`}
+                </p>
+                {photo ? (
+                  <img
+                    src={photoUrls[photoSide === 'front' ? photo.front_image_url : photo.back_image_url]}
+                    alt={`${label} ${photoSide} view`}
+                    className="w-full aspect-[3/4] object-cover rounded-xl border border-gray-200 bg-gray-100"
+                  />
+                ) : (
+                  <div className="w-full aspect-[3/4] rounded-xl border border-dashed border-gray-300 bg-gray-50" />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
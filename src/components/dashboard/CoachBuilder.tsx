@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { AlertCircle, ArrowLeft, Loader, PenLine, Save } from 'lucide-react';
+import { UserCoach } from '../../lib/supabase';
+import {
+  COACH_CATEGORIES,
+  COACH_LIMITS,
+  COACH_TEMPLATES,
+  CoachDraft,
+  CoachTemplate,
+  getCoachCategory,
+  saveCoach,
+} from '../../lib/coaches';
+import { useAuth } from '../../hooks/useAuth';
+
+interface CoachBuilderProps {
+  coach?: UserCoach; // editing an existing coach
+  coaches: UserCoach[];
+  onSaved: (coach: UserCoach) => void;
+  onCancel: () => void;
+}
+
+const fromTemplate = (template: CoachTemplate): CoachDraft => ({
+  coach_name: template.coach_name,
+  description: template.description,
+  system_prompt: template.system_prompt,
+  initial_message: template.initial_message,
+  category: template.category,
+  template_id: template.id,
+});
+
+const fromCoach = (coach: UserCoach): CoachDraft => ({
+  coach_name: coach.coach_name,
+  description: coach.description,
+  system_prompt: coach.system_prompt,
+  initial_message: coach.initial_message,
+  category: coach.category,
+  template_id: coach.template_id,
+});
+
+const inputClass = 'w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export function CoachBuilder({ coach, coaches, onSaved, onCancel }: CoachBuilderProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<CoachDraft | null>(coach ? fromCoach(coach) : null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Categories held by the user's other coaches
+  const takenCategories = new Set(coaches.filter(c => c.id !== coach?.id).map(c => c.category));
+  const firstFreeCategory = COACH_CATEGORIES.find(category => !takenCategories.has(category.id));
+
+  const update = (changes: Partial<CoachDraft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const handleSave = async () => {
+    if (!user || !draft) return;
+
+    if (!draft.coach_name.trim()) {
+      setError('Give your coach a name.');
+      return;
+    }
+    if (!draft.system_prompt.trim()) {
+      setError('Describe how your coach should behave.');
+      return;
+    }
+    if (!draft.initial_message.trim()) {
+      setError('Write the greeting your coach opens with.');
+      return;
+    }
+    if (takenCategories.has(draft.category)) {
+      setError(`You already have a ${getCoachCategory(draft.category).label.toLowerCase()} coach. Pick another focus.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await saveCoach(user.id, { ...draft, id: coach?.id }));
+    } catch (err) {
+      console.error('Error saving coach:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save coach');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="space-y-4">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to coaches
+        </button>
+
+        <p className="text-sm text-gray-600">Start from a template and make it your own, or write one from scratch.</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {COACH_TEMPLATES.map(template => {
+            const taken = takenCategories.has(template.category);
+            const category = getCoachCategory(template.category);
+            return (
+              <button
+                key={template.id}
+                onClick={() => setDraft(fromTemplate(template))}
+                disabled={taken}
+                className="p-3 border border-gray-200 rounded-xl text-left hover:border-blue-300 hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:border-gray-200"
+                title={taken ? `You already have a ${category.label.toLowerCase()} coach` : undefined}
+              >
+                <p className="font-medium text-gray-900 text-sm">
+                  {category.emoji} {template.coach_name}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{template.description}</p>
+                <p className="text-xs text-gray-400 mt-1">{taken ? 'Already have one' : category.label}</p>
+              </button>
+            );
+          })}
+
+          <button
+            onClick={() => firstFreeCategory && setDraft({
+              coach_name: '',
+              description: '',
+              system_prompt: '',
+              initial_message: '',
+              category: firstFreeCategory.id,
+              template_id: null,
+            })}
+            disabled={!firstFreeCategory}
+            className="p-3 border-2 border-dashed border-gray-300 rounded-xl text-left hover:border-blue-300 hover:bg-blue-50 transition-colors disabled:opacity-50"
+          >
+            <p className="font-medium text-gray-900 text-sm flex items-center gap-1">
+              <PenLine className="w-4 h-4" />
+              From scratch
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {firstFreeCategory ? 'Write your own coach prompt and greeting.' : 'You have a coach for every focus.'}
+            </p>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={draft.coach_name}
+            onChange={(e) => update({ coach_name: e.target.value })}
+            maxLength={COACH_LIMITS.name}
+            placeholder="e.g. Morning Motivator"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Focus</label>
+          <select
+            value={draft.category}
+            onChange={(e) => update({ category: e.target.value })}
+            className={inputClass}
+          >
+            {COACH_CATEGORIES.map(category => (
+              <option key={category.id} value={category.id} disabled={takenCategories.has(category.id)}>
+                {category.emoji} {category.label}{takenCategories.has(category.id) ? ' (already have one)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <input
+          type="text"
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          maxLength={COACH_LIMITS.description}
+          placeholder="Optional - a line to remind you what this coach is for"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">How your coach behaves</label>
+        <textarea
+          value={draft.system_prompt}
+          onChange={(e) => update({ system_prompt: e.target.value })}
+          maxLength={COACH_LIMITS.prompt}
+          rows={5}
+          placeholder="Who is this coach, what do they help with, and how do they talk?"
+          className={`${inputClass} resize-none`}
+        />
+        <p className="text-xs text-gray-400 mt-1 text-right">
+          {draft.system_prompt.length}/{COACH_LIMITS.prompt}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Greeting</label>
+        <textarea
+          value={draft.initial_message}
+          onChange={(e) => update({ initial_message: e.target.value })}
+          maxLength={COACH_LIMITS.greeting}
+          rows={2}
+          placeholder="The first thing your coach says"
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          onClick={() => {
+            setError(null);
+            if (coach) onCancel();
+            else setDraft(null);
+          }}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          {coach ? 'Cancel' : 'Back'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 transition-all"
+        >
+          {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {coach ? 'Save Changes' : 'Create Coach'}
+        </button>
+      </div>
+    </div>
+  );
+}
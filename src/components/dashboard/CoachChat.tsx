@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, ArrowLeft, Loader, Pencil, RotateCcw, Send } from 'lucide-react';
+import { CoachMessage, UserCoach } from '../../lib/supabase';
+import { RiskLevel } from '../../lib/safety';
+import {
+  COACH_LIMITS,
+  clearCoachConversation,
+  fetchCoachMessages,
+  getCoachCategory,
+  streamCoachReply,
+} from '../../lib/coaches';
+import { CrisisResources } from './CrisisResources';
+
+interface CoachChatProps {
+  coach: UserCoach;
+  onBack: () => void;
+  onEdit: () => void;
+}
+
+// Messages shown before the server has stored them get a local id
+const localMessage = (coach: UserCoach, role: CoachMessage['role'], content: string): CoachMessage => ({
+  id: `local-${role}-${Date.now()}`,
+  user_id: coach.user_id,
+  coach_id: coach.id,
+  role,
+  content,
+  created_at: new Date().toISOString(),
+});
+
+export function CoachChat({ coach, onBack, onEdit }: CoachChatProps) {
+  const [messages, setMessages] = useState<CoachMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [input, setInput] = useState('');
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [safetyLevel, setSafetyLevel] = useState<RiskLevel>('none');
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchCoachMessages(coach.id)
+      .then(rows => {
+        if (!cancelled) setMessages(rows);
+      })
+      .catch(err => {
+        console.error('Error loading conversation:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load conversation');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [coach.id]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, streaming]);
+
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || streaming !== null) return;
+
+    setInput('');
+    setError(null);
+    setMessages(prev => [...prev, localMessage(coach, 'user', text)]);
+    setStreaming('');
+
+    let reply = '';
+    try {
+      const { safetyLevel: level } = await streamCoachReply(coach.id, text, chunk => {
+        reply += chunk;
+        setStreaming(reply);
+      });
+      setSafetyLevel(level);
+      setMessages(prev => [...prev, localMessage(coach, 'assistant', reply.trim())]);
+    } catch (err) {
+      console.error('Error talking to coach:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reach your coach');
+      // Keep whatever arrived before the stream broke; the server stores it too
+      if (reply.trim()) {
+        setMessages(prev => [...prev, localMessage(coach, 'assistant', reply.trim())]);
+      }
+    } finally {
+      setStreaming(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Clear your conversation with ${coach.coach_name}? This can't be undone.`)) return;
+
+    try {
+      await clearCoachConversation(coach.id);
+      setMessages([]);
+      setSafetyLevel('none');
+    } catch (err) {
+      console.error('Error clearing conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear conversation');
+    }
+  };
+
+  const category = getCoachCategory(coach.category);
+
+  return (
+    <div className="flex flex-col h-[70vh]">
+      <div className="flex items-center justify-between pb-3 border-b border-gray-200">
+        <div className="flex items-center gap-2 min-w-0">
+          <button
+            onClick={onBack}
+            className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to coaches"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <span className="text-2xl">{category.emoji}</span>
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900 truncate">{coach.coach_name}</p>
+            <p className="text-xs text-gray-500">{category.label} coach</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onEdit}
+            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Edit coach"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={messages.length === 0 || streaming !== null}
+            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Clear conversation"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-4 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader className="w-6 h-6 text-blue-500 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {/* The greeting isn't stored; the edge function replays it for the first turn */}
+            <ChatBubble role="assistant" content={coach.initial_message} />
+            {messages.map(message => (
+              <ChatBubble key={message.id} role={message.role} content={message.content} />
+            ))}
+            {streaming !== null && (
+              streaming ? (
+                <ChatBubble role="assistant" content={streaming} />
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Loader className="w-4 h-4 animate-spin" />
+                  {coach.coach_name} is thinking...
+                </div>
+              )
+            )}
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {safetyLevel !== 'none' && (
+        <div className="pb-3">
+          <CrisisResources level={safetyLevel} />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 mb-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 pt-3 border-t border-gray-200">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          maxLength={COACH_LIMITS.message}
+          rows={2}
+          placeholder={`Message ${coach.coach_name}...`}
+          className="flex-1 py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm resize-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!input.trim() || streaming !== null || loading}
+          className="p-3 text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 transition-all"
+          title="Send"
+        >
+          {streaming !== null ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ChatBubble({ role, content }: Pick<CoachMessage, 'role' | 'content'>) {
+  return (
+    <div className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div
+        className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap ${
+          role === 'user'
+            ? 'bg-blue-600 text-white rounded-br-sm'
+            : 'bg-gray-100 text-gray-900 rounded-bl-sm'
+        }`}
+      >
+        {content}
+      </div>
+    </div>
+  );
+}
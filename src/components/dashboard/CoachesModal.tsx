@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader, MessageCircle, Pencil, Plus, Trash2 } from 'lucide-react';
+import { UserCoach } from '../../lib/supabase';
+import { deleteCoach, fetchCoaches, getCoachCategory } from '../../lib/coaches';
+import { CoachBuilder } from './CoachBuilder';
+import { CoachChat } from './CoachChat';
+
+interface CoachesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  coachId?: string; // open straight into this coach's conversation
+}
+
+type View =
+  | { kind: 'list' }
+  | { kind: 'build'; coach?: UserCoach }
+  | { kind: 'chat'; coach: UserCoach };
+
+export function CoachesModal({ isOpen, coachId }: CoachesModalProps) {
+  const [coaches, setCoaches] = useState<UserCoach[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<View>({ kind: 'list' });
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    fetchCoaches()
+      .then(rows => {
+        setCoaches(rows);
+        const coach = coachId && rows.find(c => c.id === coachId);
+        if (coach) setView({ kind: 'chat', coach });
+      })
+      .catch(err => {
+        console.error('Error loading coaches:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load coaches');
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, coachId]);
+
+  const handleSaved = (saved: UserCoach) => {
+    setCoaches(prev => prev.some(c => c.id === saved.id)
+      ? prev.map(c => (c.id === saved.id ? saved : c))
+      : [...prev, saved]);
+    setView({ kind: 'chat', coach: saved });
+  };
+
+  const handleDelete = async (coach: UserCoach) => {
+    if (!confirm(`Delete ${coach.coach_name}? Your conversation with this coach will be deleted too.`)) {
+      return;
+    }
+
+    setDeleting(coach.id);
+    setError(null);
+    try {
+      await deleteCoach(coach.id);
+      setCoaches(prev => prev.filter(c => c.id !== coach.id));
+    } catch (err) {
+      console.error('Error deleting coach:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete coach');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (view.kind === 'build') {
+    return (
+      <CoachBuilder
+        coach={view.coach}
+        coaches={coaches}
+        onSaved={handleSaved}
+        onCancel={() => setView(view.coach ? { kind: 'chat', coach: view.coach } : { kind: 'list' })}
+      />
+    );
+  }
+
+  if (view.kind === 'chat') {
+    return (
+      <CoachChat
+        coach={view.coach}
+        onBack={() => setView({ kind: 'list' })}
+        onEdit={() => setView({ kind: 'build', coach: view.coach })}
+      />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader className="w-8 h-8 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {coaches.length === 0 ? (
+        <div className="text-center py-8">
+          <MessageCircle className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600 font-medium">No coaches yet</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Create a coach for something you're working on, like sleep, stress or fitness.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {coaches.map(coach => {
+            const category = getCoachCategory(coach.category);
+            return (
+              <div
+                key={coach.id}
+                className="flex items-center gap-3 p-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                <button
+                  onClick={() => setView({ kind: 'chat', coach })}
+                  className="flex-1 flex items-center gap-3 text-left min-w-0"
+                >
+                  <span className="text-2xl">{category.emoji}</span>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 text-sm">{coach.coach_name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {category.label}
+                      {coach.description && ` · ${coach.description}`}
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setView({ kind: 'build', coach })}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Edit coach"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(coach)}
+                  disabled={deleting === coach.id}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Delete coach"
+                >
+                  {deleting === coach.id ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={() => setView({ kind: 'build' })}
+        className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-xl hover:from-blue-700 hover:to-green-700 transition-all"
+      >
+        <Plus className="w-4 h-4" />
+        New Coach
+      </button>
+    </div>
+  );
+}
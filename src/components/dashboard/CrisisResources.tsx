@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { LifeBuoy, Phone, ShieldCheck } from 'lucide-react';
+import { CRISIS_REGIONS, RiskLevel, detectCrisisRegion, getCrisisRegion } from '../../lib/safety';
+
+interface CrisisResourcesProps {
+  level?: RiskLevel;
+  message?: string;
+}
+
+export function CrisisResources({ level = 'elevated', message }: CrisisResourcesProps) {
+  const [regionCode, setRegionCode] = useState(detectCrisisRegion);
+  const region = getCrisisRegion(regionCode);
+
+  return (
+    <div className="p-4 bg-rose-50 border border-rose-200 rounded-xl space-y-3">
+      <div className="flex items-start gap-3">
+        <LifeBuoy className="w-5 h-5 text-rose-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-medium text-rose-900">You don't have to go through this alone</p>
+          <p className="text-sm text-rose-800 mt-1">
+            {message || 'Some of what you wrote sounds really hard. Talking to someone can help, and these services are free and confidential.'}
+          </p>
+        </div>
+      </div>
+
+      {level === 'high' && region.emergency && (
+        <a
+          href={`tel:${region.emergency}`}
+          className="flex items-center gap-2 p-3 bg-white border border-rose-300 rounded-lg text-sm font-medium text-rose-800 hover:bg-rose-100 transition-colors"
+        >
+          <Phone className="w-4 h-4" />
+          If you are in immediate danger, call {region.emergency}
+        </a>
+      )}
+
+      <div className="space-y-2">
+        {region.lines.map(line => (
+          <a
+            key={`${line.name}-${line.contact}`}
+            href={line.href}
+            target={line.href?.startsWith('http') ? '_blank' : undefined}
+            rel={line.href?.startsWith('http') ? 'noopener noreferrer' : undefined}
+            className="flex items-center justify-between gap-3 p-3 bg-white border border-rose-100 rounded-lg hover:bg-rose-100 transition-colors"
+          >
+            <span className="text-sm font-medium text-gray-900">{line.name}</span>
+            <span className="text-sm text-rose-700 whitespace-nowrap">{line.contact}</span>
+          </a>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Showing services for
+          <select
+            value={regionCode}
+            onChange={(e) => setRegionCode(e.target.value)}
+            className="py-1 px-2 border border-gray-300 rounded-md text-xs bg-white"
+          >
+            {CRISIS_REGIONS.map(r => (
+              <option key={r.code} value={r.code}>{r.label}</option>
+            ))}
+          </select>
+        </label>
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <ShieldCheck className="w-3.5 h-3.5" />
+          Nothing you write is shared with anyone
+        </span>
+      </div>
+    </div>
+  );
+}
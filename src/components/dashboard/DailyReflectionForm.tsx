@@ -1,7 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Mic, MicOff, Loader, AlertCircle, Volume2, X } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { Send, Mic, MicOff, Loader, AlertCircle, Volume2, X, Sparkles, Plus, Lightbulb, Settings } from 'lucide-react';
+import { supabase, JournalTemplate } from '../../lib/supabase';
+import { fetchTagStats } from '../../lib/tags';
+import { analyzeReflection } from '../../lib/reflections';
+import { PendingRecording, saveRecordings } from '../../lib/recordings';
+import { audioExtension, formatPlaybackTime, pickRecordingMimeType } from '../../lib/audio';
+import {
+  BUILT_IN_TEMPLATES,
+  DAILY_PROMPT_TEMPLATE_ID,
+  TemplateDefinition,
+  buildSections,
+  composeContent,
+  dailyPromptTemplate,
+  fetchCustomTemplates,
+  fromJournalTemplate,
+  getDailyPrompt,
+  getSuggestedTemplate
+} from '../../lib/journalTemplates';
 import { useAuth } from '../../hooks/useAuth';
+import { useUserProfile } from '../../hooks/useUserProfile';
+import { useModal } from '../../hooks/useModal';
+import { TagInput } from '../ui/TagInput';
+import { Modal } from '../ui/Modal';
+import { JournalTemplatesModal } from './JournalTemplatesModal';
+import { CrisisResources } from './CrisisResources';
+import { RiskLevel, checkReflectionSafety } from '../../lib/safety';
 
 interface DailyReflectionFormProps {
   onReflectionAdded: () => void;
@@ -9,7 +32,11 @@ interface DailyReflectionFormProps {
 
 export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormProps) {
   const { user } = useAuth();
-  const [content, setContent] = useState('');
+  const { profile } = useUserProfile();
+  const [content, setContent] = useState(''); // free-write text
+  const [activeTemplate, setActiveTemplate] = useState<TemplateDefinition | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [customTemplates, setCustomTemplates] = useState<JournalTemplate[]>([]);
   const [moodScore, setMoodScore] = useState(5);
   const [isRecording, setIsRecording] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -18,10 +45,29 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
   const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [voiceGenerationError, setVoiceGenerationError] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
+  const [isSuggestingTags, setIsSuggestingTags] = useState(false);
+  const [tagSuggestionError, setTagSuggestionError] = useState<string | null>(null);
+  const [pendingRecordings, setPendingRecordings] = useState<PendingRecording[]>([]);
   
+  const templatesModal = useModal();
+  const [safetyLevel, setSafetyLevel] = useState<RiskLevel>('none');
+
+  const goals = profile?.goals ?? null;
+  const dailyPrompt = getDailyPrompt(goals);
+  const suggestedTemplate = getSuggestedTemplate(goals);
+
+  // Templated entries are saved with both the structured answers and the same
+  // answers as plain text, which is what every other feature reads
+  const templateSections = activeTemplate ? buildSections(activeTemplate, answers) : null;
+  const reflectionText = templateSections ? composeContent(templateSections) : content;
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const recordingStartedAtRef = useRef(0);
 
   // Cleanup media stream on unmount
   useEffect(() => {
@@ -32,6 +78,34 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
     };
   }, []);
 
+  // Known tags feed the autocomplete; a failure here just means no suggestions
+  useEffect(() => {
+    if (!user) return;
+    fetchTagStats()
+      .then(stats => setKnownTags(stats.map(stat => stat.tag)))
+      .catch(error => console.error('Error loading tags:', error));
+  }, [user]);
+
+  const loadCustomTemplates = () => {
+    fetchCustomTemplates()
+      .then(setCustomTemplates)
+      .catch(error => console.error('Error loading templates:', error));
+  };
+
+  useEffect(() => {
+    if (user) loadCustomTemplates();
+  }, [user]);
+
+  const selectTemplate = (template: TemplateDefinition | null) => {
+    const hasAnswers = Object.values(answers).some(answer => answer.trim());
+    if (hasAnswers && template?.id !== activeTemplate?.id &&
+        !confirm('Switching templates clears the answers you have written so far. Continue?')) {
+      return;
+    }
+    setActiveTemplate(template);
+    setAnswers({});
+  };
+
   // Check authentication before any operation
   const checkAuthentication = () => {
     if (!user) {
@@ -56,9 +130,8 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
       });
       
       streamRef.current = stream;
-      mediaRecorderRef.current = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
+      const mimeType = pickRecordingMimeType();
+      mediaRecorderRef.current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       audioChunksRef.current = [];
 
       mediaRecorderRef.current.ondataavailable = (event) => {
@@ -68,10 +141,11 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
       };
 
       mediaRecorderRef.current.onstop = async () => {
-        const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(audioChunksRef.current, { type: mediaRecorderRef.current?.mimeType || 'audio/webm' });
+        const duration = (Date.now() - recordingStartedAtRef.current) / 1000;
         
         if (blob.size > 0) {
-          await transcribeAudio(blob);
+          await transcribeAudio(blob, duration);
         } else {
           setTranscriptionError('No audio recorded. Please try again.');
         }
@@ -89,6 +163,7 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
       };
 
       mediaRecorderRef.current.start(1000);
+      recordingStartedAtRef.current = Date.now();
       setIsRecording(true);
     } catch (error) {
       console.error('Error starting recording:', error);
@@ -111,7 +186,7 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
     }
   };
 
-  const transcribeAudio = async (audioBlob: Blob) => {
+  const transcribeAudio = async (audioBlob: Blob, recordedSeconds: number) => {
     if (!audioBlob || audioBlob.size === 0) {
       setTranscriptionError('No audio to transcribe.');
       return;
@@ -131,7 +206,10 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
       }
 
       const formData = new FormData();
-      formData.append('audio', audioBlob, 'reflection.webm');
+      formData.append('audio', audioBlob, `reflection.${audioExtension(audioBlob.type)}`);
+      if (profile?.preferred_language) {
+        formData.append('language', profile.preferred_language);
+      }
 
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transcribe-audio`, {
         method: 'POST',
@@ -146,7 +224,7 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const { text } = await response.json();
+      const { text, words, duration } = await response.json();
       
       if (text && text.trim()) {
         setContent(prev => {
@@ -156,6 +234,17 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
           }
           return prev + '\n\n' + newText;
         });
+
+        // Kept in memory until the reflection is saved; discarded otherwise
+        if (profile?.keep_voice_recordings) {
+          setPendingRecordings(prev => [...prev, {
+            key: `${Date.now()}`,
+            blob: audioBlob,
+            transcript: text.trim(),
+            words: words || [],
+            duration: Math.round(Math.max(recordedSeconds, duration || 0) * 100) / 100,
+          }]);
+        }
       } else {
         setTranscriptionError('No speech detected. Please try again.');
       }
@@ -167,10 +256,17 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
     }
   };
 
-  const analyzeSentiment = async (text: string) => {
+  const generateVoice = async (text: string) => {
+    if (!text || !text.trim()) {
+      return null;
+    }
+
+    setIsGeneratingVoice(true);
+    setVoiceGenerationError(null);
+
     try {
       // Check authentication
-      checkAuthentication();
+      const currentUser = checkAuthentication();
       
       // Get current session for authorization
       const { data: sessionData } = await supabase.auth.getSession();
@@ -178,78 +274,86 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
         throw new Error('No active session found. Please sign in again.');
       }
 
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-sentiment`, {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-voice`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${sessionData.session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ text }),
+        body: JSON.stringify({ 
+          text: text.trim(),
+          voice_id: '21m00Tcm4TlvDq8ikWAM' // Rachel's voice ID
+        }),
       });
 
       if (!response.ok) {
-        throw new Error('Sentiment analysis failed');
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || 'Voice generation failed');
       }
 
-      const { sentiment } = await response.json();
-      return sentiment;
+      const { voice_url, duration } = await response.json();
+      console.log('Voice generation completed successfully');
+      return { voice_url: voice_url as string, voice_duration: (duration ?? null) as number | null };
     } catch (error) {
-      console.error('Error analyzing sentiment:', error);
-      return 'neutral';
+      console.error('Error generating voice:', error);
+      setVoiceGenerationError(error instanceof Error ? error.message : 'Voice generation failed');
+      return null; // Don't throw, just return null so reflection can still be saved
+    } finally {
+      setIsGeneratingVoice(false);
     }
   };
 
-  const generateVoice = async (text: string) => {
-    if (!text || !text.trim()) {
-      return null;
-    }
+  const suggestTags = async () => {
+    if (!reflectionText.trim()) return;
 
-    setIsGeneratingVoice(true);
-    setVoiceGenerationError(null);
+    setIsSuggestingTags(true);
+    setTagSuggestionError(null);
 
     try {
-      // Check authentication
-      const currentUser = checkAuthentication();
-      
-      // Get current session for authorization
+      checkAuthentication();
+
       const { data: sessionData } = await supabase.auth.getSession();
       if (!sessionData.session) {
         throw new Error('No active session found. Please sign in again.');
       }
 
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-voice`, {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/suggest-tags`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${sessionData.session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          text: text.trim(),
-          voice_id: '21m00Tcm4TlvDq8ikWAM' // Rachel's voice ID
-        }),
+        body: JSON.stringify({ text: reflectionText.trim() }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || 'Voice generation failed');
+        throw new Error(errorData.error || 'Tag suggestion failed');
       }
 
-      const { voice_url } = await response.json();
-      console.log('Voice generation completed successfully');
-      return voice_url;
+      const { tags: suggested } = await response.json();
+      const fresh = (suggested as string[]).filter(tag => !tags.includes(tag));
+      setSuggestedTags(fresh);
+      if (fresh.length === 0) {
+        setTagSuggestionError('No new tags to suggest.');
+      }
     } catch (error) {
-      console.error('Error generating voice:', error);
-      setVoiceGenerationError(error instanceof Error ? error.message : 'Voice generation failed');
-      return null; // Don't throw, just return null so reflection can still be saved
+      console.error('Error suggesting tags:', error);
+      setTagSuggestionError(error instanceof Error ? error.message : 'Tag suggestion failed');
     } finally {
-      setIsGeneratingVoice(false);
+      setIsSuggestingTags(false);
     }
   };
 
+  const acceptSuggestedTag = (tag: string) => {
+    setSuggestedTags(prev => prev.filter(t => t !== tag));
+    setTags(prev => (prev.includes(tag) ? prev : [...prev, tag]));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!content.trim()) {
-      setSubmitError('Please enter your reflection.');
+    if (!reflectionText.trim()) {
+      setSubmitError(activeTemplate ? 'Please answer at least one section.' : 'Please enter your reflection.');
       return;
     }
 
@@ -269,31 +373,36 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
 
       console.log('Starting reflection submission for user:', currentUser.id);
       
-      // Step 1: Analyze sentiment
-      const sentiment = await analyzeSentiment(content);
+      // Step 1: Analyze sentiment and emotions
+      const analysis = await analyzeReflection(reflectionText, profile?.preferred_language);
       
-      // Step 2: Generate voice (optional - don't fail if it doesn't work)
-      let voice_url = null;
-      if (content.trim().length > 0) {
-        voice_url = await generateVoice(content.trim());
-      }
+      // Step 2: Generate the AI voice reading (optional - don't fail if it doesn't work)
+      const voice = profile?.tts_enabled !== false && reflectionText.trim().length > 0
+        ? await generateVoice(reflectionText.trim())
+        : null;
 
       // Step 3: Save reflection to database with explicit user_id
       console.log('Saving reflection with user_id:', currentUser.id);
       
       const reflectionData = {
         user_id: currentUser.id, // Explicitly include user_id
-        content: content.trim(),
+        content: reflectionText.trim(),
         mood_score: moodScore,
-        sentiment,
-        voice_url,
+        ...analysis,
+        voice_url: voice?.voice_url ?? null,
+        voice_duration: voice?.voice_duration ?? null,
+        tags,
+        template_id: activeTemplate?.id ?? null,
+        sections: templateSections,
       };
 
       console.log('Reflection data to insert:', reflectionData);
 
-      const { error } = await supabase
+      const { data: saved, error } = await supabase
         .from('reflections')
-        .insert([reflectionData]);
+        .insert([reflectionData])
+        .select('id')
+        .single();
 
       if (error) {
         console.error('Database insertion error:', error);
@@ -302,10 +411,29 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
 
       console.log('Reflection saved successfully');
 
+      // Step 4: Attach the user's own recordings. The reflection is saved either way.
+      let recordingError: string | null = null;
+      if (pendingRecordings.length > 0) {
+        try {
+          await saveRecordings(currentUser.id, saved.id, pendingRecordings);
+        } catch (error) {
+          recordingError = error instanceof Error ? error.message : 'Your recordings could not be kept.';
+        }
+      }
+
+      // Runs in the background; support resources appear if the entry is flagged
+      checkReflectionSafety(saved.id).then(risk => setSafetyLevel(risk.level));
+
       // Clear form and notify parent
       setContent('');
+      setAnswers({});
       setMoodScore(5);
-      setSubmitError(null);
+      setKnownTags(prev => Array.from(new Set([...prev, ...tags])));
+      setTags([]);
+      setSuggestedTags([]);
+      setTagSuggestionError(null);
+      setPendingRecordings([]);
+      setSubmitError(recordingError);
       setVoiceGenerationError(null);
       onReflectionAdded();
       
@@ -340,149 +468,312 @@ export function DailyReflectionForm({ onReflectionAdded }: DailyReflectionFormPr
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-gray-50 rounded-xl">
-      <h3 className="font-semibold text-gray-900">Add New Reflection</h3>
+    <>
+      <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-gray-50 rounded-xl">
+        <h3 className="font-semibold text-gray-900">Add New Reflection</h3>
       
-      {/* Mood Slider */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Mood Level: {moodEmojis[moodScore - 1]} {moodLabels[moodScore - 1]}
-        </label>
-        <input
-          type="range"
-          min="1"
-          max="10"
-          value={moodScore}
-          onChange={(e) => setMoodScore(parseInt(e.target.value))}
-          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-          style={{
-            background: `linear-gradient(to right, #ef4444 0%, #f97316 25%, #eab308 50%, #22c55e 75%, #10b981 100%)`
-          }}
-        />
-        <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>1</span>
-          <span>10</span>
+        {/* Mood Slider */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Mood Level: {moodEmojis[moodScore - 1]} {moodLabels[moodScore - 1]}
+          </label>
+          <input
+            type="range"
+            min="1"
+            max="10"
+            value={moodScore}
+            onChange={(e) => setMoodScore(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            style={{
+              background: `linear-gradient(to right, #ef4444 0%, #f97316 25%, #eab308 50%, #22c55e 75%, #10b981 100%)`
+            }}
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>1</span>
+            <span>10</span>
+          </div>
         </div>
-      </div>
 
-      {/* Reflection Text */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Your Reflection
-        </label>
-        <div className="relative">
-          <textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Share your thoughts, feelings, and experiences... Or click the microphone to record your voice!"
-            className="w-full h-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
-            required
-          />
-          
-          {/* Voice Recording Button */}
-          <button
-            type="button"
-            onClick={handleMicClick}
-            disabled={isTranscribing}
-            className={`absolute bottom-2 right-2 p-1.5 rounded-lg transition-all transform hover:scale-105 ${
-              isRecording
-                ? 'bg-red-100 text-red-600 animate-pulse'
-                : isTranscribing
-                ? 'bg-blue-100 text-blue-600'
-                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-            }`}
-            title={isRecording ? 'Stop recording' : isTranscribing ? 'Transcribing...' : 'Start voice recording'}
-          >
-            {isTranscribing ? (
-              <Loader className="w-4 h-4 animate-spin" />
-            ) : isRecording ? (
-              <MicOff className="w-4 h-4" />
-            ) : (
-              <Mic className="w-4 h-4" />
-            )}
-          </button>
+        {/* Template Picker */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Template
+            </label>
+            <button
+              type="button"
+              onClick={templatesModal.open}
+              className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+            >
+              <Settings className="w-3 h-3" />
+              My templates
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {[null, ...BUILT_IN_TEMPLATES, ...customTemplates.map(fromJournalTemplate)].map(template => (
+              <button
+                key={template?.id ?? 'free'}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                title={template?.description}
+                className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                  (activeTemplate?.id ?? null) === (template?.id ?? null)
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                }`}
+              >
+                {template ? template.name : 'Free write'}
+                {template?.id === suggestedTemplate.id && ' ✨'}
+              </button>
+            ))}
+          </div>
         </div>
+
+        {/* Reflection Text */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {activeTemplate ? activeTemplate.name : 'Your Reflection'}
+          </label>
+          {activeTemplate ? (
+            <div className="space-y-3">
+              {activeTemplate.description && activeTemplate.id !== DAILY_PROMPT_TEMPLATE_ID && (
+                <p className="text-xs text-gray-500">{activeTemplate.description}</p>
+              )}
+              {activeTemplate.sections.map(section => (
+                <div key={section.key}>
+                  <label className="block text-sm text-gray-800 mb-1">{section.label}</label>
+                  {section.prompt && (
+                    <p className="text-xs text-gray-500 mb-1">{section.prompt}</p>
+                  )}
+                  <textarea
+                    dir="auto"
+                    value={answers[section.key] || ''}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, [section.key]: e.target.value }))}
+                    placeholder={section.placeholder}
+                    className="w-full h-16 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start gap-2 mb-2 p-2 bg-amber-50 border border-amber-100 rounded-lg">
+                <Lightbulb className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                <p className="flex-1 text-xs text-amber-800">
+                  <span className="font-medium">Today's prompt:</span> {dailyPrompt}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => selectTemplate(dailyPromptTemplate(dailyPrompt))}
+                  className="text-xs font-medium text-amber-700 hover:text-amber-900 whitespace-nowrap"
+                >
+                  Answer it
+                </button>
+              </div>
+              <div className="relative">
+                <textarea
+                  dir="auto"
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Share your thoughts, feelings, and experiences... Or click the microphone to record your voice!"
+                  className="w-full h-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+                  required
+                />
+          
+                {/* Voice Recording Button */}
+                <button
+                  type="button"
+                  onClick={handleMicClick}
+                  disabled={isTranscribing}
+                  className={`absolute bottom-2 right-2 p-1.5 rounded-lg transition-all transform hover:scale-105 ${
+                    isRecording
+                      ? 'bg-red-100 text-red-600 animate-pulse'
+                      : isTranscribing
+                      ? 'bg-blue-100 text-blue-600'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                  title={isRecording ? 'Stop recording' : isTranscribing ? 'Transcribing...' : 'Start voice recording'}
+                >
+                  {isTranscribing ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                  ) : isRecording ? (
+                    <MicOff className="w-4 h-4" />
+                  ) : (
+                    <Mic className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+            </>
+          )}
         
-        {/* Recording Status */}
-        {isRecording && (
-          <div className="flex items-center gap-2 mt-1 text-red-600">
-            <div className="w-1.5 h-1.5 bg-red-600 rounded-full animate-pulse"></div>
-            <span className="text-xs font-medium">Recording...</span>
-          </div>
-        )}
+          {/* Recording Status */}
+          {isRecording && (
+            <div className="flex items-center gap-2 mt-1 text-red-600">
+              <div className="w-1.5 h-1.5 bg-red-600 rounded-full animate-pulse"></div>
+              <span className="text-xs font-medium">Recording...</span>
+            </div>
+          )}
         
-        {isTranscribing && (
-          <div className="flex items-center gap-2 mt-1 text-blue-600">
-            <Loader className="w-3 h-3 animate-spin" />
-            <span className="text-xs">Transcribing...</span>
-          </div>
-        )}
+          {isTranscribing && (
+            <div className="flex items-center gap-2 mt-1 text-blue-600">
+              <Loader className="w-3 h-3 animate-spin" />
+              <span className="text-xs">Transcribing...</span>
+            </div>
+          )}
+
+          {/* Recordings kept with this reflection */}
+          {pendingRecordings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <span className="text-xs text-gray-500">Keeping your recording:</span>
+              {pendingRecordings.map((recording, index) => (
+                <span
+                  key={recording.key}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 bg-rose-50 border border-rose-200 rounded-full text-xs text-rose-700"
+                >
+                  <Mic className="w-3 h-3" />
+                  {pendingRecordings.length > 1 && `${index + 1} · `}
+                  {formatPlaybackTime(recording.duration ?? 0)}
+                  <button
+                    type="button"
+                    onClick={() => setPendingRecordings(prev => prev.filter(r => r.key !== recording.key))}
+                    className="text-rose-400 hover:text-rose-600"
+                    title="Don't keep this recording"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
 
-        {/* Voice Generation Status */}
-        {isGeneratingVoice && (
-          <div className="flex items-center gap-2 mt-1 text-purple-600">
-            <Loader className="w-3 h-3 animate-spin" />
-            <span className="text-xs">Generating voice...</span>
-          </div>
-        )}
+          {/* Voice Generation Status */}
+          {isGeneratingVoice && (
+            <div className="flex items-center gap-2 mt-1 text-purple-600">
+              <Loader className="w-3 h-3 animate-spin" />
+              <span className="text-xs">Generating voice...</span>
+            </div>
+          )}
 
-        {/* Transcription Error */}
-        {transcriptionError && (
-          <div className="flex items-center gap-2 mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
-            <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
-            <span className="text-xs text-red-700">{transcriptionError}</span>
-          </div>
-        )}
-
-        {/* Voice Generation Error */}
-        {voiceGenerationError && (
-          <div className="flex items-center gap-2 mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-lg">
-            <AlertCircle className="w-3 h-3 text-yellow-500 flex-shrink-0" />
-            <div className="flex-1">
-              <span className="text-xs text-yellow-700">
-                Voice generation failed: {voiceGenerationError}
-              </span>
-              <p className="text-xs text-yellow-600 mt-1">
-                Your reflection will be saved without voice.
-              </p>
+          {/* Transcription Error */}
+          {transcriptionError && (
+            <div className="flex items-center gap-2 mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
+              <span className="text-xs text-red-700">{transcriptionError}</span>
+            </div>
+          )}
+
+          {/* Voice Generation Error */}
+          {voiceGenerationError && (
+            <div className="flex items-center gap-2 mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <AlertCircle className="w-3 h-3 text-yellow-500 flex-shrink-0" />
+              <div className="flex-1">
+                <span className="text-xs text-yellow-700">
+                  Voice generation failed: {voiceGenerationError}
+                </span>
+                <p className="text-xs text-yellow-600 mt-1">
+                  Your reflection will be saved without voice.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={clearVoiceError}
+                className="text-yellow-400 hover:text-yellow-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {/* Submit Error */}
+          {submitError && (
+            <div className="flex items-center gap-2 mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
+              <span className="text-xs text-red-700">{submitError}</span>
             </div>
+          )}
+        </div>
+
+        {/* Tags */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Tags
+            </label>
             <button
               type="button"
-              onClick={clearVoiceError}
-              className="text-yellow-400 hover:text-yellow-600"
+              onClick={suggestTags}
+              disabled={isSuggestingTags || !reflectionText.trim()}
+              className="inline-flex items-center gap-1 text-xs font-medium text-purple-600 hover:text-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <X className="w-3 h-3" />
+              {isSuggestingTags ? (
+                <Loader className="w-3 h-3 animate-spin" />
+              ) : (
+                <Sparkles className="w-3 h-3" />
+              )}
+              Suggest tags
             </button>
           </div>
-        )}
+          <TagInput tags={tags} onChange={setTags} suggestions={knownTags} placeholder="work, family, sleep..." />
+
+          {suggestedTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+              <span className="text-xs text-gray-500">Suggested:</span>
+              {suggestedTags.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => acceptSuggestedTag(tag)}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 border border-dashed border-purple-300 text-purple-700 rounded-full text-xs hover:bg-purple-50"
+                >
+                  <Plus className="w-3 h-3" />
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
 
-        {/* Submit Error */}
-        {submitError && (
-          <div className="flex items-center gap-2 mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
-            <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
-            <span className="text-xs text-red-700">{submitError}</span>
-          </div>
-        )}
-      </div>
+          {tagSuggestionError && (
+            <p className="text-xs text-gray-500 mt-1">{tagSuggestionError}</p>
+          )}
+        </div>
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={isSubmitting || !reflectionText.trim() || isRecording}
+          className="w-full bg-gradient-to-r from-blue-600 to-green-600 text-white py-2 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all inline-flex items-center justify-center gap-2 text-sm"
+        >
+          {isSubmitting ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              Add Reflection
+              <Send className="w-4 h-4" />
+            </>
+          )}
+        </button>
+      </form>
+
+      {/* Rendered outside the form so its buttons don't submit the reflection */}
+      <Modal
+        isOpen={templatesModal.isOpen}
+        onClose={templatesModal.close}
+        title="My Journal Templates"
+        size="lg"
+      >
+        <JournalTemplatesModal templates={customTemplates} onTemplatesChanged={loadCustomTemplates} />
+      </Modal>
 
-      {/* Submit Button */}
-      <button
-        type="submit"
-        disabled={isSubmitting || !content.trim() || isRecording}
-        className="w-full bg-gradient-to-r from-blue-600 to-green-600 text-white py-2 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all inline-flex items-center justify-center gap-2 text-sm"
+      <Modal
+        isOpen={safetyLevel !== 'none'}
+        onClose={() => setSafetyLevel('none')}
+        title="Support is available"
       >
-        {isSubmitting ? (
-          <>
-            <Loader className="w-4 h-4 animate-spin" />
-            Saving...
-          </>
-        ) : (
-          <>
-            Add Reflection
-            <Send className="w-4 h-4" />
-          </>
-        )}
-      </button>
-    </form>
+        <CrisisResources level={safetyLevel} />
+      </Modal>
+    </>
   );
 }
\ No newline at end of file
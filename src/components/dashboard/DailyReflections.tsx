@@ -29,7 +29,7 @@ export function DailyReflections({ onReflectionSaved }: DailyReflectionsProps) {
       
       const { data, error } = await supabase
         .from('reflections')
-        .select('*')
+        .select('*, recordings:voice_recordings(*)')
         .eq('user_id', user.id)
         .gte('created_at', `${today}T00:00:00`)
         .lt('created_at', `${today}T23:59:59`)
@@ -55,6 +55,11 @@ export function DailyReflections({ onReflectionSaved }: DailyReflectionsProps) {
     onReflectionSaved?.();
   };
 
+  const handleReflectionUpdated = async () => {
+    await fetchTodaysReflections();
+    onReflectionSaved?.();
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-lg p-6">
       <div className="flex items-center gap-3 mb-6">
@@ -81,6 +86,7 @@ export function DailyReflections({ onReflectionSaved }: DailyReflectionsProps) {
           reflections={todaysReflections}
           loading={loading}
           onReflectionDeleted={handleReflectionDeleted}
+          onReflectionUpdated={handleReflectionUpdated}
         />
       </div>
     </div>
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader, Save } from 'lucide-react';
+import { Reflection } from '../../lib/supabase';
+import { updateReflection } from '../../lib/reflections';
+import { composeContent } from '../../lib/journalTemplates';
+import { fetchTagStats } from '../../lib/tags';
+import { RiskLevel, checkReflectionSafety } from '../../lib/safety';
+import { TagInput } from '../ui/TagInput';
+import { CrisisResources } from './CrisisResources';
+
+interface EditReflectionModalProps {
+  reflection: Reflection;
+  onSaved: (reflection: Reflection) => void;
+  onCancel: () => void;
+}
+
+const moodEmojis = ['😢', '😕', '😐', '🙂', '😊', '😄', '😍', '🤩', '🥳', '🌟'];
+const moodLabels = ['Very Low', 'Low', 'Below Average', 'Neutral', 'Good', 'Happy', 'Great', 'Excellent', 'Amazing', 'Fantastic'];
+
+export function EditReflectionModal({ reflection, onSaved, onCancel }: EditReflectionModalProps) {
+  const [content, setContent] = useState(reflection.content);
+  // Templated reflections are edited answer by answer and the text rebuilt from them
+  const [sections, setSections] = useState(reflection.sections);
+  const [moodScore, setMoodScore] = useState(reflection.mood_score || 5);
+  const [tags, setTags] = useState<string[]>(reflection.tags || []);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [regenerateVoice, setRegenerateVoice] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the edited text is flagged; the dialog then shows support resources
+  // and hands the saved reflection back once the user closes it
+  const [flagged, setFlagged] = useState<{ level: RiskLevel; reflection: Reflection } | null>(null);
+
+  useEffect(() => {
+    fetchTagStats()
+      .then(stats => setKnownTags(stats.map(stat => stat.tag)))
+      .catch(err => console.error('Error loading tags:', err));
+  }, []);
+
+  const answeredSections = sections?.filter(section => section.answer.trim());
+  const text = answeredSections ? composeContent(answeredSections) : content;
+  const contentChanged = text.trim() !== reflection.content;
+  const hasChanges = contentChanged ||
+    moodScore !== (reflection.mood_score || 5) ||
+    tags.join('\n') !== (reflection.tags || []).join('\n') ||
+    regenerateVoice;
+
+  const handleSave = async () => {
+    if (!text.trim()) {
+      setError('A reflection cannot be empty.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateReflection(
+        reflection,
+        { content: text, mood_score: moodScore, tags, sections: answeredSections },
+        { regenerateVoice }
+      );
+      const risk = contentChanged ? await checkReflectionSafety(updated.id) : null;
+      if (risk && risk.level !== 'none') {
+        setFlagged({ level: risk.level, reflection: updated });
+      } else {
+        onSaved(updated);
+      }
+    } catch (err) {
+      console.error('Error updating reflection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save reflection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (flagged) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">Your changes have been saved.</p>
+        <CrisisResources level={flagged.level} />
+        <div className="flex justify-end">
+          <button
+            onClick={() => onSaved(flagged.reflection)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Mood Level: {moodEmojis[moodScore - 1]} {moodLabels[moodScore - 1]}
+        </label>
+        <input
+          type="range"
+          min="1"
+          max="10"
+          value={moodScore}
+          onChange={(e) => setMoodScore(parseInt(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          style={{
+            background: `linear-gradient(to right, #ef4444 0%, #f97316 25%, #eab308 50%, #22c55e 75%, #10b981 100%)`
+          }}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Your Reflection
+        </label>
+        {sections ? (
+          <div className="space-y-3">
+            {sections.map((section, index) => (
+              <div key={section.key}>
+                <label className="block text-sm text-gray-800 mb-1">{section.label}</label>
+                <textarea
+                  dir="auto"
+                  value={section.answer}
+                  onChange={(e) => setSections(prev => prev && prev.map((s, i) => (
+                    i === index ? { ...s, answer: e.target.value } : s
+                  )))}
+                  className="w-full h-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <textarea
+            dir="auto"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="w-full h-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+          />
+        )}
+        {contentChanged && (
+          <p className="text-xs text-gray-500 mt-1">Sentiment and emotions will be re-analysed when you save.</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Tags
+        </label>
+        <TagInput tags={tags} onChange={setTags} suggestions={knownTags} />
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={regenerateVoice}
+          onChange={(e) => setRegenerateVoice(e.target.checked)}
+          className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span>
+          {reflection.voice_url ? 'Regenerate the voice recording' : 'Generate a voice recording'}
+          <span className="block text-xs text-gray-500">
+            {reflection.voice_url
+              ? 'Otherwise the existing recording is kept, even if the text changed.'
+              : 'This reflection has no voice recording yet.'}
+          </span>
+        </span>
+      </label>
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges || !text.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
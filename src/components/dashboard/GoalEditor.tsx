@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, ArrowDown, ArrowUp, Loader, Plus, Save, X } from 'lucide-react';
+import { Goal } from '../../lib/supabase';
+import { GOAL_LIMITS, GoalBodyPlan, GoalDraft, GoalHabit, linkToGoal, saveGoal } from '../../lib/goals';
+import { useAuth } from '../../hooks/useAuth';
+
+interface GoalEditorProps {
+  goal?: Goal; // editing an existing goal
+  habits: GoalHabit[];
+  plans: GoalBodyPlan[];
+  onSaved: (goal: Goal) => void;
+  onCancel: () => void;
+}
+
+const fromGoal = (goal?: Goal): GoalDraft => ({
+  title: goal?.title ?? '',
+  description: goal?.description ?? '',
+  category: goal?.category ?? null,
+  target_date: goal?.target_date ?? null,
+  milestones: (goal?.goal_milestones || []).map(milestone => ({
+    id: milestone.id,
+    title: milestone.title,
+    target_date: milestone.target_date,
+    completed_at: milestone.completed_at,
+  })),
+});
+
+const inputClass = 'w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export function GoalEditor({ goal, habits, plans, onSaved, onCancel }: GoalEditorProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<GoalDraft>(() => fromGoal(goal));
+  const [linkedHabits, setLinkedHabits] = useState(() => new Set(habits.filter(h => goal && h.goal_id === goal.id).map(h => h.id)));
+  const [linkedPlans, setLinkedPlans] = useState(() => new Set(plans.filter(p => goal && p.goal_id === goal.id).map(p => p.id)));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<GoalDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateMilestone = (index: number, changes: Partial<GoalDraft['milestones'][number]>) =>
+    update({ milestones: draft.milestones.map((milestone, i) => (i === index ? { ...milestone, ...changes } : milestone)) });
+
+  const moveMilestone = (index: number, offset: -1 | 1) => {
+    const milestones = [...draft.milestones];
+    [milestones[index], milestones[index + offset]] = [milestones[index + offset], milestones[index]];
+    update({ milestones });
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!draft.title.trim()) {
+      setError('Give your goal a name.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveGoal(user.id, draft, goal);
+
+      // Only touch rows whose link actually changes; linking one that belongs to
+      // another goal moves it here
+      await Promise.all([
+        ...habits
+          .filter(h => linkedHabits.has(h.id) !== (h.goal_id === saved.id))
+          .map(h => linkToGoal('habits', h.id, linkedHabits.has(h.id) ? saved.id : null)),
+        ...plans
+          .filter(p => linkedPlans.has(p.id) !== (p.goal_id === saved.id))
+          .map(p => linkToGoal('body_feedback', p.id, linkedPlans.has(p.id) ? saved.id : null)),
+      ]);
+
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error saving goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Goal</label>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+            maxLength={GOAL_LIMITS.title}
+            placeholder="e.g. Run a 10k"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Target date</label>
+          <input
+            type="date"
+            value={draft.target_date ?? ''}
+            onChange={(e) => update({ target_date: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Why it matters</label>
+        <textarea
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          maxLength={GOAL_LIMITS.description}
+          rows={2}
+          placeholder="Optional"
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Milestones</label>
+        <p className="text-xs text-gray-500 mb-2">Measurable steps on the way. Progress is the share you have ticked off.</p>
+        <div className="space-y-2">
+          {draft.milestones.map((milestone, index) => (
+            <div key={milestone.id ?? `new-${index}`} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={milestone.title}
+                onChange={(e) => updateMilestone(index, { title: e.target.value })}
+                maxLength={GOAL_LIMITS.milestone}
+                placeholder="e.g. Run 5k without stopping"
+                className={`${inputClass} flex-1 ${milestone.completed_at ? 'line-through text-gray-400' : ''}`}
+              />
+              <input
+                type="date"
+                value={milestone.target_date ?? ''}
+                onChange={(e) => updateMilestone(index, { target_date: e.target.value || null })}
+                className="py-2 px-2 border border-gray-300 rounded-lg text-sm w-36"
+                title="Target date"
+              />
+              <button
+                onClick={() => moveMilestone(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveMilestone(index, 1)}
+                disabled={index === draft.milestones.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ milestones: draft.milestones.filter((_, i) => i !== index) })}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove milestone"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => update({ milestones: [...draft.milestones, { title: '', target_date: null, completed_at: null }] })}
+          className="mt-2 inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          Add milestone
+        </button>
+      </div>
+
+      {(habits.length > 0 || plans.length > 0) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Linked habits and plans</label>
+          <div className="flex flex-wrap gap-2">
+            {habits.map(habit => (
+              <label key={habit.id} className="inline-flex items-center gap-1.5 px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={linkedHabits.has(habit.id)}
+                  onChange={() => setLinkedHabits(prev => toggle(prev, habit.id))}
+                  className="rounded text-blue-600"
+                />
+                {habit.name}
+              </label>
+            ))}
+            {plans.map(plan => (
+              <label key={plan.id} className="inline-flex items-center gap-1.5 px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={linkedPlans.has(plan.id)}
+                  onChange={() => setLinkedPlans(prev => toggle(prev, plan.id))}
+                  className="rounded text-blue-600"
+                />
+                Body coach plan, {format(new Date(plan.created_at), 'MMM d, yyyy')}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 transition-all"
+        >
+          {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {goal ? 'Save Changes' : 'Create Goal'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Archive, CheckCircle, Circle, Dumbbell, Flag, Loader, Pencil, Plus, Repeat, RotateCcw, Trash2 } from 'lucide-react';
+import { Goal, GoalMilestone, GoalStatus } from '../../lib/supabase';
+import {
+  GOAL_STATUS_LABELS,
+  GoalBodyPlan,
+  GoalHabit,
+  deleteGoal,
+  fetchGoals,
+  fetchLinkables,
+  goalProgress,
+  nextMilestone,
+  setGoalStatus,
+  toggleMilestone,
+} from '../../lib/goals';
+import { useAuth } from '../../hooks/useAuth';
+import { GoalEditor } from './GoalEditor';
+
+interface GoalsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type View = { kind: 'list' } | { kind: 'edit'; goal?: Goal };
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+export function GoalsModal({ isOpen }: GoalsModalProps) {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [habits, setHabits] = useState<GoalHabit[]>([]);
+  const [plans, setPlans] = useState<GoalBodyPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<View>({ kind: 'list' });
+  const [busy, setBusy] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [rows, linkables] = await Promise.all([fetchGoals(), fetchLinkables(user.id)]);
+      setGoals(rows);
+      setHabits(linkables.habits);
+      setPlans(linkables.plans);
+    } catch (err) {
+      console.error('Error loading goals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load goals');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const replaceGoal = (goal: Goal) => setGoals(prev => prev.map(g => (g.id === goal.id ? goal : g)));
+
+  const handleToggleMilestone = async (goal: Goal, milestone: GoalMilestone) => {
+    setBusy(milestone.id);
+    setError(null);
+    try {
+      const updated = await toggleMilestone(milestone);
+      replaceGoal({ ...goal, goal_milestones: (goal.goal_milestones || []).map(m => (m.id === updated.id ? updated : m)) });
+    } catch (err) {
+      console.error('Error updating milestone:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update milestone');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStatus = async (goal: Goal, status: GoalStatus) => {
+    setBusy(goal.id);
+    setError(null);
+    try {
+      replaceGoal(await setGoalStatus(goal.id, status));
+    } catch (err) {
+      console.error('Error updating goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update goal');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (!confirm(`Delete "${goal.title}" and its milestones? Linked habits and plans are kept.`)) {
+      return;
+    }
+
+    setBusy(goal.id);
+    setError(null);
+    try {
+      await deleteGoal(goal.id);
+      setGoals(prev => prev.filter(g => g.id !== goal.id));
+      setHabits(prev => prev.map(h => (h.goal_id === goal.id ? { ...h, goal_id: null } : h)));
+      setPlans(prev => prev.map(p => (p.goal_id === goal.id ? { ...p, goal_id: null } : p)));
+    } catch (err) {
+      console.error('Error deleting goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete goal');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (view.kind === 'edit') {
+    return (
+      <GoalEditor
+        goal={view.goal}
+        habits={habits}
+        plans={plans}
+        onSaved={() => {
+          setView({ kind: 'list' });
+          load();
+        }}
+        onCancel={() => setView({ kind: 'list' })}
+      />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader className="w-8 h-8 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const active = goals.filter(goal => goal.status === 'active');
+  const closed = goals.filter(goal => goal.status !== 'active');
+
+  const renderGoal = (goal: Goal) => {
+    const progress = goalProgress(goal);
+    const next = nextMilestone(goal);
+    const goalHabits = habits.filter(h => h.goal_id === goal.id);
+    const planCount = plans.filter(p => p.goal_id === goal.id).length;
+    const isActive = goal.status === 'active';
+
+    return (
+      <div key={goal.id} className={`p-4 border border-gray-200 rounded-xl ${isActive ? '' : 'bg-gray-50'}`}>
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900">{goal.title}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {isActive
+                ? goal.target_date ? `Target ${formatDate(goal.target_date)}` : 'No target date'
+                : GOAL_STATUS_LABELS[goal.status]}
+              {goal.status === 'completed' && goal.completed_at && ` ${format(new Date(goal.completed_at), 'MMM d, yyyy')}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {busy === goal.id ? (
+              <Loader className="w-4 h-4 text-gray-400 animate-spin" />
+            ) : isActive ? (
+              <>
+                <button
+                  onClick={() => handleStatus(goal, 'completed')}
+                  className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                  title="Mark goal achieved"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setView({ kind: 'edit', goal })}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Edit goal"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleStatus(goal, 'archived')}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Archive goal"
+                >
+                  <Archive className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => handleStatus(goal, 'active')}
+                className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Reopen goal"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(goal)}
+              disabled={busy === goal.id}
+              className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Delete goal"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {goal.description && <p className="text-sm text-gray-600 mt-2">{goal.description}</p>}
+
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+            <span>
+              {(goal.goal_milestones || []).length > 0
+                ? next && isActive ? `Next: ${next.title}` : 'All milestones done'
+                : 'Add milestones to track progress'}
+            </span>
+            <span className="font-medium text-gray-700">{progress}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-green-500 h-2 rounded-full transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+
+        {(goal.goal_milestones || []).length > 0 && (
+          <ul className="mt-3 space-y-1.5">
+            {(goal.goal_milestones || []).map(milestone => (
+              <li key={milestone.id}>
+                <button
+                  onClick={() => handleToggleMilestone(goal, milestone)}
+                  disabled={busy === milestone.id || !isActive}
+                  className="flex items-center gap-2 text-left text-sm w-full disabled:cursor-default"
+                >
+                  {busy === milestone.id ? (
+                    <Loader className="w-4 h-4 text-gray-400 animate-spin flex-shrink-0" />
+                  ) : milestone.completed_at ? (
+                    <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                  ) : (
+                    <Circle className="w-4 h-4 text-gray-300 flex-shrink-0" />
+                  )}
+                  <span className={milestone.completed_at ? 'text-gray-400 line-through' : 'text-gray-700'}>{milestone.title}</span>
+                  {milestone.target_date && !milestone.completed_at && (
+                    <span className="text-xs text-gray-400 ml-auto flex-shrink-0">{formatDate(milestone.target_date)}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {(goalHabits.length > 0 || planCount > 0) && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {goalHabits.map(habit => (
+              <span key={habit.id} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-purple-100 text-purple-700 rounded-full">
+                <Repeat className="w-3 h-3" />
+                {habit.name}
+              </span>
+            ))}
+            {planCount > 0 && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-orange-100 text-orange-700 rounded-full">
+                <Dumbbell className="w-3 h-3" />
+                {planCount} body coach plan{planCount !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {active.length === 0 ? (
+        <div className="text-center py-8">
+          <Flag className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600 font-medium">No active goals</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Set a goal with a few milestones, then link the habits that get you there.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">{active.map(renderGoal)}</div>
+      )}
+
+      {closed.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowClosed(prev => !prev)}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            {showClosed ? 'Hide' : 'Show'} completed and archived ({closed.length})
+          </button>
+          {showClosed && <div className="space-y-3 mt-3">{closed.map(renderGoal)}</div>}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={() => setView({ kind: 'edit' })}
+        className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-xl hover:from-blue-700 hover:to-green-700 transition-all"
+      >
+        <Plus className="w-4 h-4" />
+        New Goal
+      </button>
+    </div>
+  );
+}
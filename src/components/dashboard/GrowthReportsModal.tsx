@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, ChevronDown, ChevronUp, Search, Filter, RotateCcw, X, Trash2, BookOpen, Brain, Heart, Target, Loader, AlertCircle } from 'lucide-react';
-import { supabase, InsightReport } from '../../lib/supabase';
+import { Calendar, ChevronDown, ChevronUp, Search, Filter, RotateCcw, X, Trash2, BookOpen, Brain, Heart, Target, Loader, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { supabase, InsightReport, RecommendationAction } from '../../lib/supabase';
+import { fetchRecommendationActions } from '../../lib/recommendations';
 import { useAuth } from '../../hooks/useAuth';
+import { CrisisResources } from './CrisisResources';
+import { RecommendationFollowUpSummary, RecommendationList } from './RecommendationList';
 import { format } from 'date-fns';
 
 interface GrowthReportsModalProps {
@@ -33,6 +36,9 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
   const [filters, setFilters] = useState<FilterState>(initialFilters);
   const [showFilters, setShowFilters] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [actions, setActions] = useState<RecommendationAction[]>([]);
+  // Current version of every reflection a report was built from, to flag later edits
+  const [currentVersions, setCurrentVersions] = useState<Record<string, number>>({});
   
   // Separate state for immediate search input (debounced)
   const [rawSearchText, setRawSearchText] = useState('');
@@ -74,6 +80,25 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
       if (error) throw error;
       
       setReports(data || []);
+
+      // Best effort: the recommendations still show without their progress
+      fetchRecommendationActions(((data || []) as InsightReport[]).map(report => report.id))
+        .then(setActions)
+        .catch(err => console.error('Error fetching recommendation progress:', err));
+
+      const reflectionIds = Array.from(new Set(
+        ((data || []) as InsightReport[]).flatMap(report => (report.source_versions || []).map(source => source.reflection_id))
+      ));
+      if (reflectionIds.length > 0) {
+        const { data: sources, error: sourcesError } = await supabase
+          .from('reflections')
+          .select('id, version')
+          .in('id', reflectionIds);
+
+        if (sourcesError) throw sourcesError;
+
+        setCurrentVersions(Object.fromEntries((sources || []).map((source: { id: string; version: number }) => [source.id, source.version])));
+      }
     } catch (error) {
       console.error('Error fetching insight reports:', error);
     } finally {
@@ -81,6 +106,16 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
     }
   };
 
+  // How the reflections behind a report have changed since it was generated
+  const getSourceStatus = (report: InsightReport) => {
+    const sources = report.source_versions || [];
+    const edited = sources.filter(source =>
+      currentVersions[source.reflection_id] !== undefined && currentVersions[source.reflection_id] > source.version
+    ).length;
+    const deleted = sources.filter(source => currentVersions[source.reflection_id] === undefined).length;
+    return { total: sources.length, edited, deleted };
+  };
+
   const applyFilters = () => {
     let filtered = [...reports];
 
@@ -417,6 +452,7 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
         <div className="space-y-6">
           {filteredReports.map((report) => {
             const Icon = getReportTypeIcon(report.report_type);
+            const sourceStatus = getSourceStatus(report);
             
             return (
               <div
@@ -433,7 +469,18 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
                       </h3>
                       <p className="text-sm text-gray-500">
                         {format(new Date(report.created_at), 'p')}
+                        {sourceStatus.total > 0 && (
+                          <> · Based on {sourceStatus.total} reflection{sourceStatus.total !== 1 ? 's' : ''}</>
+                        )}
                       </p>
+                      {(sourceStatus.edited > 0 || sourceStatus.deleted > 0) && (
+                        <p className="text-xs text-amber-600 mt-0.5">
+                          {[
+                            sourceStatus.edited > 0 && `${sourceStatus.edited} edited`,
+                            sourceStatus.deleted > 0 && `${sourceStatus.deleted} deleted`,
+                          ].filter(Boolean).join(', ')} since this report was generated
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -458,6 +505,12 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
                   </div>
                 </div>
 
+                {report.safety_mode && (
+                  <div className="mb-4">
+                    <CrisisResources />
+                  </div>
+                )}
+
                 {/* Summary Section */}
                 <div className="mb-4">
                   <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
@@ -476,22 +529,29 @@ export function GrowthReportsModal({ isOpen, onClose }: GrowthReportsModalProps)
                   <p className="text-gray-700 leading-relaxed">{report.motivation}</p>
                 </div>
 
+                {report.follow_up && report.follow_up.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+                      <CheckCircle2 className="w-5 h-5 text-emerald-600" />
+                      Follow-through
+                    </h4>
+                    <RecommendationFollowUpSummary items={report.follow_up} />
+                  </div>
+                )}
+
                 {/* Recommendations Section */}
                 <div>
                   <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
                     <Target className="w-5 h-5 text-purple-600" />
                     Recommendations
                   </h4>
-                  <ul className="space-y-2">
-                    {report.recommendations.map((recommendation, index) => (
-                      <li key={index} className="flex items-start gap-3">
-                        <div className="w-6 h-6 bg-purple-100 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                          <span className="text-xs font-medium text-purple-600">{index + 1}</span>
-                        </div>
-                        <p className="text-gray-700 text-sm leading-relaxed">{recommendation}</p>
-                      </li>
-                    ))}
-                  </ul>
+                  <RecommendationList
+                    reportId={report.id}
+                    recommendations={report.recommendations}
+                    actions={actions.filter(action => action.report_id === report.id)}
+                    onActionChange={(updated) => setActions(prev => [...prev.filter(a => a.id !== updated.id), updated])}
+                    readOnly={report.safety_mode}
+                  />
                 </div>
               </div>
             );
@@ -1,43 +1,38 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Target, CheckCircle, Circle, Flame, Trophy } from 'lucide-react';
-import { supabase, requireAuth } from '../../lib/supabase';
+import { Plus, Target, CheckCircle, Circle, Flame, Trophy, Undo2 } from 'lucide-react';
+import { supabase, requireAuth, Habit, HabitCompletion, HabitFrequency, HabitLog } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
-import { format, isToday } from 'date-fns';
+import { format } from 'date-fns';
 import { Modal } from '../ui/Modal';
+import { describeSchedule, formatAmount, getHabitStatus, getStreakUnit, HabitStatus, reachedMilestone, suggestedLogAmount, WEEKDAY_LABELS } from '../../lib/habits';
 
-interface Habit {
-  id: string;
-  user_id: string;
-  name: string;
-  description: string | null;
-  target_frequency: 'daily' | 'weekly';
-  color: string;
-  created_at: string;
-}
-
-interface HabitCompletion {
-  id: string;
-  habit_id: string;
-  user_id: string;
-  completed_at: string;
-  created_at: string;
-}
-
-interface HabitWithCompletion extends Habit {
+interface HabitWithCompletion extends Habit, HabitStatus {
   completions: HabitCompletion[];
-  todayCompleted: boolean;
-  streak: number;
+  todayLogs: HabitLog[]; // newest first; only loaded for quantitative habits
+  todayAmount: number;
 }
 
 interface CelebrationModalProps {
   isOpen: boolean;
   onClose: () => void;
   streak: number;
+  unit: string;
   habitName: string;
 }
 
-function CelebrationModal({ isOpen, onClose, streak, habitName }: CelebrationModalProps) {
+// Monday-first order for the weekday picker
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function CelebrationModal({ isOpen, onClose, streak, unit, habitName }: CelebrationModalProps) {
+  const units = `${unit}s`;
+
   const getMilestoneMessage = (streak: number) => {
+    if (unit !== 'day') {
+      if (streak === 7) return `Amazing! ${streak} ${units} in a row!`;
+      if (streak === 14) return `Incredible! ${streak} ${units} of consistency!`;
+      if (streak === 30) return `Outstanding! ${streak} ${units} of dedication!`;
+      return `Fantastic! ${streak} ${units} of consistency!`;
+    }
     if (streak === 7) return "Amazing! You've built a week-long habit!";
     if (streak === 14) return "Incredible! Two weeks of consistency!";
     if (streak === 30) return "Outstanding! A full month of dedication!";
@@ -45,8 +40,8 @@ function CelebrationModal({ isOpen, onClose, streak, habitName }: CelebrationMod
   };
 
   const getChallengeMessage = (streak: number) => {
-    if (streak === 7) return "Keep going to reach your 14-day milestone!";
-    if (streak === 14) return "You're halfway to the legendary 30-day streak!";
+    if (streak === 7) return `Keep going to reach your 14-${unit} milestone!`;
+    if (streak === 14) return `You're halfway to the legendary 30-${unit} streak!`;
     if (streak === 30) return "You're a habit master! Set a new goal to keep growing!";
     return "Every day makes you stronger!";
   };
@@ -66,7 +61,7 @@ function CelebrationModal({ isOpen, onClose, streak, habitName }: CelebrationMod
       </p>
       
       <p className="text-gray-600 mb-6">
-        You've completed <strong>{habitName}</strong> for <strong>{streak} days</strong> in a row!
+        You've completed <strong>{habitName}</strong> for <strong>{streak} {units}</strong> in a row!
       </p>
       
       <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-xl p-4 mb-6">
@@ -85,18 +80,48 @@ function CelebrationModal({ isOpen, onClose, streak, habitName }: CelebrationMod
   );
 }
 
+// Today's entries for a quantitative habit, newest first
+async function fetchTodayLogs(habit: Habit, userId: string, today: string): Promise<HabitLog[]> {
+  if (habit.target_value === null) return [];
+
+  const { data, error } = await supabase
+    .from('habit_logs')
+    .select('*')
+    .eq('habit_id', habit.id)
+    .eq('user_id', userId) // Extra security check
+    .eq('logged_on', today)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching logs for habit:', habit.id, error);
+    return [];
+  }
+
+  return data || [];
+}
+
 export function HabitTracker() {
   const { user } = useAuth();
   const [habits, setHabits] = useState<HabitWithCompletion[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newHabitName, setNewHabitName] = useState('');
+  const [newFrequency, setNewFrequency] = useState<HabitFrequency>('daily');
+  const [newTimesPerWeek, setNewTimesPerWeek] = useState(3);
+  const [newWeekdays, setNewWeekdays] = useState<number[]>([1, 3, 5]);
+  const [newIntervalDays, setNewIntervalDays] = useState(2);
+  const [trackAmount, setTrackAmount] = useState(false);
+  const [newTargetValue, setNewTargetValue] = useState('');
+  const [newUnit, setNewUnit] = useState('');
+  const [logInputs, setLogInputs] = useState<Record<string, string>>({});
+  const [logging, setLogging] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [celebration, setCelebration] = useState<{
     show: boolean;
     streak: number;
+    unit: string;
     habitName: string;
-  }>({ show: false, streak: 0, habitName: '' });
+  }>({ show: false, streak: 0, unit: 'day', habitName: '' });
 
   useEffect(() => {
     if (user) {
@@ -124,9 +149,14 @@ export function HabitTracker() {
       }
 
       if (habitsData) {
+        const today = format(new Date(), 'yyyy-MM-dd');
+
         // Fetch completions for each habit
         const habitsWithCompletions = await Promise.all(
           habitsData.map(async (habit) => {
+            const todayLogs = await fetchTodayLogs(habit, currentUser.id, today);
+            const todayAmount = todayLogs.reduce((sum, log) => sum + Number(log.amount), 0);
+
             const { data: completions, error: completionsError } = await supabase
               .from('habit_completions')
               .select('*')
@@ -138,24 +168,20 @@ export function HabitTracker() {
               console.error('Error fetching completions for habit:', habit.id, completionsError);
               return {
                 ...habit,
+                ...getHabitStatus(habit, []),
                 completions: [],
-                todayCompleted: false,
-                streak: 0,
+                todayLogs,
+                todayAmount,
               };
             }
 
-            const todayCompleted = completions?.some(c => 
-              isToday(new Date(c.completed_at))
-            ) || false;
-
-            // Calculate streak
-            const streak = calculateStreak(completions || []);
-
+            // Streak and due state depend on the habit's schedule
             return {
               ...habit,
+              ...getHabitStatus(habit, completions || []),
               completions: completions || [],
-              todayCompleted,
-              streak,
+              todayLogs,
+              todayAmount,
             };
           })
         );
@@ -170,39 +196,18 @@ export function HabitTracker() {
     }
   };
 
-  const calculateStreak = (completions: HabitCompletion[]): number => {
-    if (completions.length === 0) return 0;
-
-    const sortedCompletions = completions
-      .map(c => new Date(c.completed_at))
-      .sort((a, b) => b.getTime() - a.getTime());
-
-    let streak = 0;
-    let currentDate = new Date();
-    currentDate.setHours(0, 0, 0, 0);
-
-    for (const completionDate of sortedCompletions) {
-      const completion = new Date(completionDate);
-      completion.setHours(0, 0, 0, 0);
-
-      if (completion.getTime() === currentDate.getTime()) {
-        streak++;
-        currentDate.setDate(currentDate.getDate() - 1);
-      } else if (completion.getTime() === currentDate.getTime() + 86400000) {
-        // Yesterday
-        streak++;
-        currentDate.setDate(currentDate.getDate() - 1);
-      } else {
-        break;
-      }
-    }
-
-    return streak;
-  };
-
   const addHabit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newHabitName.trim()) return;
+    if (newFrequency === 'weekdays' && newWeekdays.length === 0) {
+      setError('Pick at least one day for this habit');
+      return;
+    }
+    const targetValue = trackAmount ? parseFloat(newTargetValue) : null;
+    if (targetValue !== null && (!Number.isFinite(targetValue) || targetValue <= 0)) {
+      setError('Enter a daily target greater than zero');
+      return;
+    }
 
     try {
       // Check authentication first
@@ -213,7 +218,12 @@ export function HabitTracker() {
       const habitData = {
         user_id: currentUser.id, // Explicitly include user_id
         name: newHabitName.trim(),
-        target_frequency: 'daily' as const,
+        target_frequency: newFrequency,
+        times_per_week: newFrequency === 'weekly' ? newTimesPerWeek : null,
+        weekdays: newFrequency === 'weekdays' ? [...newWeekdays].sort((a, b) => a - b) : null,
+        interval_days: newFrequency === 'interval' ? newIntervalDays : null,
+        target_value: targetValue,
+        unit: targetValue !== null ? newUnit.trim() || null : null,
       };
 
       console.log('Creating habit with data:', habitData);
@@ -232,22 +242,35 @@ export function HabitTracker() {
         setHabits(prev => [
           {
             ...data,
+            ...getHabitStatus(data, []),
             completions: [],
-            todayCompleted: false,
-            streak: 0,
+            todayLogs: [],
+            todayAmount: 0,
           },
           ...prev,
         ]);
       }
 
-      setNewHabitName('');
-      setShowAddForm(false);
+      resetAddForm();
     } catch (error) {
       console.error('Error adding habit:', error);
       setError(error instanceof Error ? error.message : 'Failed to add habit');
     }
   };
 
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewHabitName('');
+    setNewFrequency('daily');
+    setTrackAmount(false);
+    setNewTargetValue('');
+    setNewUnit('');
+  };
+
+  const toggleWeekday = (day: number) => {
+    setNewWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
   const toggleHabitCompletion = async (habit: HabitWithCompletion) => {
     try {
       // Check authentication first
@@ -256,9 +279,8 @@ export function HabitTracker() {
       setError(null);
 
       const today = format(new Date(), 'yyyy-MM-dd');
-      const previousStreak = habit.streak;
 
-      if (habit.todayCompleted) {
+      if (habit.completedToday) {
         // Remove completion
         const { error } = await supabase
           .from('habit_completions')
@@ -288,15 +310,7 @@ export function HabitTracker() {
           throw new Error(`Failed to add completion: ${error.message}`);
         }
 
-        // Check for milestone celebration
-        const newStreak = previousStreak + 1;
-        if ([7, 14, 30].includes(newStreak)) {
-          setCelebration({
-            show: true,
-            streak: newStreak,
-            habitName: habit.name,
-          });
-        }
+        celebrateMilestone(habit, today);
       }
 
       await fetchHabits();
@@ -306,8 +320,125 @@ export function HabitTracker() {
     }
   };
 
+  // Celebrate only when a new completion moved the streak onto a milestone
+  const celebrateMilestone = (habit: HabitWithCompletion, completedAt: string) => {
+    const streak = reachedMilestone(habit, habit.completions, completedAt);
+    if (streak) {
+      setCelebration({
+        show: true,
+        streak,
+        unit: getStreakUnit(habit),
+        habitName: habit.name,
+      });
+    }
+  };
+
+  // Quantitative habits: each entry adds to today's total, and reaching the target
+  // records the regular completion row that streaks and recaps are built on
+  const logAmount = async (habit: HabitWithCompletion) => {
+    if (habit.target_value === null) return;
+    const targetValue = Number(habit.target_value);
+
+    const amount = parseFloat(logInputs[habit.id] ?? String(suggestedLogAmount(targetValue)));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+
+    setLogging(habit.id);
+    try {
+      const currentUser = await requireAuth();
+      setError(null);
+
+      const today = format(new Date(), 'yyyy-MM-dd');
+
+      const { error: logError } = await supabase
+        .from('habit_logs')
+        .insert([{
+          habit_id: habit.id,
+          user_id: currentUser.id,
+          logged_on: today,
+          amount,
+        }]);
+
+      if (logError) {
+        throw new Error(`Failed to log progress: ${logError.message}`);
+      }
+
+      if (!habit.completedToday && habit.todayAmount + amount >= targetValue) {
+        const { error: completionError } = await supabase
+          .from('habit_completions')
+          .upsert([{
+            habit_id: habit.id,
+            user_id: currentUser.id,
+            completed_at: today,
+          }], { onConflict: 'habit_id,completed_at', ignoreDuplicates: true });
+
+        if (completionError) {
+          throw new Error(`Failed to add completion: ${completionError.message}`);
+        }
+
+        celebrateMilestone(habit, today);
+      }
+
+      setLogInputs(prev => {
+        const next = { ...prev };
+        delete next[habit.id];
+        return next;
+      });
+      await fetchHabits();
+    } catch (error) {
+      console.error('Error logging habit progress:', error);
+      setError(error instanceof Error ? error.message : 'Failed to log progress');
+    } finally {
+      setLogging(null);
+    }
+  };
+
+  const undoLastLog = async (habit: HabitWithCompletion) => {
+    const lastLog = habit.todayLogs[0];
+    if (!lastLog || habit.target_value === null) return;
+
+    setLogging(habit.id);
+    try {
+      const currentUser = await requireAuth();
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('habit_logs')
+        .delete()
+        .eq('id', lastLog.id)
+        .eq('user_id', currentUser.id); // Extra security check
+
+      if (deleteError) {
+        throw new Error(`Failed to undo entry: ${deleteError.message}`);
+      }
+
+      // Dropping back under the target un-completes the day
+      if (habit.completedToday && habit.todayAmount - Number(lastLog.amount) < Number(habit.target_value)) {
+        const { error: completionError } = await supabase
+          .from('habit_completions')
+          .delete()
+          .eq('habit_id', habit.id)
+          .eq('user_id', currentUser.id)
+          .eq('completed_at', lastLog.logged_on);
+
+        if (completionError) {
+          throw new Error(`Failed to remove completion: ${completionError.message}`);
+        }
+      }
+
+      await fetchHabits();
+    } catch (error) {
+      console.error('Error undoing habit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to undo entry');
+    } finally {
+      setLogging(null);
+    }
+  };
+
   const closeCelebration = () => {
-    setCelebration({ show: false, streak: 0, habitName: '' });
+    setCelebration({ show: false, streak: 0, unit: 'day', habitName: '' });
   };
 
   // Show authentication error if user is not signed in
@@ -351,7 +482,7 @@ export function HabitTracker() {
             </div>
             <div>
               <h2 className="text-xl font-bold text-gray-900">Habits</h2>
-              <p className="text-sm text-gray-500">Track your daily progress</p>
+              <p className="text-sm text-gray-500">Track your progress on your own schedule</p>
             </div>
           </div>
           
@@ -381,6 +512,95 @@ export function HabitTracker() {
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-3"
               autoFocus
             />
+            <select
+              value={newFrequency}
+              onChange={(e) => setNewFrequency(e.target.value as HabitFrequency)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-3 text-sm"
+              aria-label="Schedule"
+            >
+              <option value="daily">Every day</option>
+              <option value="weekly">Times per week</option>
+              <option value="weekdays">Specific days</option>
+              <option value="interval">Every few days</option>
+            </select>
+            {newFrequency === 'weekly' && (
+              <label className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+                <input
+                  type="number"
+                  min={1}
+                  max={7}
+                  value={newTimesPerWeek}
+                  onChange={(e) => setNewTimesPerWeek(Math.min(7, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                times per week
+              </label>
+            )}
+            {newFrequency === 'weekdays' && (
+              <div className="flex flex-wrap gap-1 mb-3">
+                {WEEKDAY_ORDER.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    aria-pressed={newWeekdays.includes(day)}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${
+                      newWeekdays.includes(day)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                ))}
+              </div>
+            )}
+            {newFrequency === 'interval' && (
+              <label className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+                Every
+                <input
+                  type="number"
+                  min={2}
+                  max={365}
+                  value={newIntervalDays}
+                  onChange={(e) => setNewIntervalDays(Math.min(365, Math.max(2, parseInt(e.target.value, 10) || 2)))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                days
+              </label>
+            )}
+            <label className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={trackAmount}
+                onChange={(e) => setTrackAmount(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Track an amount each day
+            </label>
+            {trackAmount && (
+              <div className="flex gap-2 mb-3">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={newTargetValue}
+                  onChange={(e) => setNewTargetValue(e.target.value)}
+                  placeholder="Target, e.g. 8"
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  aria-label="Daily target"
+                />
+                <input
+                  type="text"
+                  maxLength={30}
+                  value={newUnit}
+                  onChange={(e) => setNewUnit(e.target.value)}
+                  placeholder="Unit, e.g. glasses"
+                  className="w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  aria-label="Unit"
+                />
+              </div>
+            )}
             <div className="flex gap-2">
               <button
                 type="submit"
@@ -390,10 +610,7 @@ export function HabitTracker() {
               </button>
               <button
                 type="button"
-                onClick={() => {
-                  setShowAddForm(false);
-                  setNewHabitName('');
-                }}
+                onClick={resetAddForm}
                 className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors text-sm"
               >
                 Cancel
@@ -421,34 +638,97 @@ export function HabitTracker() {
                 key={habit.id}
                 className="flex items-center justify-between p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors"
               >
-                <div className="flex items-center gap-3">
-                  <button
-                    onClick={() => toggleHabitCompletion(habit)}
-                    className={`p-1 rounded-full transition-colors ${
-                      habit.todayCompleted
-                        ? 'text-green-600 hover:text-green-700'
-                        : 'text-gray-400 hover:text-gray-600'
-                    }`}
-                  >
-                    {habit.todayCompleted ? (
-                      <CheckCircle className="w-6 h-6" />
-                    ) : (
-                      <Circle className="w-6 h-6" />
-                    )}
-                  </button>
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  {habit.target_value === null ? (
+                    <button
+                      onClick={() => toggleHabitCompletion(habit)}
+                      className={`p-1 rounded-full transition-colors ${
+                        habit.completedToday
+                          ? 'text-green-600 hover:text-green-700'
+                          : 'text-gray-400 hover:text-gray-600'
+                      }`}
+                    >
+                      {habit.completedToday ? (
+                        <CheckCircle className="w-6 h-6" />
+                      ) : (
+                        <Circle className="w-6 h-6" />
+                      )}
+                    </button>
+                  ) : (
+                    // Amount-based habits complete by logging up to the target
+                    <div className={`p-1 ${habit.completedToday ? 'text-green-600' : 'text-gray-300'}`}>
+                      {habit.completedToday ? (
+                        <CheckCircle className="w-6 h-6" />
+                      ) : (
+                        <Circle className="w-6 h-6" />
+                      )}
+                    </div>
+                  )}
                   
-                  <div>
+                  <div className="flex-1 min-w-0">
                     <h3 className={`font-medium ${
-                      habit.todayCompleted ? 'text-green-700 line-through' : 'text-gray-900'
+                      habit.completedToday ? 'text-green-700 line-through' : 'text-gray-900'
                     }`}>
                       {habit.name}
                     </h3>
-                    <p className="text-xs text-gray-500">Daily</p>
+                    <p className="text-xs text-gray-500">
+                      {describeSchedule(habit)}
+                      {habit.periodTarget > 1 && ` · ${habit.periodCount}/${habit.periodTarget} this week`}
+                      {habit.dueToday && <span className="ml-1 text-blue-600 font-medium">· Due today</span>}
+                    </p>
+
+                    {habit.target_value !== null && (
+                      <div className="mt-2 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full transition-all ${habit.completedToday ? 'bg-green-500' : 'bg-blue-500'}`}
+                              style={{ width: `${Math.min(100, (habit.todayAmount / habit.target_value) * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs font-medium text-gray-700 whitespace-nowrap">
+                            {formatAmount(habit.todayAmount)}/{formatAmount(Number(habit.target_value))} {habit.unit}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={logInputs[habit.id] ?? String(suggestedLogAmount(Number(habit.target_value)))}
+                            onChange={(e) => setLogInputs(prev => ({ ...prev, [habit.id]: e.target.value }))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            aria-label={`Amount of ${habit.unit || habit.name} to log`}
+                          />
+                          <button
+                            onClick={() => logAmount(habit)}
+                            disabled={logging === habit.id}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm inline-flex items-center gap-1"
+                          >
+                            <Plus className="w-3 h-3" />
+                            Log
+                          </button>
+                          {habit.todayLogs.length > 0 && (
+                            <button
+                              onClick={() => undoLastLog(habit)}
+                              disabled={logging === habit.id}
+                              className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded-lg disabled:opacity-50 transition-colors"
+                              title={`Undo last entry (${formatAmount(Number(habit.todayLogs[0].amount))})`}
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
                 {habit.streak > 0 && (
-                  <div className="flex items-center gap-1 px-2 py-1 bg-orange-100 rounded-full">
+                  <div
+                    className="flex items-center gap-1 px-2 py-1 bg-orange-100 rounded-full"
+                    title={`${habit.streak} ${habit.streakUnit}${habit.streak === 1 ? '' : 's'} in a row`}
+                  >
                     <Flame className="w-4 h-4 text-orange-500" />
                     <span className="text-sm font-medium text-orange-700">
                       {habit.streak}
@@ -472,6 +752,7 @@ export function HabitTracker() {
           isOpen={celebration.show}
           onClose={closeCelebration}
           streak={celebration.streak}
+          unit={celebration.unit}
           habitName={celebration.habitName}
         />
       </Modal>
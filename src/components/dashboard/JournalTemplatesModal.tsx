@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { AlertCircle, Loader, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { JournalTemplate, TemplateSection } from '../../lib/supabase';
+import { deleteCustomTemplate, saveCustomTemplate } from '../../lib/journalTemplates';
+import { useAuth } from '../../hooks/useAuth';
+
+interface JournalTemplatesModalProps {
+  templates: JournalTemplate[];
+  onTemplatesChanged: () => void;
+}
+
+interface DraftTemplate {
+  id?: string;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+}
+
+const MAX_SECTIONS = 12;
+
+const emptyDraft = (): DraftTemplate => ({
+  name: '',
+  description: '',
+  sections: [{ key: 'section-1', label: '', prompt: '' }],
+});
+
+// Keys only need to be unique within a template; answers are matched by key
+const nextSectionKey = (sections: TemplateSection[]) => {
+  let n = sections.length + 1;
+  while (sections.some(section => section.key === `section-${n}`)) n++;
+  return `section-${n}`;
+};
+
+export function JournalTemplatesModal({ templates, onTemplatesChanged }: JournalTemplatesModalProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<DraftTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+    });
+  };
+
+  const addSection = () => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: [...prev.sections, { key: nextSectionKey(prev.sections), label: '', prompt: '' }],
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setDraft(prev => prev && { ...prev, sections: prev.sections.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!user || !draft) return;
+
+    const sections = draft.sections
+      .map(section => ({
+        key: section.key,
+        label: section.label.trim(),
+        ...(section.prompt?.trim() ? { prompt: section.prompt.trim() } : {}),
+      }))
+      .filter(section => section.label);
+
+    if (!draft.name.trim()) {
+      setError('Give your template a name.');
+      return;
+    }
+    if (sections.length === 0) {
+      setError('Add at least one section with a title.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveCustomTemplate(user.id, {
+        id: draft.id,
+        name: draft.name,
+        description: draft.description,
+        sections,
+      });
+      setDraft(null);
+      onTemplatesChanged();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: JournalTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Reflections written with it are kept.`)) {
+      return;
+    }
+
+    setDeleting(template.id);
+    try {
+      await deleteCustomTemplate(template.id);
+      onTemplatesChanged();
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            maxLength={80}
+            placeholder="e.g. Morning Pages"
+            className="w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Optional"
+            className="w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Sections</label>
+          {draft.sections.map((section, index) => (
+            <div key={section.key} className="p-3 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={section.label}
+                  onChange={(e) => updateSection(index, { label: e.target.value })}
+                  placeholder={`Section ${index + 1} title`}
+                  className="flex-1 py-1.5 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                {draft.sections.length > 1 && (
+                  <button
+                    onClick={() => removeSection(index)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Remove section"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <input
+                type="text"
+                value={section.prompt || ''}
+                onChange={(e) => updateSection(index, { prompt: e.target.value })}
+                placeholder="Guiding question (optional)"
+                className="w-full py-1.5 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+          ))}
+          {draft.sections.length < MAX_SECTIONS && (
+            <button
+              onClick={addSection}
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add section
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={() => {
+              setDraft(null);
+              setError(null);
+            }}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 transition-all"
+          >
+            {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Template
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          You haven't written any templates yet. Build one from the questions you find yourself answering often.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {templates.map(template => (
+            <div key={template.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <p className="font-medium text-gray-900 text-sm">{template.name}</p>
+                <p className="text-xs text-gray-500">
+                  {template.sections.length} section{template.sections.length !== 1 ? 's' : ''}
+                  {template.description && ` · ${template.description}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setDraft({
+                    id: template.id,
+                    name: template.name,
+                    description: template.description || '',
+                    sections: template.sections,
+                  })}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Edit template"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  disabled={deleting === template.id}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Delete template"
+                >
+                  {deleting === template.id ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <button
+        onClick={() => setDraft(emptyDraft())}
+        className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        New Template
+      </button>
+    </div>
+  );
+}
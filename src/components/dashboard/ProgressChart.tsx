@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Calendar, Clock, Heart, ArrowUp, ArrowDown, Minus, Info } from 'lucide-react';
+import { TrendingUp, Calendar, Clock, Heart, ArrowUp, ArrowDown, Minus, Info, Tag, Sparkles } from 'lucide-react';
 import { 
   LineChart, 
   Line, 
@@ -15,7 +15,8 @@ import {
   Cell, 
   ReferenceLine 
 } from 'recharts';
-import { supabase, Reflection } from '../../lib/supabase';
+import { supabase, Reflection, Emotion, EmotionScores } from '../../lib/supabase';
+import { EMOTIONS, EMOTION_META, averageEmotions } from '../../lib/emotions';
 import { useAuth } from '../../hooks/useAuth';
 import { format, subDays, subWeeks, subMonths, subHours, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfDay, endOfDay } from 'date-fns';
 
@@ -33,12 +34,19 @@ interface HourlyScatterData {
   timestamp: number; // Full timestamp for proper chronological ordering
   mood: number;
   sentiment: string;
+  primaryEmotion: Emotion | null;
   time: string;
   content: string;
   created_at: string;
   fullDateTime: string; // For tooltip display
 }
 
+interface TagMood {
+  tag: string;
+  avgMood: number;
+  count: number;
+}
+
 interface ProgressChartProps {
   refreshTrigger?: number;
 }
@@ -57,6 +65,11 @@ const getSentimentColor = (sentiment: string): string => {
   }
 };
 
+// Points are coloured by their strongest emotion; older reflections without
+// emotions fall back to the sentiment colours
+const getPointColor = (point: HourlyScatterData): string =>
+  point.primaryEmotion ? EMOTION_META[point.primaryEmotion].color : getSentimentColor(point.sentiment);
+
 // Mood-based color system for other views
 const getMoodColor = (mood: number): string => {
   if (mood >= 8) return '#10b981'; // Green for high mood
@@ -71,6 +84,32 @@ const getMoodEmoji = (score: number | null) => {
   return emojis[score - 1] || '😐';
 };
 
+const MAX_TAGS_SHOWN = 8;
+
+// Average mood per tag over the reflections in the selected time frame, most used tags first
+const getTagMoods = (reflections: Reflection[]): TagMood[] => {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  reflections
+    .filter(reflection => reflection.mood_score)
+    .forEach(reflection => {
+      (reflection.tags || []).forEach(tag => {
+        const entry = totals.get(tag) || { sum: 0, count: 0 };
+        entry.sum += reflection.mood_score!;
+        entry.count += 1;
+        totals.set(tag, entry);
+      });
+    });
+
+  return Array.from(totals, ([tag, { sum, count }]) => ({
+    tag,
+    avgMood: Math.round((sum / count) * 10) / 10,
+    count,
+  }))
+    .sort((a, b) => b.count - a.count || b.avgMood - a.avgMood)
+    .slice(0, MAX_TAGS_SHOWN);
+};
+
 // Enhanced Scatter Tooltip Component for Hourly View
 interface ScatterTooltipProps {
   active?: boolean;
@@ -92,6 +131,11 @@ function ScatterTooltip({ active, payload }: ScatterTooltipProps) {
         <div className="font-semibold text-gray-900">
           Mood: {data.mood}/10
         </div>
+        {data.primaryEmotion && (
+          <div className="text-sm text-gray-700">
+            {EMOTION_META[data.primaryEmotion].emoji} {EMOTION_META[data.primaryEmotion].label}
+          </div>
+        )}
         <div className="text-sm text-gray-600">
           {data.fullDateTime}
         </div>
@@ -165,6 +209,8 @@ export function ProgressChart({ refreshTrigger }: ProgressChartProps) {
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('daily');
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [hourlyScatterData, setHourlyScatterData] = useState<HourlyScatterData[]>([]);
+  const [tagMoods, setTagMoods] = useState<TagMood[]>([]);
+  const [emotionMix, setEmotionMix] = useState<EmotionScores | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -188,6 +234,9 @@ export function ProgressChart({ refreshTrigger }: ProgressChartProps) {
         .order('created_at', { ascending: true });
 
       if (reflections) {
+        setTagMoods(getTagMoods(reflections));
+        setEmotionMix(averageEmotions(reflections.map((r: Reflection) => r.emotions)));
+
         if (selectedTimeFrame === 'hourly') {
           const scatterData = createHourlyScatterData(reflections);
           setHourlyScatterData(scatterData);
@@ -225,6 +274,7 @@ export function ProgressChart({ refreshTrigger }: ProgressChartProps) {
           timestamp,
           mood,
           sentiment: reflection.sentiment || 'neutral',
+          primaryEmotion: reflection.primary_emotion ?? null,
           time: format(date, 'HH:mm'),
           content: reflection.content,
           created_at: reflection.created_at,
@@ -598,7 +648,7 @@ export function ProgressChart({ refreshTrigger }: ProgressChartProps) {
                     {hourlyScatterData.map((entry, index) => (
                       <Cell 
                         key={`cell-${index}`} 
-                        fill={getSentimentColor(entry.sentiment)} 
+                        fill={getPointColor(entry)} 
                         stroke="#ffffff" 
                         strokeWidth={2} 
                       />
@@ -737,6 +787,62 @@ export function ProgressChart({ refreshTrigger }: ProgressChartProps) {
             </div>
           </div>
 
+          {/* Emotion Mix */}
+          {emotionMix && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <Sparkles className="w-4 h-4 text-gray-500" />
+                Emotion Mix
+              </h3>
+              <div className="space-y-2">
+                {EMOTIONS.map(emotion => (
+                  <div key={emotion} className="flex items-center gap-3">
+                    <span className="w-24 text-sm text-gray-700">
+                      {EMOTION_META[emotion].emoji} {EMOTION_META[emotion].label}
+                    </span>
+                    <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${emotionMix[emotion] * 100}%`, backgroundColor: EMOTION_META[emotion].color }}
+                      />
+                    </div>
+                    <span className="w-12 text-right text-sm font-medium text-gray-900">
+                      {Math.round(emotionMix[emotion] * 100)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Average intensity across reflections in this period.</p>
+            </div>
+          )}
+
+          {/* Mood by Tag */}
+          {tagMoods.length > 0 && (
+            <div className="mb-6">
+              <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <Tag className="w-4 h-4 text-gray-500" />
+                Mood by Tag
+              </h3>
+              <div className="space-y-2">
+                {tagMoods.map(({ tag, avgMood, count }) => (
+                  <div key={tag} className="flex items-center gap-3">
+                    <span className="w-24 truncate text-sm text-gray-700" title={tag}>#{tag}</span>
+                    <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${avgMood * 10}%`, backgroundColor: getMoodColor(avgMood) }}
+                      />
+                    </div>
+                    <span className="w-12 text-right text-sm font-medium text-gray-900">{avgMood}/10</span>
+                    <span className="w-16 text-right text-xs text-gray-500">
+                      {count} {count === 1 ? 'entry' : 'entries'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Enhanced Insights */}
           {stats.avgMood > 0 && (
             <div className="p-6 bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 rounded-xl border border-blue-100">
@@ -1,6 +1,24 @@
-import React from 'react';
-import { Video, Volume2, BookOpen, Award, Brain, Sparkles, TrendingUp, Dumbbell } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Video, Volume2, BookOpen, Award, Brain, Sparkles, TrendingUp, Dumbbell, MessageCircle, Flag,
+  AlertCircle, ChevronDown, ChevronUp, EyeOff, Loader, Pin, Plus, Settings2, X, LucideIcon,
+} from 'lucide-react';
 import { useModal } from '../../hooks/useModal';
+import { useAuth } from '../../hooks/useAuth';
+import { useUserProfile } from '../../hooks/useUserProfile';
+import { QuickAction, UserCoach } from '../../lib/supabase';
+import {
+  QUICK_ACTION_FEATURES,
+  QuickActionRow,
+  coachShortcut,
+  defaultQuickActions,
+  featureShortcut,
+  getQuickActionFeature,
+  loadQuickActions,
+  saveQuickActions,
+  sortQuickActions,
+} from '../../lib/quickActions';
+import { fetchCoaches, getCoachCategory } from '../../lib/coaches';
 import { Modal } from '../ui/Modal';
 import { WeeklyRecapModal } from './WeeklyRecapModal';
 import { VoiceLibraryModal } from './VoiceLibraryModal';
@@ -10,8 +28,51 @@ import { AIRecapsModal } from './AIRecapsModal';
 import { AIStylistRecapModal } from './AIStylistRecapModal';
 import { GrowthReportsModal } from './GrowthReportsModal';
 import { BodyCoachRecapModal } from './BodyCoachRecapModal';
+import { CoachesModal } from './CoachesModal';
+import { GoalsModal } from './GoalsModal';
+
+interface ActionStyle {
+  icon: LucideIcon;
+  color: string;
+  emoji?: string;
+}
+
+const FEATURE_STYLES: Record<string, ActionStyle> = {
+  'ai-insights': { icon: Brain, color: 'from-purple-500 to-purple-600' },
+  'growth-reports': { icon: TrendingUp, color: 'from-indigo-500 to-purple-600', emoji: '📈' },
+  'style-journal': { icon: Sparkles, color: 'from-pink-500 to-rose-600', emoji: '👗' },
+  'body-coach': { icon: Dumbbell, color: 'from-blue-500 to-indigo-600', emoji: '💪' },
+  'goals': { icon: Flag, color: 'from-amber-500 to-orange-600', emoji: '🎯' },
+  'my-coaches': { icon: MessageCircle, color: 'from-teal-500 to-emerald-600' },
+  'weekly-recap': { icon: Video, color: 'from-indigo-500 to-indigo-600' },
+  'voice-library': { icon: Volume2, color: 'from-green-500 to-green-600' },
+  'reflection-history': { icon: BookOpen, color: 'from-blue-500 to-blue-600' },
+  'achievements': { icon: Award, color: 'from-orange-500 to-orange-600' },
+};
+
+const COACH_STYLE: ActionStyle = { icon: MessageCircle, color: 'from-teal-500 to-emerald-600' };
+
+interface ResolvedAction extends ActionStyle {
+  key: string;
+  label: string;
+  description: string;
+  pinned: boolean;
+  onClick: () => void;
+}
+
+// New rows have no id yet, but each feature or coach appears only once
+const rowKey = (row: QuickActionRow) => row.id || row.feature_key || row.linked_resource || '';
+
+// Pinned, then the rest, then hidden features, keeping the user's order within each
+const normalizeLayout = (rows: QuickActionRow[]) => [
+  ...rows.filter(row => !row.hidden && row.pinned),
+  ...rows.filter(row => !row.hidden && !row.pinned),
+  ...rows.filter(row => row.hidden),
+];
 
 export function QuickActions() {
+  const { user } = useAuth();
+  const { profile } = useUserProfile();
   const weeklyRecapModal = useModal();
   const voiceLibraryModal = useModal();
   const reflectionHistoryModal = useModal();
@@ -20,104 +81,329 @@ export function QuickActions() {
   const aiStylistRecapModal = useModal();
   const growthReportsModal = useModal();
   const bodyCoachRecapModal = useModal();
+  const coachesModal = useModal();
+  const goalsModal = useModal();
+
+  const [saved, setSaved] = useState<QuickAction[]>([]);
+  const [coaches, setCoaches] = useState<UserCoach[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<QuickActionRow[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [coachId, setCoachId] = useState<string | undefined>();
+
+  // Defaults are created from the profile's goals, so wait for it
+  const load = useCallback(async () => {
+    if (!user || !profile) return;
+
+    try {
+      const [rows, coachRows] = await Promise.all([loadQuickActions(user.id, profile.goals), fetchCoaches()]);
+      setSaved(rows);
+      setCoaches(coachRows);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading quick actions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load quick actions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, profile]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const featureActions: Record<string, () => void> = {
+    'ai-insights': aiRecapsModal.open,
+    'growth-reports': growthReportsModal.open,
+    'style-journal': aiStylistRecapModal.open,
+    'body-coach': bodyCoachRecapModal.open,
+    'goals': goalsModal.open,
+    'my-coaches': () => openCoaches(),
+    'weekly-recap': weeklyRecapModal.open,
+    'voice-library': voiceLibraryModal.open,
+    'reflection-history': reflectionHistoryModal.open,
+    'achievements': achievementsModal.open,
+  };
+
+  const openCoaches = (id?: string) => {
+    setCoachId(id);
+    coachesModal.open();
+  };
+
+  // Coaches may have been renamed or deleted (taking their shortcut with them)
+  const closeCoaches = () => {
+    coachesModal.close();
+    load();
+  };
+
+  const resolve = (row: QuickActionRow): ResolvedAction | null => {
+    if (row.type === 'ai_coach') {
+      const coach = coaches.find(c => c.id === row.linked_resource);
+      if (!coach) return null;
+      const category = getCoachCategory(coach.category);
+      return {
+        ...COACH_STYLE,
+        key: rowKey(row),
+        label: coach.coach_name,
+        description: coach.description || `Chat with your ${category.label.toLowerCase()} coach`,
+        emoji: category.emoji,
+        pinned: row.pinned,
+        onClick: () => openCoaches(coach.id),
+      };
+    }
 
-  const actions = [
-    {
-      icon: Brain,
-      label: 'AI Insights',
-      description: 'Get personalized AI-powered recaps and coaching',
-      color: 'from-purple-500 to-purple-600',
-      action: aiRecapsModal.open,
-    },
-    {
-      icon: TrendingUp,
-      label: 'Growth Reports',
-      description: 'Review your saved AI insights over time',
-      color: 'from-indigo-500 to-purple-600',
-      action: growthReportsModal.open,
-      emoji: '📈',
-    },
-    {
-      icon: Sparkles,
-      label: 'Style Journal',
-      description: 'Get AI feedback on your outfits and browse history',
-      color: 'from-pink-500 to-rose-600',
-      action: aiStylistRecapModal.open,
-      emoji: '👗',
-    },
-    {
-      icon: Dumbbell,
-      label: 'AI Body Coach',
-      description: 'Get personalized coaching plans and track your progress over time',
-      color: 'from-blue-500 to-indigo-600',
-      action: bodyCoachRecapModal.open,
-      emoji: '💪',
-    },
-    {
-      icon: Video,
-      label: 'Weekly Recap',
-      description: 'View your AI-generated video summary',
-      color: 'from-indigo-500 to-indigo-600',
-      action: weeklyRecapModal.open,
-    },
-    {
-      icon: Volume2,
-      label: 'Voice Library',
-      description: 'Listen to your reflection recordings',
-      color: 'from-green-500 to-green-600',
-      action: voiceLibraryModal.open,
-    },
-    {
-      icon: BookOpen,
-      label: 'Reflection History',
-      description: 'Browse past reflections',
-      color: 'from-blue-500 to-blue-600',
-      action: reflectionHistoryModal.open,
-    },
-    {
-      icon: Award,
-      label: 'Achievements',
-      description: 'See your milestones and rewards',
-      color: 'from-orange-500 to-orange-600',
-      action: achievementsModal.open,
-    },
-  ];
+    const feature = getQuickActionFeature(row.feature_key);
+    if (!feature || !FEATURE_STYLES[feature.key]) return null;
+    return {
+      ...FEATURE_STYLES[feature.key],
+      key: rowKey(row),
+      label: feature.label,
+      description: feature.description,
+      pinned: row.pinned,
+      onClick: featureActions[feature.key],
+    };
+  };
+
+  // If the saved layout couldn't be loaded, fall back to the defaults so the
+  // dashboard still works
+  const layout: QuickActionRow[] = saved.length > 0 ? saved : defaultQuickActions(user?.id ?? '', profile?.goals ?? null);
+  const actions = sortQuickActions(layout)
+    .filter(row => !row.hidden)
+    .map(resolve)
+    .filter((action): action is ResolvedAction => action !== null);
+
+  const updateDraft = (change: (rows: QuickActionRow[]) => QuickActionRow[]) =>
+    setDraft(prev => prev && normalizeLayout(change(prev)));
+
+  // Only within the pinned or unpinned group; pinning is how an action changes group
+  const move = (key: string, offset: number) => updateDraft(rows => {
+    const index = rows.findIndex(row => rowKey(row) === key);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= rows.length) return rows;
+    if (rows[target].hidden || rows[target].pinned !== rows[index].pinned) return rows;
+    const next = [...rows];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  const togglePin = (key: string) => updateDraft(rows =>
+    rows.map(row => (rowKey(row) === key ? { ...row, pinned: !row.pinned } : row))
+  );
+
+  // Features are hidden so they can be added back; coach shortcuts are removed
+  const remove = (key: string) => updateDraft(rows =>
+    rows.flatMap(row => {
+      if (rowKey(row) !== key) return [row];
+      return row.type === 'feature' ? [{ ...row, hidden: true, pinned: false }] : [];
+    })
+  );
+
+  // Added actions go to the end of the unpinned ones
+  const add = (row: QuickActionRow) => updateDraft(rows => {
+    const rest = rows.filter(existing => rowKey(existing) !== rowKey(row));
+    return [...rest.filter(r => !r.hidden), { ...row, hidden: false, pinned: false }, ...rest.filter(r => r.hidden)];
+  });
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      setSaved(await saveQuickActions(draft, saved));
+      setDraft(null);
+    } catch (err) {
+      console.error('Error saving quick actions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save quick actions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const draftActions = (draft || [])
+    .filter(row => !row.hidden)
+    .map(row => ({ row, action: resolve(row) }))
+    .filter((item): item is { row: QuickActionRow; action: ResolvedAction } => item.action !== null);
+
+  const addableFeatures = QUICK_ACTION_FEATURES.filter(feature =>
+    !draft?.some(row => row.feature_key === feature.key && !row.hidden)
+  );
+  const addableCoaches = coaches.filter(coach => !draft?.some(row => row.linked_resource === coach.id));
 
   return (
     <>
       <div className="bg-white rounded-2xl shadow-lg p-6">
-        <h2 className="text-xl font-bold text-gray-900 mb-4">Quick Actions</h2>
-        
-        <div className="space-y-3">
-          {actions.map((action, index) => {
-            const Icon = action.icon;
-            
-            return (
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Quick Actions</h2>
+          {!loading && !draft && (
+            <button
+              onClick={() => setDraft(normalizeLayout(sortQuickActions(layout)))}
+              className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Customize quick actions"
+            >
+              <Settings2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-2 mb-3 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader className="w-6 h-6 text-blue-500 animate-spin" />
+          </div>
+        ) : draft ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {draftActions.map(({ row, action }, index) => {
+                const Icon = action.icon;
+                const previous = draftActions[index - 1]?.row;
+                const next = draftActions[index + 1]?.row;
+
+                return (
+                  <div key={action.key} className="flex items-center gap-2 p-3 bg-gray-50 rounded-xl">
+                    <div className={`w-8 h-8 bg-gradient-to-r ${action.color} rounded-lg flex items-center justify-center flex-shrink-0`}>
+                      {action.emoji ? (
+                        <span className="text-base">{action.emoji}</span>
+                      ) : (
+                        <Icon className="w-4 h-4 text-white" />
+                      )}
+                    </div>
+                    <span className="flex-1 text-sm font-medium text-gray-900 truncate">{action.label}</span>
+                    <button
+                      onClick={() => togglePin(action.key)}
+                      className={`p-1.5 rounded-lg transition-colors ${row.pinned ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                      title={row.pinned ? 'Unpin' : 'Pin to top'}
+                    >
+                      <Pin className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(action.key, -1)}
+                      disabled={!previous || previous.pinned !== row.pinned}
+                      className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(action.key, 1)}
+                      disabled={!next || next.pinned !== row.pinned}
+                      className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => remove(action.key)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={row.type === 'feature' ? 'Hide' : 'Remove shortcut'}
+                    >
+                      {row.type === 'feature' ? <EyeOff className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                    </button>
+                  </div>
+                );
+              })}
+              {draftActions.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">Nothing shown. Add an action below.</p>
+              )}
+            </div>
+
+            {(addableFeatures.length > 0 || addableCoaches.length > 0) && (
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Add</p>
+                <div className="flex flex-wrap gap-2">
+                  {addableFeatures.map(feature => (
+                    <button
+                      key={feature.key}
+                      onClick={() => user && add(
+                        draft.find(row => row.feature_key === feature.key) || featureShortcut(user.id, feature, 0)
+                      )}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {feature.label}
+                    </button>
+                  ))}
+                  {addableCoaches.map(coach => (
+                    <button
+                      key={coach.id}
+                      onClick={() => user && add(coachShortcut(user.id, coach, 0))}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-teal-700 bg-teal-50 hover:bg-teal-100 rounded-full transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {getCoachCategory(coach.category).emoji} {coach.coach_name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
               <button
-                key={index}
-                onClick={action.action}
-                className="w-full flex items-center gap-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition-colors text-left group"
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
               >
-                <div className={`w-12 h-12 bg-gradient-to-r ${action.color} rounded-xl flex items-center justify-center flex-shrink-0 group-hover:scale-105 transition-transform`}>
-                  {action.emoji ? (
-                    <span className="text-2xl">{action.emoji}</span>
-                  ) : (
-                    <Icon className="w-6 h-6 text-white" />
-                  )}
-                </div>
-                
-                <div className="flex-1">
-                  <h3 className="font-semibold text-gray-900 text-sm">
-                    {action.label}
-                  </h3>
-                  <p className="text-xs text-gray-500">
-                    {action.description}
-                  </p>
-                </div>
+                Cancel
               </button>
-            );
-          })}
-        </div>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-green-600 rounded-lg hover:from-blue-700 hover:to-green-700 disabled:opacity-50 transition-all"
+              >
+                {saving && <Loader className="w-4 h-4 animate-spin" />}
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {actions.map(action => {
+              const Icon = action.icon;
+
+              return (
+                <button
+                  key={action.key}
+                  onClick={action.onClick}
+                  className="w-full flex items-center gap-4 p-4 bg-gray-50 hover:bg-gray-100 rounded-xl transition-colors text-left group"
+                >
+                  <div className={`w-12 h-12 bg-gradient-to-r ${action.color} rounded-xl flex items-center justify-center flex-shrink-0 group-hover:scale-105 transition-transform`}>
+                    {action.emoji ? (
+                      <span className="text-2xl">{action.emoji}</span>
+                    ) : (
+                      <Icon className="w-6 h-6 text-white" />
+                    )}
+                  </div>
+
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 text-sm">
+                      {action.label}
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                      {action.description}
+                    </p>
+                  </div>
+
+                  {action.pinned && <Pin className="w-4 h-4 text-gray-300 flex-shrink-0" />}
+                </button>
+              );
+            })}
+            {actions.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">
+                You've hidden every action. Use the settings button to add some back.
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Modals */}
@@ -169,6 +455,31 @@ export function QuickActions() {
         />
       </Modal>
 
+      <Modal
+        isOpen={goalsModal.isOpen}
+        onClose={goalsModal.close}
+        title="Goals"
+        size="lg"
+      >
+        <GoalsModal
+          isOpen={goalsModal.isOpen}
+          onClose={goalsModal.close}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={coachesModal.isOpen}
+        onClose={closeCoaches}
+        title="My Coaches"
+        size="lg"
+      >
+        <CoachesModal
+          isOpen={coachesModal.isOpen}
+          onClose={closeCoaches}
+          coachId={coachId}
+        />
+      </Modal>
+
       <Modal
         isOpen={weeklyRecapModal.isOpen}
         onClose={weeklyRecapModal.close}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, CheckCheck, Clock, Loader, Repeat, RotateCcw, X } from 'lucide-react';
+import { RecommendationAction, RecommendationFollowUp, RecommendationStatus } from '../../lib/supabase';
+import {
+  RECOMMENDATION_STATUS_LABELS,
+  createHabitFromRecommendation,
+  effectiveStatus,
+  updateRecommendation,
+} from '../../lib/recommendations';
+import { useAuth } from '../../hooks/useAuth';
+
+interface RecommendationListProps {
+  reportId: string;
+  recommendations: string[];
+  actions: RecommendationAction[]; // for this report; missing rows count as pending
+  onActionChange: (action: RecommendationAction) => void;
+  accent?: 'purple' | 'blue';
+  readOnly?: boolean; // safety-mode recaps: support suggestions are not tasks to track
+}
+
+const STATUS_STYLES: Record<RecommendationStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  accepted: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  habit: 'bg-purple-100 text-purple-700',
+  snoozed: 'bg-amber-100 text-amber-700',
+  dismissed: 'bg-gray-100 text-gray-400',
+};
+
+const actionButton = 'inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-lg transition-colors disabled:opacity-50';
+
+export function RecommendationList({ reportId, recommendations, actions, onActionChange, accent = 'purple', readOnly = false }: RecommendationListProps) {
+  const { user } = useAuth();
+  const [busy, setBusy] = useState<number | null>(null);
+  const [habitDraft, setHabitDraft] = useState<{ index: number; name: string; frequency: 'daily' | 'weekly' } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const setStatus = async (index: number, status: RecommendationStatus, habitId?: string) => {
+    if (!user) return;
+
+    setBusy(index);
+    setError(null);
+    try {
+      onActionChange(await updateRecommendation(
+        user.id,
+        { reportId, index, recommendation: recommendations[index] },
+        status,
+        { habit_id: habitId }
+      ));
+    } catch (err) {
+      console.error('Error updating recommendation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update recommendation');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreateHabit = async () => {
+    if (!user || !habitDraft || !habitDraft.name.trim()) return;
+
+    setBusy(habitDraft.index);
+    setError(null);
+    try {
+      const habit = await createHabitFromRecommendation(user.id, habitDraft.name, habitDraft.frequency);
+      const index = habitDraft.index;
+      setHabitDraft(null);
+      await setStatus(index, 'habit', habit.id);
+    } catch (err) {
+      console.error('Error creating habit from recommendation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create habit');
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {recommendations.map((recommendation, index) => {
+        const action = actions.find(a => a.item_index === index);
+        const status = effectiveStatus(action);
+        const settled = status !== 'pending';
+
+        return (
+          <div key={index} className="flex items-start gap-3">
+            <div className={`w-6 h-6 ${accent === 'blue' ? 'bg-blue-100' : 'bg-purple-100'} rounded-full flex items-center justify-center flex-shrink-0 mt-0.5`}>
+              <span className={`text-xs font-medium ${accent === 'blue' ? 'text-blue-600' : 'text-purple-600'}`}>{index + 1}</span>
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm leading-relaxed ${status === 'dismissed' ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                {recommendation}
+              </p>
+
+              {!readOnly && (
+                <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                  {settled && (
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                      {RECOMMENDATION_STATUS_LABELS[status]}
+                      {status === 'snoozed' && action?.snoozed_until && ` until ${format(new Date(`${action.snoozed_until}T00:00:00`), 'MMM d')}`}
+                    </span>
+                  )}
+
+                  {busy === index ? (
+                    <Loader className="w-4 h-4 text-gray-400 animate-spin" />
+                  ) : status === 'pending' ? (
+                    <>
+                      <button onClick={() => setStatus(index, 'accepted')} className={`${actionButton} text-blue-700 bg-blue-50 hover:bg-blue-100`}>
+                        <Check className="w-3 h-3" />
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => setHabitDraft({ index, name: recommendation.slice(0, 80), frequency: 'daily' })}
+                        className={`${actionButton} text-purple-700 bg-purple-50 hover:bg-purple-100`}
+                      >
+                        <Repeat className="w-3 h-3" />
+                        Make it a habit
+                      </button>
+                      <button onClick={() => setStatus(index, 'snoozed')} className={`${actionButton} text-amber-700 bg-amber-50 hover:bg-amber-100`}>
+                        <Clock className="w-3 h-3" />
+                        Snooze a week
+                      </button>
+                      <button onClick={() => setStatus(index, 'dismissed')} className={`${actionButton} text-gray-500 hover:bg-gray-100`}>
+                        <X className="w-3 h-3" />
+                        Dismiss
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      {status === 'accepted' && (
+                        <button onClick={() => setStatus(index, 'completed')} className={`${actionButton} text-green-700 bg-green-50 hover:bg-green-100`}>
+                          <CheckCheck className="w-3 h-3" />
+                          Mark done
+                        </button>
+                      )}
+                      {/* A habit made from it is kept; only the link is dropped */}
+                      <button onClick={() => setStatus(index, 'pending')} className={`${actionButton} text-gray-500 hover:bg-gray-100`} title="Undo">
+                        <RotateCcw className="w-3 h-3" />
+                        Undo
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {habitDraft?.index === index && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 p-2 bg-purple-50 rounded-lg">
+                  <input
+                    type="text"
+                    value={habitDraft.name}
+                    onChange={(e) => setHabitDraft({ ...habitDraft, name: e.target.value })}
+                    maxLength={80}
+                    placeholder="Habit name"
+                    className="flex-1 min-w-[10rem] py-1 px-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                  />
+                  <select
+                    value={habitDraft.frequency}
+                    onChange={(e) => setHabitDraft({ ...habitDraft, frequency: e.target.value as 'daily' | 'weekly' })}
+                    className="py-1 px-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly</option>
+                  </select>
+                  <button
+                    onClick={handleCreateHabit}
+                    disabled={!habitDraft.name.trim()}
+                    className={`${actionButton} text-white bg-purple-600 hover:bg-purple-700`}
+                  >
+                    Create habit
+                  </button>
+                  <button onClick={() => setHabitDraft(null)} className={`${actionButton} text-gray-500 hover:bg-gray-100`}>
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+// How the previous recap's recommendations went, as recorded when this recap was written
+export function RecommendationFollowUpSummary({ items }: { items: RecommendationFollowUp[] }) {
+  const done = items.filter(item => item.status === 'completed' || item.status === 'habit').length;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-2">
+        {done} of {items.length} earlier recommendation{items.length !== 1 ? 's' : ''} followed through
+      </p>
+      <ul className="space-y-1.5">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-start justify-between gap-3 text-sm">
+            <span className="text-gray-700">{item.recommendation}</span>
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${STATUS_STYLES[item.status]}`}>
+              {RECOMMENDATION_STATUS_LABELS[item.status]}
+              {item.status === 'habit' && item.habit_name && ` · ${item.habit_completions ?? 0}×`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
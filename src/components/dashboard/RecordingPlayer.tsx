@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Mic, Pause, Play } from 'lucide-react';
+import { VoiceRecording } from '../../lib/supabase';
+import { getSignedUrl } from '../../lib/storage';
+import { PLAYBACK_RATES, formatPlaybackTime } from '../../lib/audio';
+import { activeWordIndex } from '../../lib/recordings';
+import { useAudioPlayer } from '../../hooks/useAudioPlayer';
+
+interface RecordingPlayerProps {
+  recordings: VoiceRecording[];
+}
+
+// The user's own recordings with their transcripts. Words light up as they are
+// spoken, and clicking a word jumps the recording to it.
+export function RecordingPlayer({ recordings }: RecordingPlayerProps) {
+  const player = useAudioPlayer();
+  const [error, setError] = useState<string | null>(null);
+
+  const ordered = [...recordings].sort((a, b) => a.position - b.position);
+
+  const start = async (recording: VoiceRecording, at = 0) => {
+    setError(null);
+    try {
+      await player.play(recording.id, await getSignedUrl('voice-reflections', recording.audio_path), at);
+    } catch (err) {
+      console.error('Error playing recording:', err);
+      setError('This recording could not be played. Please try again.');
+    }
+  };
+
+  const handlePlayClick = (recording: VoiceRecording) => {
+    if (player.activeId === recording.id) {
+      player.toggle();
+    } else {
+      start(recording);
+    }
+  };
+
+  const handleWordClick = (recording: VoiceRecording, seconds: number) => {
+    if (player.activeId === recording.id) {
+      player.seek(seconds);
+    } else {
+      start(recording, seconds);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {ordered.map((recording, index) => {
+        const isActive = player.activeId === recording.id;
+        const current = isActive ? activeWordIndex(recording.words, player.currentTime) : -1;
+        const duration = (isActive && player.duration) || recording.duration || 0;
+
+        return (
+          <div key={recording.id} className="p-3 bg-rose-50 border border-rose-100 rounded-xl">
+            <div className="flex items-center gap-3 mb-2">
+              <button
+                type="button"
+                onClick={() => handlePlayClick(recording)}
+                aria-label={isActive && player.isPlaying ? 'Pause recording' : 'Play recording'}
+                className="w-8 h-8 rounded-lg flex items-center justify-center bg-white text-rose-600 hover:bg-rose-100 transition-colors flex-shrink-0"
+              >
+                {isActive && player.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <div className="flex items-center gap-1 text-xs font-medium text-rose-700">
+                <Mic className="w-3.5 h-3.5" />
+                {ordered.length > 1 ? `Your recording ${index + 1}` : 'Your recording'}
+              </div>
+              <span className="text-xs text-gray-500 tabular-nums ml-auto">
+                {isActive && `${formatPlaybackTime(player.currentTime)} / `}{formatPlaybackTime(duration)}
+              </span>
+              {isActive && (
+                <select
+                  value={player.playbackRate}
+                  onChange={(e) => player.setPlaybackRate(Number(e.target.value))}
+                  aria-label="Playback speed"
+                  className="py-0.5 px-1 border border-gray-300 rounded-md text-xs bg-white"
+                >
+                  {PLAYBACK_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate}x</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {recording.words.length > 0 ? (
+              <p dir="auto" className="text-sm leading-relaxed text-gray-600">
+                {recording.words.map((word, wordIndex) => (
+                  <span key={wordIndex}>
+                    <span
+                      onClick={() => handleWordClick(recording, word.start)}
+                      className={`cursor-pointer rounded px-0.5 transition-colors ${
+                        wordIndex === current
+                          ? 'bg-rose-200 text-rose-900'
+                          : wordIndex < current
+                          ? 'text-gray-900'
+                          : 'hover:bg-rose-100'
+                      }`}
+                    >
+                      {word.text}
+                    </span>{' '}
+                  </span>
+                ))}
+              </p>
+            ) : (
+              <p dir="auto" className="text-sm leading-relaxed text-gray-600">{recording.transcript}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
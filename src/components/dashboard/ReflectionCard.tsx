@@ -1,7 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Heart, Mic, Send, Volume2, MicOff, Loader, AlertCircle } from 'lucide-react';
-import { supabase, Reflection } from '../../lib/supabase';
+import { supabase, Reflection, getCurrentSession } from '../../lib/supabase';
+import { getSignedUrl } from '../../lib/storage';
+import { analyzeReflection } from '../../lib/reflections';
+import { PendingRecording, saveRecordings } from '../../lib/recordings';
+import { audioExtension, pickRecordingMimeType } from '../../lib/audio';
+import { RiskLevel, checkReflectionSafety } from '../../lib/safety';
 import { useAuth } from '../../hooks/useAuth';
+import { useUserProfile } from '../../hooks/useUserProfile';
+import { CrisisResources } from './CrisisResources';
+import { RecordingPlayer } from './RecordingPlayer';
 
 interface ReflectionCardProps {
   onReflectionSaved?: () => void;
@@ -9,6 +17,7 @@ interface ReflectionCardProps {
 
 export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
   const { user } = useAuth();
+  const { profile } = useUserProfile();
   const [content, setContent] = useState('');
   const [moodScore, setMoodScore] = useState(5);
   const [isRecording, setIsRecording] = useState(false);
@@ -19,11 +28,14 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [safetyLevel, setSafetyLevel] = useState<RiskLevel>('none');
+  const [pendingRecordings, setPendingRecordings] = useState<PendingRecording[]>([]);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const recordingStartedAtRef = useRef(0);
 
   useEffect(() => {
     if (user) {
@@ -46,7 +58,7 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     const today = new Date().toISOString().split('T')[0];
     const { data } = await supabase
       .from('reflections')
-      .select('*')
+      .select('*, recordings:voice_recordings(*)')
       .eq('user_id', user.id)
       .gte('created_at', `${today}T00:00:00`)
       .lt('created_at', `${today}T23:59:59`)
@@ -75,9 +87,8 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
       });
       
       streamRef.current = stream;
-      mediaRecorderRef.current = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
+      const mimeType = pickRecordingMimeType();
+      mediaRecorderRef.current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       audioChunksRef.current = [];
 
       mediaRecorderRef.current.ondataavailable = (event) => {
@@ -87,11 +98,12 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
       };
 
       mediaRecorderRef.current.onstop = async () => {
-        const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(audioChunksRef.current, { type: mediaRecorderRef.current?.mimeType || 'audio/webm' });
+        const duration = (Date.now() - recordingStartedAtRef.current) / 1000;
         setAudioBlob(blob);
         
         if (blob.size > 0) {
-          await transcribeAudio(blob);
+          await transcribeAudio(blob, duration);
         } else {
           setTranscriptionError('No audio recorded. Please try again.');
         }
@@ -110,6 +122,7 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
       };
 
       mediaRecorderRef.current.start(1000); // Collect data every second
+      recordingStartedAtRef.current = Date.now();
       setIsRecording(true);
     } catch (error) {
       console.error('Error starting recording:', error);
@@ -132,7 +145,7 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     }
   };
 
-  const transcribeAudio = async (audioBlob: Blob) => {
+  const transcribeAudio = async (audioBlob: Blob, recordedSeconds: number) => {
     if (!audioBlob || audioBlob.size === 0) {
       setTranscriptionError('No audio to transcribe.');
       return;
@@ -143,12 +156,16 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     
     try {
       const formData = new FormData();
-      formData.append('audio', audioBlob, 'reflection.webm');
+      formData.append('audio', audioBlob, `reflection.${audioExtension(audioBlob.type)}`);
+      if (profile?.preferred_language) {
+        formData.append('language', profile.preferred_language);
+      }
 
+      const session = await getCurrentSession();
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transcribe-audio`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
         },
         body: formData,
       });
@@ -158,7 +175,7 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const { text } = await response.json();
+      const { text, words, duration } = await response.json();
       
       if (text && text.trim()) {
         // Append to existing content or replace if empty
@@ -169,6 +186,16 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
           }
           return prev + '\n\n' + newText;
         });
+
+        if (profile?.keep_voice_recordings) {
+          setPendingRecordings(prev => [...prev, {
+            key: `${Date.now()}`,
+            blob: audioBlob,
+            transcript: text.trim(),
+            words: words || [],
+            duration: Math.round(Math.max(recordedSeconds, duration || 0) * 100) / 100,
+          }]);
+        }
       } else {
         setTranscriptionError('No speech detected. Please try again.');
       }
@@ -180,29 +207,6 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     }
   };
 
-  const analyzeSentiment = async (text: string) => {
-    try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-sentiment`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Sentiment analysis failed');
-      }
-
-      const { sentiment } = await response.json();
-      return sentiment;
-    } catch (error) {
-      console.error('Error analyzing sentiment:', error);
-      return 'neutral';
-    }
-  };
-
   const generateVoice = async (text: string, voiceId: string = 'Rachel') => {
     // Skip voice generation if text is empty
     if (!text || !text.trim()) {
@@ -212,10 +216,11 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
 
     setIsGeneratingVoice(true);
     try {
+      const session = await getCurrentSession();
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-voice`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
@@ -229,9 +234,9 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
         throw new Error(errorData.error || 'Voice generation failed');
       }
 
-      const { voice_url } = await response.json();
+      const { voice_url, duration } = await response.json();
       console.log('Voice generation completed successfully');
-      return voice_url;
+      return { voice_url: voice_url as string, voice_duration: (duration ?? null) as number | null };
     } catch (error) {
       console.error('Error generating voice:', error);
       throw error; // Re-throw to be handled by handleSubmit
@@ -250,16 +255,23 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     try {
       console.log('Starting reflection submission...');
       
-      // Step 1: Analyze sentiment
+      // Step 1: Analyze sentiment and emotions
       console.log('Analyzing sentiment...');
-      const sentiment = await analyzeSentiment(content);
+      const analysis = await analyzeReflection(content, profile?.preferred_language);
       
-      // Step 2: Generate voice (only if text is not empty)
-      let voice_url = null;
-      if (content && content.trim().length > 0) {
+      // Step 2: Generate voice (only if text is not empty). Edits keep the existing
+      // recording; it is regenerated from the edit dialog when asked for.
+      let voice_url = todaysReflection?.voice_url ?? null;
+      let voice_duration = todaysReflection?.voice_duration ?? null;
+      if (todaysReflection) {
+        console.log('Keeping existing voice recording for edit');
+      } else if (profile?.tts_enabled === false) {
+        console.log('Skipping voice generation: turned off in settings');
+      } else if (content && content.trim().length > 0) {
         console.log('Generating voice with Rachel voice...');
         try {
-          voice_url = await generateVoice(content.trim(), 'Rachel');
+          const voice = await generateVoice(content.trim(), 'Rachel');
+          if (voice) ({ voice_url, voice_duration } = voice);
         } catch (voiceError) {
           console.error('Voice generation failed:', voiceError);
           // Don't fail the entire submission if voice generation fails
@@ -275,10 +287,13 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
         user_id: user.id,
         content: content.trim(),
         mood_score: moodScore,
-        sentiment,
+        ...analysis,
         voice_url,
+        voice_duration,
       };
+      let recordingError: string | null = null;
 
+      let reflectionId: string;
       if (todaysReflection) {
         // Update existing reflection
         const { error } = await supabase
@@ -287,16 +302,33 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
           .eq('id', todaysReflection.id);
         
         if (error) throw error;
+        reflectionId = todaysReflection.id;
       } else {
         // Create new reflection
-        const { error } = await supabase
+        const { data: saved, error } = await supabase
           .from('reflections')
-          .insert([reflectionData]);
+          .insert([reflectionData])
+          .select('id')
+          .single();
         
         if (error) throw error;
+        reflectionId = saved.id;
       }
 
       console.log('Reflection saved successfully');
+
+      // New clips go after any already kept with today's reflection
+      if (pendingRecordings.length > 0) {
+        try {
+          await saveRecordings(user.id, reflectionId, pendingRecordings, todaysReflection?.recordings?.length ?? 0);
+        } catch (error) {
+          recordingError = error instanceof Error ? error.message : 'Your recordings could not be kept.';
+        }
+        setPendingRecordings([]);
+      }
+      setSubmitError(recordingError);
+
+      checkReflectionSafety(reflectionId).then(risk => setSafetyLevel(risk.level));
       await fetchTodaysReflection();
       onReflectionSaved?.();
       
@@ -310,10 +342,14 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
     }
   };
 
-  const playVoice = () => {
+  const playVoice = async () => {
     if (todaysReflection?.voice_url && audioPlayerRef.current) {
-      audioPlayerRef.current.src = todaysReflection.voice_url;
-      audioPlayerRef.current.play().catch(console.error);
+      try {
+        audioPlayerRef.current.src = await getSignedUrl('voice-reflections', todaysReflection.voice_url);
+        await audioPlayerRef.current.play();
+      } catch (error) {
+        console.error('Error playing voice reflection:', error);
+      }
     }
   };
 
@@ -363,6 +399,7 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
           <div className="relative">
             <textarea
               id="reflectionTextarea"
+              dir="auto"
               value={content}
               onChange={(e) => setContent(e.target.value)}
               placeholder="Share your thoughts, feelings, and experiences from today... Or click the microphone to record your voice!"
@@ -426,6 +463,25 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
           )}
         </div>
 
+        {/* Recordings waiting to be saved */}
+        {pendingRecordings.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Your recording{pendingRecordings.length > 1 ? 's' : ''} will be kept with this reflection.{' '}
+            <button
+              type="button"
+              onClick={() => setPendingRecordings([])}
+              className="text-rose-600 hover:underline"
+            >
+              Don't keep
+            </button>
+          </p>
+        )}
+
+        {/* The user's own voice */}
+        {todaysReflection?.recordings && todaysReflection.recordings.length > 0 && (
+          <RecordingPlayer recordings={todaysReflection.recordings} />
+        )}
+
         {/* Voice Playback */}
         {todaysReflection?.voice_url && (
           <div className="flex items-center gap-3 p-3 bg-blue-50 rounded-xl">
@@ -466,6 +522,12 @@ export function ReflectionCard({ onReflectionSaved }: ReflectionCardProps) {
         </button>
       </form>
 
+      {safetyLevel !== 'none' && (
+        <div className="mt-4">
+          <CrisisResources level={safetyLevel} />
+        </div>
+      )}
+
       {/* Sentiment Display */}
       {todaysReflection?.sentiment && (
         <div className="mt-4 p-3 bg-gray-50 rounded-xl">
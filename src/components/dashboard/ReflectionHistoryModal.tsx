@@ -1,7 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { BookOpen, Calendar, ChevronLeft, ChevronRight, Search, Filter, RotateCcw, X } from 'lucide-react';
-import { supabase, Reflection } from '../../lib/supabase';
+import { BookOpen, Calendar, ChevronLeft, ChevronRight, Search, Filter, RotateCcw, X, Sparkles, Loader, Tag, Pencil, History } from 'lucide-react';
+import {
+  supabase,
+  getCurrentSession,
+  Reflection,
+  SimilarReflection,
+  SEARCH_MATCH_START,
+  SEARCH_MATCH_END
+} from '../../lib/supabase';
+import { fetchTagStats } from '../../lib/tags';
 import { useAuth } from '../../hooks/useAuth';
+import { Modal } from '../ui/Modal';
+import { EditReflectionModal } from './EditReflectionModal';
+import { ReflectionVersionsModal } from './ReflectionVersionsModal';
 import { format } from 'date-fns';
 
 interface ReflectionHistoryModalProps {
@@ -15,7 +26,18 @@ interface FilterState {
   endDate: string;
   moodFilter: 'all' | 'very-low' | 'neutral' | 'positive';
   sentimentFilter: 'all' | 'positive' | 'neutral' | 'negative';
-  sortOrder: 'newest' | 'oldest' | 'highest-mood' | 'lowest-mood';
+  tagFilter: string[]; // reflections must carry every selected tag
+  sortOrder: 'relevance' | 'newest' | 'oldest' | 'highest-mood' | 'lowest-mood';
+}
+
+// Search results carry a highlighted excerpt in place of the full text
+type ReflectionListItem = Reflection & { snippet?: string };
+
+interface SimilarState {
+  reflectionId: string;
+  loading: boolean;
+  error: string | null;
+  matches: SimilarReflection[];
 }
 
 const initialFilters: FilterState = {
@@ -24,17 +46,40 @@ const initialFilters: FilterState = {
   endDate: '',
   moodFilter: 'all',
   sentimentFilter: 'all',
+  tagFilter: [],
   sortOrder: 'newest',
 };
 
+function HighlightedSnippet({ text }: { text: string }) {
+  const parts = text.split(SEARCH_MATCH_START);
+  return (
+    <>
+      {parts[0]}
+      {parts.slice(1).map((part, i) => {
+        const [match, rest = ''] = part.split(SEARCH_MATCH_END);
+        return (
+          <React.Fragment key={i}>
+            <mark className="bg-yellow-100 text-gray-900 rounded px-0.5">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
 export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryModalProps) {
   const { user } = useAuth();
-  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const [reflections, setReflections] = useState<ReflectionListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
   const [filters, setFilters] = useState<FilterState>(initialFilters);
   const [showFilters, setShowFilters] = useState(false);
+  const [similar, setSimilar] = useState<SimilarState | null>(null);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [editing, setEditing] = useState<Reflection | null>(null);
+  const [historyFor, setHistoryFor] = useState<Reflection | null>(null);
   
   // Separate state for immediate search input (not debounced)
   const [rawSearchText, setRawSearchText] = useState('');
@@ -44,10 +89,19 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
   // Debounced effect for search text
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      setFilters(prev => ({
-        ...prev,
-        searchText: rawSearchText
-      }));
+      setFilters(prev => {
+        // Rank by relevance while searching, unless another order was picked
+        const searching = rawSearchText.trim() !== '';
+        let sortOrder = prev.sortOrder;
+        if (searching && sortOrder === 'newest') sortOrder = 'relevance';
+        if (!searching && sortOrder === 'relevance') sortOrder = 'newest';
+
+        return {
+          ...prev,
+          searchText: rawSearchText,
+          sortOrder,
+        };
+      });
     }, 500); // 500ms delay
 
     return () => clearTimeout(timeoutId);
@@ -59,27 +113,33 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
     }
   }, [isOpen, user, currentPage, filters]);
 
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    fetchTagStats()
+      .then(stats => setAvailableTags(stats.map(stat => stat.tag)))
+      .catch(error => console.error('Error loading tags:', error));
+  }, [isOpen, user]);
+
   // Reset to page 1 when filters change
   useEffect(() => {
     if (currentPage !== 1) {
       setCurrentPage(1);
     }
-  }, [filters.searchText, filters.startDate, filters.endDate, filters.moodFilter, filters.sentimentFilter, filters.sortOrder]);
+  }, [filters.searchText, filters.startDate, filters.endDate, filters.moodFilter, filters.sentimentFilter, filters.tagFilter, filters.sortOrder]);
 
   const fetchReflections = async () => {
     if (!user) return;
 
     setLoading(true);
     try {
-      let query = supabase
-        .from('reflections')
-        .select('*', { count: 'exact' })
-        .eq('user_id', user.id);
-
-      // Apply search filter
-      if (filters.searchText.trim()) {
-        query = query.ilike('content', `%${filters.searchText.trim()}%`);
-      }
+      const searchText = filters.searchText.trim();
+
+      // Full-text search (stemmed, ranked, with snippets) goes through the RPC;
+      // the filters below apply to either source
+      let query = (searchText
+        ? supabase.rpc('search_reflections', { search_query: searchText }, { count: 'exact' })
+        : supabase.from('reflections').select('*', { count: 'exact' })
+      ).eq('user_id', user.id);
 
       // Apply date range filters
       if (filters.startDate) {
@@ -109,8 +169,18 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
         query = query.eq('sentiment', filters.sentimentFilter);
       }
 
+      // Apply tag filter
+      if (filters.tagFilter.length > 0) {
+        query = query.contains('tags', filters.tagFilter);
+      }
+
       // Apply sorting
       switch (filters.sortOrder) {
+        case 'relevance':
+          query = searchText
+            ? query.order('rank', { ascending: false }).order('created_at', { ascending: false })
+            : query.order('created_at', { ascending: false });
+          break;
         case 'newest':
           query = query.order('created_at', { ascending: false });
           break;
@@ -140,7 +210,16 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
     }
   };
 
-  const handleFilterChange = (field: keyof FilterState, value: string) => {
+  const toggleTagFilter = (tag: string) => {
+    setFilters(prev => ({
+      ...prev,
+      tagFilter: prev.tagFilter.includes(tag)
+        ? prev.tagFilter.filter(t => t !== tag)
+        : [...prev.tagFilter, tag]
+    }));
+  };
+
+  const handleFilterChange = (field: Exclude<keyof FilterState, 'tagFilter'>, value: string) => {
     setFilters(prev => ({
       ...prev,
       [field]: value
@@ -163,7 +242,50 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
            filters.endDate !== '' ||
            filters.moodFilter !== 'all' ||
            filters.sentimentFilter !== 'all' ||
-           filters.sortOrder !== 'newest';
+           filters.tagFilter.length > 0 ||
+           (filters.sortOrder !== 'newest' && filters.sortOrder !== 'relevance');
+  };
+
+  const findSimilar = async (reflectionId: string) => {
+    if (similar?.reflectionId === reflectionId) {
+      setSimilar(null);
+      return;
+    }
+
+    setSimilar({ reflectionId, loading: true, error: null, matches: [] });
+    try {
+      const session = await getCurrentSession();
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/find-similar-reflections`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reflection_id: reflectionId, limit: 5 }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || 'Similarity search failed');
+      }
+
+      const { matches } = await response.json();
+      setSimilar(prev => prev?.reflectionId === reflectionId
+        ? { ...prev, loading: false, matches }
+        : prev);
+    } catch (error) {
+      console.error('Error finding similar reflections:', error);
+      setSimilar(prev => prev?.reflectionId === reflectionId
+        ? { ...prev, loading: false, error: error instanceof Error ? error.message : 'Similarity search failed' }
+        : prev);
+    }
+  };
+
+  const handleReflectionSaved = () => {
+    setEditing(null);
+    // Similar matches were computed from the old text
+    setSimilar(null);
+    fetchReflections();
   };
 
   const getMoodEmoji = (score: number) => {
@@ -328,6 +450,30 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
               </div>
             </div>
 
+            {/* Tags */}
+            {availableTags.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tags
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {availableTags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTagFilter(tag)}
+                      className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                        filters.tagFilter.includes(tag)
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Sort Order */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -338,6 +484,7 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
                 onChange={(e) => handleFilterChange('sortOrder', e.target.value)}
                 className="w-full py-2 px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
+                {filters.searchText.trim() && <option value="relevance">Best Match</option>}
                 <option value="newest">Newest First</option>
                 <option value="oldest">Oldest First</option>
                 <option value="highest-mood">Highest Mood First</option>
@@ -346,6 +493,21 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
             </div>
           </div>
         )}
+        {/* Active tag filters stay visible while the panel is closed */}
+        {!showFilters && filters.tagFilter.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {filters.tagFilter.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium hover:bg-blue-200"
+              >
+                #{tag}
+                <X className="w-3 h-3" />
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Results Summary */}
@@ -415,6 +577,11 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
                 <span className="text-xs text-gray-500">
                   {format(new Date(reflection.created_at), 'p')}
                 </span>
+                {reflection.version > 1 && reflection.updated_at && (
+                  <span className="text-xs text-gray-400" title={format(new Date(reflection.updated_at), 'PPP p')}>
+                    (edited)
+                  </span>
+                )}
                 
                 {reflection.mood_score && (
                   <div className="flex items-center gap-2">
@@ -434,9 +601,81 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
                 )}
               </div>
               
-              <p className="text-gray-700 leading-relaxed">
-                {reflection.content}
+              <p dir="auto" className="text-gray-700 leading-relaxed whitespace-pre-line">
+                {reflection.snippet ? <HighlightedSnippet text={reflection.snippet} /> : reflection.content}
               </p>
+
+              <div className="mt-3 flex items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {reflection.tags?.length > 0 && <Tag className="w-3.5 h-3.5 text-gray-400" />}
+                  {reflection.tags?.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => {
+                        if (!filters.tagFilter.includes(tag)) toggleTagFilter(tag);
+                      }}
+                      className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                        filters.tagFilter.includes(tag)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-600 hover:bg-blue-100 hover:text-blue-700'
+                      }`}
+                      title={`Show reflections tagged ${tag}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {reflection.version > 1 && (
+                    <button
+                      onClick={() => setHistoryFor(reflection)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      <History className="w-3.5 h-3.5" />
+                      History
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing(reflection)}
+                    className="inline-flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => findSimilar(reflection.id)}
+                    className="inline-flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-purple-700 hover:bg-purple-50 rounded-lg transition-colors"
+                  >
+                    <Sparkles className="w-3.5 h-3.5" />
+                    {similar?.reflectionId === reflection.id ? 'Hide similar' : 'Find similar'}
+                  </button>
+                </div>
+              </div>
+
+              {similar?.reflectionId === reflection.id && (
+                <div className="mt-3 p-3 bg-purple-50 rounded-lg space-y-2">
+                  {similar.loading ? (
+                    <div className="flex items-center gap-2 text-sm text-purple-700">
+                      <Loader className="w-4 h-4 animate-spin" />
+                      Looking for related entries...
+                    </div>
+                  ) : similar.error ? (
+                    <p className="text-sm text-red-600">{similar.error}</p>
+                  ) : similar.matches.length === 0 ? (
+                    <p className="text-sm text-gray-600">No similar reflections yet.</p>
+                  ) : (
+                    similar.matches.map(match => (
+                      <div key={match.id} className="p-2 bg-white rounded-lg">
+                        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                          <span>{format(new Date(match.created_at), 'PPP')}</span>
+                          <span>{Math.round(match.similarity * 100)}% similar</span>
+                        </div>
+                        <p className="text-sm text-gray-700 line-clamp-3">{match.content}</p>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -472,6 +711,30 @@ export function ReflectionHistoryModal({ isOpen, onClose }: ReflectionHistoryMod
           </div>
         </div>
       )}
+
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title="Edit Reflection"
+        size="lg"
+      >
+        {editing && (
+          <EditReflectionModal
+            reflection={editing}
+            onSaved={handleReflectionSaved}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={historyFor !== null}
+        onClose={() => setHistoryFor(null)}
+        title="Reflection History"
+        size="xl"
+      >
+        {historyFor && <ReflectionVersionsModal reflection={historyFor} />}
+      </Modal>
     </div>
   );
 }
\ No newline at end of file
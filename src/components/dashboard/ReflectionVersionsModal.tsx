@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, Loader } from 'lucide-react';
+import { format } from 'date-fns';
+import { Emotion, Language, Reflection } from '../../lib/supabase';
+import { EMOTION_META } from '../../lib/emotions';
+import { LANGUAGE_OPTIONS } from '../../lib/languages';
+import { diffWords, fetchReflectionVersions } from '../../lib/reflections';
+
+interface ReflectionVersionsModalProps {
+  reflection: Reflection;
+}
+
+// The current row and the archived rows share these fields
+interface VersionEntry {
+  version: number;
+  content: string;
+  mood_score: number | null;
+  sentiment: string | null;
+  primary_emotion: Emotion | null;
+  language: Language | null;
+  tags: string[];
+  voice_url: string | null;
+  written_at: string;
+}
+
+export function ReflectionVersionsModal({ reflection }: ReflectionVersionsModalProps) {
+  const [versions, setVersions] = useState<VersionEntry[]>([]);
+  const [selected, setSelected] = useState(reflection.version);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    setSelected(reflection.version);
+
+    fetchReflectionVersions(reflection.id)
+      .then(archived => {
+        setVersions([
+          {
+            version: reflection.version,
+            content: reflection.content,
+            mood_score: reflection.mood_score,
+            sentiment: reflection.sentiment,
+            primary_emotion: reflection.primary_emotion,
+            language: reflection.language,
+            tags: reflection.tags || [],
+            voice_url: reflection.voice_url,
+            written_at: reflection.updated_at || reflection.created_at,
+          },
+          ...archived,
+        ]);
+      })
+      .catch(err => {
+        console.error('Error loading reflection history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => setLoading(false));
+  }, [reflection]);
+
+  const current = versions.find(v => v.version === selected);
+  const previous = versions.find(v => v.version < selected);
+
+  const segments = useMemo(
+    () => (current && previous ? diffWords(previous.content, current.content) : []),
+    [current, previous]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-gray-600">
+        <Loader className="w-5 h-5 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-8 text-center">{error}</p>;
+  }
+
+  if (versions.length <= 1) {
+    return (
+      <div className="text-center py-12">
+        <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+        <p className="text-gray-500">This reflection has not been edited.</p>
+      </div>
+    );
+  }
+
+  const metadataChanges: string[] = [];
+  if (current && previous) {
+    if (current.mood_score !== previous.mood_score) {
+      metadataChanges.push(`Mood ${previous.mood_score ?? '–'}/10 → ${current.mood_score ?? '–'}/10`);
+    }
+    if (current.sentiment !== previous.sentiment) {
+      metadataChanges.push(`Sentiment ${previous.sentiment ?? 'none'} → ${current.sentiment ?? 'none'}`);
+    }
+    if (current.primary_emotion !== previous.primary_emotion) {
+      const label = (emotion: Emotion | null) => (emotion ? EMOTION_META[emotion].label : 'none');
+      metadataChanges.push(`Emotion ${label(previous.primary_emotion)} → ${label(current.primary_emotion)}`);
+    }
+    // Older versions predate language detection; only a change between two known languages is news
+    if (current.language && previous.language && current.language !== previous.language) {
+      const label = (code: Language) => LANGUAGE_OPTIONS.find(option => option.code === code)?.label ?? code;
+      metadataChanges.push(`Language ${label(previous.language)} → ${label(current.language)}`);
+    }
+    const addedTags = current.tags.filter(tag => !previous.tags.includes(tag));
+    const removedTags = previous.tags.filter(tag => !current.tags.includes(tag));
+    if (addedTags.length > 0) metadataChanges.push(`Tagged ${addedTags.map(t => `#${t}`).join(', ')}`);
+    if (removedTags.length > 0) metadataChanges.push(`Untagged ${removedTags.map(t => `#${t}`).join(', ')}`);
+    if (current.voice_url !== previous.voice_url) {
+      metadataChanges.push(current.voice_url ? 'New voice recording' : 'Voice recording removed');
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Version list */}
+      <div className="space-y-2">
+        {versions.map(entry => (
+          <button
+            key={entry.version}
+            onClick={() => setSelected(entry.version)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+              entry.version === selected
+                ? 'border-blue-500 bg-blue-50'
+                : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">Version {entry.version}</span>
+              {entry.version === reflection.version && (
+                <span className="text-xs px-2 py-0.5 bg-green-100 text-green-700 rounded-full">Current</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{format(new Date(entry.written_at), 'PPP p')}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Diff against the version before it */}
+      <div className="md:col-span-2 space-y-4">
+        {current && (
+          <>
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {previous
+                  ? `Changes from version ${previous.version} to ${current.version}`
+                  : 'Original text'}
+              </span>
+              <div className="flex items-center gap-3 text-xs">
+                <span className="px-1.5 bg-green-100 text-green-800 rounded">added</span>
+                <span className="px-1.5 bg-red-100 text-red-800 line-through rounded">removed</span>
+              </div>
+            </div>
+
+            <p className="p-4 bg-gray-50 rounded-xl text-gray-700 leading-relaxed whitespace-pre-wrap">
+              {previous
+                ? segments.map((segment, i) => (
+                    segment.type === 'same' ? (
+                      <span key={i}>{segment.text}</span>
+                    ) : segment.type === 'added' ? (
+                      <ins key={i} className="bg-green-100 text-green-800 no-underline rounded">{segment.text}</ins>
+                    ) : (
+                      <del key={i} className="bg-red-100 text-red-800 rounded">{segment.text}</del>
+                    )
+                  ))
+                : current.content}
+            </p>
+
+            {metadataChanges.length > 0 && (
+              <ul className="space-y-1 text-sm text-gray-600">
+                {metadataChanges.map(change => (
+                  <li key={change}>• {change}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,27 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Clock, Trash2, Volume2, Calendar, ChevronDown, ChevronUp } from 'lucide-react';
+import { Clock, Trash2, Volume2, Calendar, ChevronDown, ChevronUp, Pencil, History, Mic } from 'lucide-react';
 import { supabase, Reflection } from '../../lib/supabase';
+import { getSignedUrl } from '../../lib/storage';
+import { removeRecordingFiles } from '../../lib/recordings';
 import { useAuth } from '../../hooks/useAuth';
+import { Modal } from '../ui/Modal';
+import { EditReflectionModal } from './EditReflectionModal';
+import { ReflectionVersionsModal } from './ReflectionVersionsModal';
+import { RecordingPlayer } from './RecordingPlayer';
 import { format } from 'date-fns';
 
 interface TodaysReflectionsListProps {
   reflections: Reflection[];
   loading: boolean;
   onReflectionDeleted: () => void;
+  onReflectionUpdated: () => void;
 }
 
 export function TodaysReflectionsList({ 
   reflections, 
   loading, 
-  onReflectionDeleted 
+  onReflectionDeleted,
+  onReflectionUpdated
 }: TodaysReflectionsListProps) {
   const { user } = useAuth();
   const audioRefs = useRef<{ [key: string]: HTMLAudioElement }>({});
@@ -21,8 +29,11 @@ export function TodaysReflectionsList({
   
   // State for controlling display - removed showAll, only using displayLimit
   const [displayLimit, setDisplayLimit] = useState(3);
+  const [editing, setEditing] = useState<Reflection | null>(null);
+  const [historyFor, setHistoryFor] = useState<Reflection | null>(null);
+  const [listeningTo, setListeningTo] = useState<string | null>(null);
 
-  const handleDeleteReflection = async (reflectionId: string) => {
+  const handleDeleteReflection = async (reflection: Reflection) => {
     if (!user) return;
     
     if (!confirm('Are you sure you want to delete this reflection?')) {
@@ -33,10 +44,12 @@ export function TodaysReflectionsList({
       const { error } = await supabase
         .from('reflections')
         .delete()
-        .eq('id', reflectionId)
+        .eq('id', reflection.id)
         .eq('user_id', user.id); // Extra security check
 
       if (error) throw error;
+
+      await removeRecordingFiles(reflection.recordings ?? []);
       
       onReflectionDeleted();
     } catch (error) {
@@ -45,13 +58,28 @@ export function TodaysReflectionsList({
     }
   };
 
-  const playVoice = (reflection: Reflection) => {
+  const handleReflectionSaved = (updated: Reflection) => {
+    // A regenerated recording has a new path, so drop the cached player
+    delete audioRefs.current[updated.id];
+    setEditing(null);
+    onReflectionUpdated();
+  };
+
+  const playVoice = async (reflection: Reflection) => {
     if (!reflection.voice_url) return;
 
-    const audio = audioRefs.current[reflection.id] || new Audio(reflection.voice_url);
-    audioRefs.current[reflection.id] = audio;
-    
-    audio.play().catch(console.error);
+    try {
+      // Signed URLs expire, so a cached player is only reused while it still has its source loaded
+      let audio = audioRefs.current[reflection.id];
+      if (!audio || audio.error) {
+        audio = new Audio(await getSignedUrl('voice-reflections', reflection.voice_url));
+        audioRefs.current[reflection.id] = audio;
+      }
+
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing voice reflection:', error);
+    }
   };
 
   const getMoodEmoji = (score: number | null) => {
@@ -166,6 +194,9 @@ export function TodaysReflectionsList({
                   <span className="text-sm font-medium">
                     {format(new Date(reflection.created_at), 'HH:mm')}
                   </span>
+                  {reflection.version > 1 && (
+                    <span className="text-xs text-gray-400">(edited)</span>
+                  )}
                 </div>
                 
                 {reflection.mood_score && (
@@ -187,18 +218,48 @@ export function TodaysReflectionsList({
               </div>
               
               <div className="flex items-center gap-2">
+                {reflection.recordings && reflection.recordings.length > 0 && (
+                  <button
+                    onClick={() => setListeningTo(listeningTo === reflection.id ? null : reflection.id)}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      listeningTo === reflection.id ? 'bg-rose-100 text-rose-700' : 'text-rose-600 hover:bg-rose-50'
+                    }`}
+                    title="Your recording"
+                  >
+                    <Mic className="w-4 h-4" />
+                  </button>
+                )}
+
                 {reflection.voice_url && (
                   <button
                     onClick={() => playVoice(reflection)}
                     className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                    title="Play voice recording"
+                    title="Play AI voice reading"
                   >
                     <Volume2 className="w-4 h-4" />
                   </button>
                 )}
                 
+                {reflection.version > 1 && (
+                  <button
+                    onClick={() => setHistoryFor(reflection)}
+                    className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Version history"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                )}
+
+                <button
+                  onClick={() => setEditing(reflection)}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Edit reflection"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+
                 <button
-                  onClick={() => handleDeleteReflection(reflection.id)}
+                  onClick={() => handleDeleteReflection(reflection)}
                   className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
                   title="Delete reflection"
                 >
@@ -208,9 +269,15 @@ export function TodaysReflectionsList({
             </div>
             
             {/* Content */}
-            <p className="text-gray-700 leading-relaxed text-sm">
+            <p dir="auto" className="text-gray-700 leading-relaxed text-sm whitespace-pre-line">
               {reflection.content}
             </p>
+
+            {listeningTo === reflection.id && reflection.recordings && (
+              <div className="mt-3">
+                <RecordingPlayer recordings={reflection.recordings} />
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -255,6 +322,30 @@ export function TodaysReflectionsList({
           </p>
         </div>
       )}
+
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title="Edit Reflection"
+        size="lg"
+      >
+        {editing && (
+          <EditReflectionModal
+            reflection={editing}
+            onSaved={handleReflectionSaved}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={historyFor !== null}
+        onClose={() => setHistoryFor(null)}
+        title="Reflection History"
+        size="xl"
+      >
+        {historyFor && <ReflectionVersionsModal reflection={historyFor} />}
+      </Modal>
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Volume2, Play, Pause, Trash2, Calendar, Search, Filter, RotateCcw, X, Clock, ChevronDown, ChevronUp } from 'lucide-react';
 import { supabase, Reflection } from '../../lib/supabase';
+import { getSignedUrl, getSignedUrls } from '../../lib/storage';
+import { PLAYBACK_RATES, analyzeAudio, formatPlaybackTime, saveVoiceMetadata, saveVoicePosition } from '../../lib/audio';
 import { useAuth } from '../../hooks/useAuth';
+import { useAudioPlayer } from '../../hooks/useAudioPlayer';
+import { Waveform } from '../ui/Waveform';
 import { format } from 'date-fns';
 
 interface VoiceLibraryModalProps {
@@ -20,7 +24,8 @@ interface FilterState {
 }
 
 interface VoiceReflectionWithDuration extends Reflection {
-  estimatedDuration: number; // in seconds
+  duration: number; // in seconds
+  durationIsEstimate: boolean; // true until the recording has been measured
 }
 
 const initialFilters: FilterState = {
@@ -38,11 +43,20 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
   const [reflections, setReflections] = useState<VoiceReflectionWithDuration[]>([]);
   const [filteredReflections, setFilteredReflections] = useState<VoiceReflectionWithDuration[]>([]);
   const [loading, setLoading] = useState(true);
-  const [playingId, setPlayingId] = useState<string | null>(null);
-  const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
   const [filters, setFilters] = useState<FilterState>(initialFilters);
   const [showFilters, setShowFilters] = useState(false);
   
+  // Cleared on close so a background measurement pass stops touching state
+  const openRef = useRef(true);
+
+  const player = useAudioPlayer({
+    onSavePosition: (id, seconds) => {
+      saveVoicePosition(id, seconds);
+      setReflections(prev => prev.map(r => (r.id === id ? { ...r, voice_position: seconds } : r)));
+    },
+  });
+
   // Separate state for immediate search input (debounced)
   const [rawSearchText, setRawSearchText] = useState('');
 
@@ -70,14 +84,11 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
   }, [reflections, filters]);
 
   useEffect(() => {
+    openRef.current = true;
     return () => {
-      if (currentAudio) {
-        currentAudio.pause();
-        setCurrentAudio(null);
-        setPlayingId(null);
-      }
+      openRef.current = false;
     };
-  }, [currentAudio]);
+  }, []);
 
   const fetchVoiceReflections = async () => {
     if (!user) return;
@@ -91,13 +102,15 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
         .not('voice_url', 'is', null)
         .order('created_at', { ascending: false });
 
-      // Add estimated duration based on content length
-      const reflectionsWithDuration: VoiceReflectionWithDuration[] = (data || []).map(reflection => ({
+      // Recordings from before durations were stored fall back to an estimate until measured
+      const reflectionsWithDuration: VoiceReflectionWithDuration[] = (data || []).map((reflection: Reflection) => ({
         ...reflection,
-        estimatedDuration: estimateAudioDuration(reflection.content)
+        duration: reflection.voice_duration ?? estimateAudioDuration(reflection.content),
+        durationIsEstimate: reflection.voice_duration == null
       }));
 
       setReflections(reflectionsWithDuration);
+      measureRecordings(reflectionsWithDuration);
     } catch (error) {
       console.error('Error fetching voice reflections:', error);
     } finally {
@@ -113,6 +126,45 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
     return Math.max(10, Math.round(minutes * 60)); // Minimum 10 seconds
   };
 
+  // Decode recordings that have no stored duration or waveform yet, one at a time so a
+  // large library doesn't download everything at once. Results are saved, so each
+  // recording is only measured once.
+  const measureRecordings = async (list: VoiceReflectionWithDuration[]) => {
+    const pending = list.filter(r => r.voice_url && (r.voice_duration == null || !r.voice_peaks));
+    if (pending.length === 0) return;
+
+    let urls: Record<string, string>;
+    try {
+      urls = await getSignedUrls('voice-reflections', pending.map(r => r.voice_url!));
+    } catch (error) {
+      console.error('Error loading recordings to measure:', error);
+      return;
+    }
+
+    for (const reflection of pending) {
+      if (!openRef.current) return;
+      const url = urls[reflection.voice_url!];
+      if (!url) continue;
+
+      try {
+        const analysis = await analyzeAudio(url);
+        if (!openRef.current) return;
+        await saveVoiceMetadata(reflection.id, analysis);
+        setReflections(prev => prev.map(r => (r.id === reflection.id
+          ? {
+              ...r,
+              voice_duration: analysis.duration,
+              voice_peaks: analysis.peaks,
+              duration: analysis.duration,
+              durationIsEstimate: false
+            }
+          : r)));
+      } catch (error) {
+        console.error('Error measuring recording:', error);
+      }
+    }
+  };
+
   const applyFilters = () => {
     let filtered = [...reflections];
 
@@ -164,7 +216,7 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
     // Apply duration filter
     if (filters.durationFilter !== 'all') {
       filtered = filtered.filter(reflection => {
-        const duration = reflection.estimatedDuration;
+        const duration = reflection.duration;
         switch (filters.durationFilter) {
           case 'short':
             return duration < 30;
@@ -186,9 +238,9 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
         case 'oldest':
           return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
         case 'longest':
-          return b.estimatedDuration - a.estimatedDuration;
+          return b.duration - a.duration;
         case 'shortest':
-          return a.estimatedDuration - b.estimatedDuration;
+          return a.duration - b.duration;
         default:
           return 0;
       }
@@ -223,7 +275,8 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
            filters.sortOrder !== 'newest';
   };
 
-  const formatDuration = (seconds: number): string => {
+  const formatDuration = (value: number): string => {
+    const seconds = Math.round(value);
     if (seconds < 60) {
       return `${seconds}s`;
     } else if (seconds < 3600) {
@@ -243,36 +296,22 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
     return 'text-purple-600 bg-purple-50';
   };
 
-  const playAudio = (reflection: VoiceReflectionWithDuration) => {
+  const playAudio = async (reflection: VoiceReflectionWithDuration) => {
     if (!reflection.voice_url) return;
 
-    // Stop current audio if playing
-    if (currentAudio) {
-      currentAudio.pause();
-      setCurrentAudio(null);
-    }
-
-    if (playingId === reflection.id) {
-      setPlayingId(null);
+    if (player.activeId === reflection.id) {
+      player.toggle();
       return;
     }
 
-    const audio = new Audio(reflection.voice_url);
-    audio.addEventListener('ended', () => {
-      setPlayingId(null);
-      setCurrentAudio(null);
-    });
-
-    audio.addEventListener('error', () => {
-      console.error('Error playing audio');
-      setPlayingId(null);
-      setCurrentAudio(null);
-    });
-
-    audio.play().then(() => {
-      setCurrentAudio(audio);
-      setPlayingId(reflection.id);
-    }).catch(console.error);
+    setPlaybackError(null);
+    try {
+      const signedUrl = await getSignedUrl('voice-reflections', reflection.voice_url);
+      await player.play(reflection.id, signedUrl, reflection.voice_position ?? 0);
+    } catch (error) {
+      console.error('Error loading audio:', error);
+      setPlaybackError('This recording could not be played. Please try again.');
+    }
   };
 
   const deleteReflection = async (reflection: VoiceReflectionWithDuration) => {
@@ -284,13 +323,11 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
         .delete()
         .eq('id', reflection.id);
 
-      setReflections(prev => prev.filter(r => r.id !== reflection.id));
-
-      if (playingId === reflection.id && currentAudio) {
-        currentAudio.pause();
-        setCurrentAudio(null);
-        setPlayingId(null);
+      if (player.activeId === reflection.id) {
+        player.stop();
       }
+
+      setReflections(prev => prev.filter(r => r.id !== reflection.id));
     } catch (error) {
       console.error('Error deleting reflection:', error);
     }
@@ -502,6 +539,12 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
         </span>
       </div>
 
+      {playbackError && (
+        <div className="mx-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {playbackError}
+        </div>
+      )}
+
       {/* Recordings List or Empty State */}
       {filteredReflections.length === 0 ? (
         <div className="text-center py-12 px-4">
@@ -543,13 +586,14 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
               {/* Play Button */}
               <button
                 onClick={() => playAudio(reflection)}
+                aria-label={player.activeId === reflection.id && player.isPlaying ? 'Pause' : 'Play'}
                 className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center transition-colors flex-shrink-0 ${
-                  playingId === reflection.id
+                  player.activeId === reflection.id
                     ? 'bg-blue-100 text-blue-600'
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                 }`}
               >
-                {playingId === reflection.id ? (
+                {player.activeId === reflection.id && player.isPlaying ? (
                   <Pause className="w-4 h-4 sm:w-6 sm:h-6" />
                 ) : (
                   <Play className="w-4 h-4 sm:w-6 sm:h-6" />
@@ -571,9 +615,12 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
                   </span>
                   
                   {/* Duration Badge */}
-                  <span className={`px-2 py-1 text-xs rounded-full flex items-center gap-1 ${getDurationColor(reflection.estimatedDuration)} flex-shrink-0`}>
+                  <span
+                    className={`px-2 py-1 text-xs rounded-full flex items-center gap-1 ${getDurationColor(reflection.duration)} flex-shrink-0`}
+                    title={reflection.durationIsEstimate ? 'Estimated from the text; not measured yet' : undefined}
+                  >
                     <Clock className="w-3 h-3" />
-                    {formatDuration(reflection.estimatedDuration)}
+                    {reflection.durationIsEstimate && '~'}{formatDuration(reflection.duration)}
                   </span>
                   
                   {/* Mood and Sentiment */}
@@ -595,9 +642,47 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
                 </div>
                 
                 {/* Reflection Content */}
-                <p className="text-xs sm:text-sm text-gray-600 line-clamp-2 break-words leading-relaxed">
+                <p className="text-xs sm:text-sm text-gray-600 line-clamp-2 break-words leading-relaxed" dir="auto">
                   {reflection.content}
                 </p>
+
+                {/* Waveform and playback controls */}
+                {player.activeId === reflection.id ? (
+                  <div className="mt-3 space-y-2">
+                    <Waveform
+                      peaks={reflection.voice_peaks}
+                      progress={player.duration > 0 ? player.currentTime / player.duration : 0}
+                      onSeek={(fraction) => player.seek(fraction * player.duration)}
+                      label="Seek recording"
+                    />
+                    <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                      <span className="tabular-nums">
+                        {formatPlaybackTime(player.currentTime)} / {formatPlaybackTime(player.duration || reflection.duration)}
+                      </span>
+                      <label className="flex items-center gap-1">
+                        Speed
+                        <select
+                          value={player.playbackRate}
+                          onChange={(e) => player.setPlaybackRate(Number(e.target.value))}
+                          className="py-0.5 px-1 border border-gray-300 rounded-md text-xs bg-white"
+                        >
+                          {PLAYBACK_RATES.map(rate => (
+                            <option key={rate} value={rate}>{rate}x</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-3 flex items-center gap-3">
+                    <Waveform peaks={reflection.voice_peaks} className="h-6 flex-1 opacity-70" />
+                    {!!reflection.voice_position && reflection.voice_position > 1 && (
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        Resume at {formatPlaybackTime(reflection.voice_position)}
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Delete Button */}
@@ -623,7 +708,7 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
           </div>
           <div className="text-center p-3 sm:p-4 bg-green-50 rounded-xl">
             <p className="text-lg sm:text-2xl font-bold text-green-600">
-              {formatDuration(reflections.reduce((sum, r) => sum + r.estimatedDuration, 0))}
+              {formatDuration(reflections.reduce((sum, r) => sum + r.duration, 0))}
             </p>
             <p className="text-xs sm:text-sm text-green-700 font-medium">Total Duration</p>
           </div>
@@ -635,7 +720,7 @@ export function VoiceLibraryModal({ isOpen, onClose }: VoiceLibraryModalProps) {
           </div>
           <div className="text-center p-3 sm:p-4 bg-yellow-50 rounded-xl">
             <p className="text-lg sm:text-2xl font-bold text-yellow-600">
-              {formatDuration(Math.round(reflections.reduce((sum, r) => sum + r.estimatedDuration, 0) / reflections.length))}
+              {formatDuration(reflections.reduce((sum, r) => sum + r.duration, 0) / reflections.length)}
             </p>
             <p className="text-xs sm:text-sm text-yellow-700 font-medium">Avg Duration</p>
           </div>
@@ -4,6 +4,7 @@ import { supabase, WeeklyRecap, getCurrentSession } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import { useUserProfile } from '../../hooks/useUserProfile';
 import { format, startOfWeek, endOfWeek } from 'date-fns';
+import { CrisisResources } from './CrisisResources';
 
 interface WeeklyRecapModalProps {
   isOpen: boolean;
@@ -18,6 +19,7 @@ interface VideoRecapData {
   week_end: string;
   reflection_count: number;
   mood_average: number;
+  safety_mode?: boolean; // script was written with the safety-first brief
   video_url?: string; // Final video URL when completed
 }
 
@@ -633,6 +635,10 @@ export function WeeklyRecapModal({ isOpen, onClose }: WeeklyRecapModalProps) {
           </div>
         )}
 
+        {currentRecap.safety_mode && (
+          <CrisisResources message="Some of what you wrote this week sounds really hard. Talking to someone can help, and these services are free and confidential." />
+        )}
+
         {/* Script Preview */}
         <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-6">
           <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
@@ -725,6 +731,10 @@ export function WeeklyRecapModal({ isOpen, onClose }: WeeklyRecapModalProps) {
           </div>
         )}
 
+        {currentRecap.safety_mode && (
+          <CrisisResources message="Some of what you wrote this week sounds really hard. Talking to someone can help, and these services are free and confidential." />
+        )}
+
         {/* Script */}
         <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-6">
           <h4 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
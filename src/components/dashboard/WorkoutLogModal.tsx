@@ -0,0 +1,470 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dumbbell, CheckCircle, Circle, Plus, Trash2, Loader, AlertCircle, Calendar, Target, Link } from 'lucide-react';
+import { supabase, requireAuth, BodyFeedback, Habit, WorkoutExerciseLog, WorkoutSession, WorkoutSetLog } from '../../lib/supabase';
+import { calculateAdherence, plannedSets } from '../../lib/workouts';
+import { format } from 'date-fns';
+
+interface WorkoutLogModalProps {
+  plan: BodyFeedback;
+  onPlanUpdated: (plan: BodyFeedback) => void;
+}
+
+export function WorkoutLogModal({ plan, onPlanUpdated }: WorkoutLogModalProps) {
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [habits, setHabits] = useState<Pick<Habit, 'id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The session being logged
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [exerciseLogs, setExerciseLogs] = useState<WorkoutExerciseLog[]>([]);
+  const [performedOn, setPerformedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+
+  const workoutDays = plan.body_coach_report?.analysis.workout.days ?? [];
+  const defaultUnit: WorkoutSetLog['unit'] = plan.preferences?.weightUnit === 'lbs' ? 'lbs' : 'kg';
+  const adherence = calculateAdherence(plan.created_at, workoutDays.length, sessions);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const currentUser = await requireAuth();
+
+      const [sessionsResult, habitsResult] = await Promise.all([
+        supabase
+          .from('workout_sessions')
+          .select('*')
+          .eq('body_feedback_id', plan.id)
+          .eq('user_id', currentUser.id)
+          .order('performed_on', { ascending: false })
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('habits')
+          .select('id, name')
+          .eq('user_id', currentUser.id)
+          .is('target_value', null) // amount-based habits complete from their own logs
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (sessionsResult.error) {
+        throw new Error(`Failed to fetch workout sessions: ${sessionsResult.error.message}`);
+      }
+      if (habitsResult.error) {
+        throw new Error(`Failed to fetch habits: ${habitsResult.error.message}`);
+      }
+
+      setSessions(sessionsResult.data || []);
+      setHabits(habitsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching workout log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load workout log');
+    } finally {
+      setLoading(false);
+    }
+  }, [plan.id]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const startDay = (dayIndex: number) => {
+    // Pick up an unfinished session for this day instead of starting a second one
+    const inProgress = sessions.find(session => session.day_index === dayIndex && !session.completed);
+
+    setSelectedDay(dayIndex);
+    setError(null);
+    if (inProgress) {
+      setActiveSessionId(inProgress.id);
+      setExerciseLogs(inProgress.exercises);
+      setPerformedOn(inProgress.performed_on);
+      setNotes(inProgress.notes || '');
+    } else {
+      setActiveSessionId(null);
+      setExerciseLogs(workoutDays[dayIndex].exercises.map(exercise => ({
+        name: exercise.name,
+        sets: plannedSets(exercise, defaultUnit),
+      })));
+      setPerformedOn(format(new Date(), 'yyyy-MM-dd'));
+      setNotes('');
+    }
+  };
+
+  const cancelSession = () => {
+    setSelectedDay(null);
+    setActiveSessionId(null);
+    setExerciseLogs([]);
+    setNotes('');
+  };
+
+  const updateSet = (exerciseIndex: number, setIndex: number, changes: Partial<WorkoutSetLog>) => {
+    setExerciseLogs(prev => prev.map((exercise, i) => i !== exerciseIndex ? exercise : {
+      ...exercise,
+      sets: exercise.sets.map((set, j) => j === setIndex ? { ...set, ...changes } : set),
+    }));
+  };
+
+  const addSet = (exerciseIndex: number) => {
+    setExerciseLogs(prev => prev.map((exercise, i) => {
+      if (i !== exerciseIndex) return exercise;
+      const last = exercise.sets[exercise.sets.length - 1];
+      return { ...exercise, sets: [...exercise.sets, last ? { ...last } : { reps: null, load: null, unit: defaultUnit }] };
+    }));
+  };
+
+  const removeSet = (exerciseIndex: number, setIndex: number) => {
+    setExerciseLogs(prev => prev.map((exercise, i) => i !== exerciseIndex ? exercise : {
+      ...exercise,
+      sets: exercise.sets.filter((_, j) => j !== setIndex),
+    }));
+  };
+
+  const parseNumber = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const saveSession = async (completed: boolean) => {
+    if (selectedDay === null) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const currentUser = await requireAuth();
+
+      const sessionData = {
+        user_id: currentUser.id,
+        body_feedback_id: plan.id,
+        day_index: selectedDay,
+        day_label: `${workoutDays[selectedDay].day} - ${workoutDays[selectedDay].focus}`,
+        performed_on: performedOn,
+        exercises: exerciseLogs,
+        notes: notes.trim() || null,
+        completed,
+        completed_at: completed ? new Date().toISOString() : null,
+      };
+
+      const { error: saveError } = activeSessionId
+        ? await supabase
+            .from('workout_sessions')
+            .update(sessionData)
+            .eq('id', activeSessionId)
+            .eq('user_id', currentUser.id)
+        : await supabase
+            .from('workout_sessions')
+            .insert([sessionData]);
+
+      if (saveError) {
+        throw new Error(`Failed to save workout: ${saveError.message}`);
+      }
+
+      // A finished session checks off the linked habit for that day
+      if (completed && plan.habit_id) {
+        const { error: habitError } = await supabase
+          .from('habit_completions')
+          .upsert([{
+            habit_id: plan.habit_id,
+            user_id: currentUser.id,
+            completed_at: performedOn,
+          }], { onConflict: 'habit_id,completed_at', ignoreDuplicates: true });
+
+        if (habitError) {
+          throw new Error(`Workout saved, but the linked habit could not be updated: ${habitError.message}`);
+        }
+      }
+
+      cancelSession();
+      await fetchData();
+    } catch (err) {
+      console.error('Error saving workout session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save workout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSession = async (sessionId: string) => {
+    if (!confirm('Delete this workout session?')) return;
+
+    try {
+      const currentUser = await requireAuth();
+      const { error: deleteError } = await supabase
+        .from('workout_sessions')
+        .delete()
+        .eq('id', sessionId)
+        .eq('user_id', currentUser.id); // Extra security check
+
+      if (deleteError) throw deleteError;
+
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } catch (err) {
+      console.error('Error deleting workout session:', err);
+      setError('Failed to delete workout session. Please try again.');
+    }
+  };
+
+  const updateLinkedHabit = async (habitId: string) => {
+    try {
+      const currentUser = await requireAuth();
+      const { data, error: updateError } = await supabase
+        .from('body_feedback')
+        .update({ habit_id: habitId || null })
+        .eq('id', plan.id)
+        .eq('user_id', currentUser.id)
+        .select('*, body_coach_report:body_coach_reports(analysis), workout_sessions(completed)') // Same shape BodyCoachRecapModal loads, sessions included
+        .single();
+
+      if (updateError) throw updateError;
+
+      onPlanUpdated(data);
+    } catch (err) {
+      console.error('Error linking habit:', err);
+      setError('Failed to link habit. Please try again.');
+    }
+  };
+
+  if (workoutDays.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Dumbbell className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-600">
+          This plan was created before workout tracking was available. Generate a new plan to log sessions against it.
+        </p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader className="w-8 h-8 animate-spin text-purple-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-500" />
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Adherence */}
+      <div className="bg-purple-50 rounded-xl p-5 border border-purple-200">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-bold text-purple-900 flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            Plan Adherence
+          </h4>
+          <span className="text-2xl font-bold text-purple-700">{adherence.percent}%</span>
+        </div>
+        <div className="w-full h-2 bg-purple-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-purple-500 to-indigo-600 transition-all"
+            style={{ width: `${adherence.percent}%` }}
+          />
+        </div>
+        <p className="text-sm text-purple-700 mt-2">
+          {adherence.completed} of {adherence.expected} planned sessions completed since {format(new Date(plan.created_at), 'MMM d')}
+        </p>
+      </div>
+
+      {/* Linked habit */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Link className="w-4 h-4" />
+          Count completed workouts toward a habit
+        </label>
+        <select
+          value={plan.habit_id || ''}
+          onChange={(e) => updateLinkedHabit(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="">No linked habit</option>
+          {habits.map(habit => (
+            <option key={habit.id} value={habit.id}>{habit.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {selectedDay === null ? (
+        <>
+          {/* Day picker */}
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-3">Log a workout</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {workoutDays.map((day, index) => {
+                const daySessions = sessions.filter(session => session.day_index === index);
+                const inProgress = daySessions.some(session => !session.completed);
+                return (
+                  <button
+                    key={index}
+                    onClick={() => startDay(index)}
+                    className="text-left p-4 bg-white border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors"
+                  >
+                    <p className="font-semibold text-purple-900">{day.day}</p>
+                    <p className="text-sm text-purple-700">{day.focus}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {inProgress ? 'In progress' : `${daySessions.filter(session => session.completed).length} completed`}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* History */}
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-3">Recent sessions</h4>
+            {sessions.length === 0 ? (
+              <p className="text-sm text-gray-500">No workouts logged for this plan yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {sessions.slice(0, 10).map(session => (
+                  <div key={session.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {session.completed ? (
+                        <CheckCircle className="w-5 h-5 text-green-600" />
+                      ) : (
+                        <Circle className="w-5 h-5 text-gray-400" />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{session.day_label}</p>
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {format(new Date(`${session.performed_on}T00:00:00`), 'PPP')}
+                          {!session.completed && ' · in progress'}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => deleteSession(session.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                      title="Delete session"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="text-lg font-bold text-purple-900">{workoutDays[selectedDay].day}</h4>
+              <p className="text-sm text-purple-700">{workoutDays[selectedDay].focus}</p>
+            </div>
+            <input
+              type="date"
+              value={performedOn}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setPerformedOn(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          {exerciseLogs.map((exercise, exerciseIndex) => {
+            const planned = workoutDays[selectedDay].exercises[exerciseIndex];
+            return (
+              <div key={exerciseIndex} className="bg-white rounded-lg p-4 border border-purple-200">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="font-semibold text-purple-900">{exercise.name}</span>
+                  {planned && (
+                    <span className="text-xs text-purple-600">
+                      Plan: {planned.sets} x {planned.reps}
+                    </span>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {exercise.sets.map((set, setIndex) => (
+                    <div key={setIndex} className="flex items-center gap-2">
+                      <span className="w-12 text-xs text-gray-500">Set {setIndex + 1}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={set.reps ?? ''}
+                        onChange={(e) => updateSet(exerciseIndex, setIndex, { reps: parseNumber(e.target.value) })}
+                        placeholder="Reps"
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={set.load ?? ''}
+                        onChange={(e) => updateSet(exerciseIndex, setIndex, { load: parseNumber(e.target.value) })}
+                        placeholder="Load"
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <select
+                        value={set.unit}
+                        onChange={(e) => updateSet(exerciseIndex, setIndex, { unit: e.target.value as WorkoutSetLog['unit'] })}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="kg">kg</option>
+                        <option value="lbs">lbs</option>
+                      </select>
+                      <button
+                        onClick={() => removeSet(exerciseIndex, setIndex)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove set"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => addSet(exerciseIndex)}
+                  className="mt-2 text-xs text-purple-600 hover:text-purple-800 inline-flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add set
+                </button>
+              </div>
+            );
+          })}
+
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="How did it feel? Any notes for next time..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent h-20 resize-none text-sm"
+          />
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={() => saveSession(true)}
+              disabled={saving}
+              className="flex-1 bg-gradient-to-r from-purple-600 to-indigo-600 text-white py-3 px-4 rounded-xl font-medium hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 transition-all inline-flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              Mark Complete
+            </button>
+            <button
+              onClick={() => saveSession(false)}
+              disabled={saving}
+              className="flex-1 bg-white border border-purple-300 text-purple-700 py-3 px-4 rounded-xl font-medium hover:bg-purple-50 disabled:opacity-50 transition-colors"
+            >
+              Save Progress
+            </button>
+            <button
+              onClick={cancelSession}
+              disabled={saving}
+              className="bg-gray-100 text-gray-700 py-3 px-4 rounded-xl font-medium hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
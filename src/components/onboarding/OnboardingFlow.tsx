@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowRight, Target, Heart, Zap, CheckCircle } from 'lucide-react';
 import { useUserProfile } from '../../hooks/useUserProfile';
+import { useAuth } from '../../hooks/useAuth';
+import { createGoalsFromOnboarding } from '../../lib/goals';
 
 const GOAL_OPTIONS = [
   { id: 'fitness', name: 'Improve Physical Fitness', icon: Zap, color: 'text-orange-500' },
@@ -16,6 +18,7 @@ export function OnboardingFlow() {
   const [selectedGoals, setSelectedGoals] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const { updateProfile } = useUserProfile();
+  const { user } = useAuth();
 
   const handleGoalToggle = (goalId: string) => {
     setSelectedGoals(prev => 
@@ -28,6 +31,14 @@ export function OnboardingFlow() {
   const handleComplete = async () => {
     setLoading(true);
     try {
+      // Goals first: finishing onboarding swaps this screen for the dashboard, which
+      // should already have them. Losing them is not worth blocking onboarding over.
+      if (user) {
+        await createGoalsFromOnboarding(
+          user.id,
+          GOAL_OPTIONS.filter(option => selectedGoals.includes(option.id)).map(option => ({ category: option.id, title: option.name }))
+        ).catch(error => console.error('Error creating goals:', error));
+      }
       await updateProfile({
         goals: selectedGoals,
         onboarding_completed: true,
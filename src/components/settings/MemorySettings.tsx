@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Brain, Loader, Trash2, X } from 'lucide-react';
+import { MemoryKind, UserMemory } from '../../lib/supabase';
+import { MEMORY_KIND_LABELS, clearMemories, deleteMemory, fetchMemories } from '../../lib/memory';
+import { useAuth } from '../../hooks/useAuth';
+
+const KIND_ORDER: MemoryKind[] = ['theme', 'commitment', 'recommendation'];
+
+export function MemorySettings() {
+  const { user } = useAuth();
+  const [memories, setMemories] = useState<UserMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // memory id, or 'all'
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchMemories()
+      .then(setMemories)
+      .catch(err => {
+        console.error('Error loading memories:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load memories');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleForget = async (memory: UserMemory) => {
+    setBusy(memory.id);
+    setError('');
+    try {
+      await deleteMemory(memory.id);
+      setMemories(prev => prev.filter(m => m.id !== memory.id));
+    } catch (err) {
+      console.error('Error deleting memory:', err);
+      setError(err instanceof Error ? err.message : 'Failed to forget this');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleForgetAll = async () => {
+    if (!user || !confirm('Forget everything your recaps and coaches have remembered? New recaps will start building memory again.')) {
+      return;
+    }
+
+    setBusy('all');
+    setError('');
+    try {
+      await clearMemories(user.id);
+      setMemories([]);
+    } catch (err) {
+      console.error('Error clearing memories:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear memories');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-purple-100 rounded-xl flex items-center justify-center">
+          <Brain className="w-6 h-6 text-purple-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Memory</h2>
+          <p className="text-sm text-gray-500">What AI recaps and your coaches remember about you</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : memories.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nothing remembered yet. Each AI recap notes recurring themes, things you plan to do and the advice it gave,
+          so later recaps and coach chats can follow up.
+        </p>
+      ) : (
+        <div className="space-y-5">
+          {KIND_ORDER.map(kind => {
+            const items = memories.filter(memory => memory.kind === kind);
+            if (items.length === 0) return null;
+
+            return (
+              <div key={kind}>
+                <h3 className="font-medium text-gray-900">{MEMORY_KIND_LABELS[kind].title}</h3>
+                <p className="text-xs text-gray-500 mb-2">{MEMORY_KIND_LABELS[kind].description}</p>
+                <ul className="space-y-2">
+                  {items.map(memory => (
+                    <li key={memory.id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <p className="text-sm text-gray-800">{memory.content}</p>
+                        <p className="text-xs text-gray-400 mt-0.5">{format(new Date(memory.created_at), 'MMM d, yyyy')}</p>
+                      </div>
+                      <button
+                        onClick={() => handleForget(memory)}
+                        disabled={busy !== null}
+                        className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                        title="Forget this"
+                      >
+                        {busy === memory.id ? <Loader className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={handleForgetAll}
+            disabled={busy !== null}
+            className="inline-flex items-center gap-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            {busy === 'all' ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Forget everything
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
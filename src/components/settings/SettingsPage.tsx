@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Save, User, Bell, ArrowLeft, Mail } from 'lucide-react';
+import { Save, User, Bell, ArrowLeft, Mail, Mic } from 'lucide-react';
 import { useUserProfile } from '../../hooks/useUserProfile';
 import { useAuth } from '../../hooks/useAuth';
+import { Language, UserProfile } from '../../lib/supabase';
+import { LANGUAGE_OPTIONS } from '../../lib/languages';
+import { MemorySettings } from './MemorySettings';
 
 interface SettingsPageProps {
   onBack: () => void;
@@ -15,7 +18,11 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
   
   // Profile settings
   const [fullName, setFullName] = useState('');
+  const [preferredLanguage, setPreferredLanguage] = useState<Language>('en');
   
+  // Voice preferences save as soon as they are toggled
+  const [voiceMessage, setVoiceMessage] = useState('');
+
   // Notification preferences (disabled for MVP)
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [pushNotifications, setPushNotifications] = useState(false);
@@ -23,6 +30,7 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
   useEffect(() => {
     if (profile) {
       setFullName(profile.full_name || '');
+      setPreferredLanguage(profile.preferred_language || 'en');
     }
   }, [profile]);
 
@@ -36,6 +44,7 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
     try {
       const { error } = await updateProfile({
         full_name: fullName.trim(),
+        preferred_language: preferredLanguage,
       });
 
       if (error) throw error;
@@ -50,6 +59,28 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
     }
   };
 
+  const handleVoiceToggle = async (field: 'keep_voice_recordings' | 'tts_enabled', value: boolean) => {
+    setVoiceMessage('');
+    const result = await updateProfile({ [field]: value } as Partial<UserProfile>);
+    if (result?.error) {
+      console.error('Error updating voice settings:', result.error);
+      setVoiceMessage('Failed to update voice settings');
+    }
+  };
+
+  const voiceOptions: { field: 'keep_voice_recordings' | 'tts_enabled'; title: string; description: string }[] = [
+    {
+      field: 'keep_voice_recordings',
+      title: 'Keep my voice recordings',
+      description: 'Save what you record alongside its transcript, so you can listen back with the words highlighted. Off: recordings are discarded once transcribed.',
+    },
+    {
+      field: 'tts_enabled',
+      title: 'AI voice reading',
+      description: 'Create a read-aloud version of each reflection when you save it',
+    },
+  ];
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -110,6 +141,25 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Language
+                </label>
+                <select
+                  value={preferredLanguage}
+                  onChange={(e) => setPreferredLanguage(e.target.value as Language)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {LANGUAGE_OPTIONS.map(option => (
+                    <option key={option.code} value={option.code}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  AI recaps and video messages are written in this language, and voice notes are transcribed with it in mind.
+                  You can still journal in any supported language.
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Email
@@ -136,6 +186,46 @@ export function SettingsPage({ onBack }: SettingsPageProps) {
             </form>
           </div>
 
+          {/* Voice Preferences */}
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="w-10 h-10 bg-rose-100 rounded-xl flex items-center justify-center">
+                <Mic className="w-6 h-6 text-rose-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Voice</h2>
+                <p className="text-sm text-gray-500">Choose what happens to your voice notes</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {voiceOptions.map(option => (
+                <div key={option.field} className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{option.title}</h3>
+                    <p className="text-sm text-gray-500">{option.description}</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer flex-shrink-0">
+                    <input
+                      type="checkbox"
+                      checked={!!profile?.[option.field]}
+                      onChange={(e) => handleVoiceToggle(option.field, e.target.checked)}
+                      disabled={!profile}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            {voiceMessage && (
+              <p className="mt-4 text-sm text-red-600">{voiceMessage}</p>
+            )}
+          </div>
+
+          <MemorySettings />
+
           {/* Notification Preferences */}
           <div className="bg-white rounded-2xl shadow-lg p-6">
             <div className="flex items-center gap-3 mb-6">
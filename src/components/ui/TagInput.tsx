@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { MAX_TAGS_PER_REFLECTION, normalizeTag } from '../../lib/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // known tags offered as autocomplete
+  placeholder?: string;
+}
+
+const MAX_AUTOCOMPLETE_OPTIONS = 6;
+
+export function TagInput({ tags, onChange, suggestions = [], placeholder = 'Add a tag...' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const isFull = tags.length >= MAX_TAGS_PER_REFLECTION;
+
+  const options = useMemo(() => {
+    const query = normalizeTag(draft);
+    return suggestions
+      .filter(tag => !tags.includes(tag) && (!query || tag.includes(query)))
+      .slice(0, MAX_AUTOCOMPLETE_OPTIONS);
+  }, [draft, suggestions, tags]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    setHighlighted(0);
+    if (!tag || tags.includes(tag) || isFull) return;
+    onChange([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showingOptions = isFocused && options.length > 0;
+
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      // Tab only completes; with nothing typed it should move focus as usual
+      if (e.key === 'Tab' && !draft.trim()) return;
+      e.preventDefault();
+      addTag(showingOptions && draft.trim() ? options[highlighted] ?? draft : draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown' && showingOptions) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % options.length);
+    } else if (e.key === 'ArrowUp' && showingOptions) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + options.length) % options.length);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 border border-gray-300 rounded-lg bg-white focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-blue-400 hover:text-blue-700"
+              title={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={isFull ? `Up to ${MAX_TAGS_PER_REFLECTION} tags` : placeholder}
+          disabled={isFull}
+          className="flex-1 min-w-[6rem] py-0.5 text-sm outline-none bg-transparent disabled:cursor-not-allowed"
+        />
+      </div>
+
+      {isFocused && options.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 max-h-48 overflow-y-auto">
+          {options.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep focus in the input so the list stays open until the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className={`w-full text-left px-3 py-1.5 text-sm ${
+                  index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
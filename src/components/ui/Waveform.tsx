@@ -0,0 +1,83 @@
+import { KeyboardEvent, PointerEvent, useRef } from 'react';
+
+interface WaveformProps {
+  peaks: number[] | null;
+  progress?: number; // 0-1, how much has been played
+  onSeek?: (fraction: number) => void; // click or drag to scrub; omit for a static preview
+  bars?: number; // placeholder bar count while peaks are unknown
+  className?: string;
+  label?: string;
+}
+
+export function Waveform({ peaks, progress = 0, onSeek, bars = 64, className = 'h-10', label = 'Seek' }: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  // Without peaks (not analysed yet) show a flat line of bars so the layout doesn't jump
+  const levels = peaks && peaks.length > 0 ? peaks : new Array(bars).fill(0.15);
+
+  const seekTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !onSeek || rect.width === 0) return;
+    onSeek(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)));
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekTo(e.clientX);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) seekTo(e.clientX);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      const step = e.key === 'ArrowLeft' ? -0.05 : 0.05;
+      onSeek(Math.min(1, Math.max(0, progress + step)));
+    }
+  };
+
+  const playedBars = progress * levels.length;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`flex items-center gap-px select-none touch-none ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      {...(onSeek
+        ? {
+            role: 'slider',
+            tabIndex: 0,
+            'aria-label': label,
+            'aria-valuemin': 0,
+            'aria-valuemax': 100,
+            'aria-valuenow': Math.round(progress * 100),
+          }
+        : { 'aria-hidden': true })}
+    >
+      {levels.map((level, index) => (
+        <div
+          key={index}
+          className={`flex-1 rounded-full transition-colors ${index < playedBars ? 'bg-purple-500' : 'bg-gray-300'}`}
+          style={{ height: `${Math.max(8, level * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface AudioPlayerOptions {
+  // Called with the playback position on pause, periodically while playing, and
+  // with 0 once a recording plays to the end
+  onSavePosition?: (id: string, seconds: number) => void;
+}
+
+// While playing, save the position at most this often
+const SAVE_INTERVAL_SECONDS = 5;
+
+// One shared player: starting a recording stops whichever one was playing
+export function useAudioPlayer({ onSavePosition }: AudioPlayerOptions = {}) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const activeIdRef = useRef<string | null>(null);
+  const lastSavedRef = useRef(0);
+  const onSaveRef = useRef(onSavePosition);
+  onSaveRef.current = onSavePosition;
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setRate] = useState(1);
+  const rateRef = useRef(playbackRate);
+
+  const savePosition = useCallback((seconds: number) => {
+    const id = activeIdRef.current;
+    if (!id) return;
+    lastSavedRef.current = seconds;
+    onSaveRef.current?.(id, seconds);
+  }, []);
+
+  const stop = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      if (!audio.paused && !audio.ended) savePosition(audio.currentTime);
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    audioRef.current = null;
+    activeIdRef.current = null;
+    setActiveId(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+  }, [savePosition]);
+
+  // Start a recording, optionally from a saved position
+  const play = useCallback(async (id: string, url: string, startAt = 0) => {
+    stop();
+
+    const audio = new Audio(url);
+    audio.playbackRate = rateRef.current;
+    audioRef.current = audio;
+    activeIdRef.current = id;
+    lastSavedRef.current = startAt;
+    setActiveId(id);
+    setCurrentTime(startAt);
+
+    audio.addEventListener('loadedmetadata', () => {
+      if (Number.isFinite(audio.duration)) setDuration(audio.duration);
+      // Resuming in the last second would just end straight away
+      if (startAt > 0 && startAt < audio.duration - 1) audio.currentTime = startAt;
+    });
+    audio.addEventListener('timeupdate', () => {
+      setCurrentTime(audio.currentTime);
+      if (Math.abs(audio.currentTime - lastSavedRef.current) >= SAVE_INTERVAL_SECONDS) {
+        savePosition(audio.currentTime);
+      }
+    });
+    audio.addEventListener('play', () => setIsPlaying(true));
+    audio.addEventListener('pause', () => {
+      setIsPlaying(false);
+      if (!audio.ended) savePosition(audio.currentTime);
+    });
+    audio.addEventListener('ended', () => {
+      setIsPlaying(false);
+      setCurrentTime(0);
+      savePosition(0);
+    });
+
+    try {
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      stop();
+      throw error;
+    }
+  }, [savePosition, stop]);
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(error => console.error('Error playing audio:', error));
+    } else {
+      audio.pause();
+    }
+  }, []);
+
+  const seek = useCallback((seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const target = Math.min(Math.max(0, seconds), Number.isFinite(audio.duration) ? audio.duration : seconds);
+    audio.currentTime = target;
+    setCurrentTime(target);
+    if (audio.paused) savePosition(target);
+  }, [savePosition]);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    rateRef.current = rate;
+    setRate(rate);
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, []);
+
+  // Save where we were and release the audio when the owner unmounts
+  useEffect(() => stop, [stop]);
+
+  return {
+    activeId,
+    isPlaying,
+    currentTime,
+    duration,
+    playbackRate,
+    play,
+    toggle,
+    seek,
+    setPlaybackRate,
+    stop,
+  };
+}
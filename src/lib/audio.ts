@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+
+// Bars in a waveform preview. Stored with the reflection, so changing this only
+// affects recordings analysed afterwards.
+export const WAVEFORM_BARS = 64;
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export interface AudioAnalysis {
+  duration: number;
+  peaks: number[];
+}
+
+// Decode a recording in the browser to get its real length and a waveform. Used
+// for recordings made before durations were stored, and for the peaks, which the
+// edge function has no decoder for.
+export async function analyzeAudio(url: string, bars = WAVEFORM_BARS): Promise<AudioAnalysis> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download recording (${response.status})`);
+  }
+
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await response.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+
+    const raw: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * bucketSize);
+      for (let i = bar * bucketSize; i < end; i++) {
+        const level = Math.abs(samples[i]);
+        if (level > peak) peak = level;
+      }
+      raw.push(peak);
+    }
+
+    // Scale to the loudest bar so quiet recordings still show a shape
+    const loudest = Math.max(...raw) || 1;
+    return {
+      duration: Math.round(buffer.duration * 100) / 100,
+      peaks: raw.map(peak => Math.round((peak / loudest) * 100) / 100),
+    };
+  } finally {
+    context.close();
+  }
+}
+
+export async function saveVoiceMetadata(reflectionId: string, analysis: AudioAnalysis): Promise<void> {
+  const { error } = await supabase
+    .from('reflections')
+    .update({ voice_duration: analysis.duration, voice_peaks: analysis.peaks })
+    .eq('id', reflectionId);
+
+  if (error) {
+    throw new Error(`Failed to save recording details: ${error.message}`);
+  }
+}
+
+// Best effort: losing a resume point is not worth interrupting playback for
+export async function saveVoicePosition(reflectionId: string, seconds: number): Promise<void> {
+  const { error } = await supabase
+    .from('reflections')
+    .update({ voice_position: Math.round(seconds * 10) / 10 })
+    .eq('id', reflectionId);
+
+  if (error) {
+    console.error('Error saving playback position:', error);
+  }
+}
+
+// MediaRecorder formats in order of preference. Safari has no WebM, so fall back to
+// Ogg or MP4; an empty string lets the browser choose.
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export function pickRecordingMimeType(): string {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return '';
+  return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+// File extension for a recording's content type
+export function audioExtension(mimeType: string): string {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+}
+
+// 75 -> "1:15"
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
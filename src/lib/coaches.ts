@@ -0,0 +1,231 @@
+import { supabase, getCurrentSession, CoachMessage, UserCoach } from './supabase';
+import { RiskLevel } from './safety';
+
+// Limits match the checks on `user_coaches` and `coach_messages`
+export const COACH_LIMITS = {
+  name: 60,
+  description: 300,
+  prompt: 4000,
+  greeting: 1000,
+  message: 4000,
+};
+
+export interface CoachCategory {
+  id: string;
+  label: string;
+  emoji: string;
+}
+
+// A user can have one coach per category. The ids overlap with the onboarding goals.
+export const COACH_CATEGORIES: CoachCategory[] = [
+  { id: 'mindfulness', label: 'Mindfulness', emoji: '🧘' },
+  { id: 'fitness', label: 'Fitness', emoji: '🏃' },
+  { id: 'nutrition', label: 'Nutrition', emoji: '🥗' },
+  { id: 'sleep', label: 'Sleep', emoji: '🌙' },
+  { id: 'productivity', label: 'Productivity', emoji: '🎯' },
+  { id: 'relationships', label: 'Relationships', emoji: '💞' },
+  { id: 'confidence', label: 'Confidence', emoji: '🌟' },
+  { id: 'stress', label: 'Stress', emoji: '🌿' },
+  { id: 'learning', label: 'Learning', emoji: '📚' },
+];
+
+export const getCoachCategory = (id: string): CoachCategory =>
+  COACH_CATEGORIES.find(category => category.id === id) || { id, label: id, emoji: '💬' };
+
+// Starting points for the coach builder. Like the journaling templates they live in
+// code; a coach made from one keeps its own copy of the text and is free to diverge.
+export interface CoachTemplate {
+  id: string;
+  category: string;
+  coach_name: string;
+  description: string;
+  system_prompt: string;
+  initial_message: string;
+}
+
+export const COACH_TEMPLATES: CoachTemplate[] = [
+  {
+    id: 'calm-guide',
+    category: 'mindfulness',
+    coach_name: 'Calm Guide',
+    description: 'Short breathing and grounding practices for busy days.',
+    system_prompt: 'You are Calm Guide, a gentle mindfulness coach. Offer short, practical exercises (breathing, body scans, grounding) that fit into a few minutes. Speak slowly and warmly, and invite the user to notice rather than fix.',
+    initial_message: "Hi, I'm Calm Guide. How are you arriving today - rushed, tired, somewhere in between?",
+  },
+  {
+    id: 'move-more',
+    category: 'fitness',
+    coach_name: 'Move More',
+    description: 'Builds a realistic exercise habit around your schedule.',
+    system_prompt: 'You are Move More, an encouraging fitness coach. Help the user build a consistent, realistic movement habit. Ask about their schedule, energy and any limitations before suggesting anything, favour small steps, and celebrate consistency over intensity.',
+    initial_message: "Hey! I'm Move More. What does a normal week of movement look like for you right now?",
+  },
+  {
+    id: 'plate-planner',
+    category: 'nutrition',
+    coach_name: 'Plate Planner',
+    description: 'Simple, non-judgemental help with everyday eating.',
+    system_prompt: 'You are Plate Planner, a friendly nutrition coach. Help with balanced everyday meals, planning and shopping. Never moralise about food, avoid calorie counting unless the user asks, and refer medical or eating-disorder concerns to a professional.',
+    initial_message: "Hi, I'm Plate Planner. What's one meal of the day you'd like to feel better about?",
+  },
+  {
+    id: 'sleep-steward',
+    category: 'sleep',
+    coach_name: 'Sleep Steward',
+    description: 'Wind-down routines and habits for better rest.',
+    system_prompt: 'You are Sleep Steward, a calm sleep coach. Help the user understand their sleep patterns and build a wind-down routine using sleep-hygiene principles. Be practical, and suggest a doctor for persistent insomnia or other sleep disorders.',
+    initial_message: "Hello, I'm Sleep Steward. How have your nights been lately?",
+  },
+  {
+    id: 'focus-partner',
+    category: 'productivity',
+    coach_name: 'Focus Partner',
+    description: 'Prioritising, planning and getting unstuck.',
+    system_prompt: "You are Focus Partner, a pragmatic productivity coach. Help the user pick priorities, break work into next actions and notice what gets in their way. Keep advice concrete and sized to the user's energy.",
+    initial_message: "I'm Focus Partner. What's the one thing you most want to get done this week?",
+  },
+  {
+    id: 'connection-coach',
+    category: 'relationships',
+    coach_name: 'Connection Coach',
+    description: 'Reflect on conversations and the people who matter.',
+    system_prompt: 'You are Connection Coach, a warm relationships coach. Help the user reflect on their relationships, prepare for difficult conversations and express appreciation. Stay balanced: hear their side without taking sides against people who are not present.',
+    initial_message: "Hi, I'm Connection Coach. Is there someone on your mind today?",
+  },
+  {
+    id: 'steady-voice',
+    category: 'stress',
+    coach_name: 'Steady Voice',
+    description: 'Untangle worries and find the next small step.',
+    system_prompt: 'You are Steady Voice, a reassuring stress coach. Help the user name what is weighing on them, separate what they can and cannot control, and choose one small next step. Use simple CBT-style questions rather than lectures.',
+    initial_message: "I'm Steady Voice. What's taking up the most space in your head right now?",
+  },
+];
+
+export interface CoachDraft {
+  coach_name: string;
+  description: string;
+  system_prompt: string;
+  initial_message: string;
+  category: string;
+  template_id: string | null;
+}
+
+const draftRow = (draft: CoachDraft) => ({
+  coach_name: draft.coach_name.trim(),
+  description: draft.description.trim(),
+  system_prompt: draft.system_prompt.trim(),
+  initial_message: draft.initial_message.trim(),
+  category: draft.category,
+  template_id: draft.template_id,
+});
+
+// The unique (user_id, category) constraint is the source of truth; this turns its
+// violation into something the user can act on
+const coachSaveError = (error: { code?: string; message: string }, category: string) =>
+  new Error(error.code === '23505'
+    ? `You already have a ${getCoachCategory(category).label.toLowerCase()} coach. Edit that one or pick another focus.`
+    : `Failed to save coach: ${error.message}`);
+
+export async function fetchCoaches(): Promise<UserCoach[]> {
+  const { data, error } = await supabase
+    .from('user_coaches')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load coaches: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function saveCoach(userId: string, draft: CoachDraft & { id?: string }): Promise<UserCoach> {
+  const row = { user_id: userId, ...draftRow(draft) };
+
+  const { data, error } = draft.id
+    ? await supabase.from('user_coaches').update(row).eq('id', draft.id).select().single()
+    : await supabase.from('user_coaches').insert([row]).select().single();
+
+  if (error || !data) {
+    throw error ? coachSaveError(error, draft.category) : new Error('Failed to save coach: no row returned');
+  }
+
+  return data;
+}
+
+// The conversation goes with it (ON DELETE CASCADE)
+export async function deleteCoach(coachId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_coaches')
+    .delete()
+    .eq('id', coachId);
+
+  if (error) {
+    throw new Error(`Failed to delete coach: ${error.message}`);
+  }
+}
+
+export async function fetchCoachMessages(coachId: string): Promise<CoachMessage[]> {
+  const { data, error } = await supabase
+    .from('coach_messages')
+    .select('*')
+    .eq('coach_id', coachId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load conversation: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function clearCoachConversation(coachId: string): Promise<void> {
+  const { error } = await supabase
+    .from('coach_messages')
+    .delete()
+    .eq('coach_id', coachId);
+
+  if (error) {
+    throw new Error(`Failed to clear conversation: ${error.message}`);
+  }
+}
+
+// Sends a message and calls `onChunk` with each piece of the reply as it arrives.
+// Both sides of the exchange are stored by the edge function. The safety level
+// comes from a header so it is known before the reply starts.
+export async function streamCoachReply(
+  coachId: string,
+  message: string,
+  onChunk: (text: string) => void
+): Promise<{ safetyLevel: RiskLevel }> {
+  const session = await getCurrentSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/coach-chat`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ coach_id: coachId, message }),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || 'Failed to reach your coach');
+  }
+
+  const safetyLevel = (response.headers.get('x-safety-level') as RiskLevel | null) || 'none';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    onChunk(decoder.decode(value, { stream: true }));
+  }
+
+  const rest = decoder.decode();
+  if (rest) onChunk(rest);
+
+  return { safetyLevel };
+}
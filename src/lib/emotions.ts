@@ -0,0 +1,27 @@
+import { Emotion, EmotionScores } from './supabase';
+
+// Same order as the edge function's emotion model
+export const EMOTIONS: Emotion[] = ['joy', 'sadness', 'anger', 'fear', 'surprise', 'calm'];
+
+export const EMOTION_META: Record<Emotion, { label: string; emoji: string; color: string; badge: string }> = {
+  joy: { label: 'Joy', emoji: '😊', color: '#f59e0b', badge: 'bg-amber-100 text-amber-700 border-amber-200' },
+  sadness: { label: 'Sadness', emoji: '😢', color: '#3b82f6', badge: 'bg-blue-100 text-blue-700 border-blue-200' },
+  anger: { label: 'Anger', emoji: '😠', color: '#ef4444', badge: 'bg-red-100 text-red-700 border-red-200' },
+  fear: { label: 'Fear', emoji: '😨', color: '#8b5cf6', badge: 'bg-violet-100 text-violet-700 border-violet-200' },
+  surprise: { label: 'Surprise', emoji: '😮', color: '#ec4899', badge: 'bg-pink-100 text-pink-700 border-pink-200' },
+  calm: { label: 'Calm', emoji: '😌', color: '#10b981', badge: 'bg-emerald-100 text-emerald-700 border-emerald-200' },
+};
+
+export const isEmotion = (value: string | null | undefined): value is Emotion =>
+  !!value && (EMOTIONS as string[]).includes(value);
+
+// Average intensity per emotion; reflections without emotions are skipped
+export function averageEmotions(scores: (EmotionScores | null)[]): EmotionScores | null {
+  const present = scores.filter((s): s is EmotionScores => !!s);
+  if (present.length === 0) return null;
+
+  return EMOTIONS.reduce((avg, emotion) => {
+    avg[emotion] = Math.round((present.reduce((sum, s) => sum + (s[emotion] || 0), 0) / present.length) * 100) / 100;
+    return avg;
+  }, {} as EmotionScores);
+}
@@ -0,0 +1,216 @@
+import { supabase, BodyFeedback, Goal, GoalMilestone, GoalStatus, Habit } from './supabase';
+
+// Limits match the checks on `goals` and `goal_milestones`
+export const GOAL_LIMITS = {
+  title: 120,
+  description: 1000,
+  milestone: 200,
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  archived: 'Archived',
+};
+
+export interface MilestoneDraft {
+  id?: string;
+  title: string;
+  target_date: string | null;
+  completed_at: string | null;
+}
+
+export interface GoalDraft {
+  title: string;
+  description: string;
+  category: string | null;
+  target_date: string | null;
+  milestones: MilestoneDraft[];
+}
+
+export type GoalHabit = Pick<Habit, 'id' | 'name' | 'goal_id'>;
+export type GoalBodyPlan = Pick<BodyFeedback, 'id' | 'created_at' | 'goal_id'>;
+
+// Share of milestones ticked off, 0-100. A completed goal is done whatever its
+// milestones say, and a goal without milestones has nothing to measure yet.
+export function goalProgress(goal: Pick<Goal, 'status' | 'goal_milestones'>): number {
+  if (goal.status === 'completed') return 100;
+
+  const milestones = goal.goal_milestones || [];
+  if (milestones.length === 0) return 0;
+
+  const done = milestones.filter(milestone => milestone.completed_at).length;
+  return Math.round((done / milestones.length) * 100);
+}
+
+export const nextMilestone = (goal: Goal): GoalMilestone | undefined =>
+  (goal.goal_milestones || []).find(milestone => !milestone.completed_at);
+
+const withSortedMilestones = (goal: Goal): Goal => ({
+  ...goal,
+  goal_milestones: [...(goal.goal_milestones || [])].sort((a, b) => a.position - b.position),
+});
+
+export async function fetchGoals(): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*, goal_milestones(*)')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load goals: ${error.message}`);
+  }
+
+  return (data || []).map(withSortedMilestones);
+}
+
+// Creates the goal or updates `existing`, then brings its milestones in line with the
+// draft: milestones left out are deleted, the rest are saved in the draft's order.
+export async function saveGoal(userId: string, draft: GoalDraft, existing?: Goal): Promise<Goal> {
+  const fields = {
+    title: draft.title.trim(),
+    description: draft.description.trim() || null,
+    category: draft.category,
+    target_date: draft.target_date || null,
+  };
+
+  const { data: goal, error } = existing
+    ? await supabase.from('goals').update(fields).eq('id', existing.id).select().single()
+    : await supabase.from('goals').insert([{ ...fields, user_id: userId }]).select().single();
+
+  if (error || !goal) {
+    throw new Error(`Failed to save goal: ${error?.message ?? 'no row returned'}`);
+  }
+
+  const rows = draft.milestones
+    .filter(milestone => milestone.title.trim())
+    .map((milestone, position) => ({
+      ...milestone,
+      title: milestone.title.trim(),
+      target_date: milestone.target_date || null,
+      goal_id: goal.id,
+      user_id: userId,
+      position,
+    }));
+  const keptIds = new Set(rows.map(row => row.id).filter(Boolean));
+  const removed = (existing?.goal_milestones || []).filter(milestone => !keptIds.has(milestone.id)).map(milestone => milestone.id);
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase.from('goal_milestones').delete().in('id', removed);
+    if (deleteError) {
+      throw new Error(`Failed to remove milestones: ${deleteError.message}`);
+    }
+  }
+
+  const kept = rows.filter(row => row.id);
+  if (kept.length > 0) {
+    const { error: updateError } = await supabase.from('goal_milestones').upsert(kept);
+    if (updateError) {
+      throw new Error(`Failed to save milestones: ${updateError.message}`);
+    }
+  }
+
+  const added = rows.filter(row => !row.id);
+  if (added.length > 0) {
+    const { error: insertError } = await supabase.from('goal_milestones').insert(added);
+    if (insertError) {
+      throw new Error(`Failed to add milestones: ${insertError.message}`);
+    }
+  }
+
+  const { data: milestones, error: fetchError } = await supabase
+    .from('goal_milestones')
+    .select('*')
+    .eq('goal_id', goal.id)
+    .order('position', { ascending: true });
+
+  if (fetchError) {
+    throw new Error(`Failed to load milestones: ${fetchError.message}`);
+  }
+
+  return { ...goal, goal_milestones: milestones || [] };
+}
+
+export async function setGoalStatus(goalId: string, status: GoalStatus): Promise<Goal> {
+  const { data, error } = await supabase
+    .from('goals')
+    .update({ status, completed_at: status === 'completed' ? new Date().toISOString() : null })
+    .eq('id', goalId)
+    .select('*, goal_milestones(*)')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update goal: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return withSortedMilestones(data);
+}
+
+// Milestones go with the goal; linked habits and plans are kept and just unlinked
+export async function deleteGoal(goalId: string): Promise<void> {
+  const { error } = await supabase
+    .from('goals')
+    .delete()
+    .eq('id', goalId);
+
+  if (error) {
+    throw new Error(`Failed to delete goal: ${error.message}`);
+  }
+}
+
+export async function toggleMilestone(milestone: GoalMilestone): Promise<GoalMilestone> {
+  const { data, error } = await supabase
+    .from('goal_milestones')
+    .update({ completed_at: milestone.completed_at ? null : new Date().toISOString() })
+    .eq('id', milestone.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update milestone: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data;
+}
+
+// Habits and body-coach plans the user could link to a goal, including ones already
+// linked to another goal (linking moves them)
+export async function fetchLinkables(userId: string): Promise<{ habits: GoalHabit[]; plans: GoalBodyPlan[] }> {
+  const [{ data: habits, error: habitsError }, { data: plans, error: plansError }] = await Promise.all([
+    supabase.from('habits').select('id, name, goal_id').eq('user_id', userId).order('created_at', { ascending: true }),
+    supabase.from('body_feedback').select('id, created_at, goal_id').eq('user_id', userId).order('created_at', { ascending: false }),
+  ]);
+
+  if (habitsError || plansError) {
+    throw new Error(`Failed to load habits and plans: ${(habitsError || plansError)!.message}`);
+  }
+
+  return { habits: habits || [], plans: plans || [] };
+}
+
+export async function linkToGoal(table: 'habits' | 'body_feedback', id: string, goalId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .update({ goal_id: goalId })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to ${goalId ? 'link' : 'unlink'} ${table === 'habits' ? 'habit' : 'plan'}: ${error.message}`);
+  }
+}
+
+// Onboarding picks become goals right away, titled the way onboarding shows them
+export async function createGoalsFromOnboarding(
+  userId: string,
+  picks: { category: string; title: string }[]
+): Promise<void> {
+  if (picks.length === 0) return;
+
+  const { error } = await supabase
+    .from('goals')
+    .insert(picks.map(pick => ({ user_id: userId, title: pick.title, category: pick.category })));
+
+  if (error) {
+    throw new Error(`Failed to create goals: ${error.message}`);
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format, subDays } from 'date-fns';
+import { HabitSchedule, getHabitStatus, reachedMilestone } from './habits';
+
+// October 2025: the 13th is a Monday, the 19th a Sunday
+const oct = (day: number) => new Date(2025, 9, day, 12);
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+const completions = (...dates: Date[]) => dates.map(date => ({ completed_at: day(date) }));
+
+// `count` consecutive days, ending the day before `end`
+const daysBefore = (end: Date, count: number) =>
+  Array.from({ length: count }, (_, i) => subDays(end, count - i));
+
+const schedule = (changes: Partial<HabitSchedule>): HabitSchedule => ({
+  target_frequency: 'daily',
+  times_per_week: null,
+  weekdays: null,
+  interval_days: null,
+  created_at: '2025-01-01T09:00:00',
+  ...changes,
+});
+
+describe('daily habits', () => {
+  const daily = schedule({});
+
+  it('keeps the streak while today is still open', () => {
+    const status = getHabitStatus(daily, completions(...daysBefore(oct(15), 3)), oct(15));
+
+    expect(status.streak).toBe(3);
+    expect(status.dueToday).toBe(true);
+    expect(status.completedToday).toBe(false);
+  });
+
+  it('counts today once it is done', () => {
+    const status = getHabitStatus(daily, completions(...daysBefore(oct(15), 3), oct(15)), oct(15));
+
+    expect(status.streak).toBe(4);
+    expect(status.dueToday).toBe(false);
+    expect(status.completedToday).toBe(true);
+  });
+
+  it('breaks the streak after a missed day', () => {
+    const status = getHabitStatus(daily, completions(oct(11), oct(12), oct(13)), oct(15));
+
+    expect(status.streak).toBe(0);
+    expect(status.dueToday).toBe(true);
+  });
+});
+
+describe('weekly habits', () => {
+  const threeTimes = schedule({ target_frequency: 'weekly', times_per_week: 3 });
+
+  it('counts weeks from Monday, so Sunday belongs to the week before', () => {
+    // Friday to Sunday meet last week's target; it is now Monday
+    const status = getHabitStatus(threeTimes, completions(oct(10), oct(11), oct(12)), oct(13));
+
+    expect(status.streak).toBe(1);
+    expect(status.periodCount).toBe(0);
+    expect(status.periodTarget).toBe(3);
+    expect(status.dueToday).toBe(true);
+  });
+
+  it('does not count a Monday check-in towards the week before', () => {
+    const status = getHabitStatus(threeTimes, completions(oct(11), oct(12), oct(13)), oct(14));
+
+    expect(status.streak).toBe(0);
+    expect(status.periodCount).toBe(1);
+  });
+
+  it('counts the current week once its target is met, and is no longer due', () => {
+    const status = getHabitStatus(
+      threeTimes,
+      completions(oct(6), oct(8), oct(10), oct(13), oct(14), oct(15)),
+      oct(16)
+    );
+
+    expect(status.streak).toBe(2);
+    expect(status.periodCount).toBe(3);
+    expect(status.dueToday).toBe(false);
+  });
+
+  it('ends the streak at a week that fell short', () => {
+    // Sep 29 - Oct 5 has only two completions
+    const status = getHabitStatus(
+      threeTimes,
+      completions(oct(1), oct(3), oct(6), oct(7), oct(8)),
+      oct(15)
+    );
+
+    expect(status.streak).toBe(1);
+    expect(status.streakUnit).toBe('week');
+  });
+});
+
+describe('habits on specific weekdays', () => {
+  const monWedFri = schedule({ target_frequency: 'weekdays', weekdays: [1, 3, 5] });
+
+  it('is not due on an unscheduled day, and the last scheduled day still counts', () => {
+    const status = getHabitStatus(monWedFri, completions(oct(8), oct(10), oct(13)), oct(14));
+
+    expect(status.streak).toBe(3);
+    expect(status.dueToday).toBe(false);
+  });
+
+  it('carries the streak from Friday over the weekend to Monday', () => {
+    const status = getHabitStatus(monWedFri, completions(oct(10)), oct(13));
+
+    expect(status.streak).toBe(1);
+    expect(status.dueToday).toBe(true);
+  });
+
+  it('breaks the streak once a scheduled day has passed unchecked', () => {
+    // Monday the 13th was missed; it is now Tuesday
+    const status = getHabitStatus(monWedFri, completions(oct(8), oct(10)), oct(14));
+
+    expect(status.streak).toBe(0);
+    expect(status.dueToday).toBe(false);
+  });
+
+  it('ignores completions on unscheduled days', () => {
+    const status = getHabitStatus(monWedFri, completions(oct(11), oct(12)), oct(13));
+
+    expect(status.streak).toBe(0);
+  });
+});
+
+describe('every-N-days habits', () => {
+  // Windows of three days from Oct 1: 1-3, 4-6, 7-9, 10-12, 13-15
+  const everyThree = schedule({ target_frequency: 'interval', interval_days: 3, created_at: '2025-10-01T09:00:00' });
+
+  it('counts one completion per window', () => {
+    const status = getHabitStatus(everyThree, completions(oct(2), oct(5), oct(9), oct(11)), oct(14));
+
+    expect(status.streak).toBe(4);
+    expect(status.dueToday).toBe(true);
+    expect(status.streakUnit).toBe('session');
+  });
+
+  it('is done for the rest of the window after one completion', () => {
+    const status = getHabitStatus(everyThree, completions(oct(11), oct(13)), oct(15));
+
+    expect(status.streak).toBe(2);
+    expect(status.dueToday).toBe(false);
+  });
+
+  it('breaks the streak after an empty window', () => {
+    const status = getHabitStatus(everyThree, completions(oct(2), oct(5), oct(11)), oct(14));
+
+    expect(status.streak).toBe(1);
+  });
+
+  it('stops counting at the window the habit was created in', () => {
+    const status = getHabitStatus(everyThree, completions(subDays(oct(1), 2), oct(1)), oct(2));
+
+    expect(status.streak).toBe(1);
+  });
+});
+
+describe('reachedMilestone', () => {
+  it('fires for a daily habit on the 7th, 14th and 30th day only', () => {
+    const daily = schedule({});
+
+    for (const length of [7, 14, 30]) {
+      expect(reachedMilestone(daily, completions(...daysBefore(oct(15), length - 1)), day(oct(15)), oct(15))).toBe(length);
+    }
+    expect(reachedMilestone(daily, completions(...daysBefore(oct(15), 7)), day(oct(15)), oct(15))).toBeNull();
+  });
+
+  it('fires for a weekly habit when the 7th week reaches its target, not on earlier check-ins', () => {
+    const twice = schedule({ target_frequency: 'weekly', times_per_week: 2 });
+    // Mondays and Tuesdays of the six weeks before the week of Oct 13
+    const previousWeeks = Array.from({ length: 6 }, (_, week) => subDays(oct(13), 7 * (week + 1)))
+      .flatMap(monday => [monday, addDays(monday, 1)]);
+
+    expect(reachedMilestone(twice, completions(...previousWeeks), day(oct(14)), oct(14))).toBeNull();
+    expect(reachedMilestone(twice, completions(...previousWeeks, oct(13)), day(oct(14)), oct(14))).toBe(7);
+  });
+
+  it('fires for a weekday habit on the 14th scheduled day', () => {
+    const monWedFri = schedule({ target_frequency: 'weekdays', weekdays: [1, 3, 5] });
+    // The 13 scheduled days before Wednesday the 15th
+    const scheduled = daysBefore(oct(15), 40).filter(date => [1, 3, 5].includes(date.getDay())).slice(-13);
+
+    expect(reachedMilestone(monWedFri, completions(...scheduled), day(oct(15)), oct(15))).toBe(14);
+    expect(reachedMilestone(monWedFri, completions(...scheduled.slice(1)), day(oct(15)), oct(15))).toBeNull();
+  });
+
+  it('fires for an every-N-days habit on the 30th window', () => {
+    // Every two days, with Oct 14 the start of window 30
+    const createdOn = subDays(oct(14), 58);
+    const everyTwo = schedule({ target_frequency: 'interval', interval_days: 2, created_at: `${day(createdOn)}T09:00:00` });
+    const earlierWindows = Array.from({ length: 29 }, (_, window) => addDays(createdOn, window * 2));
+
+    expect(reachedMilestone(everyTwo, completions(...earlierWindows), day(oct(14)), oct(14))).toBe(30);
+    // A second completion in the same window does not move the streak
+    expect(reachedMilestone(everyTwo, completions(...earlierWindows, oct(14)), day(oct(15)), oct(15))).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import { addDays, differenceInCalendarDays, format, startOfDay, startOfWeek, subDays } from 'date-fns';
+import { Habit, HabitCompletion } from './supabase';
+
+export type HabitSchedule = Pick<Habit, 'target_frequency' | 'times_per_week' | 'weekdays' | 'interval_days' | 'created_at'>;
+
+export const STREAK_MILESTONES = [7, 14, 30];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface HabitStatus {
+  streak: number; // consecutive periods met, counted in `streakUnit`s
+  streakUnit: string;
+  completedToday: boolean;
+  dueToday: boolean;
+  periodCount: number; // completions so far in the current period
+  periodTarget: number;
+}
+
+// A schedule splits time into periods that each need `target` completions: a day,
+// a scheduled weekday, a week, or an N-day window counted from when the habit was created.
+interface Period {
+  start: Date;
+  days: number;
+  target: number;
+}
+
+const scheduledWeekdays = (schedule: HabitSchedule): number[] =>
+  schedule.weekdays && schedule.weekdays.length > 0 ? schedule.weekdays : [0, 1, 2, 3, 4, 5, 6];
+
+function periodEndingOnOrBefore(schedule: HabitSchedule, day: Date): Period {
+  switch (schedule.target_frequency) {
+    case 'weekly':
+      return { start: startOfWeek(day, { weekStartsOn: 1 }), days: 7, target: schedule.times_per_week ?? 1 };
+    case 'interval': {
+      const interval = schedule.interval_days ?? 1;
+      const anchor = startOfDay(new Date(schedule.created_at));
+      const index = Math.max(0, Math.floor(differenceInCalendarDays(day, anchor) / interval));
+      return { start: addDays(anchor, index * interval), days: interval, target: 1 };
+    }
+    case 'weekdays': {
+      // The most recent scheduled day, which may be today
+      const weekdays = scheduledWeekdays(schedule);
+      let start = day;
+      while (!weekdays.includes(start.getDay())) {
+        start = subDays(start, 1);
+      }
+      return { start, days: 1, target: 1 };
+    }
+    default:
+      return { start: day, days: 1, target: 1 };
+  }
+}
+
+// The period before `period`, or null once an interval habit reaches its first window
+function previousPeriod(schedule: HabitSchedule, period: Period): Period | null {
+  const previous = periodEndingOnOrBefore(schedule, subDays(period.start, 1));
+  return previous.start < period.start ? previous : null;
+}
+
+export function getHabitStatus(
+  schedule: HabitSchedule,
+  completions: Pick<HabitCompletion, 'completed_at'>[],
+  now = new Date()
+): HabitStatus {
+  const today = startOfDay(now);
+  const completedDays = new Set(completions.map(c => c.completed_at.slice(0, 10)));
+  const countIn = (period: Period) =>
+    Array.from({ length: period.days }, (_, i) => format(addDays(period.start, i), 'yyyy-MM-dd'))
+      .filter(day => completedDays.has(day)).length;
+
+  const current = periodEndingOnOrBefore(schedule, today);
+  const periodCount = countIn(current);
+  const completedToday = completedDays.has(format(today, 'yyyy-MM-dd'));
+  const currentIncludesToday = differenceInCalendarDays(today, current.start) < current.days;
+
+  // A period still in progress doesn't break the streak; a missed one that is over does
+  let streak = 0;
+  let period: Period | null = current;
+  if (periodCount < current.target && currentIncludesToday) {
+    period = previousPeriod(schedule, current);
+  }
+  while (period && countIn(period) >= period.target) {
+    streak++;
+    period = previousPeriod(schedule, period);
+  }
+
+  return {
+    streak,
+    streakUnit: getStreakUnit(schedule),
+    completedToday,
+    dueToday: currentIncludesToday && periodCount < current.target && !completedToday,
+    periodCount,
+    periodTarget: current.target,
+  };
+}
+
+// The streak milestone a new completion lands on, or null. For "3x per week" the streak
+// grows when the week's target is reached, not on every check-in.
+export function reachedMilestone(
+  schedule: HabitSchedule,
+  completions: Pick<HabitCompletion, 'completed_at'>[],
+  completedAt: string,
+  now = new Date()
+): number | null {
+  const before = getHabitStatus(schedule, completions, now).streak;
+  const after = getHabitStatus(schedule, [...completions, { completed_at: completedAt }], now).streak;
+  return after > before && STREAK_MILESTONES.includes(after) ? after : null;
+}
+
+export function getStreakUnit(schedule: HabitSchedule): string {
+  switch (schedule.target_frequency) {
+    case 'weekly':
+      return 'week';
+    case 'weekdays':
+      return 'scheduled day';
+    case 'interval':
+      return 'session';
+    default:
+      return 'day';
+  }
+}
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  switch (schedule.target_frequency) {
+    case 'weekly': {
+      const times = schedule.times_per_week ?? 1;
+      return times === 1 ? 'Once a week' : `${times}× per week`;
+    }
+    case 'weekdays': {
+      const weekdays = [...scheduledWeekdays(schedule)].sort((a, b) => a - b);
+      if (weekdays.length === 7) return 'Daily';
+      if (weekdays.join() === '1,2,3,4,5') return 'Weekdays';
+      if (weekdays.join() === '0,6') return 'Weekends';
+      // List Monday first
+      return [...weekdays.filter(d => d !== 0), ...weekdays.filter(d => d === 0)]
+        .map(d => WEEKDAY_LABELS[d])
+        .join(', ');
+    }
+    case 'interval':
+      return `Every ${schedule.interval_days ?? 1} days`;
+    default:
+      return 'Daily';
+  }
+}
+
+// Default amount for one tap of "log": single units for small targets ("8 glasses"),
+// a tenth of the target for big ones ("10000 steps" logs 1000 at a time)
+export function suggestedLogAmount(targetValue: number): number {
+  if (targetValue <= 20) return 1;
+  const step = targetValue / 10;
+  const magnitude = 10 ** Math.floor(Math.log10(step));
+  return Math.round(step / magnitude) * magnitude;
+}
+
+export const formatAmount = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
@@ -0,0 +1,195 @@
+import { getDayOfYear } from 'date-fns';
+import { supabase, JournalTemplate, ReflectionSection, TemplateSection } from './supabase';
+
+// Built-in templates live here rather than in the database so they can be improved
+// without a migration. Their ids are slugs; user templates use uuids. Both end up in
+// `reflections.template_id`.
+export interface TemplateDefinition {
+  id: string;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+  goals?: string[]; // onboarding goal ids the template is most useful for
+  builtIn: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: TemplateDefinition[] = [
+  {
+    id: 'gratitude',
+    name: 'Gratitude',
+    description: 'Three things you are thankful for and why.',
+    goals: ['mindfulness', 'relationships'],
+    builtIn: true,
+    sections: [
+      { key: 'grateful-1', label: 'I am grateful for', placeholder: 'Something big or small...' },
+      { key: 'grateful-2', label: 'I am also grateful for' },
+      { key: 'grateful-3', label: 'And for' },
+      { key: 'why', label: 'Why these matter to me', prompt: 'Pick one and say what it changed about your day.' },
+    ],
+  },
+  {
+    id: 'thought-record',
+    name: 'Thought Record',
+    description: 'A CBT exercise for untangling a difficult moment.',
+    goals: ['mindfulness', 'sleep', 'relationships'],
+    builtIn: true,
+    sections: [
+      { key: 'situation', label: 'Situation', prompt: 'What happened? Where, when, who was there?' },
+      { key: 'thought', label: 'Automatic thought', prompt: 'What went through your mind?' },
+      { key: 'emotion', label: 'Emotions', prompt: 'What did you feel, and how strongly (0-100%)?' },
+      { key: 'evidence-for', label: 'Evidence for the thought' },
+      { key: 'evidence-against', label: 'Evidence against the thought' },
+      { key: 'balanced', label: 'Balanced thought', prompt: 'What is a fairer way to see it? How do you feel now?' },
+    ],
+  },
+  {
+    id: 'evening-review',
+    name: 'Evening Review',
+    description: 'Close the day: what went well, what did not, what is next.',
+    goals: ['productivity', 'sleep', 'learning'],
+    builtIn: true,
+    sections: [
+      { key: 'went-well', label: 'What went well today' },
+      { key: 'went-badly', label: 'What was hard' },
+      { key: 'learned', label: 'What I learned' },
+      { key: 'tomorrow', label: 'One thing for tomorrow' },
+    ],
+  },
+  {
+    id: 'three-wins',
+    name: 'Three Wins',
+    description: 'Name three wins from today, however small.',
+    goals: ['productivity', 'fitness', 'learning'],
+    builtIn: true,
+    sections: [
+      { key: 'win-1', label: 'Win #1' },
+      { key: 'win-2', label: 'Win #2' },
+      { key: 'win-3', label: 'Win #3' },
+    ],
+  },
+];
+
+// Single-question prompts for free writing. Untagged prompts suit everyone.
+const DAILY_PROMPTS: { text: string; goals?: string[] }[] = [
+  { text: 'What is one thing you want to remember about today?' },
+  { text: 'What drained your energy today, and what restored it?' },
+  { text: 'Describe a moment today when you felt fully present.', goals: ['mindfulness'] },
+  { text: 'What thought kept coming back today? Is it true?', goals: ['mindfulness'] },
+  { text: 'How did your body feel during exercise today?', goals: ['fitness'] },
+  { text: 'What would make tomorrow\'s workout feel like a win?', goals: ['fitness'] },
+  { text: 'What did you finish today that you are proud of?', goals: ['productivity'] },
+  { text: 'What is the one task that would make tomorrow a good day?', goals: ['productivity'] },
+  { text: 'How did you sleep last night, and what might have affected it?', goals: ['sleep'] },
+  { text: 'What could you let go of before bed tonight?', goals: ['sleep'] },
+  { text: 'What did you learn today that surprised you?', goals: ['learning'] },
+  { text: 'What is a skill you practised today, and how did it go?', goals: ['learning'] },
+  { text: 'Who made your day better, and did you tell them?', goals: ['relationships'] },
+  { text: 'Was there a conversation today you would like to have gone differently?', goals: ['relationships'] },
+];
+
+export const DAILY_PROMPT_TEMPLATE_ID = 'daily-prompt';
+
+const matchesGoals = (itemGoals: string[] | undefined, goals: string[]) =>
+  !itemGoals || itemGoals.some(goal => goals.includes(goal));
+
+// Rotates once a day. Prompts tagged with one of the user's goals come first in the
+// pool, with general prompts mixed in so the rotation doesn't get narrow.
+export function getDailyPrompt(goals: string[] | null, date = new Date()): string {
+  const pool = goals && goals.length > 0
+    ? DAILY_PROMPTS.filter(prompt => matchesGoals(prompt.goals, goals))
+    : DAILY_PROMPTS;
+  return pool[getDayOfYear(date) % pool.length].text;
+}
+
+// Built-in templates that fit the user's goals, rotating which one is suggested
+export function getSuggestedTemplate(goals: string[] | null, date = new Date()): TemplateDefinition {
+  const matching = BUILT_IN_TEMPLATES.filter(template =>
+    goals && goals.length > 0 && matchesGoals(template.goals, goals)
+  );
+  const pool = matching.length > 0 ? matching : BUILT_IN_TEMPLATES;
+  return pool[getDayOfYear(date) % pool.length];
+}
+
+export function dailyPromptTemplate(prompt: string): TemplateDefinition {
+  return {
+    id: DAILY_PROMPT_TEMPLATE_ID,
+    name: 'Today\'s Prompt',
+    description: prompt,
+    builtIn: true,
+    sections: [{ key: 'answer', label: prompt }],
+  };
+}
+
+export function fromJournalTemplate(template: JournalTemplate): TemplateDefinition {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description || '',
+    sections: template.sections,
+    builtIn: false,
+  };
+}
+
+// Answered sections, in template order
+export function buildSections(template: TemplateDefinition, answers: Record<string, string>): ReflectionSection[] {
+  return template.sections
+    .map(section => ({
+      key: section.key,
+      label: section.label,
+      prompt: section.prompt ?? null,
+      answer: (answers[section.key] || '').trim(),
+    }))
+    .filter(section => section.answer);
+}
+
+// The plain-text body saved in `reflections.content`, which search, sentiment,
+// embeddings and recaps all read
+export function composeContent(sections: ReflectionSection[]): string {
+  return sections.map(section => `${section.label}\n${section.answer}`).join('\n\n');
+}
+
+export async function fetchCustomTemplates(): Promise<JournalTemplate[]> {
+  const { data, error } = await supabase
+    .from('journal_templates')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load templates: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function saveCustomTemplate(
+  userId: string,
+  template: Pick<JournalTemplate, 'name' | 'description' | 'sections'> & { id?: string }
+): Promise<JournalTemplate> {
+  const row = {
+    user_id: userId,
+    name: template.name.trim(),
+    description: template.description?.trim() || null,
+    sections: template.sections,
+  };
+
+  const { data, error } = template.id
+    ? await supabase.from('journal_templates').update(row).eq('id', template.id).select().single()
+    : await supabase.from('journal_templates').insert([row]).select().single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save template: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data;
+}
+
+export async function deleteCustomTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('journal_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+}
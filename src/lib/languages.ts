@@ -0,0 +1,10 @@
+import { Language } from './supabase';
+
+// Languages a user can journal in, labelled in their own language for the picker
+export const LANGUAGE_OPTIONS: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'he', label: 'עברית' },
+];
+
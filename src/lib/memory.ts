@@ -0,0 +1,42 @@
+import { supabase, MemoryKind, UserMemory } from './supabase';
+
+export const MEMORY_KIND_LABELS: Record<MemoryKind, { title: string; description: string }> = {
+  theme: { title: 'Themes', description: 'Topics that keep coming up in your reflections' },
+  commitment: { title: 'Commitments', description: 'Things you said you wanted to do' },
+  recommendation: { title: 'Past recommendations', description: 'Suggestions from earlier recaps, so they can follow up' },
+};
+
+export async function fetchMemories(): Promise<UserMemory[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load memories: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function deleteMemory(memoryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_memories')
+    .delete()
+    .eq('id', memoryId);
+
+  if (error) {
+    throw new Error(`Failed to forget this: ${error.message}`);
+  }
+}
+
+export async function clearMemories(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_memories')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to clear memories: ${error.message}`);
+  }
+}
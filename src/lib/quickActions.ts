@@ -0,0 +1,135 @@
+import { supabase, QuickAction, UserCoach } from './supabase';
+
+// Built-in features that can sit in Quick Actions. Rows refer to them by key, so a
+// feature can be renamed here without touching anyone's layout. How each one looks
+// and which modal it opens is up to the dashboard.
+export interface QuickActionFeature {
+  key: string;
+  label: string;
+  description: string;
+  goals?: string[]; // onboarding goals it suits: pinned for them, hidden by default for others
+}
+
+export const QUICK_ACTION_FEATURES: QuickActionFeature[] = [
+  { key: 'ai-insights', label: 'AI Insights', description: 'Get personalized AI-powered recaps and coaching' },
+  { key: 'growth-reports', label: 'Growth Reports', description: 'Review your saved AI insights over time', goals: ['productivity', 'learning'] },
+  { key: 'style-journal', label: 'Style Journal', description: 'Get AI feedback on your outfits and browse history' },
+  { key: 'body-coach', label: 'AI Body Coach', description: 'Get personalized coaching plans and track your progress over time', goals: ['fitness'] },
+  { key: 'goals', label: 'Goals', description: 'Track milestones and the habits behind each goal' },
+  { key: 'my-coaches', label: 'My Coaches', description: 'Chat with coaches you create for your own goals' },
+  { key: 'weekly-recap', label: 'Weekly Recap', description: 'View your AI-generated video summary' },
+  { key: 'voice-library', label: 'Voice Library', description: 'Listen to your reflection recordings', goals: ['mindfulness', 'sleep'] },
+  { key: 'reflection-history', label: 'Reflection History', description: 'Browse past reflections' },
+  { key: 'achievements', label: 'Achievements', description: 'See your milestones and rewards', goals: ['fitness', 'productivity', 'learning'] },
+];
+
+export const getQuickActionFeature = (key: string | null) =>
+  QUICK_ACTION_FEATURES.find(feature => feature.key === key);
+
+export type QuickActionRow = Omit<QuickAction, 'id' | 'created_at'> & { id?: string };
+
+// Pinned first, then in the user's order
+export const sortQuickActions = <T extends Pick<QuickAction, 'pinned' | 'position'>>(actions: T[]): T[] =>
+  [...actions].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.position - b.position);
+
+export const featureShortcut = (userId: string, feature: QuickActionFeature, position: number): QuickActionRow => ({
+  user_id: userId,
+  type: 'feature',
+  label: feature.label,
+  feature_key: feature.key,
+  linked_resource: null,
+  position,
+  pinned: false,
+  hidden: false,
+});
+
+export const coachShortcut = (userId: string, coach: UserCoach, position: number): QuickActionRow => ({
+  user_id: userId,
+  type: 'ai_coach',
+  label: coach.coach_name,
+  feature_key: null,
+  linked_resource: coach.id,
+  position,
+  pinned: false,
+  hidden: false,
+});
+
+// Layout for someone who has never customised Quick Actions. Features tied to one of
+// their goals are pinned at the top; features tied only to other goals start hidden.
+// Without goals, everything is shown in the default order.
+export function defaultQuickActions(userId: string, goals: string[] | null): QuickActionRow[] {
+  const hasGoals = !!goals && goals.length > 0;
+  const matches = (feature: QuickActionFeature) =>
+    hasGoals && !!feature.goals?.some(goal => goals!.includes(goal));
+
+  return sortQuickActions(
+    QUICK_ACTION_FEATURES.map((feature, index) => ({
+      ...featureShortcut(userId, feature, index),
+      pinned: matches(feature),
+      hidden: hasGoals && !!feature.goals && !matches(feature),
+    }))
+  ).map((row, position) => ({ ...row, position }));
+}
+
+export async function fetchQuickActions(): Promise<QuickAction[]> {
+  const { data, error } = await supabase
+    .from('quick_actions')
+    .select('*')
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load quick actions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Loads the user's layout, creating the defaults the first time. Safe to call twice
+// at once: the unique (user_id, feature_key) constraint drops the second set.
+export async function loadQuickActions(userId: string, goals: string[] | null): Promise<QuickAction[]> {
+  const existing = await fetchQuickActions();
+  if (existing.length > 0) return existing;
+
+  const { error } = await supabase
+    .from('quick_actions')
+    .upsert(defaultQuickActions(userId, goals), { onConflict: 'user_id,feature_key', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to set up quick actions: ${error.message}`);
+  }
+
+  return fetchQuickActions();
+}
+
+// Saves an edited layout in the order given. Positions are renumbered; rows without
+// an id are new shortcuts, and saved rows missing from the list are deleted.
+export async function saveQuickActions(layout: QuickActionRow[], previous: QuickAction[]): Promise<QuickAction[]> {
+  const rows = layout.map((row, position) => ({ ...row, position }));
+  const keptIds = new Set(rows.map(row => row.id).filter(Boolean));
+  const removed = previous.filter(action => !keptIds.has(action.id)).map(action => action.id);
+
+  if (removed.length > 0) {
+    const { error } = await supabase.from('quick_actions').delete().in('id', removed);
+    if (error) {
+      throw new Error(`Failed to remove quick actions: ${error.message}`);
+    }
+  }
+
+  const existing = rows.filter(row => row.id);
+  if (existing.length > 0) {
+    const { error } = await supabase.from('quick_actions').upsert(existing);
+    if (error) {
+      throw new Error(`Failed to save quick actions: ${error.message}`);
+    }
+  }
+
+  const added = rows.filter(row => !row.id);
+  if (added.length > 0) {
+    const { error } = await supabase.from('quick_actions').insert(added);
+    if (error) {
+      throw new Error(`Failed to add quick actions: ${error.message}`);
+    }
+  }
+
+  return fetchQuickActions();
+}
@@ -0,0 +1,90 @@
+import { addDays, format } from 'date-fns';
+import { supabase, Habit, RecommendationAction, RecommendationStatus } from './supabase';
+
+export const SNOOZE_DAYS = 7;
+
+export const RECOMMENDATION_STATUS_LABELS: Record<RecommendationStatus, string> = {
+  pending: 'Not started',
+  accepted: 'Accepted',
+  completed: 'Done',
+  habit: 'Habit',
+  snoozed: 'Snoozed',
+  dismissed: 'Dismissed',
+};
+
+// A snooze that has run out puts the recommendation back in front of the user
+export function effectiveStatus(action: RecommendationAction | undefined, today = new Date()): RecommendationStatus {
+  if (!action) return 'pending';
+  if (action.status === 'snoozed' && (!action.snoozed_until || action.snoozed_until <= format(today, 'yyyy-MM-dd'))) {
+    return 'pending';
+  }
+  return action.status;
+}
+
+export async function fetchRecommendationActions(reportIds: string[]): Promise<RecommendationAction[]> {
+  if (reportIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('recommendation_actions')
+    .select('*')
+    .in('report_id', reportIds);
+
+  if (error) {
+    throw new Error(`Failed to load recommendation progress: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Upserts on (report_id, item_index): recaps add the rows when they are saved, but a
+// recap whose rows failed to save can still be acted on
+export async function updateRecommendation(
+  userId: string,
+  target: { reportId: string; index: number; recommendation: string },
+  status: RecommendationStatus,
+  extra: { habit_id?: string | null } = {}
+): Promise<RecommendationAction> {
+  const { data, error } = await supabase
+    .from('recommendation_actions')
+    .upsert({
+      user_id: userId,
+      report_id: target.reportId,
+      item_index: target.index,
+      recommendation: target.recommendation,
+      status,
+      habit_id: extra.habit_id ?? null,
+      snoozed_until: status === 'snoozed' ? format(addDays(new Date(), SNOOZE_DAYS), 'yyyy-MM-dd') : null,
+      responded_at: status === 'pending' ? null : new Date().toISOString(),
+    }, { onConflict: 'report_id,item_index' })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update recommendation: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data;
+}
+
+export async function createHabitFromRecommendation(
+  userId: string,
+  name: string,
+  frequency: 'daily' | 'weekly'
+): Promise<Habit> {
+  const { data, error } = await supabase
+    .from('habits')
+    .insert([{
+      user_id: userId,
+      name: name.trim(),
+      target_frequency: frequency,
+      times_per_week: frequency === 'weekly' ? 1 : null,
+    }])
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create habit: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,95 @@
+import { supabase, TranscriptWord, VoiceRecording } from './supabase';
+import { audioExtension } from './audio';
+
+// A clip recorded in the form and transcribed, not yet uploaded. It is only kept
+// when the user has opted in to keeping their recordings.
+export interface PendingRecording {
+  key: string;
+  blob: Blob;
+  transcript: string;
+  words: TranscriptWord[];
+  duration: number | null;
+}
+
+// Upload the clips and attach them to a saved reflection. The reflection is already
+// saved by the time this runs, so a failed clip is reported rather than undoing it.
+export async function saveRecordings(
+  userId: string,
+  reflectionId: string,
+  recordings: PendingRecording[],
+  firstPosition = 0
+): Promise<VoiceRecording[]> {
+  const saved: VoiceRecording[] = [];
+  let failed = 0;
+
+  for (const [index, recording] of recordings.entries()) {
+    // The bucket's allowed types have no codec parameters ("audio/webm;codecs=opus")
+    const mimeType = (recording.blob.type || 'audio/webm').split(';')[0];
+    const audioPath = `${userId}/recording_${Date.now()}_${index}.${audioExtension(mimeType)}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('voice-reflections')
+      .upload(audioPath, recording.blob, { contentType: mimeType, upsert: false });
+
+    if (uploadError) {
+      console.error('Error uploading recording:', uploadError);
+      failed++;
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .from('voice_recordings')
+      .insert({
+        user_id: userId,
+        reflection_id: reflectionId,
+        audio_path: audioPath,
+        mime_type: mimeType,
+        duration: recording.duration,
+        transcript: recording.transcript,
+        words: recording.words,
+        position: firstPosition + index,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Error saving recording:', error);
+      await supabase.storage.from('voice-reflections').remove([audioPath]);
+      failed++;
+      continue;
+    }
+
+    saved.push(data);
+  }
+
+  if (failed > 0) {
+    throw new Error(
+      `Your reflection was saved, but ${failed} of ${recordings.length} recording${recordings.length === 1 ? '' : 's'} could not be kept.`
+    );
+  }
+
+  return saved;
+}
+
+// Rows go with their reflection (ON DELETE CASCADE) but the audio files do not, so
+// callers remove them after deleting it. Best effort: a leftover file stays private.
+export async function removeRecordingFiles(recordings: VoiceRecording[]): Promise<void> {
+  if (recordings.length === 0) return;
+  const { error } = await supabase.storage
+    .from('voice-reflections')
+    .remove(recordings.map(recording => recording.audio_path));
+
+  if (error) {
+    console.error('Error removing recordings:', error);
+  }
+}
+
+// Index of the word being spoken at `seconds`, or -1 before the first word. Between
+// words the previous one stays highlighted so the highlight doesn't flicker.
+export function activeWordIndex(words: TranscriptWord[], seconds: number): number {
+  let active = -1;
+  for (let i = 0; i < words.length && words[i].start <= seconds; i++) {
+    active = i;
+  }
+  return active;
+}
@@ -0,0 +1,165 @@
+import { supabase, getCurrentSession, Language, Reflection, ReflectionSection, ReflectionVersion } from './supabase';
+
+export type ReflectionAnalysis = Pick<Reflection, 'sentiment' | 'emotions' | 'primary_emotion' | 'language'>;
+
+export interface ReflectionEdit {
+  content: string;
+  mood_score: number;
+  tags: string[];
+  sections?: ReflectionSection[]; // templated reflections; `content` is composed from these
+}
+
+async function callFunction<T>(name: string, body: unknown, fallbackError: string): Promise<T> {
+  const session = await getCurrentSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+// Sentiment, emotions and language for a piece of text. The language is detected
+// from the text; `languageHint` only decides entries too short to tell. Analysis
+// never blocks saving, so a failed call records the entry as neutral with no emotions.
+export async function analyzeReflection(text: string, languageHint?: Language | null): Promise<ReflectionAnalysis> {
+  try {
+    const { sentiment, emotions, primary_emotion, language } = await callFunction<ReflectionAnalysis>(
+      'analyze-sentiment',
+      { text, ...(languageHint ? { language: languageHint } : {}) },
+      'Sentiment analysis failed'
+    );
+    return {
+      sentiment,
+      emotions: emotions ?? null,
+      primary_emotion: primary_emotion ?? null,
+      language: language ?? languageHint ?? null,
+    };
+  } catch (error) {
+    console.error('Error analyzing sentiment:', error);
+    return { sentiment: 'neutral', emotions: null, primary_emotion: null, language: languageHint ?? null };
+  }
+}
+
+// Save an edit in place. The database archives the previous version and bumps
+// `version`, so this only has to write the new values. Sentiment and emotions follow
+// the text, so they are re-analysed whenever the content changes; the voice recording is only
+// replaced when asked for, because it costs a TTS call.
+export async function updateReflection(
+  reflection: Reflection,
+  edit: ReflectionEdit,
+  options: { regenerateVoice: boolean }
+): Promise<Reflection> {
+  const content = edit.content.trim();
+  const contentChanged = content !== reflection.content;
+
+  const analysis: ReflectionAnalysis = contentChanged
+    ? await analyzeReflection(content, reflection.language)
+    : {
+        sentiment: reflection.sentiment,
+        emotions: reflection.emotions,
+        primary_emotion: reflection.primary_emotion,
+        language: reflection.language,
+      };
+
+  // A new recording invalidates the old one's waveform and resume point
+  let voice: Partial<Reflection> = { voice_url: reflection.voice_url };
+  if (options.regenerateVoice) {
+    const { voice_url, duration } = await callFunction<{ voice_url: string; duration: number | null }>('generate-voice', {
+      text: content,
+      voice_id: '21m00Tcm4TlvDq8ikWAM' // Rachel's voice ID
+    }, 'Voice generation failed');
+    voice = { voice_url, voice_duration: duration, voice_peaks: null, voice_position: null };
+  }
+
+  const { data, error } = await supabase
+    .from('reflections')
+    .update({
+      content,
+      mood_score: edit.mood_score,
+      tags: edit.tags,
+      ...analysis,
+      ...voice,
+      ...(edit.sections ? { sections: edit.sections } : {})
+    })
+    .eq('id', reflection.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save reflection: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data;
+}
+
+// Earlier versions of a reflection, newest first
+export async function fetchReflectionVersions(reflectionId: string): Promise<ReflectionVersion[]> {
+  const { data, error } = await supabase
+    .from('reflection_versions')
+    .select('*')
+    .eq('reflection_id', reflectionId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load history: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff (longest common subsequence over words and the whitespace between
+// them). Journal entries are short, so the quadratic table is fine.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+}
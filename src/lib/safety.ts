@@ -0,0 +1,162 @@
+import { getCurrentSession } from './supabase';
+
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  categories: string[];
+}
+
+export interface CrisisLine {
+  name: string;
+  contact: string; // how to reach it, as shown to the user
+  href?: string; // tel:, sms: or https: link
+}
+
+export interface CrisisRegion {
+  code: string;
+  label: string;
+  emergency?: string; // emergency services number
+  lines: CrisisLine[];
+}
+
+// Kept in the app rather than fetched so the list still shows when the network or an
+// edge function is down. Check these numbers when adding or editing a region.
+export const CRISIS_REGIONS: CrisisRegion[] = [
+  {
+    code: 'US',
+    label: 'United States',
+    emergency: '911',
+    lines: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', href: 'tel:988' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', href: 'sms:741741?body=HOME' },
+    ],
+  },
+  {
+    code: 'CA',
+    label: 'Canada',
+    emergency: '911',
+    lines: [{ name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', href: 'tel:988' }],
+  },
+  {
+    code: 'GB',
+    label: 'United Kingdom',
+    emergency: '999',
+    lines: [
+      { name: 'Samaritans', contact: 'Call 116 123', href: 'tel:116123' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', href: 'sms:85258?body=SHOUT' },
+    ],
+  },
+  {
+    code: 'IE',
+    label: 'Ireland',
+    emergency: '112',
+    lines: [
+      { name: 'Samaritans', contact: 'Call 116 123', href: 'tel:116123' },
+      { name: 'Pieta', contact: 'Call 1800 247 247', href: 'tel:1800247247' },
+    ],
+  },
+  {
+    code: 'AU',
+    label: 'Australia',
+    emergency: '000',
+    lines: [{ name: 'Lifeline', contact: 'Call 13 11 14', href: 'tel:131114' }],
+  },
+  {
+    code: 'NZ',
+    label: 'New Zealand',
+    emergency: '111',
+    lines: [{ name: 'Need to talk?', contact: 'Call or text 1737', href: 'tel:1737' }],
+  },
+  {
+    code: 'ES',
+    label: 'Spain',
+    emergency: '112',
+    lines: [
+      { name: 'Línea 024 de atención a la conducta suicida', contact: 'Call 024', href: 'tel:024' },
+      { name: 'Teléfono de la Esperanza', contact: 'Call 717 003 717', href: 'tel:717003717' },
+    ],
+  },
+  {
+    code: 'MX',
+    label: 'Mexico',
+    emergency: '911',
+    lines: [{ name: 'Línea de la Vida', contact: 'Call 800 911 2000', href: 'tel:8009112000' }],
+  },
+  {
+    code: 'DE',
+    label: 'Germany',
+    emergency: '112',
+    lines: [
+      { name: 'TelefonSeelsorge', contact: 'Call 0800 111 0 111', href: 'tel:08001110111' },
+      { name: 'TelefonSeelsorge', contact: 'Call 0800 111 0 222', href: 'tel:08001110222' },
+    ],
+  },
+  {
+    code: 'AT',
+    label: 'Austria',
+    emergency: '112',
+    lines: [{ name: 'TelefonSeelsorge', contact: 'Call 142', href: 'tel:142' }],
+  },
+  {
+    code: 'CH',
+    label: 'Switzerland',
+    emergency: '144',
+    lines: [{ name: 'Die Dargebotene Hand', contact: 'Call 143', href: 'tel:143' }],
+  },
+  {
+    code: 'IL',
+    label: 'Israel',
+    emergency: '101',
+    lines: [{ name: 'ERAN emotional first aid', contact: 'Call 1201', href: 'tel:1201' }],
+  },
+  {
+    code: 'INTL',
+    label: 'Other country',
+    lines: [{ name: 'Find A Helpline', contact: 'findahelpline.com', href: 'https://findahelpline.com' }],
+  },
+];
+
+const FALLBACK_REGION = 'INTL';
+
+// Region from the browser's locale ("en-GB" -> GB); anything we have no list for
+// gets the international directory
+export function detectCrisisRegion(): string {
+  const locales = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const locale of locales) {
+    const region = locale.split('-')[1]?.toUpperCase();
+    if (region && CRISIS_REGIONS.some(r => r.code === region)) return region;
+  }
+  return FALLBACK_REGION;
+}
+
+export const getCrisisRegion = (code: string): CrisisRegion =>
+  CRISIS_REGIONS.find(region => region.code === code) ||
+  CRISIS_REGIONS.find(region => region.code === FALLBACK_REGION)!;
+
+// Screens a saved reflection and records a flag if needed. The result only ever
+// comes back to the signed-in user; nothing is shared. A failed check is treated
+// as "no flag" so saving is never blocked by it.
+export async function checkReflectionSafety(reflectionId: string): Promise<RiskAssessment> {
+  try {
+    const session = await getCurrentSession();
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/check-reflection-safety`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reflection_id: reflectionId }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || 'Safety check failed');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error checking reflection safety:', error);
+    return { level: 'none', categories: [] };
+  }
+}
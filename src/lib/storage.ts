@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+
+// Both buckets are private. Rows keep the object path (`<user_id>/<file>`) and the
+// app asks for a signed URL whenever it needs to show or play the file.
+export type StorageBucket = 'body-analysis' | 'voice-reflections';
+
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Paths that the storage migration could not rewrite (e.g. files hosted elsewhere)
+// are already full URLs and are used as they are.
+const isAbsoluteUrl = (value: string) => /^https?:\/\//i.test(value);
+
+export async function getSignedUrl(bucket: StorageBucket, path: string): Promise<string> {
+  if (isAbsoluteUrl(path)) return path;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Failed to load file: ${error?.message ?? 'no signed URL returned'}`);
+  }
+
+  return data.signedUrl;
+}
+
+// Sign many paths in one request. Paths that fail to sign are left out of the result.
+export async function getSignedUrls(bucket: StorageBucket, paths: string[]): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {};
+  const toSign = Array.from(new Set(paths.filter(path => path && !isAbsoluteUrl(path))));
+
+  paths.filter(isAbsoluteUrl).forEach(url => {
+    urls[url] = url;
+  });
+
+  if (toSign.length === 0) return urls;
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(toSign, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    throw new Error(`Failed to load files: ${error.message}`);
+  }
+
+  (data || []).forEach(entry => {
+    if (entry.path && entry.signedUrl && !entry.error) {
+      urls[entry.path] = entry.signedUrl;
+    }
+  });
+
+  return urls;
+}
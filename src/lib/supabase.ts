@@ -50,6 +50,9 @@ export interface UserProfile {
   id: string;
   full_name: string | null;
   goals: string[] | null;
+  preferred_language: Language; // recaps, video scripts and transcription use this
+  keep_voice_recordings: boolean; // store the user's own audio alongside the transcript
+  tts_enabled: boolean; // create an AI voice reading when a reflection is saved
   onboarding_completed: boolean;
   created_at: string;
 }
@@ -59,18 +62,134 @@ export interface Reflection {
   user_id: string;
   content: string;
   sentiment: 'positive' | 'neutral' | 'negative' | null;
+  emotions: EmotionScores | null; // null for reflections saved before emotions were tracked
+  primary_emotion: Emotion | null;
+  language: Language | null; // detected when saved
   mood_score: number | null;
-  voice_url: string | null;
+  voice_url: string | null; // object path in the private voice-reflections bucket
+  voice_duration: number | null; // seconds, measured from the audio
+  voice_peaks: number[] | null; // waveform preview, levels 0-1
+  voice_position: number | null; // seconds; where playback was last paused
+  tags: string[];
+  template_id: string | null; // built-in template slug or journal_templates id
+  sections: ReflectionSection[] | null; // answers when written from a template
+  version: number;
+  created_at: string;
+  updated_at: string | null; // set once the reflection has been edited
+  recordings?: VoiceRecording[]; // only present when the query embeds voice_recordings
+}
+
+// Seconds from the start of the recording
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// The user's own voice, kept when they opt in (`keep_voice_recordings`)
+export interface VoiceRecording {
+  id: string;
+  user_id: string;
+  reflection_id: string;
+  audio_path: string; // object path in the private voice-reflections bucket
+  mime_type: string;
+  duration: number | null;
+  transcript: string; // as transcribed, before any editing of the reflection
+  words: TranscriptWord[];
+  position: number;
   created_at: string;
 }
 
+export type Language = 'en' | 'es' | 'de' | 'he';
+
+export type Emotion = 'joy' | 'sadness' | 'anger' | 'fear' | 'surprise' | 'calm';
+
+// Intensity from 0 to 1 per emotion
+export type EmotionScores = Record<Emotion, number>;
+
+// One answered field of a templated reflection. `content` holds the same answers
+// joined as plain text.
+export interface ReflectionSection {
+  key: string;
+  label: string;
+  prompt: string | null;
+  answer: string;
+}
+
+export interface TemplateSection {
+  key: string;
+  label: string;
+  prompt?: string;
+  placeholder?: string;
+}
+
+// A journaling template written by the user
+export interface JournalTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  sections: TemplateSection[];
+  created_at: string;
+}
+
+// An earlier version of a reflection, archived when it was edited
+export interface ReflectionVersion {
+  id: string;
+  reflection_id: string;
+  user_id: string;
+  version: number;
+  content: string;
+  mood_score: number | null;
+  sentiment: 'positive' | 'neutral' | 'negative' | null;
+  emotions: EmotionScores | null;
+  primary_emotion: Emotion | null;
+  language: Language | null;
+  tags: string[];
+  sections: ReflectionSection[] | null;
+  voice_url: string | null;
+  written_at: string;
+  archived_at: string;
+}
+
+// Row from the `reflection_tag_stats` RPC
+export interface TagStat {
+  tag: string;
+  reflection_count: number;
+  avg_mood: number | null;
+  last_used_at: string;
+}
+
+// Row from the `search_reflections` RPC. Matched words in `snippet` are wrapped in
+// SEARCH_MATCH_START / SEARCH_MATCH_END rather than HTML.
+export interface ReflectionSearchResult extends Reflection {
+  rank: number;
+  snippet: string;
+}
+
+export const SEARCH_MATCH_START = '\uE000';
+export const SEARCH_MATCH_END = '\uE001';
+
+// Result of the find-similar-reflections edge function
+export interface SimilarReflection extends Pick<Reflection, 'id' | 'content' | 'sentiment' | 'mood_score' | 'created_at'> {
+  similarity: number;
+}
+
+export type HabitFrequency = 'daily' | 'weekly' | 'weekdays' | 'interval';
+
 export interface Habit {
   id: string;
   user_id: string;
   name: string;
   description: string | null;
-  target_frequency: 'daily' | 'weekly';
+  target_frequency: HabitFrequency;
+  times_per_week: number | null; // 'weekly': completions needed per week
+  weekdays: number[] | null; // 'weekdays': 0 = Sunday ... 6 = Saturday
+  interval_days: number | null; // 'interval': every N days from created_at
+  target_value: number | null; // set for quantitative habits, e.g. 8 (glasses)
+  unit: string | null;
   color: string;
+  goal_id: string | null;
   created_at: string;
 }
 
@@ -82,6 +201,16 @@ export interface HabitCompletion {
   created_at: string;
 }
 
+// One increment towards a quantitative habit's daily target
+export interface HabitLog {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  logged_on: string;
+  amount: number;
+  created_at: string;
+}
+
 export interface WeeklyRecap {
   id: string;
   user_id: string;
@@ -109,11 +238,38 @@ export interface InsightReport {
   summary: string;
   motivation: string;
   recommendations: string[];
+  source_versions: { reflection_id: string; version: number }[];
+  safety_mode: boolean; // written with the safety-first prompt
+  follow_up: RecommendationFollowUp[] | null; // the previous recap's recommendations, as of this one
+}
+
+export type RecommendationStatus = 'pending' | 'accepted' | 'completed' | 'habit' | 'snoozed' | 'dismissed';
+
+// What the user did with one recommendation from a recap
+export interface RecommendationAction {
+  id: string;
+  user_id: string;
+  report_id: string;
+  item_index: number; // position in the report's recommendations
+  recommendation: string;
+  status: RecommendationStatus;
+  habit_id: string | null;
+  snoozed_until: string | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+export interface RecommendationFollowUp {
+  recommendation: string;
+  status: RecommendationStatus;
+  habit_name?: string;
+  habit_completions?: number;
 }
 
 export interface BodyFeedback {
   id: string;
   user_id: string;
+  // Object paths in the private body-analysis bucket; see lib/storage for signed URLs
   front_image_url: string;
   back_image_url: string;
   height: string | null;
@@ -125,4 +281,172 @@ export interface BodyFeedback {
   nutrition_advice: string;
   motivational_message: string;
   created_at: string;
-}
\ No newline at end of file
+  habit_id: string | null;
+  goal_id: string | null;
+  body_coach_report?: Pick<BodyCoachReport, 'analysis'> | null;
+  workout_sessions?: Pick<WorkoutSession, 'completed'>[];
+}
+
+export interface BodyCoachExercise {
+  name: string;
+  sets: number;
+  reps: string;
+  rest: string;
+  notes?: string;
+}
+
+export interface BodyCoachWorkoutDay {
+  day: string;
+  focus: string;
+  exercises: BodyCoachExercise[];
+  notes?: string;
+}
+
+export interface BodyCoachMeal {
+  name: string;
+  foods: Array<{
+    name: string;
+    portion: string;
+  }>;
+}
+
+export interface BodyCoachAnalysis {
+  strengths: string;
+  weaknesses: string;
+  workout: {
+    overview: string;
+    days: BodyCoachWorkoutDay[];
+    tips: string[];
+  };
+  nutrition: {
+    overview: string;
+    meals: BodyCoachMeal[];
+    hydration?: string;
+    tips: string[];
+  };
+  motivational_message: string;
+}
+
+export interface BodyCoachReport {
+  id: string;
+  user_id: string;
+  body_feedback_id: string | null;
+  input_data: Record<string, unknown>;
+  analysis: BodyCoachAnalysis;
+  note: string | null;
+  created_at: string;
+}
+export type MeasurementMetric = 'weight' | 'height' | 'waist' | 'hips' | 'chest' | 'arm' | 'thigh' | 'body_fat';
+
+export type MeasurementUnit = 'kg' | 'lbs' | 'cm' | 'in' | 'ft' | '%';
+
+export interface BodyMeasurement {
+  id: string;
+  user_id: string;
+  metric: MeasurementMetric;
+  value: number;
+  unit: MeasurementUnit;
+  measured_on: string;
+  body_feedback_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface WorkoutSetLog {
+  reps: number | null;
+  load: number | null;
+  unit: 'kg' | 'lbs';
+}
+
+export interface WorkoutExerciseLog {
+  name: string;
+  sets: WorkoutSetLog[];
+}
+
+export interface WorkoutSession {
+  id: string;
+  user_id: string;
+  body_feedback_id: string;
+  day_index: number;
+  day_label: string;
+  performed_on: string;
+  exercises: WorkoutExerciseLog[];
+  notes: string | null;
+  completed: boolean;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// A coach the user set up, from a template or from scratch. One per category.
+export interface UserCoach {
+  id: string;
+  user_id: string;
+  coach_name: string;
+  description: string;
+  system_prompt: string;
+  initial_message: string;
+  category: string;
+  template_id: string | null;
+  created_at: string;
+}
+
+export interface CoachMessage {
+  id: string;
+  user_id: string;
+  coach_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+// An entry in the dashboard's Quick Actions: a built-in feature or a shortcut to a coach
+export interface QuickAction {
+  id: string;
+  user_id: string;
+  type: 'feature' | 'ai_coach';
+  label: string;
+  feature_key: string | null; // for type 'feature'
+  linked_resource: string | null; // coach id for type 'ai_coach'
+  position: number;
+  pinned: boolean;
+  hidden: boolean;
+  created_at: string;
+}
+
+export type MemoryKind = 'theme' | 'commitment' | 'recommendation';
+
+// Something recaps and coaches remember about the user between conversations
+export interface UserMemory {
+  id: string;
+  user_id: string;
+  kind: MemoryKind;
+  content: string;
+  source_report_id: string | null;
+  created_at: string;
+}
+
+export type GoalStatus = 'active' | 'completed' | 'archived';
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  category: string | null; // onboarding focus id, e.g. 'fitness'
+  target_date: string | null; // yyyy-MM-dd
+  status: GoalStatus;
+  completed_at: string | null;
+  created_at: string;
+  goal_milestones?: GoalMilestone[];
+}
+
+export interface GoalMilestone {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  title: string;
+  target_date: string | null;
+  position: number;
+  completed_at: string | null;
+  created_at: string;
+}
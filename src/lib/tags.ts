@@ -0,0 +1,28 @@
+import { supabase, TagStat } from './supabase';
+
+// Mirrors the CHECK constraint on reflections.tags
+export const MAX_TAGS_PER_REFLECTION = 10;
+
+export const MAX_TAG_LENGTH = 30;
+
+// Tags are stored lower-case with single spaces, so "Work", " work " and "#work"
+// all end up as the same tag.
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Every tag the signed-in user has used, most used first
+export async function fetchTagStats(): Promise<TagStat[]> {
+  const { data, error } = await supabase.rpc('reflection_tag_stats');
+
+  if (error) {
+    throw new Error(`Failed to load tags: ${error.message}`);
+  }
+
+  return ((data || []) as TagStat[]).sort((a, b) => b.reflection_count - a.reflection_count);
+}
@@ -0,0 +1,35 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { BodyCoachExercise, WorkoutSession, WorkoutSetLog } from './supabase';
+
+export interface WorkoutAdherence {
+  completed: number;
+  expected: number;
+  percent: number;
+}
+
+// A plan asks for one session per workout day each week, counted from the day it was
+// created. The current week counts in full so a fresh plan starts at 0%, not 100%.
+export function calculateAdherence(
+  planCreatedAt: string,
+  daysPerWeek: number,
+  sessions: Pick<WorkoutSession, 'completed'>[]
+): WorkoutAdherence {
+  const weeks = Math.max(1, Math.ceil((differenceInCalendarDays(new Date(), new Date(planCreatedAt)) + 1) / 7));
+  const expected = Math.max(1, daysPerWeek) * weeks;
+  const completed = sessions.filter(session => session.completed).length;
+
+  return {
+    completed,
+    expected,
+    percent: Math.min(100, Math.round((completed / expected) * 100)),
+  };
+}
+
+// Pre-fill a set from the plan: "8-12" or "10 per leg" start at the lower count,
+// timed holds like "30s" are left for the user to fill in.
+export function plannedSets(exercise: BodyCoachExercise, unit: WorkoutSetLog['unit']): WorkoutSetLog[] {
+  const match = exercise.reps.match(/^(\d+)(?:\s*-\s*\d+)?(?:\s*(?:reps?|per\s+\w+))?$/i);
+  const reps = match ? parseInt(match[1], 10) : null;
+
+  return Array.from({ length: exercise.sets }, () => ({ reps, load: null, unit }));
+}
@@ -0,0 +1,77 @@
+// Exact duration of an MP3 by walking its frame headers. TTS output is constant
+// bitrate today, but counting frames instead of dividing file size by bitrate
+// stays right if that changes, and needs no decoder in the edge runtime.
+
+// Bitrates in kbps by bitrate index, for Layer III only (what TTS returns)
+const MPEG1_L3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MPEG2_L3_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+// Sample rates by version bits (00 = MPEG 2.5, 10 = MPEG 2, 11 = MPEG 1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+}
+
+interface FrameHeader {
+  length: number;
+  samples: number;
+  sampleRate: number;
+}
+
+function readFrameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length) return null
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null
+
+  const version = (bytes[offset + 1] >> 3) & 0x03
+  const layer = (bytes[offset + 1] >> 1) & 0x03
+  const bitrateIndex = bytes[offset + 2] >> 4
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03
+  const padding = (bytes[offset + 2] >> 1) & 0x01
+
+  // Reserved version, anything but Layer III, free/bad bitrate, reserved sample rate
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMpeg1 = version === 3
+  const bitrate = (isMpeg1 ? MPEG1_L3_BITRATES : MPEG2_L3_BITRATES)[bitrateIndex] * 1000
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+  const samples = isMpeg1 ? 1152 : 576
+
+  return {
+    length: Math.floor((samples / 8) * bitrate / sampleRate) + padding,
+    samples,
+    sampleRate,
+  }
+}
+
+// Size of a leading ID3v2 tag, which is not audio and must be skipped
+function id3Size(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]
+  const hasFooter = (bytes[5] & 0x10) !== 0
+  return 10 + size + (hasFooter ? 10 : 0)
+}
+
+// Seconds of audio, or null when no MPEG frames were found
+export function mp3Duration(buffer: ArrayBuffer): number | null {
+  const bytes = new Uint8Array(buffer)
+  let offset = id3Size(bytes)
+  let seconds = 0
+  let frames = 0
+
+  while (offset < bytes.length) {
+    const header = readFrameHeader(bytes, offset)
+    if (!header) {
+      // Not a frame boundary (trailing tag or junk): scan forward for the next sync word
+      offset++
+      continue
+    }
+    seconds += header.samples / header.sampleRate
+    frames++
+    offset += header.length
+  }
+
+  return frames > 0 ? Math.round(seconds * 100) / 100 : null
+}
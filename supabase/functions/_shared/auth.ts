@@ -0,0 +1,53 @@
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ForbiddenError, UnauthorizedError, requireEnv } from './errors.ts'
+
+export interface AuthContext {
+  user: User;
+  authHeader: string;
+  // Client bound to the caller's JWT, so every query respects RLS
+  supabase: SupabaseClient;
+}
+
+// Resolve the caller from the verified JWT in the Authorization header.
+// Never trust a user id sent in the request body - use `user.id` from here instead.
+export async function requireUser(req: Request): Promise<AuthContext> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    throw new UnauthorizedError('Missing Authorization header.')
+  }
+
+  const supabase = createClient(
+    requireEnv('SUPABASE_URL'),
+    requireEnv('SUPABASE_ANON_KEY'),
+    {
+      global: {
+        headers: { Authorization: authHeader }
+      }
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    console.error('Authentication error:', error)
+    throw new UnauthorizedError()
+  }
+
+  return { user, authHeader, supabase }
+}
+
+// Reject a request whose body names a different user than the verified caller.
+// An omitted `user_id` is fine - the caller's own id is used.
+export function assertOwnUserId(user: User, requestedUserId: unknown): string {
+  if (requestedUserId !== undefined && requestedUserId !== null && requestedUserId !== user.id) {
+    throw new ForbiddenError()
+  }
+
+  return user.id
+}
+
+// Service-role client for writes that RLS does not allow from the user client.
+// Only ever filter it by an id that came from `requireUser`.
+export function createAdminClient(): SupabaseClient {
+  return createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'))
+}
@@ -0,0 +1,352 @@
+// Emotion model shared by analyze-sentiment and the recaps: six wheel-style emotions,
+// each with an intensity between 0 and 1. Sentiment (positive/neutral/negative) is
+// derived from them so older clients that only read `sentiment` keep working.
+
+import { Language } from './language.ts'
+
+export const EMOTIONS = ['joy', 'sadness', 'anger', 'fear', 'surprise', 'calm'] as const
+
+export type Emotion = typeof EMOTIONS[number]
+export type EmotionScores = Record<Emotion, number>
+export type Sentiment = 'positive' | 'neutral' | 'negative'
+
+export interface EmotionAnalysis {
+  emotions: EmotionScores;
+  primary_emotion: Emotion | null; // null when nothing clears MIN_PRIMARY_INTENSITY
+  sentiment: Sentiment;
+  confidence: number;
+}
+
+const MIN_PRIMARY_INTENSITY = 0.15
+
+// Word lists per language, written in their base form. Accents and niqqud are
+// stripped on both sides before matching, and `candidates` below covers the common
+// inflections, so "contenta" finds "contento" and "glücklicher" finds "glücklich".
+const LEXICONS: Record<Language, Record<Emotion, string[]>> = {
+  en: {
+    joy: [
+      'happy', 'happier', 'happiest', 'happiness', 'joy', 'joyful', 'love', 'loved', 'loving', 'amazing',
+      'wonderful', 'great', 'excellent', 'fantastic', 'good', 'awesome', 'brilliant', 'perfect', 'beautiful',
+      'success', 'successful', 'achievement', 'grateful', 'thankful', 'blessed', 'excited', 'exciting',
+      'motivated', 'confident', 'proud', 'delighted', 'thrilled', 'optimistic', 'glad', 'cheerful', 'fun',
+      'enjoyed', 'enjoy', 'laughed', 'laugh', 'smile', 'smiled', 'hopeful', 'inspired', 'win', 'won',
+    ],
+    sadness: [
+      'sad', 'sadness', 'unhappy', 'depressed', 'depressing', 'lonely', 'alone', 'hopeless', 'miserable',
+      'cry', 'cried', 'crying', 'tears', 'grief', 'grieving', 'lost', 'loss', 'disappointed', 'disappointing',
+      'hurt', 'heartbroken', 'down', 'empty', 'tired', 'exhausted', 'drained', 'gloomy', 'regret', 'sorry',
+      'miss', 'missed', 'missing', 'awful', 'terrible', 'bad', 'horrible', 'pain', 'painful',
+    ],
+    anger: [
+      'angry', 'anger', 'mad', 'furious', 'rage', 'hate', 'hated', 'annoyed', 'annoying', 'irritated',
+      'irritating', 'frustrated', 'frustrating', 'frustration', 'resent', 'resentful', 'pissed', 'outraged',
+      'bitter', 'unfair', 'fed', 'livid', 'upset',
+    ],
+    fear: [
+      'afraid', 'scared', 'fear', 'fearful', 'anxious', 'anxiety', 'worried', 'worry', 'worrying', 'nervous',
+      'panic', 'panicked', 'stressed', 'stress', 'stressful', 'overwhelmed', 'overwhelming', 'terrified',
+      'dread', 'uneasy', 'insecure', 'tense', 'uncertain', 'unsure', 'confused',
+    ],
+    surprise: [
+      'surprised', 'surprise', 'surprising', 'shocked', 'shock', 'unexpected', 'unexpectedly', 'amazed',
+      'astonished', 'suddenly', 'wow', 'whoa', 'stunned', 'speechless',
+    ],
+    calm: [
+      'calm', 'peaceful', 'peace', 'relaxed', 'relaxing', 'content', 'satisfied', 'rested', 'serene',
+      'balanced', 'grounded', 'centered', 'safe', 'comfortable', 'relieved', 'relief', 'settled', 'quiet',
+      'gentle', 'steady', 'mindful', 'meditated', 'breathe', 'breathing',
+    ],
+  },
+  es: {
+    joy: [
+      'feliz', 'felices', 'alegre', 'alegría', 'contento', 'encantado', 'genial', 'maravilloso', 'bueno',
+      'buen', 'excelente', 'fantástico', 'increíble', 'orgulloso', 'agradecido', 'emocionado', 'amor', 'amo',
+      'encanta', 'disfruté', 'disfrutar', 'divertido', 'esperanza', 'éxito', 'logré', 'motivado', 'ilusión',
+      'risa', 'reír', 'gracias',
+    ],
+    sadness: [
+      'triste', 'tristeza', 'sola', 'soledad', 'deprimido', 'infeliz', 'llorar', 'lloré', 'llorando',
+      'lágrimas', 'decepcionado', 'dolido', 'dolor', 'cansado', 'agotado', 'mal', 'terrible', 'horrible',
+      'vacío', 'perdido', 'desanimado', 'extrañar', 'pena',
+    ],
+    anger: [
+      'enojado', 'enfadado', 'furioso', 'rabia', 'ira', 'odio', 'odiar', 'molesto', 'irritado', 'frustrado',
+      'frustración', 'harto', 'injusto', 'indignado',
+    ],
+    fear: [
+      'miedo', 'asustado', 'ansioso', 'ansiedad', 'preocupado', 'preocupación', 'nervioso', 'pánico',
+      'estresado', 'estrés', 'agobiado', 'abrumado', 'inseguro', 'temor', 'confundido', 'tenso',
+    ],
+    surprise: [
+      'sorprendido', 'sorpresa', 'sorprendente', 'asombrado', 'impactado', 'inesperado', 'repentinamente',
+      'guau', 'wow',
+    ],
+    calm: [
+      'tranquilo', 'tranquilidad', 'calma', 'paz', 'relajado', 'sereno', 'satisfecho', 'descansado',
+      'aliviado', 'alivio', 'cómodo', 'respirar', 'medité', 'meditación', 'equilibrado',
+    ],
+  },
+  de: {
+    joy: [
+      'glücklich', 'froh', 'freude', 'freue', 'gefreut', 'toll', 'wunderbar', 'großartig', 'schön', 'gut',
+      'prima', 'dankbar', 'stolz', 'begeistert', 'liebe', 'lieben', 'spaß', 'erfolg', 'erfolgreich',
+      'genossen', 'lachen', 'gelacht', 'hoffnungsvoll', 'motiviert', 'super', 'fantastisch',
+    ],
+    sadness: [
+      'traurig', 'trauer', 'einsam', 'allein', 'deprimiert', 'unglücklich', 'weinen', 'geweint', 'tränen',
+      'enttäuscht', 'verletzt', 'müde', 'erschöpft', 'schlecht', 'schrecklich', 'furchtbar', 'vermisse',
+      'vermissen', 'leer', 'schmerz', 'niedergeschlagen',
+    ],
+    anger: [
+      'wütend', 'wut', 'sauer', 'ärger', 'ärgerlich', 'verärgert', 'genervt', 'nervig', 'frustriert',
+      'hasse', 'hassen', 'zornig', 'unfair', 'gereizt',
+    ],
+    fear: [
+      'angst', 'ängstlich', 'besorgt', 'sorge', 'sorgen', 'nervös', 'panik', 'gestresst', 'stress',
+      'überfordert', 'unsicher', 'befürchte', 'fürchte', 'verwirrt', 'angespannt',
+    ],
+    surprise: [
+      'überrascht', 'überraschung', 'überraschend', 'schockiert', 'plötzlich', 'unerwartet', 'wow', 'erstaunt',
+    ],
+    calm: [
+      'ruhig', 'ruhe', 'entspannt', 'gelassen', 'friedlich', 'zufrieden', 'ausgeglichen', 'erleichtert',
+      'erleichterung', 'geborgen', 'atmen', 'meditiert', 'meditation',
+    ],
+  },
+  he: {
+    joy: [
+      'שמח', 'שמחה', 'שמחים', 'מאושר', 'מאושרת', 'אושר', 'אוהב', 'אוהבת', 'אהבה', 'נהדר', 'מעולה', 'טוב',
+      'טובה', 'מצוין', 'מדהים', 'נפלא', 'גאה', 'מודה', 'תודה', 'הצלחה', 'הצלחתי', 'נהניתי', 'כיף',
+      'מתרגש', 'מתרגשת', 'תקווה',
+    ],
+    sadness: [
+      'עצוב', 'עצובה', 'עצב', 'בודד', 'בודדה', 'בדידות', 'בכיתי', 'בוכה', 'דמעות', 'מדוכא', 'מדוכאת',
+      'מאוכזב', 'מאוכזבת', 'אכזבה', 'עייף', 'עייפה', 'מותש', 'מותשת', 'כואב', 'כאב', 'רע', 'נורא',
+      'מתגעגע', 'מתגעגעת', 'געגועים',
+    ],
+    anger: [
+      'כועס', 'כועסת', 'כעס', 'עצבני', 'עצבנית', 'מתוסכל', 'מתוסכלת', 'תסכול', 'שונא', 'שונאת', 'זועם',
+      'מעצבן',
+    ],
+    fear: [
+      'מפחד', 'מפחדת', 'פחד', 'חרד', 'חרדה', 'לחוץ', 'לחוצה', 'לחץ', 'דואג', 'דואגת', 'דאגה', 'מודאג',
+      'מודאגת', 'מבולבל', 'מבולבלת',
+    ],
+    surprise: [
+      'מופתע', 'מופתעת', 'הפתעה', 'הלם', 'פתאום', 'וואו',
+    ],
+    calm: [
+      'רגוע', 'רגועה', 'שלו', 'שלווה', 'שקט', 'שקטה', 'נינוח', 'מרוצה', 'מרוצים', 'הקלה', 'נשימה', 'מדיטציה',
+    ],
+  },
+}
+
+const EMOJI: Record<string, Emotion> = {
+  '😀': 'joy', '😃': 'joy', '😄': 'joy', '😁': 'joy', '😊': 'joy', '🙂': 'joy', '😍': 'joy', '🥰': 'joy',
+  '🥳': 'joy', '🤩': 'joy', '❤': 'joy', '💪': 'joy', '🎉': 'joy', '😂': 'joy',
+  '😢': 'sadness', '😭': 'sadness', '😞': 'sadness', '😔': 'sadness', '☹': 'sadness', '🙁': 'sadness', '💔': 'sadness',
+  '😠': 'anger', '😡': 'anger', '🤬': 'anger', '😤': 'anger',
+  '😨': 'fear', '😰': 'fear', '😱': 'fear', '😟': 'fear', '😬': 'fear',
+  '😮': 'surprise', '😲': 'surprise', '🤯': 'surprise', '😯': 'surprise',
+  '😌': 'calm', '🧘': 'calm', '🙏': 'calm', '☺': 'calm',
+}
+
+const NEGATORS: Record<Language, string[]> = {
+  en: [
+    'not', 'no', 'never', 'nothing', 'hardly', 'barely', 'without', 'neither', 'nor', 'cannot', 'cant',
+    'dont', 'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'wont', 'wouldnt', 'couldnt', 'shouldnt', 'havent',
+    'hasnt', 'doesnt', 'aint',
+  ],
+  es: ['no', 'nunca', 'nada', 'ni', 'tampoco', 'jamás', 'sin', 'apenas'],
+  de: ['nicht', 'kein', 'keine', 'keinen', 'keiner', 'keinem', 'nie', 'niemals', 'ohne', 'nichts', 'kaum'],
+  he: ['לא', 'אין', 'בלי', 'אף', 'מעולם', 'איני', 'אינני', 'אינה', 'אינו'],
+}
+
+const INTENSIFIERS: Record<Language, Record<string, number>> = {
+  en: {
+    very: 1.5, really: 1.5, so: 1.4, extremely: 1.8, incredibly: 1.7, totally: 1.5, super: 1.5,
+    truly: 1.4, deeply: 1.6, quite: 1.2, absolutely: 1.7, completely: 1.6, too: 1.3,
+    slightly: 0.5, somewhat: 0.6, kinda: 0.7, kind: 0.7, bit: 0.6, little: 0.7, mildly: 0.5,
+  },
+  es: {
+    muy: 1.5, tan: 1.4, realmente: 1.5, totalmente: 1.5, súper: 1.5, bastante: 1.2, demasiado: 1.3,
+    extremadamente: 1.8, increíblemente: 1.7, profundamente: 1.6, poco: 0.6, algo: 0.6, ligeramente: 0.5,
+  },
+  de: {
+    sehr: 1.5, so: 1.4, wirklich: 1.5, total: 1.5, extrem: 1.8, ziemlich: 1.2, richtig: 1.4, echt: 1.4,
+    unglaublich: 1.7, etwas: 0.6, bisschen: 0.6, leicht: 0.5,
+  },
+  he: {
+    'מאוד': 1.5, 'ממש': 1.5, 'לגמרי': 1.5, 'יותר': 1.2, 'די': 1.2, 'קצת': 0.6,
+  },
+}
+
+// How far (in words) a negator reaches: "not feeling very happy" is still negated
+const NEGATION_SCOPE = 3
+
+// What a negated emotion word turns into, and how strongly. "Not happy" reads as
+// mildly sad, "not worried" as mildly calm; "not surprised" carries nothing.
+const NEGATED: Record<Emotion, { emotion: Emotion; factor: number } | null> = {
+  joy: { emotion: 'sadness', factor: 0.5 },
+  calm: { emotion: 'fear', factor: 0.5 },
+  sadness: { emotion: 'calm', factor: 0.3 },
+  anger: { emotion: 'calm', factor: 0.3 },
+  fear: { emotion: 'calm', factor: 0.3 },
+  surprise: null,
+}
+
+// Lowercase and drop diacritics, apostrophes (straight or curly) and niqqud so "alegría",
+// "alegria", "don't" and "don’t" match
+const normalize = (word: string) =>
+  word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[’']/g, '')
+
+// Forms to try for a word, exact first: cheap suffix strips for the Latin-script
+// languages and the one-letter prefixes Hebrew attaches (ו "and", ה "the", ב "in"...)
+const candidates: Record<Language, (word: string) => string[]> = {
+  en: word => [word, word.replace(/(ing|ed|ly|s)$/, ''), word.replace(/ies$/, 'y')],
+  es: word => [word, word.replace(/(as|os)$/, 'o'), word.replace(/a$/, 'o'), word.replace(/e?s$/, ''), word.replace(/mente$/, '')],
+  de: word => [word, word.replace(/(en|er|es|em|e|n|s)$/, '')],
+  he: word => [word, word.replace(/^[ובהלמשכ]/, ''), word.replace(/^(וה|שה|וב|ול|ומ|וש|כש|מה|לה|בה)/, '')],
+}
+
+interface LanguageModel {
+  words: Map<string, Emotion>;
+  negators: Set<string>;
+  intensifiers: Map<string, number>;
+}
+
+const MODELS = Object.fromEntries(
+  (Object.keys(LEXICONS) as Language[]).map(language => {
+    const words = new Map<string, Emotion>()
+    for (const emotion of EMOTIONS) {
+      for (const word of LEXICONS[language][emotion]) words.set(normalize(word), emotion)
+    }
+    const model: LanguageModel = {
+      words,
+      negators: new Set(NEGATORS[language].map(normalize)),
+      intensifiers: new Map(Object.entries(INTENSIFIERS[language]).map(([word, factor]) => [normalize(word), factor])),
+    }
+    return [language, model]
+  })
+) as Record<Language, LanguageModel>
+
+function lookup(language: Language, word: string): Emotion | undefined {
+  const { words } = MODELS[language]
+  for (const form of candidates[language](word)) {
+    const emotion = words.get(form)
+    if (emotion) return emotion
+  }
+  return undefined
+}
+
+const emptyScores = (): EmotionScores => ({ joy: 0, sadness: 0, anger: 0, fear: 0, surprise: 0, calm: 0 })
+
+// Map an unbounded evidence total onto 0..1; one plain emotion word lands around 0.5
+const saturate = (raw: number) => Math.round((1 - Math.exp(-raw / 1.4)) * 100) / 100
+
+// Local, dependency-free classifier. Word-list based, so it misses sarcasm and
+// anything it has no word for, but it handles the common journaling patterns:
+// negation ("not happy"), intensifiers ("really stressed"), emoji and emphasis.
+export function classifyEmotions(text: string, language: Language = 'en'): EmotionAnalysis {
+  const { negators, intensifiers } = MODELS[language]
+  const raw = emptyScores()
+
+  for (const char of text.replace(/\uFE0F/g, '')) {
+    const emotion = EMOJI[char]
+    if (emotion) raw[emotion] += 1
+  }
+
+  // Sentences are scored separately so "!" only boosts the sentence it ends
+  const sentences = text.split(/(?<=[.!?\n])\s*/)
+  for (const sentence of sentences) {
+    const exclamations = (sentence.match(/!/g) || []).length
+    const emphasis = Math.min(1 + exclamations * 0.15, 1.45)
+    const tokens = sentence.match(/[\p{L}\p{M}’']+|[,;:]/gu) || []
+
+    let negatedFor = 0
+    let multiplier = 1
+
+    for (const token of tokens) {
+      if (/^[,;:]$/.test(token)) {
+        negatedFor = 0
+        multiplier = 1
+        continue
+      }
+
+      const word = normalize(token)
+      if (negators.has(word) || (language === 'en' && /n[’']t$/i.test(token))) {
+        negatedFor = NEGATION_SCOPE
+        continue
+      }
+      const intensifier = intensifiers.get(word)
+      if (intensifier) {
+        multiplier *= intensifier
+        continue
+      }
+
+      const emotion = lookup(language, word)
+      if (emotion) {
+        // Hebrew has no case, so "all caps" only counts for scripts that do
+        const shouting = token.length > 2 && token === token.toUpperCase() && token !== token.toLowerCase() ? 1.3 : 1
+        const weight = multiplier * shouting * emphasis
+        if (negatedFor > 0) {
+          const flipped = NEGATED[emotion]
+          if (flipped) raw[flipped.emotion] += weight * flipped.factor
+        } else {
+          raw[emotion] += weight
+        }
+      }
+      // Intensifiers only reach the word right after them
+      multiplier = 1
+
+      if (negatedFor > 0) negatedFor--
+    }
+  }
+
+  const emotions = emptyScores()
+  for (const emotion of EMOTIONS) emotions[emotion] = saturate(raw[emotion])
+
+  return summarizeEmotions(emotions)
+}
+
+// Primary emotion and sentiment from a set of intensities, whichever model produced them
+export function summarizeEmotions(emotions: EmotionScores): EmotionAnalysis {
+  const [primary, intensity] = EMOTIONS
+    .map(emotion => [emotion, emotions[emotion]] as const)
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+
+  const positive = emotions.joy + emotions.calm + emotions.surprise * 0.3
+  const negative = emotions.sadness + emotions.anger + emotions.fear
+  const total = positive + negative
+
+  let sentiment: Sentiment = 'neutral'
+  if (total >= 0.1) {
+    const ratio = positive / total
+    if (ratio > 0.6) sentiment = 'positive'
+    else if (ratio < 0.4) sentiment = 'negative'
+  }
+
+  const confidence = total === 0
+    ? 0.5
+    : Math.round(Math.min(1, (Math.abs(positive - negative) / total) * 0.5 + Math.min(total, 1) * 0.5) * 100) / 100
+
+  return {
+    emotions,
+    primary_emotion: intensity >= MIN_PRIMARY_INTENSITY ? primary : null,
+    sentiment,
+    confidence,
+  }
+}
+
+// Strongest emotions across many analyses, by summed intensity
+export function topEmotions(analyses: EmotionScores[], limit = 3): Emotion[] {
+  const totals = emptyScores()
+  for (const scores of analyses) {
+    for (const emotion of EMOTIONS) totals[emotion] += scores[emotion] ?? 0
+  }
+
+  return EMOTIONS
+    .filter(emotion => totals[emotion] >= MIN_PRIMARY_INTENSITY)
+    .sort((a, b) => totals[b] - totals[a])
+    .slice(0, limit)
+}
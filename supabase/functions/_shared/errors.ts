@@ -0,0 +1,84 @@
+// Typed errors for edge functions. `createHandler` turns any HttpError into a JSON
+// response with its status code; anything else is reported as a 500.
+export class HttpError extends Error {
+  readonly status: number
+  readonly code: string
+  readonly details?: unknown
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message)
+    this.name = new.target.name
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+// The request itself is malformed (bad JSON, missing file, wrong file type...)
+export class BadRequestError extends HttpError {
+  constructor(message: string, details?: unknown) {
+    super(400, 'bad_request', message, details)
+  }
+}
+
+// The request body did not match the function's schema
+export class ValidationError extends HttpError {
+  constructor(message: string, issues: string[]) {
+    super(400, 'validation_failed', message, issues)
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Authentication failed. Please sign in again.') {
+    super(401, 'unauthorized', message)
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'You can only access your own data.') {
+    super(403, 'forbidden', message)
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, 'not_found', message)
+  }
+}
+
+// An upstream API asked us to slow down; the client may retry later
+export class RateLimitError extends HttpError {
+  constructor(message: string) {
+    super(429, 'rate_limited', message)
+  }
+}
+
+// A required secret or setting is missing from the function's environment
+export class ConfigurationError extends HttpError {
+  constructor(message: string) {
+    super(500, 'configuration_error', message)
+  }
+}
+
+// A third-party API (OpenAI, ElevenLabs, Tavus) or the database failed
+export class UpstreamError extends HttpError {
+  constructor(service: string, message: string, details?: unknown) {
+    super(502, 'upstream_error', `${service}: ${message}`, details)
+  }
+}
+
+// The model answered, but even after a repair attempt its reply did not match the
+// schema declared for the prompt. `details` lists the validation issues.
+export class ModelOutputError extends HttpError {
+  constructor(service: string, task: string, issues: string[]) {
+    super(502, 'invalid_model_output', `${service} returned an invalid ${task} response`, issues)
+  }
+}
+
+export function requireEnv(name: string): string {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new ConfigurationError(`${name} is not configured`)
+  }
+  return value
+}
@@ -0,0 +1,88 @@
+// The user's goals as prompt context: each active goal with its target date, how far
+// along its milestones are, what comes next and the habits and body-coach plans that
+// work towards it. Progress is worked out the same way as in the app (src/lib/goals.ts).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface GoalSummary {
+  title: string;
+  description: string | null;
+  target_date: string | null;
+  progress: number; // 0-100, share of milestones completed
+  milestones_done: number;
+  milestones_total: number;
+  next_milestone: string | null;
+  habits: string[];
+  has_body_plan: boolean;
+}
+
+interface MilestoneRow {
+  goal_id: string
+  title: string
+  position: number
+  completed_at: string | null
+}
+
+export async function loadActiveGoals(supabase: SupabaseClient, userId: string): Promise<GoalSummary[]> {
+  const { data: goals, error } = await supabase
+    .from('goals')
+    .select('id, title, description, target_date')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load goals: ${error.message}`)
+  }
+  if (!goals || goals.length === 0) return []
+
+  const goalIds = goals.map(goal => goal.id)
+  const [{ data: milestones, error: milestonesError }, { data: habits, error: habitsError }, { data: plans, error: plansError }] = await Promise.all([
+    supabase.from('goal_milestones').select('goal_id, title, position, completed_at').in('goal_id', goalIds)
+      .order('position', { ascending: true }),
+    supabase.from('habits').select('goal_id, name').in('goal_id', goalIds),
+    supabase.from('body_feedback').select('goal_id').in('goal_id', goalIds),
+  ])
+
+  if (milestonesError || habitsError || plansError) {
+    throw new Error(`Failed to load goal details: ${(milestonesError || habitsError || plansError)!.message}`)
+  }
+
+  return goals.map(goal => {
+    const steps = ((milestones || []) as MilestoneRow[]).filter(milestone => milestone.goal_id === goal.id)
+    const done = steps.filter(milestone => milestone.completed_at).length
+    return {
+      title: goal.title,
+      description: goal.description,
+      target_date: goal.target_date,
+      progress: steps.length > 0 ? Math.round((done / steps.length) * 100) : 0,
+      milestones_done: done,
+      milestones_total: steps.length,
+      next_milestone: steps.find(milestone => !milestone.completed_at)?.title ?? null,
+      habits: ((habits || []) as { goal_id: string; name: string }[])
+        .filter(habit => habit.goal_id === goal.id)
+        .map(habit => habit.name),
+      has_body_plan: ((plans || []) as { goal_id: string }[]).some(plan => plan.goal_id === goal.id),
+    }
+  })
+}
+
+// One line per goal, with its details indented underneath
+export function describeGoals(goals: GoalSummary[]): string {
+  return goals.map(goal => {
+    const lines = [`- ${goal.title}${goal.target_date ? ` (target date ${goal.target_date})` : ''}`]
+    if (goal.description) {
+      lines.push(`  Why it matters: ${goal.description}`)
+    }
+    lines.push(goal.milestones_total > 0
+      ? `  Progress: ${goal.progress}% (${goal.milestones_done} of ${goal.milestones_total} milestones)${goal.next_milestone ? `, next: ${goal.next_milestone}` : ''}`
+      : '  Progress: no milestones set yet')
+    if (goal.habits.length > 0) {
+      lines.push(`  Habits for it: ${goal.habits.join(', ')}`)
+    }
+    if (goal.has_body_plan) {
+      lines.push('  Linked to a body-coach plan')
+    }
+    return lines.join('\n')
+  }).join('\n')
+}
@@ -0,0 +1,90 @@
+import { corsHeaders } from './cors.ts'
+import { BadRequestError, HttpError } from './errors.ts'
+import { AuthContext, requireUser } from './auth.ts'
+import { Schema, validate } from './schema.ts'
+
+export interface HandlerContext extends AuthContext {
+  req: Request;
+  requestId: string;
+}
+
+type Handler = (ctx: HandlerContext) => Promise<unknown>
+
+// Wrap a function body with the behaviour every edge function shares:
+// CORS preflight, a request id, JWT verification and JSON error mapping.
+// The handler returns plain data (sent as JSON) or a ready-made Response.
+export function createHandler(name: string, handler: Handler): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders })
+    }
+
+    const requestId = req.headers.get('x-request-id') || crypto.randomUUID()
+
+    try {
+      const auth = await requireUser(req)
+      const result = await handler({ ...auth, req, requestId })
+
+      if (result instanceof Response) {
+        result.headers.set('x-request-id', requestId)
+        return result
+      }
+
+      return jsonResponse(result, requestId)
+    } catch (error) {
+      if (error instanceof HttpError) {
+        const log = error.status >= 500 ? console.error : console.warn
+        log(`[${name}] [${requestId}] ${error.code}: ${error.message}`)
+        return jsonResponse(
+          { error: error.message, code: error.code, details: error.details, request_id: requestId },
+          requestId,
+          error.status
+        )
+      }
+
+      console.error(`[${name}] [${requestId}] Unhandled error:`, error)
+      return jsonResponse(
+        {
+          error: error instanceof Error ? error.message : 'Internal error',
+          code: 'internal_error',
+          request_id: requestId
+        },
+        requestId,
+        500
+      )
+    }
+  }
+}
+
+export function jsonResponse(data: unknown, requestId: string, status = 200): Response {
+  return new Response(
+    JSON.stringify(data),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'x-request-id': requestId
+      }
+    }
+  )
+}
+
+// Parse the JSON body and check it against `schema`
+export async function readJson<T>(req: Request, schema: Schema<T>): Promise<T> {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON')
+  }
+  return validate(schema, body)
+}
+
+export async function readFormData(req: Request): Promise<FormData> {
+  try {
+    return await req.formData()
+  } catch {
+    throw new BadRequestError('Request body must be multipart form data')
+  }
+}
@@ -0,0 +1,85 @@
+// Languages reflections can be written in. Detection, the emotion word lists and
+// the "answer in" instruction for prompts all key off these codes (ISO 639-1).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'de', 'he'] as const
+
+export type Language = typeof SUPPORTED_LANGUAGES[number]
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  he: 'Hebrew',
+}
+
+export const DEFAULT_LANGUAGE: Language = 'en'
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value)
+
+// Frequent short words that rarely appear in the other languages' text
+const STOPWORDS: Record<Exclude<Language, 'he'>, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'i', 'is', 'was', 'to', 'my', 'of', 'it', 'that', 'with', 'for', 'today', 'me', 'but',
+    'have', 'had', 'felt', 'feel', 'this', 'so', 'at', 'be', 'am', 'just', 'what', 'about',
+  ]),
+  es: new Set([
+    'el', 'la', 'de', 'que', 'y', 'los', 'las', 'un', 'una', 'mi', 'con', 'por', 'para', 'hoy', 'pero',
+    'muy', 'estoy', 'fue', 'se', 'del', 'al', 'lo', 'como', 'más', 'yo', 'me', 'esta', 'este',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'und', 'ich', 'ist', 'nicht', 'mit', 'ein', 'eine', 'mein', 'meine', 'heute',
+    'war', 'zu', 'auch', 'aber', 'sehr', 'mich', 'mir', 'habe', 'hatte', 'es', 'bin', 'auf', 'für', 'dass',
+  ]),
+}
+
+// Best guess at the language of a piece of text, or null when there is too little
+// to go on (a few words, or only emoji). Hebrew is recognised by its script; the
+// Latin-script languages by counting stopwords, with a nudge from letters only one
+// of them uses.
+export function detectLanguage(text: string): Language | null {
+  const letters = text.match(/\p{L}/gu) || []
+  if (letters.length === 0) return null
+
+  const hebrew = letters.filter(char => /[\u0590-\u05FF]/.test(char)).length
+  if (hebrew / letters.length > 0.3) return 'he'
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || []
+  const scores: Record<Exclude<Language, 'he'>, number> = { en: 0, es: 0, de: 0 }
+  for (const word of words) {
+    for (const language of ['en', 'es', 'de'] as const) {
+      if (STOPWORDS[language].has(word)) scores[language]++
+    }
+  }
+  if (/[ñ¿¡]/i.test(text)) scores.es += 2
+  if (/[äöüß]/i.test(text)) scores.de += 2
+
+  const [best, score] = (Object.entries(scores) as [Exclude<Language, 'he'>, number][])
+    .reduce((top, entry) => (entry[1] > top[1] ? entry : top))
+
+  return score >= 2 ? best : null
+}
+
+// Appended to prompts whose output the user reads
+export function languageInstruction(language: Language): string {
+  if (language === 'en') return 'Write your response in English.'
+  return `Write your response in ${LANGUAGE_NAMES[language]}, the user's preferred language. Keep any JSON keys in English.`
+}
+
+// The language the user asked for in their profile; English when unset
+export async function getPreferredLanguage(supabase: SupabaseClient, userId: string): Promise<Language> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('preferred_language')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching preferred language:', error)
+    return DEFAULT_LANGUAGE
+  }
+
+  return isLanguage(data?.preferred_language) ? data.preferred_language : DEFAULT_LANGUAGE
+}
@@ -0,0 +1,119 @@
+import { UpstreamError } from '../errors.ts'
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  // One vector per input, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface OpenAIEmbeddingOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+// The OpenAI /embeddings endpoint, which Ollama, llama.cpp and vLLM also serve
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string
+  readonly model: string
+  private readonly options: OpenAIEmbeddingOptions
+
+  constructor(options: OpenAIEmbeddingOptions) {
+    this.name = options.name
+    this.model = options.model
+    this.options = options
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: this.model, input: texts }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new UpstreamError(this.name, `Embedding request failed: ${error.message}`)
+    }
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new UpstreamError(this.name, `${response.status} ${error}`)
+    }
+
+    const result = await response.json()
+    const vectors = (result.data ?? [])
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((entry: { embedding: number[] }) => entry.embedding)
+
+    if (vectors.length !== texts.length || vectors.some((vector: unknown) => !Array.isArray(vector))) {
+      throw new UpstreamError(this.name, `Expected ${texts.length} embeddings, got ${vectors.length}`)
+    }
+
+    return vectors
+  }
+}
+
+const LOCAL_DIMENSIONS = 256
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this',
+  'to', 'was', 'were', 'with', 'you', 'your', 'we', 'our', 'just', 'very', 'really',
+])
+
+// Crude suffix stripping so "running", "runs" and "run" land in the same bucket
+function stem(word: string): string {
+  return word.replace(/(ing|edly|ed|ies|es|ly|s)$/, (suffix) => (suffix === 'ies' ? 'y' : ''))
+}
+
+// FNV-1a, so the same word always maps to the same dimension and sign
+function hash(text: string): number {
+  let value = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+// Offline stand-in: a hashed bag of stemmed words (plus adjacent pairs). It knows no
+// synonyms, but it is deterministic and needs no network, which is what tests and
+// local development want. Vectors are unit length so cosine distance behaves.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local'
+  readonly model = `local-hash-${LOCAL_DIMENSIONS}`
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0)
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [])
+      .filter((word) => !STOPWORDS.has(word))
+      .map(stem)
+      .filter((word) => word.length > 1)
+
+    // Text made only of stopwords still gets a (non-zero) vector of its own
+    const features = words.length > 0
+      ? [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)]
+      : [text.trim().toLowerCase()]
+    for (const feature of features) {
+      const h = hash(feature)
+      vector[h % LOCAL_DIMENSIONS] += (h & 0x80000000) ? -1 : 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0))
+    return norm === 0 ? vector : vector.map((x) => x / norm)
+  }
+}
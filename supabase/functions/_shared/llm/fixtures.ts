@@ -0,0 +1,92 @@
+// Canned replies for the mock provider, keyed by ChatRequest.task. They are shaped
+// exactly like a well-behaved model reply so the functions can be run end to end offline.
+export const defaultFixtures: Record<string, unknown> = {
+  'ai-recap': {
+    summaryText: 'This period you balanced a demanding workload with small moments of rest. You wrote honestly about feeling stretched thin after a difficult conversation at work. You also celebrated finishing a run you had been putting off. Your reflections keep returning to wanting more time for the people you care about.',
+    motivationalMessage: 'You showed up for yourself even on the days that felt heavy. That difficult conversation clearly weighed on you, and it makes sense that it did. Still, you kept writing and kept noticing what you needed. Finishing that run was a real win, and it came from your own follow-through. Your consistency is building something steady underneath the ups and downs. Keep going - you are doing the work that matters.',
+    recommendations: [
+      'Try a ten-minute walk after work to reset before the evening',
+      'When a hard conversation replays in your head, write down one thing you handled well',
+      'Plan one small moment this week with someone you care about'
+    ]
+  },
+  'ai-recap-safety': {
+    summaryText: 'Some of what you wrote this period sounds really heavy, and it took courage to put it into words. You have been carrying a lot, and it makes sense that you feel worn down. Your reflections matter, and so do you.',
+    motivationalMessage: 'You do not have to hold all of this on your own. Reaching out to someone you trust, or to a crisis line, is a strong and caring thing to do for yourself. If you ever feel you might act on thoughts of harming yourself, please contact emergency services or a crisis line right away. There are people who want to listen and help, any time of day.',
+    recommendations: [
+      'Reach out to one person you trust today and tell them how you have been feeling',
+      'Keep a crisis line number somewhere easy to find; the support links in the app list the ones near you',
+      'If you can, talk to a doctor or therapist about what you have been going through'
+    ]
+  },
+  'video-script': {
+    script: 'Hi friend! This week you wrote about a tough conversation at work, and you handled it with more patience than you give yourself credit for. You also finished the run you had been putting off - that is real follow-through. Even on the heavier days you kept reflecting, and that consistency is your superpower. Remember that rest is part of progress, not a break from it. This coming week, pick one small thing that brings you joy and protect the time for it. I am proud of you - keep going!'
+  },
+  'video-script-safety': {
+    script: 'Hi friend. I have been reading your reflections from this week, and some of it sounds really hard. I want you to know that what you are feeling matters, and you do not have to carry it alone. Please reach out to someone you trust, or to a crisis line - talking to someone can help more than you might expect. If you ever feel unsafe, contact emergency services right away. You deserve support, and it is there for you.'
+  },
+  'outfit-analysis': {
+    positive_comments: [
+      'The color palette is cohesive and easy on the eye.',
+      'The fit through the shoulders looks tailored and intentional.',
+      'Your accessories add personality without overpowering the look.'
+    ],
+    suggestions: [
+      'A slightly cropped trouser would show off your shoes better.',
+      'Try a belt in a contrasting tone to define the waist.'
+    ],
+    style_rating: 8
+  },
+  'body-analysis': {
+    strengths: 'You already train regularly and know what you enjoy, which makes consistency far easier. Your posture looks balanced and your goals are clear and realistic.',
+    weaknesses: 'Core stability and upper-back strength have room to grow. Building these gradually will support everything else you want to do.',
+    workout: {
+      overview: 'Two full sessions a week to build consistency, with a brisk walk on one rest day.',
+      days: [
+        {
+          day: 'Day 1',
+          focus: 'Upper Body',
+          exercises: [
+            { name: 'Push-ups', sets: 3, reps: '10', rest: '60s' },
+            { name: 'Dumbbell rows', sets: 3, reps: '12', rest: '60s' },
+            { name: 'Plank', sets: 3, reps: '30s', rest: '45s' }
+          ]
+        },
+        {
+          day: 'Day 2',
+          focus: 'Lower Body',
+          exercises: [
+            { name: 'Goblet squats', sets: 3, reps: '12', rest: '60s' },
+            { name: 'Reverse lunges', sets: 3, reps: '10 per leg', rest: '60s' },
+            { name: 'Glute bridges', sets: 3, reps: '15', rest: '45s' }
+          ]
+        }
+      ],
+      tips: ['Focus on form before adding weight.']
+    },
+    nutrition: {
+      overview: 'Balanced meals with protein at every sitting to support recovery.',
+      meals: [
+        { name: 'Breakfast', foods: [{ name: 'Greek yogurt', portion: '1 cup' }, { name: 'Berries', portion: '1/2 cup' }] },
+        { name: 'Lunch', foods: [{ name: 'Grilled chicken', portion: '4 oz' }, { name: 'Brown rice', portion: '1 cup' }, { name: 'Mixed vegetables', portion: '2 cups' }] },
+        { name: 'Dinner', foods: [{ name: 'Salmon', portion: '4 oz' }, { name: 'Roasted potatoes', portion: '1 cup' }] }
+      ],
+      hydration: 'Drink a glass of water with every meal.',
+      tips: ['Prepare lunches on Sunday to make busy weekdays easier.']
+    },
+    motivational_message: 'Rome was not built in a day, and neither is a stronger body. Small sessions done consistently will beat perfect plans you never start. Trust the process and celebrate every workout you finish.'
+  },
+  'reflection-tags': {
+    tags: ['work', 'health']
+  },
+  'emotions': {
+    joy: 0.6, sadness: 0.1, anger: 0, fear: 0.3, surprise: 0.1, calm: 0.2
+  },
+  'memory-update': {
+    themes: ['Often feels stretched thin by work and wants more time for family'],
+    commitments: ['Plans to go for a short run twice a week'],
+    retire: []
+  },
+  // Streamed as plain text, not JSON
+  'coach-chat': 'That sounds like a lot to hold at once. Let us make it smaller: what is one thing from today that went even a little better than you expected? Start there, and we can plan one small step for tomorrow together.',
+}
@@ -0,0 +1,97 @@
+import { ConfigurationError, requireEnv } from '../errors.ts'
+import { EmbeddingProvider, LocalEmbeddingProvider, OpenAIEmbeddingProvider } from './embeddings.ts'
+import { MockChatProvider } from './mock.ts'
+import { OpenAIChatProvider } from './openai.ts'
+import { LLMProvider } from './types.ts'
+
+export type { ChatContentPart, ChatMessage, ChatRequest, ChatResult, LLMProvider } from './types.ts'
+export { chatJson, describeSchema } from './structured.ts'
+export type { StructuredChatRequest } from './structured.ts'
+export type { EmbeddingProvider } from './embeddings.ts'
+
+const DEFAULT_MODEL = 'gpt-4o-mini'
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small'
+const DEFAULT_TIMEOUT_MS = 60000
+
+// Pick the chat provider from the environment:
+//   LLM_PROVIDER   openai (default) | openai-compatible | mock
+//   LLM_MODEL      model name, defaults to gpt-4o-mini
+//   LLM_BASE_URL   required for openai-compatible, e.g. http://localhost:11434/v1
+//   LLM_API_KEY    key for openai-compatible servers that want one (OPENAI_API_KEY for openai)
+//   LLM_JSON_MODE  set to "false" if the server rejects response_format
+//   LLM_TIMEOUT_MS request timeout, defaults to 60s
+//   LLM_MOCK_FIXTURES  optional JSON file of task -> reply overrides for the mock
+export async function getLLMProvider(): Promise<LLMProvider> {
+  const provider = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase()
+  const model = Deno.env.get('LLM_MODEL') || DEFAULT_MODEL
+  const jsonMode = Deno.env.get('LLM_JSON_MODE') !== 'false'
+  const timeoutMs = Number(Deno.env.get('LLM_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIChatProvider({
+        name: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        model,
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        jsonMode,
+        timeoutMs,
+      })
+
+    case 'openai-compatible':
+      return new OpenAIChatProvider({
+        name: 'LLM server',
+        baseUrl: requireEnv('LLM_BASE_URL'),
+        model,
+        apiKey: Deno.env.get('LLM_API_KEY'),
+        jsonMode,
+        timeoutMs,
+      })
+
+    case 'mock': {
+      const fixturesPath = Deno.env.get('LLM_MOCK_FIXTURES')
+      return fixturesPath ? await MockChatProvider.fromFile(fixturesPath) : new MockChatProvider()
+    }
+
+    default:
+      throw new ConfigurationError(`Unknown LLM_PROVIDER "${provider}"`)
+  }
+}
+
+// Pick the embedding provider from the environment:
+//   EMBEDDING_PROVIDER  openai | openai-compatible | local. Defaults to local when
+//                       LLM_PROVIDER=mock (fully offline), otherwise openai
+//   EMBEDDING_MODEL     defaults to text-embedding-3-small
+//   openai-compatible reuses LLM_BASE_URL and LLM_API_KEY
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const fallback = (Deno.env.get('LLM_PROVIDER') || '').toLowerCase() === 'mock' ? 'local' : 'openai'
+  const provider = (Deno.env.get('EMBEDDING_PROVIDER') || fallback).toLowerCase()
+  const model = Deno.env.get('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL
+  const timeoutMs = Number(Deno.env.get('LLM_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        name: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        model,
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        timeoutMs,
+      })
+
+    case 'openai-compatible':
+      return new OpenAIEmbeddingProvider({
+        name: 'LLM server',
+        baseUrl: requireEnv('LLM_BASE_URL'),
+        model,
+        apiKey: Deno.env.get('LLM_API_KEY'),
+        timeoutMs,
+      })
+
+    case 'local':
+      return new LocalEmbeddingProvider()
+
+    default:
+      throw new ConfigurationError(`Unknown EMBEDDING_PROVIDER "${provider}"`)
+  }
+}
@@ -0,0 +1,40 @@
+import { ConfigurationError } from '../errors.ts'
+import { defaultFixtures } from './fixtures.ts'
+import { ChatRequest, ChatResult, LLMProvider } from './types.ts'
+
+// Deterministic provider for offline development and tests: every task answers with
+// the same fixture, so two runs with the same input produce the same output.
+export class MockChatProvider implements LLMProvider {
+  readonly name = 'mock'
+  readonly model = 'mock'
+  private readonly fixtures: Record<string, unknown>
+
+  constructor(fixtures: Record<string, unknown> = defaultFixtures) {
+    this.fixtures = fixtures
+  }
+
+  // Fixtures from a JSON file (task -> reply) replace the built-in ones per task
+  static async fromFile(path: string): Promise<MockChatProvider> {
+    const overrides = JSON.parse(await Deno.readTextFile(path))
+    return new MockChatProvider({ ...defaultFixtures, ...overrides })
+  }
+
+  // The fixture a few words at a time, so clients see it arrive like a real stream
+  async *stream(request: ChatRequest): AsyncIterable<string> {
+    const { content } = await this.chat(request)
+    const pieces = content.match(/\S+\s*/g) || []
+    for (let i = 0; i < pieces.length; i += 3) {
+      yield pieces.slice(i, i + 3).join('')
+    }
+  }
+
+  chat(request: ChatRequest): Promise<ChatResult> {
+    const fixture = this.fixtures[request.task]
+    if (fixture === undefined) {
+      throw new ConfigurationError(`No mock LLM fixture for task "${request.task}"`)
+    }
+
+    const content = typeof fixture === 'string' ? fixture : JSON.stringify(fixture)
+    return Promise.resolve({ content, provider: this.name, model: this.model })
+  }
+}
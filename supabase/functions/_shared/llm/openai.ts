@@ -0,0 +1,107 @@
+import { UpstreamError } from '../errors.ts'
+import { ChatRequest, ChatResult, LLMProvider } from './types.ts'
+
+interface OpenAIProviderOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // Some local servers reject `response_format`; the prompt still asks for JSON
+  jsonMode: boolean;
+  timeoutMs: number;
+}
+
+// Adapter for the OpenAI chat completions API and any server that speaks it
+// (llama.cpp `server`, Ollama's /v1 endpoint, vLLM, LM Studio...).
+export class OpenAIChatProvider implements LLMProvider {
+  readonly name: string
+  readonly model: string
+  private readonly options: OpenAIProviderOptions
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name
+    this.model = options.model
+    this.options = options
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const response = await this.post(
+      request,
+      request.json && this.options.jsonMode ? { response_format: { type: 'json_object' } } : {}
+    )
+
+    const completion = await response.json()
+    const content = completion.choices?.[0]?.message?.content
+
+    if (typeof content !== 'string') {
+      throw new UpstreamError(this.name, `Empty completion for ${request.task}`)
+    }
+
+    return { content, provider: this.name, model: completion.model || this.model }
+  }
+
+  // Server-sent events: one `data: {json}` line per delta, then `data: [DONE]`
+  async *stream(request: ChatRequest): AsyncIterable<string> {
+    const response = await this.post(request, { stream: true })
+    if (!response.body) {
+      throw new UpstreamError(this.name, `Empty stream for ${request.task}`)
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const data = line.trim()
+        if (!data.startsWith('data:')) continue
+        const payload = data.slice(5).trim()
+        if (payload === '[DONE]') return
+
+        try {
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content
+          if (typeof delta === 'string' && delta) yield delta
+        } catch {
+          console.warn(`${this.name} sent an unreadable stream line for ${request.task}`)
+        }
+      }
+    }
+  }
+
+  private async post(request: ChatRequest, extra: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...extra
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new UpstreamError(this.name, `Request for ${request.task} failed: ${error.message}`)
+    }
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new UpstreamError(this.name, `${response.status} ${error}`)
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,69 @@
+import { ModelOutputError } from '../errors.ts'
+import { Schema } from '../schema.ts'
+import { ChatMessage, ChatRequest, LLMProvider } from './types.ts'
+
+export interface StructuredChatRequest<T> extends Omit<ChatRequest, 'json'> {
+  schema: Schema<T>;
+  // Extra attempts after the first reply fails validation (default 1)
+  repairAttempts?: number;
+}
+
+// Render the declared schema for a system prompt, so the model sees exactly what
+// chatJson will check its reply against.
+export function describeSchema<T>(schema: Schema<T>): string {
+  return `Respond with a single JSON object that matches this JSON Schema:\n${JSON.stringify(schema.describe(), null, 2)}`
+}
+
+// Ask for JSON, then check the reply against `schema`. A reply that does not parse or
+// does not validate is sent back to the model together with the issues found; if the
+// repaired reply is still wrong the caller gets a ModelOutputError, never partial data.
+export async function chatJson<T>(llm: LLMProvider, request: StructuredChatRequest<T>): Promise<T> {
+  const { schema, repairAttempts = 1, ...chatRequest } = request
+  const messages: ChatMessage[] = [...chatRequest.messages]
+  let issues: string[] = []
+
+  for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+    const { content } = await llm.chat({ ...chatRequest, messages, json: true })
+
+    issues = []
+    const parsed = parseJsonReply(content, issues)
+    if (issues.length === 0) {
+      const result = schema.check(parsed, '', issues)
+      if (issues.length === 0) {
+        return result
+      }
+    }
+
+    console.warn(`${llm.name} ${request.task} reply failed validation (attempt ${attempt + 1}):`, issues)
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous reply was not valid:\n- ${issues.join('\n- ')}\n\n${describeSchema(schema)}\nReply with the corrected JSON object only.`
+      }
+    )
+  }
+
+  throw new ModelOutputError(llm.name, request.task, issues)
+}
+
+// Models served without a JSON mode like to wrap the object in a ```json fence or add a
+// sentence before it, so fall back to the outermost braces before giving up.
+function parseJsonReply(content: string, issues: string[]): unknown {
+  const trimmed = content.trim()
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    const start = trimmed.indexOf('{')
+    const end = trimmed.lastIndexOf('}')
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1))
+      } catch {
+        // reported below
+      }
+    }
+  }
+  issues.push('reply is not valid JSON')
+  return undefined
+}
@@ -0,0 +1,34 @@
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  // Stable name for the prompt ("ai-recap", "body-analysis"...). The mock provider
+  // picks its fixture by this name; real providers only use it for logging.
+  task: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+}
+
+export interface ChatResult {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // The reply as it is generated, in text fragments. `json` is ignored: a partial
+  // JSON object is no use to anyone.
+  stream(request: ChatRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,198 @@
+// Long-term memory shared by recaps and coach chats. Two parts go into a prompt:
+// what the app already knows from the user's own data (goals and their progress,
+// habits, the latest body-coach plan) and the facts in `user_memories`, which are distilled from each
+// recap. Users can see and delete those facts in Settings.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chatJson, LLMProvider } from './llm/index.ts'
+import { Language, languageInstruction } from './language.ts'
+import { GoalSummary, describeGoals, loadActiveGoals } from './goals.ts'
+import * as s from './schema.ts'
+
+export const MEMORY_KINDS = ['theme', 'commitment', 'recommendation'] as const
+
+export type MemoryKind = typeof MEMORY_KINDS[number]
+
+export interface MemoryFact {
+  id: string;
+  kind: MemoryKind;
+  content: string;
+  created_at: string;
+}
+
+// Newest facts of each kind that make it into a prompt
+const PROMPT_LIMITS: Record<MemoryKind, number> = {
+  theme: 8,
+  commitment: 8,
+  recommendation: 6,
+}
+
+// Recommendations are stored as given, three per recap; older ones are dropped
+// once there are more than this
+const MAX_RECOMMENDATIONS = 15
+
+const MemoryUpdateSchema = s.object({
+  themes: s.array(s.string({ min: 1, max: 300 }), { max: 5 }),
+  commitments: s.array(s.string({ min: 1, max: 300 }), { max: 5 }),
+  retire: s.array(s.string({ max: 64 }), { max: 20 }),
+})
+
+export async function loadMemories(supabase: SupabaseClient, userId: string): Promise<MemoryFact[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('id, kind, content, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load memories: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// Everything worth knowing about the user before writing to them, as a prompt section.
+// Best effort: a part that fails to load is left out rather than failing the caller.
+// Returns an empty string when there is nothing to say.
+export async function buildMemoryContext(supabase: SupabaseClient, userId: string): Promise<string> {
+  const [facts, goals, profile, habits, bodyPlan] = await Promise.all([
+    loadMemories(supabase, userId).catch(logAndReturn<MemoryFact[]>('memories', [])),
+    loadActiveGoals(supabase, userId).catch(logAndReturn<GoalSummary[]>('goals', [])),
+    supabase.from('user_profiles').select('goals').eq('id', userId).maybeSingle()
+      .then(({ data }) => (data?.goals as string[] | null) || []),
+    supabase.from('habits').select('name, target_frequency').eq('user_id', userId)
+      .then(({ data }) => (data || []) as { name: string; target_frequency: string }[]),
+    supabase.from('body_coach_reports').select('analysis, created_at').eq('user_id', userId)
+      .order('created_at', { ascending: false }).limit(1).maybeSingle()
+      .then(({ data }) => data as { analysis: { workout?: { overview?: string }; nutrition?: { overview?: string } }; created_at: string } | null),
+  ])
+
+  const sections: string[] = []
+  // The onboarding picks only matter for users who have not set up any goals
+  if (goals.length > 0) {
+    sections.push(`Goals they are working towards:\n${describeGoals(goals)}`)
+  } else if (profile.length > 0) {
+    sections.push(`Goals they chose: ${profile.join(', ')}`)
+  }
+  if (habits.length > 0) {
+    sections.push(`Habits they are tracking: ${habits.map(h => `${h.name} (${h.target_frequency})`).join(', ')}`)
+  }
+  if (bodyPlan?.analysis) {
+    const { workout, nutrition } = bodyPlan.analysis
+    const overview = [workout?.overview, nutrition?.overview].filter(Boolean).join(' ')
+    if (overview) {
+      sections.push(`Their current body-coach plan (${bodyPlan.created_at.slice(0, 10)}): ${overview}`)
+    }
+  }
+
+  const headings: Record<MemoryKind, string> = {
+    theme: 'Recurring themes in their reflections',
+    commitment: 'Things they said they would do',
+    recommendation: 'Recommendations earlier recaps gave them',
+  }
+  for (const kind of MEMORY_KINDS) {
+    const items = facts.filter(fact => fact.kind === kind).slice(0, PROMPT_LIMITS[kind])
+    if (items.length > 0) {
+      sections.push(`${headings[kind]}:\n${items.map(item => `- ${item.content}`).join('\n')}`)
+    }
+  }
+
+  return sections.join('\n\n')
+}
+
+// Called after a recap is saved. Stores its recommendations and asks the model which
+// themes and commitments in the period's reflections are worth remembering, and which
+// existing ones no longer hold (a commitment that was kept, a theme that has faded).
+// Not used for safety-mode recaps: distress is not something to keep reminding the
+// model of, and those recaps give no real recommendations.
+export async function updateMemoryFromRecap(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  userId: string,
+  recap: { reportId: string; reflectionTexts: string[]; recommendations: string[]; language: Language }
+): Promise<void> {
+  const existing = (await loadMemories(supabase, userId)).filter(fact => fact.kind !== 'recommendation')
+  const known = existing.map(fact => `[${fact.id}] (${fact.kind}) ${fact.content}`).join('\n') || 'Nothing yet.'
+
+  const update = await chatJson(llm, {
+    task: 'memory-update',
+    schema: MemoryUpdateSchema,
+    messages: [
+      {
+        role: 'system',
+        content: `You maintain a short memory about a journaling app user so future conversations can follow up on what matters to them.
+Only keep what will still matter in a few weeks. Write each item as one short sentence about the user in the third person, without quoting sensitive details.`,
+      },
+      {
+        role: 'user',
+        content: `What you remember so far:
+${known}
+
+Their reflections from the latest period:
+\`\`\`
+${recap.reflectionTexts.join('\n\n')}
+\`\`\`
+
+Respond with a JSON object:
+{
+  "themes": ["new recurring topics or concerns not already remembered (0-5)"],
+  "commitments": ["new, specific things the user said they intend to do (0-5)"],
+  "retire": ["ids of remembered items that are done, resolved or no longer true"]
+}
+${languageInstruction(recap.language)}`,
+      },
+    ],
+    temperature: 0.2,
+    maxTokens: 600,
+  })
+
+  const knownIds = new Set(existing.map(fact => fact.id))
+  const retire = update.retire.filter(id => knownIds.has(id))
+  if (retire.length > 0) {
+    const { error } = await supabase.from('user_memories').delete().in('id', retire)
+    if (error) throw new Error(`Failed to retire memories: ${error.message}`)
+  }
+
+  const rows = [
+    ...update.themes.map(content => ({ kind: 'theme', content })),
+    ...update.commitments.map(content => ({ kind: 'commitment', content })),
+    ...recap.recommendations.map(content => ({ kind: 'recommendation', content: content.slice(0, 500) })),
+  ].map(row => ({ ...row, user_id: userId, source_report_id: recap.reportId }))
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('user_memories').insert(rows)
+    if (error) throw new Error(`Failed to save memories: ${error.message}`)
+  }
+
+  await pruneRecommendations(supabase, userId)
+}
+
+async function pruneRecommendations(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('kind', 'recommendation')
+    .order('created_at', { ascending: false })
+    .range(MAX_RECOMMENDATIONS, MAX_RECOMMENDATIONS + 100)
+
+  if (error) {
+    console.error('Error finding old recommendations:', error)
+    return
+  }
+  if (!data || data.length === 0) return
+
+  const { error: deleteError } = await supabase
+    .from('user_memories')
+    .delete()
+    .in('id', data.map((row: { id: string }) => row.id))
+
+  if (deleteError) {
+    console.error('Error pruning old recommendations:', deleteError)
+  }
+}
+
+const logAndReturn = <T>(what: string, fallback: T) => (error: unknown): T => {
+  console.error(`Error loading ${what} for memory context:`, error)
+  return fallback
+}
@@ -0,0 +1,133 @@
+// What the user did with a recap's recommendations. Each recommendation gets a row in
+// `recommendation_actions` when its recap is saved; the app updates the row as the user
+// accepts, snoozes, dismisses or turns it into a habit, and the next recap reports back.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type RecommendationStatus = 'pending' | 'accepted' | 'completed' | 'habit' | 'snoozed' | 'dismissed'
+
+export interface FollowUpItem {
+  recommendation: string;
+  status: RecommendationStatus;
+  habit_name?: string;
+  habit_completions?: number; // since the habit was created from it
+}
+
+interface ActionRow {
+  recommendation: string
+  status: RecommendationStatus
+  snoozed_until: string | null
+  responded_at: string | null
+  habit_id: string | null
+}
+
+export async function createRecommendationActions(
+  supabase: SupabaseClient,
+  userId: string,
+  reportId: string,
+  recommendations: string[]
+): Promise<void> {
+  if (recommendations.length === 0) return
+
+  const { error } = await supabase
+    .from('recommendation_actions')
+    .insert(recommendations.map((recommendation, index) => ({
+      user_id: userId,
+      report_id: reportId,
+      item_index: index,
+      recommendation,
+    })))
+
+  if (error) {
+    throw new Error(`Failed to save recommendation actions: ${error.message}`)
+  }
+}
+
+// The latest regular recap's recommendations and what has happened to each. Safety-mode
+// recaps are skipped; their suggestions are not something to be held to. A snooze that
+// has run out counts as pending again.
+export async function loadFollowUp(supabase: SupabaseClient, userId: string): Promise<FollowUpItem[]> {
+  const { data: previous, error: reportError } = await supabase
+    .from('insight_reports')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('safety_mode', false)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (reportError) {
+    throw new Error(`Failed to load the previous report: ${reportError.message}`)
+  }
+  if (!previous) return []
+
+  const { data, error } = await supabase
+    .from('recommendation_actions')
+    .select('recommendation, status, snoozed_until, responded_at, habit_id')
+    .eq('report_id', previous.id)
+    .order('item_index', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load recommendation actions: ${error.message}`)
+  }
+
+  const rows = (data || []) as ActionRow[]
+  const today = new Date().toISOString().slice(0, 10)
+
+  const habitRows = rows.filter(row => row.status === 'habit' && row.habit_id)
+  const completions: Record<string, number> = {}
+  const habitNames: Record<string, string> = {}
+  if (habitRows.length > 0) {
+    const habitIds = habitRows.map(row => row.habit_id)
+    const [{ data: habits, error: habitsError }, { data: done, error: completionsError }] = await Promise.all([
+      supabase.from('habits').select('id, name').in('id', habitIds),
+      supabase.from('habit_completions').select('habit_id, completed_at').in('habit_id', habitIds),
+    ])
+
+    if (habitsError || completionsError) {
+      throw new Error(`Failed to load habits: ${(habitsError || completionsError)!.message}`)
+    }
+
+    for (const habit of (habits || []) as { id: string; name: string }[]) {
+      habitNames[habit.id] = habit.name
+    }
+
+    for (const row of habitRows) {
+      completions[row.habit_id!] = (done || []).filter((completion: { habit_id: string; completed_at: string }) =>
+        completion.habit_id === row.habit_id && (!row.responded_at || completion.completed_at >= row.responded_at.slice(0, 10))
+      ).length
+    }
+  }
+
+  return rows.map(row => {
+    const expired = row.status === 'snoozed' && (!row.snoozed_until || row.snoozed_until <= today)
+    const item: FollowUpItem = { recommendation: row.recommendation, status: expired ? 'pending' : row.status }
+    if (row.status === 'habit' && row.habit_id) {
+      item.habit_name = habitNames[row.habit_id]
+      item.habit_completions = completions[row.habit_id] ?? 0
+    }
+    return item
+  })
+}
+
+const STATUS_TEXT: Record<RecommendationStatus, string> = {
+  pending: 'no response yet',
+  accepted: 'accepted, not marked done yet',
+  completed: 'done',
+  habit: 'turned into a habit',
+  snoozed: 'snoozed for later',
+  dismissed: 'dismissed',
+}
+
+// One line per recommendation for a recap prompt
+export function describeFollowUp(items: FollowUpItem[]): string {
+  return items.map(item => {
+    let status = STATUS_TEXT[item.status]
+    if (item.status === 'habit') {
+      status += item.habit_name
+        ? ` ("${item.habit_name}", completed ${item.habit_completions ?? 0} time${item.habit_completions === 1 ? '' : 's'} since)`
+        : ' (the habit has since been deleted)'
+    }
+    return `- "${item.recommendation}": ${status}`
+  }).join('\n')
+}
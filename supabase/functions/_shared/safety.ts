@@ -0,0 +1,113 @@
+// Crisis and self-harm language detection. This is a screen, not a diagnosis: it
+// errs toward flagging (a negated "I don't want to die" still matches) because a
+// missed flag costs far more than showing someone a helpline they did not need.
+// Flags are only ever shown to the user who wrote the reflection.
+
+import { Language } from './language.ts'
+
+export type RiskLevel = 'none' | 'elevated' | 'high'
+
+// What was matched, without the matched text itself
+export type RiskCategory = 'suicidal_ideation' | 'self_harm' | 'hopelessness'
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  categories: RiskCategory[];
+}
+
+// Bump when the patterns change so stored flags say which rules produced them
+export const SAFETY_CLASSIFIER_VERSION = 'lexicon-v1'
+
+const CATEGORY_LEVEL: Record<RiskCategory, Exclude<RiskLevel, 'none'>> = {
+  suicidal_ideation: 'high',
+  self_harm: 'high',
+  hopelessness: 'elevated',
+}
+
+// Phrases, matched on lowercased text with accents stripped. Every language is
+// checked regardless of the detected one: people switch languages mid-entry, and
+// a missed match here matters more than the few extra regex runs.
+const PATTERNS: Record<Language, Record<RiskCategory, string[]>> = {
+  en: {
+    suicidal_ideation: [
+      'kill myself', 'killing myself', 'end my life', 'ending my life', 'take my own life', 'want to die',
+      'wanna die', 'wish i was dead', 'wish i were dead', 'suicide', 'suicidal', 'better off without me',
+      'better off dead', 'no reason to live', 'not want to be here anymore', 'dont want to be here anymore',
+      'dont want to wake up', 'end it all',
+    ],
+    self_harm: [
+      'hurt myself', 'hurting myself', 'harm myself', 'self harm', 'self-harm', 'cut myself', 'cutting myself',
+      'overdose', 'burn myself',
+    ],
+    hopelessness: [
+      'hopeless', 'hopelessness', 'worthless', 'cant go on', 'can not go on', 'no way out', 'no point anymore',
+      'no point in anything', 'i am a burden', 'im a burden', 'nothing will ever get better', 'give up on everything',
+    ],
+  },
+  es: {
+    suicidal_ideation: [
+      'quiero morir', 'quiero morirme', 'suicidarme', 'suicidio', 'matarme', 'quitarme la vida',
+      'no quiero vivir', 'mejor sin mi', 'acabar con todo', 'no quiero despertar',
+    ],
+    self_harm: ['hacerme dano', 'lastimarme', 'cortarme', 'autolesion', 'sobredosis'],
+    hopelessness: ['sin esperanza', 'desesperanza', 'no puedo mas', 'no valgo nada', 'no hay salida', 'soy una carga'],
+  },
+  de: {
+    suicidal_ideation: [
+      'mich umbringen', 'suizid', 'selbstmord', 'will sterben', 'sterben wollen', 'mir das leben nehmen',
+      'nicht mehr leben', 'besser ohne mich', 'nicht mehr aufwachen',
+    ],
+    self_harm: ['mich verletzen', 'mich ritzen', 'selbstverletzung', 'uberdosis'],
+    hopelessness: ['hoffnungslos', 'kann nicht mehr', 'keinen sinn mehr', 'wertlos', 'kein ausweg', 'bin eine last'],
+  },
+  he: {
+    suicidal_ideation: [
+      'להתאבד', 'התאבדות', 'רוצה למות', 'לשים קץ לחיים', 'לשים קץ לחיי', 'לא רוצה לחיות', 'טוב יותר בלעדיי',
+      'לא רוצה להתעורר',
+    ],
+    self_harm: ['לפגוע בעצמי', 'פגיעה עצמית', 'לחתוך את עצמי', 'מנת יתר'],
+    hopelessness: ['חסר תקווה', 'חסרת תקווה', 'אין לי כוח יותר', 'אין טעם', 'אין מוצא', 'אני נטל'],
+  },
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[’']/g, '').replace(/\s+/g, ' ')
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Whole-phrase matches. Hebrew phrases may carry a one-letter prefix (ו "and", ש "that").
+const MATCHERS: { category: RiskCategory; pattern: RegExp }[] = (Object.keys(PATTERNS) as Language[]).flatMap(language =>
+  (Object.keys(PATTERNS[language]) as RiskCategory[]).flatMap(category =>
+    PATTERNS[language][category].map(phrase => ({
+      category,
+      pattern: new RegExp(
+        `(?<!\\p{L})${language === 'he' ? '[ובהלמשכ]?' : ''}${escapeRegExp(normalize(phrase))}(?!\\p{L})`,
+        'u'
+      ),
+    }))
+  )
+)
+
+export function assessRisk(text: string): RiskAssessment {
+  const normalized = normalize(text)
+  const categories = Array.from(new Set(
+    MATCHERS.filter(({ pattern }) => pattern.test(normalized)).map(({ category }) => category)
+  ))
+
+  const level: RiskLevel = categories.some(category => CATEGORY_LEVEL[category] === 'high')
+    ? 'high'
+    : categories.length > 0 ? 'elevated' : 'none'
+
+  return { level, categories }
+}
+
+// Highest level across several texts, e.g. every reflection a recap covers
+export function assessRiskAcross(texts: string[]): RiskAssessment {
+  const assessments = texts.map(assessRisk)
+  const categories = Array.from(new Set(assessments.flatMap(a => a.categories)))
+  const level: RiskLevel = assessments.some(a => a.level === 'high')
+    ? 'high'
+    : assessments.some(a => a.level === 'elevated') ? 'elevated' : 'none'
+
+  return { level, categories }
+}
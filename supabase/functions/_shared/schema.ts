@@ -0,0 +1,180 @@
+import { ValidationError } from './errors.ts'
+
+// Minimal runtime schemas for request bodies and model replies. Each schema checks a value
+// and records every problem it finds (with a dotted path) instead of stopping at the first one.
+// `describe()` renders the schema as JSON Schema so it can be shown to a model.
+export type JsonSchema = Record<string, unknown>
+
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: string[]): T
+  describe(): JsonSchema
+  optional?: boolean
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+function label(path: string): string {
+  return path || 'body'
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return {
+    describe: () => ({
+      type: 'string',
+      ...(options.min !== undefined ? { minLength: options.min } : {}),
+      ...(options.max !== undefined ? { maxLength: options.max } : {}),
+    }),
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push(`${label(path)} must be a string`)
+        return ''
+      }
+      if (options.min !== undefined && value.trim().length < options.min) {
+        issues.push(options.min === 1
+          ? `${label(path)} cannot be empty`
+          : `${label(path)} must be at least ${options.min} characters`)
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push(`${label(path)} must be at most ${options.max} characters`)
+      }
+      return value
+    }
+  }
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    describe: () => ({
+      type: options.integer ? 'integer' : 'number',
+      ...(options.min !== undefined ? { minimum: options.min } : {}),
+      ...(options.max !== undefined ? { maximum: options.max } : {}),
+    }),
+    check(value, path, issues) {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push(`${label(path)} must be a number`)
+        return 0
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push(`${label(path)} must be an integer`)
+      }
+      if (options.min !== undefined && value < options.min) {
+        issues.push(`${label(path)} must be at least ${options.min}`)
+      }
+      if (options.max !== undefined && value > options.max) {
+        issues.push(`${label(path)} must be at most ${options.max}`)
+      }
+      return value
+    }
+  }
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    describe: () => ({ type: 'boolean' }),
+    check(value, path, issues) {
+      if (typeof value !== 'boolean') {
+        issues.push(`${label(path)} must be true or false`)
+        return false
+      }
+      return value
+    }
+  }
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return {
+    describe: () => ({ type: 'string', enum: [...values] }),
+    check(value, path, issues) {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push(`${label(path)} must be one of: ${values.join(', ')}`)
+        return values[0]
+      }
+      return value as T[number]
+    }
+  }
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    describe: () => ({
+      type: 'array',
+      items: item.describe(),
+      ...(options.min !== undefined ? { minItems: options.min } : {}),
+      ...(options.max !== undefined ? { maxItems: options.max } : {}),
+    }),
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${label(path)} must be an array`)
+        return []
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push(`${label(path)} must have at least ${options.min} items`)
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push(`${label(path)} must have at most ${options.max} items`)
+      }
+      return value.map((entry, index) => item.check(entry, `${path}[${index}]`, issues))
+    }
+  }
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    describe: () => schema.describe(),
+    optional: true,
+    check(value, path, issues) {
+      if (value === undefined || value === null) {
+        return undefined
+      }
+      return schema.check(value, path, issues)
+    }
+  }
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    describe: () => ({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.describe()])),
+      required: Object.keys(shape).filter((key) => !shape[key].optional),
+    }),
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${label(path)} must be an object`)
+        return {} as { [K in keyof S]: Infer<S[K]> }
+      }
+      const input = value as Record<string, unknown>
+      const result: Record<string, unknown> = {}
+      for (const key of Object.keys(shape)) {
+        const parsed = shape[key].check(input[key], path ? `${path}.${key}` : key, issues)
+        if (parsed !== undefined) {
+          result[key] = parsed
+        }
+      }
+      return result as { [K in keyof S]: Infer<S[K]> }
+    }
+  }
+}
+
+// Check `value` against `schema`, throwing a ValidationError (400) listing every issue
+export function validate<T>(schema: Schema<T>, value: unknown, message = 'Invalid request body'): T {
+  const issues: string[] = []
+  const result = schema.check(value, '', issues)
+  if (issues.length > 0) {
+    throw new ValidationError(`${message}: ${issues.join('; ')}`, issues)
+  }
+  return result
+}
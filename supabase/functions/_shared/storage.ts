@@ -0,0 +1,59 @@
+import { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ForbiddenError, NotFoundError, UpstreamError } from './errors.ts'
+
+// The body-analysis and voice-reflections buckets are private. Rows store object paths
+// (`<user_id>/<file>`); anything that needs the bytes signs or downloads them here.
+export type StorageBucket = 'body-analysis' | 'voice-reflections'
+
+// Long enough to play a clip or render a page, short enough that a leaked link goes stale
+export const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// Object paths always start with the owner's id (the storage policies rely on it too)
+export function assertOwnObjectPath(user: User, path: string): string {
+  if (path.includes('..') || !path.startsWith(`${user.id}/`)) {
+    throw new ForbiddenError('You can only access your own files.')
+  }
+
+  return path
+}
+
+export async function createSignedUrl(
+  client: SupabaseClient,
+  bucket: StorageBucket,
+  path: string,
+  expiresIn = SIGNED_URL_TTL_SECONDS
+): Promise<string> {
+  const { data, error } = await client.storage.from(bucket).createSignedUrl(path, expiresIn)
+
+  if (error || !data?.signedUrl) {
+    throw new UpstreamError('Storage', `Failed to sign ${bucket}/${path}: ${error?.message ?? 'no URL returned'}`)
+  }
+
+  return data.signedUrl
+}
+
+// Download an object and inline it as a data URL, so a third-party API never needs a
+// link into the bucket. Pass a service-role client: the object was checked by path.
+export async function downloadAsDataUrl(
+  client: SupabaseClient,
+  bucket: StorageBucket,
+  path: string
+): Promise<string> {
+  const { data, error } = await client.storage.from(bucket).download(path)
+
+  if (error || !data) {
+    if (error?.message?.toLowerCase().includes('not found')) {
+      throw new NotFoundError(`File not found: ${path}`)
+    }
+    throw new UpstreamError('Storage', `Failed to download ${bucket}/${path}: ${error?.message ?? 'empty response'}`)
+  }
+
+  const bytes = new Uint8Array(await data.arrayBuffer())
+  let binary = ''
+  // Chunked so large photos don't overflow the argument limit of fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+
+  return `data:${data.type || 'application/octet-stream'};base64,${btoa(binary)}`
+}
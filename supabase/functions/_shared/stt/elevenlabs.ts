@@ -0,0 +1,75 @@
+import { RateLimitError, UpstreamError } from '../errors.ts'
+import { STTProvider, TranscriptionRequest, TranscriptionResult, TranscriptWord } from './types.ts'
+import { audioExtension, round, toLanguage } from './words.ts'
+
+interface ElevenLabsSTTOptions {
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+interface ScribeWord {
+  text: string;
+  type: 'word' | 'spacing' | 'audio_event';
+  start?: number;
+  end?: number;
+}
+
+// ElevenLabs Speech-to-Text (Scribe)
+export class ElevenLabsSTTProvider implements STTProvider {
+  readonly name = 'ElevenLabs'
+  readonly model: string
+  private readonly options: ElevenLabsSTTOptions
+
+  constructor(options: ElevenLabsSTTOptions) {
+    this.model = options.model
+    this.options = options
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const form = new FormData()
+    form.append('file', request.audio, `reflection.${audioExtension(request.mimeType)}`)
+    form.append('model_id', this.model)
+    form.append('timestamps_granularity', 'word')
+    if (request.language) {
+      form.append('language_code', request.language)
+    }
+
+    let response: Response
+    try {
+      response = await fetch('https://api.elevenlabs.io/v1/speech-to-text', {
+        method: 'POST',
+        headers: { 'xi-api-key': this.options.apiKey },
+        body: form,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new UpstreamError(this.name, `Transcription request failed: ${error.message}`)
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      if (response.status === 429) {
+        throw new RateLimitError('ElevenLabs API rate limit exceeded - please try again later')
+      }
+      throw new UpstreamError(this.name, `${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    const result = await response.json()
+
+    // Scribe returns spacing and sound events ("(laughs)") alongside words; only the
+    // words are timed against the transcript
+    const words: TranscriptWord[] = (Array.isArray(result.words) ? result.words as ScribeWord[] : [])
+      .filter(word => word.type === 'word' && typeof word.start === 'number' && typeof word.end === 'number')
+      .map(word => ({ text: word.text, start: round(word.start!), end: round(word.end!) }))
+
+    return {
+      text: result.text || '',
+      language: toLanguage(result.language_code) ?? request.language ?? null,
+      words,
+      duration: words.length > 0 ? words[words.length - 1].end : null,
+      provider: this.name,
+      model: this.model,
+    }
+  }
+}
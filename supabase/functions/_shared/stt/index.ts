@@ -0,0 +1,58 @@
+import { ConfigurationError, requireEnv } from '../errors.ts'
+import { ElevenLabsSTTProvider } from './elevenlabs.ts'
+import { MockSTTProvider } from './mock.ts'
+import { OpenAISTTProvider } from './openai.ts'
+import { STTProvider } from './types.ts'
+
+export type { STTProvider, TranscriptionRequest, TranscriptionResult, TranscriptWord } from './types.ts'
+
+const DEFAULT_TIMEOUT_MS = 120000
+
+// Pick the speech-to-text provider from the environment:
+//   STT_PROVIDER    elevenlabs | openai | openai-compatible | mock. Defaults to mock
+//                   when LLM_PROVIDER=mock (fully offline), otherwise elevenlabs
+//   STT_MODEL       scribe_v1 for elevenlabs, whisper-1 otherwise
+//   STT_BASE_URL    required for openai-compatible, e.g. http://localhost:8080/v1
+//   STT_API_KEY     key for openai-compatible servers that want one (OPENAI_API_KEY for
+//                   openai, ELEVENLABS_API_KEY for elevenlabs)
+//   STT_TIMEOUT_MS  request timeout, defaults to 120s
+//   STT_MOCK_TRANSCRIPT  optional text for the mock to return
+export function getSTTProvider(): STTProvider {
+  const fallback = (Deno.env.get('LLM_PROVIDER') || '').toLowerCase() === 'mock' ? 'mock' : 'elevenlabs'
+  const provider = (Deno.env.get('STT_PROVIDER') || fallback).toLowerCase()
+  const model = Deno.env.get('STT_MODEL')
+  const timeoutMs = Number(Deno.env.get('STT_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+
+  switch (provider) {
+    case 'elevenlabs':
+      return new ElevenLabsSTTProvider({
+        apiKey: requireEnv('ELEVENLABS_API_KEY'),
+        model: model || 'scribe_v1',
+        timeoutMs,
+      })
+
+    case 'openai':
+      return new OpenAISTTProvider({
+        name: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        model: model || 'whisper-1',
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        timeoutMs,
+      })
+
+    case 'openai-compatible':
+      return new OpenAISTTProvider({
+        name: 'STT server',
+        baseUrl: requireEnv('STT_BASE_URL'),
+        model: model || 'whisper-1',
+        apiKey: Deno.env.get('STT_API_KEY'),
+        timeoutMs,
+      })
+
+    case 'mock':
+      return new MockSTTProvider(Deno.env.get('STT_MOCK_TRANSCRIPT') || undefined)
+
+    default:
+      throw new ConfigurationError(`Unknown STT_PROVIDER "${provider}"`)
+  }
+}
@@ -0,0 +1,35 @@
+import { STTProvider, TranscriptionRequest, TranscriptionResult } from './types.ts'
+import { spreadWords } from './words.ts'
+
+export const DEFAULT_MOCK_TRANSCRIPT =
+  'Today was busier than I expected, but I took a short walk at lunch and it helped me reset. ' +
+  'I am grateful for the quiet evening and want to get to bed a little earlier tonight.'
+
+// Roughly how fast people talk, used to invent timings for the fixture
+const WORDS_PER_SECOND = 2.5
+
+// Deterministic transcriber for offline development: every recording "says" the
+// same thing, with evenly paced word timings so highlighting can be exercised
+export class MockSTTProvider implements STTProvider {
+  readonly name = 'mock'
+  readonly model = 'mock'
+  private readonly transcript: string
+
+  constructor(transcript: string = DEFAULT_MOCK_TRANSCRIPT) {
+    this.transcript = transcript
+  }
+
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const wordCount = this.transcript.split(/\s+/).filter(Boolean).length
+    const duration = Math.round((wordCount / WORDS_PER_SECOND) * 100) / 100
+
+    return Promise.resolve({
+      text: this.transcript,
+      language: request.language ?? 'en',
+      words: spreadWords(this.transcript, 0, duration),
+      duration,
+      provider: this.name,
+      model: this.model,
+    })
+  }
+}
@@ -0,0 +1,105 @@
+import { UpstreamError } from '../errors.ts'
+import { STTProvider, TranscriptionRequest, TranscriptionResult, TranscriptWord } from './types.ts'
+import { audioExtension, round, spreadWords, toLanguage } from './words.ts'
+
+interface OpenAISTTOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+interface VerboseWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface VerboseSegment {
+  text: string;
+  start: number;
+  end: number;
+  words?: VerboseWord[];
+}
+
+// The OpenAI /audio/transcriptions endpoint and servers that copy it: whisper.cpp's
+// server (started with --inference-path /v1/audio/transcriptions), faster-whisper-server,
+// LocalAI... Word timestamps come from `words` when the server returns them, then from
+// per-segment words, and otherwise are spread evenly over each segment.
+export class OpenAISTTProvider implements STTProvider {
+  readonly name: string
+  readonly model: string
+  private readonly options: OpenAISTTOptions
+
+  constructor(options: OpenAISTTOptions) {
+    this.name = options.name
+    this.model = options.model
+    this.options = options
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const form = new FormData()
+    form.append('file', request.audio, `reflection.${audioExtension(request.mimeType)}`)
+    form.append('model', this.model)
+    form.append('response_format', 'verbose_json')
+    form.append('timestamp_granularities[]', 'word')
+    form.append('timestamp_granularities[]', 'segment')
+    if (request.language) {
+      form.append('language', request.language)
+    }
+
+    const headers: Record<string, string> = {}
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+    } catch (error) {
+      throw new UpstreamError(this.name, `Transcription request failed: ${error.message}`)
+    }
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new UpstreamError(this.name, `${response.status} ${error}`)
+    }
+
+    const result = await response.json()
+    const segments: VerboseSegment[] = Array.isArray(result.segments) ? result.segments : []
+    const words = readWords(result.words, segments)
+
+    return {
+      text: (result.text || '').trim(),
+      language: toLanguage(result.language) ?? request.language ?? null,
+      words,
+      duration: typeof result.duration === 'number'
+        ? round(result.duration)
+        : words.length > 0 ? words[words.length - 1].end : null,
+      provider: this.name,
+      model: this.model,
+    }
+  }
+}
+
+function readWords(words: unknown, segments: VerboseSegment[]): TranscriptWord[] {
+  const toWord = (word: VerboseWord) => ({ text: word.word.trim(), start: round(word.start), end: round(word.end) })
+  const valid = (word: VerboseWord) =>
+    typeof word?.word === 'string' && word.word.trim() !== '' && typeof word.start === 'number' && typeof word.end === 'number'
+
+  if (Array.isArray(words) && words.length > 0) {
+    return (words as VerboseWord[]).filter(valid).map(toWord)
+  }
+
+  if (segments.some(segment => Array.isArray(segment.words) && segment.words.length > 0)) {
+    return segments.flatMap(segment => (segment.words ?? []).filter(valid).map(toWord))
+  }
+
+  return segments.flatMap(segment => spreadWords(segment.text || '', segment.start, segment.end))
+}
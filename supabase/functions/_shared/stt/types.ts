@@ -0,0 +1,33 @@
+import { Language } from '../language.ts'
+
+// Seconds from the start of the recording
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  // The browser's type for the recording, e.g. "audio/webm;codecs=opus"
+  mimeType: string;
+  // Hint for the spoken language; providers detect it themselves without one
+  language?: Language;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Detected (or hinted) language, when it is one the app supports
+  language: Language | null;
+  words: TranscriptWord[];
+  // Seconds of audio, when the provider reports it
+  duration: number | null;
+  provider: string;
+  model: string;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  readonly model: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,47 @@
+import { Language, isLanguage } from '../language.ts'
+import { TranscriptWord } from './types.ts'
+
+// Providers report languages as ISO 639-1 ("en"), ISO 639-3 ("eng") or by name
+// ("english", Whisper's verbose_json)
+const LANGUAGE_ALIASES: Record<string, Language> = {
+  eng: 'en', english: 'en',
+  spa: 'es', spanish: 'es',
+  deu: 'de', ger: 'de', german: 'de',
+  heb: 'he', hebrew: 'he', iw: 'he',
+}
+
+export function toLanguage(code: unknown): Language | null {
+  if (typeof code !== 'string') return null
+  const normalized = code.trim().toLowerCase().split(/[-_]/)[0]
+  if (isLanguage(normalized)) return normalized
+  return LANGUAGE_ALIASES[normalized] ?? null
+}
+
+// File extension for an upload's content type; some servers pick the decoder from it
+export function audioExtension(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase()
+  if (type.includes('ogg')) return 'ogg'
+  if (type.includes('mp4') || type.includes('m4a') || type.includes('aac')) return 'm4a'
+  if (type.includes('mpeg') || type.includes('mp3')) return 'mp3'
+  if (type.includes('wav')) return 'wav'
+  if (type.includes('flac')) return 'flac'
+  return 'webm'
+}
+
+// Approximate word timings by spreading a segment's time over its words in
+// proportion to their length. Used when a server only returns segment timestamps.
+export function spreadWords(text: string, start: number, end: number): TranscriptWord[] {
+  const tokens = text.trim().split(/\s+/).filter(Boolean)
+  const totalLength = tokens.reduce((sum, token) => sum + token.length, 0)
+  if (tokens.length === 0 || totalLength === 0 || end <= start) return []
+
+  const perChar = (end - start) / totalLength
+  let cursor = start
+  return tokens.map(token => {
+    const wordStart = cursor
+    cursor += token.length * perChar
+    return { text: token, start: round(wordStart), end: round(cursor) }
+  })
+}
+
+export const round = (seconds: number) => Math.round(seconds * 1000) / 1000
@@ -1,127 +1,146 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
-
-interface BodyAnalysisRequest {
-  front_image_url: string;
-  back_image_url: string;
-  preferences: {
-    height: string;
-    weight: string;
-    heightUnit: string;
-    weightUnit: string;
-    activities: string[];
-    foods: string;
-    allergies: string;
-    passions: string;
-    goals: string;
-    trainingDays: number;
-    enjoysCardio: boolean;
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { HttpError, UpstreamError } from '../_shared/errors.ts'
+import { chatJson, getLLMProvider, LLMProvider } from '../_shared/llm/index.ts'
+import { createAdminClient } from '../_shared/auth.ts'
+import { assertOwnObjectPath, downloadAsDataUrl } from '../_shared/storage.ts'
+import * as s from '../_shared/schema.ts'
+import { BodyAnalysis, BodyAnalysisSchema, renderNutritionPlan, renderWorkoutPlan } from './plan.ts'
+
+const BodyAnalysisRequestSchema = s.object({
+  // Object paths in the private body-analysis bucket, e.g. `<user_id>/front_123.jpg`
+  front_image_path: s.string({ min: 1, max: 512 }),
+  back_image_path: s.string({ min: 1, max: 512 }),
+  preferences: s.object({
+    height: s.string({ max: 20 }),
+    weight: s.string({ max: 20 }),
+    heightUnit: s.string({ max: 10 }),
+    weightUnit: s.string({ max: 10 }),
+    activities: s.array(s.string({ max: 100 }), { max: 50 }),
+    foods: s.string({ max: 1000 }),
+    allergies: s.string({ max: 1000 }),
+    passions: s.string({ max: 1000 }),
+    goals: s.string({ max: 1000 }),
+    trainingDays: s.number({ integer: true, min: 0, max: 7 }),
+    enjoysCardio: s.boolean(),
     // New personalization fields
-    injuries: string;
-    targetAreas: string;
-  };
-}
+    injuries: s.string({ max: 1000 }),
+    targetAreas: s.string({ max: 1000 }),
+  }),
+})
 
-interface BodyAnalysisResponse {
-  strengths: string;
-  weaknesses: string;
+type BodyPreferences = s.Infer<typeof BodyAnalysisRequestSchema>['preferences']
+
+interface BodyAnalysisResponse extends BodyAnalysis {
+  id: string; // body_feedback row the plan was saved as
   workout_plan: string;
   nutrition_advice: string;
-  motivational_message: string;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+serve(createHandler('analyze-body', async ({ req, user, supabase }) => {
+  const llm = await getLLMProvider()
+
+  const body = await readJson(req, BodyAnalysisRequestSchema)
+  const { preferences } = body
+  const front_image_path = assertOwnObjectPath(user, body.front_image_path)
+  const back_image_path = assertOwnObjectPath(user, body.back_image_path)
+
+  console.log(`Processing enhanced body analysis request with personalization for user ${user.id}...`)
+
+  // The bucket is private, so the photos are read with the service role (paths were
+  // checked against the caller above) and handed to the model inline
+  const admin = createAdminClient()
+  const [frontImage, backImage] = await Promise.all([
+    downloadAsDataUrl(admin, 'body-analysis', front_image_path),
+    downloadAsDataUrl(admin, 'body-analysis', back_image_path),
+  ])
+
+  // Analyze body with the configured vision-capable model using enhanced prompt
+  const analysis = await analyzeBody(
+    frontImage, 
+    backImage, 
+    preferences, 
+    llm
+  )
+
+  // Text versions for search, download and older clients
+  const workout_plan = renderWorkoutPlan(analysis.workout)
+  const nutrition_advice = renderNutritionPlan(analysis.nutrition)
+
+  const { height, weight, ...otherPreferences } = preferences
+  const { data: feedback, error: feedbackError } = await supabase
+    .from('body_feedback')
+    .insert([{
+      user_id: user.id,
+      front_image_url: front_image_path,
+      back_image_url: back_image_path,
+      height,
+      weight,
+      preferences: otherPreferences,
+      strengths: analysis.strengths,
+      weaknesses: analysis.weaknesses,
+      workout_plan,
+      nutrition_advice,
+      motivational_message: analysis.motivational_message,
+    }])
+    .select('id')
+    .single()
+
+  if (feedbackError) {
+    throw new UpstreamError('Database', `Failed to save body feedback: ${feedbackError.message}`)
   }
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+  // The structured plan lives alongside it so the app never has to re-parse the text
+  const { error: reportError } = await supabase
+    .from('body_coach_reports')
+    .insert([{
+      user_id: user.id,
+      body_feedback_id: feedback.id,
+      input_data: preferences,
+      analysis,
+    }])
+
+  if (reportError) {
+    await supabase.from('body_feedback').delete().eq('id', feedback.id)
+    throw new UpstreamError('Database', `Failed to save body coach report: ${reportError.message}`)
   }
 
-  try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
-    
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
+  // Keep the typed measurement history in step; the plan is already saved, so a
+  // failure here is logged rather than surfaced
+  const measurements = [
+    { metric: 'weight', value: Number(weight), unit: preferences.weightUnit === 'lbs' ? 'lbs' : 'kg' },
+    { metric: 'height', value: Number(height), unit: preferences.heightUnit === 'ft' ? 'ft' : 'cm' },
+  ].filter((measurement) => Number.isFinite(measurement.value) && measurement.value > 0)
+
+  if (measurements.length > 0) {
+    const { error: measurementError } = await supabase
+      .from('body_measurements')
+      .insert(measurements.map((measurement) => ({
+        ...measurement,
+        user_id: user.id,
+        body_feedback_id: feedback.id,
+      })))
+
+    if (measurementError) {
+      console.warn('Failed to record body measurements:', measurementError.message)
     }
+  }
 
-    // 2️⃣ Use Supabase Client with Authorization
-    const supabase = createClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        global: {
-          headers: { Authorization: authHeader }
-        }
-      }
-    );
-
-    const { front_image_url, back_image_url, preferences }: BodyAnalysisRequest = await req.json()
-    
-    console.log('Processing enhanced body analysis request with personalization...')
-
-    // Analyze body with OpenAI GPT-4 Vision API using enhanced prompt
-    const analysis = await analyzeBodyWithOpenAI(
-      front_image_url, 
-      back_image_url, 
-      preferences, 
-      OPENAI_API_KEY
-    )
-
-    return new Response(
-      JSON.stringify(analysis),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('Body analysis error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'Body analysis failed'
-      }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+  const response: BodyAnalysisResponse = {
+    id: feedback.id,
+    ...analysis,
+    workout_plan,
+    nutrition_advice,
   }
-})
+  return response
+}))
 
-async function analyzeBodyWithOpenAI(
+async function analyzeBody(
   frontImageUrl: string,
   backImageUrl: string,
-  preferences: any,
-  OPENAI_API_KEY: string
-): Promise<BodyAnalysisResponse> {
+  preferences: BodyPreferences,
+  llm: LLMProvider
+): Promise<BodyAnalysis> {
 
   const systemPrompt = `You are a professional fitness coach, certified personal trainer, and licensed nutritionist. 
 You help people build healthier lives through clear, actionable plans.
@@ -142,51 +161,61 @@ Your output should include:
 - Recommend the ideal weekly schedule (e.g., how many sessions and when).
 - When generating the plan, incorporate any injuries or goals the user shared.
 - Explicitly mention adjustments if there are injuries (e.g., "Since you have a shoulder injury, we will avoid overhead presses.").
-- Keep the **day-by-day schedule** format.
-- For each workout day, provide:
-   - Specific exercises (3–5 exercises per session)
-   - Sets and reps
-   - Rest recommendations
-- For each exercise, clearly list:
+- Give one entry per workout day, each with a short focus (e.g., "Upper Body Strength").
+- For each workout day, provide 3–5 specific exercises with:
   • Name
-  • Sets x Reps  
+  • Number of sets
+  • Reps (or a duration such as "30s")
   • Rest time
-- Use clear spacing and bullet points for readability.
 - If they dislike cardio, propose realistic alternatives (dance, hiking, or walking with friends).
 - If they don't do any workouts, suggest low-pressure activities to build consistency.
-- Add 1–2 motivational tips at the end.
+- Put the weekly schedule, injury adjustments and cardio notes in the overview.
+- Add 1–2 motivational tips.
 
 4️⃣ **Nutrition Advice**
 - Reference the user's goals (e.g., muscle gain, fat loss).
-- Provide a sample **one-day meal plan** with:
-   - Breakfast, Snack, Lunch, Snack, Dinner
-   - Approximate portion sizes or quantities
-- For each meal, include:
-  • Food Name
-  • Portion Size
-- List example foods for each meal that respect the user's tastes and allergies.
-- Keep paragraphs short, friendly, and easy to scan.
-- Include tips to optimize nutrition for their goals.
+- Provide a sample **one-day meal plan**: Breakfast, Snack, Lunch, Snack, Dinner.
+- For each meal, list the foods with an approximate portion size (e.g., "1 cup", "4 oz").
+- Choose foods that respect the user's tastes and allergies.
+- Keep the overview short, friendly, and easy to scan.
+- Add a hydration recommendation.
 - End with 2–3 actionable nutrition tips.
 
 5️⃣ **Motivational Message**
 - End with a warm, supportive paragraph reminding them that consistency matters more than perfection (e.g., "Rome wasn't built in a day").
 
 **Style Guidelines:**
-- Use headings like "🏋️ Personalized Workout Plan" and "🍽️ Nutrition Plan."
 - Avoid dense blocks of text.
 - Keep a warm, motivational tone.
-- Do not output JSON or code blocks.
 - Use friendly, encouraging language.
 - Be specific and actionable.
-- Ensure all responses are in plain text format, not structured objects.
 
 Respond with a JSON object in this exact format:
 {
   "strengths": "Your detailed strengths analysis here (2-3 sentences)",
-  "weaknesses": "Your constructive improvement areas here (2-3 sentences)", 
-  "workout_plan": "Your detailed workout plan with specific exercises, sets, reps, and schedule as a single text string using emojis and clear formatting",
-  "nutrition_advice": "Your detailed nutrition advice with sample meal plan and portions as a single text string using emojis and clear formatting",
+  "weaknesses": "Your constructive improvement areas here (2-3 sentences)",
+  "workout": {
+    "overview": "Weekly schedule, injury adjustments and cardio notes",
+    "days": [
+      {
+        "day": "Day 1",
+        "focus": "Upper Body Strength",
+        "exercises": [
+          { "name": "Push-ups", "sets": 3, "reps": "8-12", "rest": "60s", "notes": "Optional form cue" }
+        ],
+        "notes": "Optional note for the day"
+      }
+    ],
+    "tips": ["Motivational tip"]
+  },
+  "nutrition": {
+    "overview": "How this plan supports the user's goals",
+    "meals": [
+      { "name": "Breakfast", "foods": [{ "name": "Greek yogurt", "portion": "1 cup" }] }
+    ],
+    "hydration": "Hydration recommendation",
+    "tips": ["Actionable nutrition tip"]
+  },
   "motivational_message": "Your warm motivational message about consistency over perfection"
 }`
 
@@ -214,176 +243,47 @@ Please provide a comprehensive analysis with specific workout plans including ex
 IMPORTANT: 
 - If there are injuries mentioned, explicitly address them in the workout plan with modifications
 - Focus the workout plan on the target areas they want to improve
-- Return all fields as text strings with clear formatting and emojis, not structured objects
-- Use the style guidelines provided (🏋️ headings, bullet points, clear spacing)`
+- Include one workout day for each training day per week (at least one)`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: userPrompt
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: frontImageUrl,
-                  detail: 'high'
-                }
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: backImageUrl,
-                  detail: 'high'
-                }
+    return await chatJson(llm, {
+      task: 'body-analysis',
+      schema: BodyAnalysisSchema,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: userPrompt
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: frontImageUrl,
+                detail: 'high'
               }
-            ]
-          }
-        ],
-        temperature: 0.65,
-        max_tokens: 1500,
-        response_format: { type: "json_object" }
-      }),
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: backImageUrl,
+                detail: 'high'
+              }
+            }
+          ]
+        }
+      ],
+      temperature: 0.65,
+      maxTokens: 1500
     })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} ${error}`)
-    }
-
-    const completion = await response.json()
-    const rawText = completion.choices[0].message.content
-
-    try {
-      const result = JSON.parse(rawText)
-      
-      // Validate the response structure
-      if (!result.strengths || !result.weaknesses || !result.workout_plan || 
-          !result.nutrition_advice || !result.motivational_message) {
-        throw new Error('Invalid response format from OpenAI')
-      }
-
-      // Ensure all fields are strings, not objects
-      const sanitizedResult: BodyAnalysisResponse = {
-        strengths: typeof result.strengths === 'string' ? result.strengths : JSON.stringify(result.strengths),
-        weaknesses: typeof result.weaknesses === 'string' ? result.weaknesses : JSON.stringify(result.weaknesses),
-        workout_plan: typeof result.workout_plan === 'string' ? result.workout_plan : JSON.stringify(result.workout_plan),
-        nutrition_advice: typeof result.nutrition_advice === 'string' ? result.nutrition_advice : JSON.stringify(result.nutrition_advice),
-        motivational_message: typeof result.motivational_message === 'string' ? result.motivational_message : JSON.stringify(result.motivational_message)
-      }
-
-      return sanitizedResult
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError)
-      
-      // Enhanced fallback response with personalization
-      const injuryAdjustment = preferences.injuries && preferences.injuries.toLowerCase() !== 'none' && preferences.injuries.trim() !== '' 
-        ? `Since you mentioned ${preferences.injuries}, we'll modify exercises to avoid aggravating this condition. ` 
-        : '';
-      
-      const targetAreasFocus = preferences.targetAreas 
-        ? `This plan specifically targets ${preferences.targetAreas} as requested. ` 
-        : '';
-
-      return {
-        strengths: "You demonstrate excellent commitment to your health journey by taking this important step and being so thorough with your information! Your willingness to invest in personal wellness and share specific details about your goals shows a positive mindset that will drive your success. There's tremendous potential for transformation and growth ahead.",
-        
-        weaknesses: "Like all fitness journeys, there are opportunities to build greater consistency in your routine and gradually increase physical challenges. " + 
-                   (preferences.injuries && preferences.injuries.toLowerCase() !== 'none' ? `We'll need to work carefully around your ${preferences.injuries} to ensure safe progress. ` : '') +
-                   "Focus on developing sustainable habits that align with your lifestyle and preferences for long-term success.",
-        
-        workout_plan: `🏋️ **Personalized Workout Plan**
-
-${injuryAdjustment}${targetAreasFocus}
-
-**Weekly Schedule (${preferences.trainingDays} days/week):**
-
-**Day 1 - Upper Body Strength:**
-• Push-ups: 3 sets of 8-12 reps
-• Bodyweight rows: 3 sets of 6-10 reps  
-• Shoulder press: 3 sets of 10-15 reps${preferences.injuries && preferences.injuries.toLowerCase().includes('shoulder') ? ' (modified - use light weights)' : ''}
-• Plank hold: 3 sets of 30-60 seconds
-• Rest: 60-90 seconds between sets
-
-**Day 2 - Lower Body & Core:**
-• Squats: 3 sets of 12-15 reps
-• Lunges: 3 sets of 10 per leg${preferences.injuries && preferences.injuries.toLowerCase().includes('knee') ? ' (shorter range of motion)' : ''}
-• Glute bridges: 3 sets of 15-20 reps
-• Dead bug: 3 sets of 10 per side
-• Rest: 60-90 seconds between sets
-
-${preferences.trainingDays >= 3 ? `**Day 3 - Full Body Circuit:**
-• Burpees: 3 sets of 5-8 reps${preferences.injuries && preferences.injuries.toLowerCase().includes('back') ? ' (step back version)' : ''}
-• Mountain climbers: 3 sets of 20 total
-• Wall sit: 3 sets of 30-45 seconds
-• Russian twists: 3 sets of 20 total
-• Rest: 45-60 seconds between exercises
-
-` : ''}${!preferences.enjoysCardio ? '**Cardio Alternative:** Try 20-30 minutes of dancing, hiking, or recreational sports 2x per week.' : '**Cardio:** Add 20-30 minutes of walking, cycling, or swimming 2-3x per week.'}
-
-**💪 Motivational Tips:**
-• Start with lighter weights and focus on proper form
-• Progress gradually - consistency beats intensity every time!`,
-
-        nutrition_advice: `🍽️ **Nutrition Plan**
-
-Designed to support ${preferences.goals.toLowerCase().includes('muscle') ? 'muscle building' : preferences.goals.toLowerCase().includes('fat') ? 'fat loss' : 'your fitness goals'}.
-
-**Sample One-Day Meal Plan:**
-
-**Breakfast:**
-• 2 whole eggs + 1 slice whole grain toast
-• 1 cup mixed berries
-• 1 cup green tea or coffee
-
-**Mid-Morning Snack:**
-• 1 apple with 2 tbsp almond butter
-
-**Lunch:**
-• 4 oz grilled chicken or tofu
-• 1 cup quinoa or brown rice
-• 2 cups mixed vegetables (steamed or roasted)
-• 1 tbsp olive oil
-
-**Afternoon Snack:**
-• Greek yogurt (1 cup) with handful of nuts
-
-**Dinner:**
-• 4 oz lean protein (fish, chicken, or beans)
-• Large mixed salad with olive oil dressing
-• 1 cup roasted vegetables
-
-**💧 Hydration:** Aim for 8-10 glasses of water daily
-
-**🥗 Nutrition Tips:**
-• ${preferences.allergies ? `Avoid: ${preferences.allergies}. ` : ''}Include foods you enjoy like ${preferences.foods} in moderation
-• Focus on whole, unprocessed options for 80% of your meals
-• Meal prep on weekends to stay consistent during busy weekdays`,
-
-        motivational_message: "Remember, Rome wasn't built in a day, and your fitness journey is a marathon, not a sprint! " + 
-                             (preferences.injuries ? "Even with your physical limitations, every small step you take today builds the foundation for tomorrow's success. " : "Every small step you take today builds the foundation for tomorrow's success. ") +
-                             "Consistency matters far more than perfection – it's better to do something small every day than to attempt perfection and burn out. " +
-                             (preferences.targetAreas ? `Your focus on ${preferences.targetAreas} shows clear direction, and this targeted approach will help you see results faster. ` : "") +
-                             "Trust the process, celebrate small wins, and be patient with yourself. Your commitment to improving your health is already a victory worth celebrating. You have everything within you to achieve your goals – stay consistent, stay positive, and embrace every part of this transformative journey!"
-      }
-    }
   } catch (error) {
-    console.error('OpenAI API error:', error)
-    throw new Error(`Body analysis failed: ${error.message}`)
+    console.error(`${llm.name} error:`, error)
+    if (error instanceof HttpError) throw error
+    throw new UpstreamError(llm.name, `Body analysis failed: ${error.message}`)
   }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import * as s from '../_shared/schema.ts'
+
+// Structured plan the model returns for the 'body-analysis' prompt. The same data is
+// stored in body_coach_reports.analysis, and the text columns of body_feedback are
+// rendered from it with renderWorkoutPlan/renderNutritionPlan below.
+const ExerciseSchema = s.object({
+  name: s.string({ min: 1, max: 200 }),
+  sets: s.number({ integer: true, min: 1, max: 20 }),
+  reps: s.string({ min: 1, max: 50 }), // "10", "8-12", "30s", "10 per leg"
+  rest: s.string({ min: 1, max: 50 }), // "60s", "1-2 min"
+  notes: s.optional(s.string({ max: 500 })),
+})
+
+const WorkoutDaySchema = s.object({
+  day: s.string({ min: 1, max: 100 }), // "Day 1" or "Monday"
+  focus: s.string({ min: 1, max: 200 }),
+  exercises: s.array(ExerciseSchema, { min: 1, max: 10 }),
+  notes: s.optional(s.string({ max: 500 })),
+})
+
+const WorkoutPlanSchema = s.object({
+  overview: s.string({ min: 1, max: 2000 }),
+  days: s.array(WorkoutDaySchema, { min: 1, max: 7 }),
+  tips: s.array(s.string({ min: 1, max: 500 }), { max: 5 }),
+})
+
+const FoodSchema = s.object({
+  name: s.string({ min: 1, max: 200 }),
+  portion: s.string({ min: 1, max: 100 }),
+})
+
+const MealSchema = s.object({
+  name: s.string({ min: 1, max: 100 }),
+  foods: s.array(FoodSchema, { min: 1, max: 10 }),
+})
+
+const NutritionPlanSchema = s.object({
+  overview: s.string({ min: 1, max: 2000 }),
+  meals: s.array(MealSchema, { min: 1, max: 8 }),
+  hydration: s.optional(s.string({ max: 500 })),
+  tips: s.array(s.string({ min: 1, max: 500 }), { max: 5 }),
+})
+
+export const BodyAnalysisSchema = s.object({
+  strengths: s.string({ min: 1, max: 3000 }),
+  weaknesses: s.string({ min: 1, max: 3000 }),
+  workout: WorkoutPlanSchema,
+  nutrition: NutritionPlanSchema,
+  motivational_message: s.string({ min: 1, max: 3000 }),
+})
+
+export type BodyAnalysis = s.Infer<typeof BodyAnalysisSchema>
+export type WorkoutPlan = s.Infer<typeof WorkoutPlanSchema>
+export type NutritionPlan = s.Infer<typeof NutritionPlanSchema>
+
+export function renderWorkoutPlan(plan: WorkoutPlan): string {
+  const days = plan.days.map((day) => {
+    const exercises = day.exercises.map((exercise) =>
+      `• ${exercise.name}: ${exercise.sets} x ${exercise.reps} (rest ${exercise.rest})` +
+      (exercise.notes ? `\n  ${exercise.notes}` : '')
+    )
+    return [`${day.day} - ${day.focus}:`, ...exercises, ...(day.notes ? [day.notes] : [])].join('\n')
+  })
+
+  const sections = ['🏋️ Personalized Workout Plan', plan.overview, ...days]
+  if (plan.tips.length > 0) {
+    sections.push(['💪 Tips:', ...plan.tips.map((tip) => `• ${tip}`)].join('\n'))
+  }
+  return sections.join('\n\n')
+}
+
+export function renderNutritionPlan(plan: NutritionPlan): string {
+  const meals = plan.meals.map((meal) =>
+    [`${meal.name}:`, ...meal.foods.map((food) => `• ${food.name} - ${food.portion}`)].join('\n')
+  )
+
+  const sections = ['🍽️ Nutrition Plan', plan.overview, ...meals]
+  if (plan.hydration) {
+    sections.push(`💧 Hydration: ${plan.hydration}`)
+  }
+  if (plan.tips.length > 0) {
+    sections.push(['🥗 Tips:', ...plan.tips.map((tip) => `• ${tip}`)].join('\n'))
+  }
+  return sections.join('\n\n')
+}
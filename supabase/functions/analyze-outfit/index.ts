@@ -1,100 +1,50 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readFormData } from '../_shared/handler.ts'
+import { BadRequestError, HttpError, UpstreamError } from '../_shared/errors.ts'
+import { chatJson, getLLMProvider, LLMProvider } from '../_shared/llm/index.ts'
+import * as s from '../_shared/schema.ts'
+
+// Shape the model must return for the 'outfit-analysis' prompt
+const OutfitAnalysisSchema = s.object({
+  positive_comments: s.array(s.string({ min: 1, max: 500 }), { min: 1, max: 5 }),
+  suggestions: s.array(s.string({ min: 1, max: 500 }), { max: 5 }),
+  style_rating: s.number({ min: 1, max: 10 }),
+})
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
+type OutfitAnalysisResponse = s.Infer<typeof OutfitAnalysisSchema>
 
-interface OutfitAnalysisResponse {
-  positive_comments: string[];
-  suggestions: string[];
-  style_rating: number;
-}
+serve(createHandler('analyze-outfit', async ({ req }) => {
+  const llm = await getLLMProvider()
+
+  // Get the uploaded image from form data
+  const formData = await readFormData(req)
+  const imageFile = formData.get('image')
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+  if (!(imageFile instanceof File)) {
+    throw new BadRequestError('No image file provided')
   }
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+  // Validate file type
+  const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
+  if (!allowedTypes.includes(imageFile.type)) {
+    throw new BadRequestError('Invalid file type. Please upload a JPEG, PNG, or WebP image.')
   }
 
-  try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-    
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
+  // Convert image to base64
+  const imageBuffer = await imageFile.arrayBuffer()
+  const base64Image = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)))
+  const mimeType = imageFile.type
 
-    // Get the uploaded image from form data
-    const formData = await req.formData()
-    const imageFile = formData.get('image') as File
-    
-    if (!imageFile) {
-      throw new Error('No image file provided')
-    }
+  console.log('Processing outfit analysis for image:', imageFile.name, imageFile.type)
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
-    if (!allowedTypes.includes(imageFile.type)) {
-      throw new Error('Invalid file type. Please upload a JPEG, PNG, or WebP image.')
-    }
+  // Analyze outfit with the configured vision-capable model
+  return await analyzeOutfit(base64Image, mimeType, llm)
+}))
 
-    // Convert image to base64
-    const imageBuffer = await imageFile.arrayBuffer()
-    const base64Image = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)))
-    const mimeType = imageFile.type
-
-    console.log('Processing outfit analysis for image:', imageFile.name, imageFile.type)
-
-    // Analyze outfit using OpenAI GPT-4 Vision API
-    const analysis = await analyzeOutfitWithOpenAI(base64Image, mimeType, OPENAI_API_KEY)
-
-    return new Response(
-      JSON.stringify(analysis),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('Outfit analysis error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'Outfit analysis failed'
-      }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
-  }
-})
-
-async function analyzeOutfitWithOpenAI(
+async function analyzeOutfit(
   base64Image: string, 
   mimeType: string, 
-  OPENAI_API_KEY: string
+  llm: LLMProvider
 ): Promise<OutfitAnalysisResponse> {
   
   const systemPrompt = `You are an expert fashion designer and stylist.
@@ -118,94 +68,48 @@ If the outfit is already excellent and needs no improvements, set "suggestions"
   const userMessage = "Please analyze this outfit photo and provide fashion feedback."
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: userMessage
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                  detail: 'high'
-                }
+    const analysis = await chatJson(llm, {
+      task: 'outfit-analysis',
+      schema: OutfitAnalysisSchema,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: userMessage
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:${mimeType};base64,${base64Image}`,
+                detail: 'high'
               }
-            ]
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.7,
-        response_format: { type: "json_object" }
-      }),
+            }
+          ]
+        }
+      ],
+      maxTokens: 1000,
+      temperature: 0.7
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} ${error}`)
+    // Ensure we have exactly 3 positive comments
+    while (analysis.positive_comments.length < 3) {
+      analysis.positive_comments.push('Your overall style shows great fashion sense!')
     }
 
-    const completion = await response.json()
-    const content = completion.choices[0].message.content
-
-    try {
-      const analysis = JSON.parse(content)
-      
-      // Validate the response structure
-      if (!analysis.positive_comments || !Array.isArray(analysis.positive_comments) ||
-          !analysis.suggestions || !Array.isArray(analysis.suggestions) ||
-          typeof analysis.style_rating !== 'number') {
-        throw new Error('Invalid response format from OpenAI')
-      }
-
-      // Ensure we have exactly 3 positive comments
-      if (analysis.positive_comments.length < 3) {
-        while (analysis.positive_comments.length < 3) {
-          analysis.positive_comments.push('Your overall style shows great fashion sense!')
-        }
-      }
-      analysis.positive_comments = analysis.positive_comments.slice(0, 3)
-
-      // Ensure suggestions array is valid (0-3 items)
-      analysis.suggestions = analysis.suggestions.slice(0, 3)
-
-      // Ensure rating is within valid range
-      analysis.style_rating = Math.max(1, Math.min(10, analysis.style_rating))
-
-      return analysis as OutfitAnalysisResponse
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError)
-      // Fallback response
-      return {
-        positive_comments: [
-          "Your outfit shows great personal style!",
-          "The color choices work well together.",
-          "You have a good eye for putting pieces together."
-        ],
-        suggestions: [
-          "Consider experimenting with different accessories to add more personality.",
-          "Playing with textures could add more visual interest to your look.",
-          "A different silhouette might enhance your overall style."
-        ],
-        style_rating: 7
-      }
+    return {
+      positive_comments: analysis.positive_comments.slice(0, 3),
+      suggestions: analysis.suggestions.slice(0, 3), // 0-3 items
+      style_rating: Math.round(analysis.style_rating)
     }
   } catch (error) {
-    console.error('OpenAI API error:', error)
-    throw new Error(`Fashion analysis failed: ${error.message}`)
+    console.error(`${llm.name} error:`, error)
+    if (error instanceof HttpError) throw error
+    throw new UpstreamError(llm.name, `Fashion analysis failed: ${error.message}`)
   }
 }
\ No newline at end of file
@@ -1,119 +1,83 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { ConfigurationError } from '../_shared/errors.ts'
+import { EmotionAnalysis, classifyEmotions, summarizeEmotions } from '../_shared/emotions.ts'
+import { DEFAULT_LANGUAGE, Language, SUPPORTED_LANGUAGES, detectLanguage } from '../_shared/language.ts'
+import { chatJson, getLLMProvider } from '../_shared/llm/index.ts'
+import * as s from '../_shared/schema.ts'
+
+const SentimentRequestSchema = s.object({
+  text: s.string({ max: 20000 }),
+  // Used when the text is too short to tell, typically the user's preferred language
+  language: s.optional(s.oneOf(SUPPORTED_LANGUAGES)),
+})
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
-
-interface SentimentRequest {
-  text: string;
-}
-
-interface SentimentResponse {
-  sentiment: 'positive' | 'neutral' | 'negative';
-  confidence: number;
-}
+const intensity = () => s.number({ min: 0, max: 1 })
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+// Shape the model must return for the 'emotions' prompt
+const EmotionScoresSchema = s.object({
+  joy: intensity(),
+  sadness: intensity(),
+  anger: intensity(),
+  fear: intensity(),
+  surprise: intensity(),
+  calm: intensity(),
+})
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+// EMOTION_ANALYZER picks the model:
+//   local (default) - word lists with negation, intensifier and emoji handling; no network
+//   llm             - the configured chat model (see _shared/llm), falling back to local on failure
+serve(createHandler('analyze-sentiment', async ({ req }) => {
+  const { text, language: hint } = await readJson(req, SentimentRequestSchema)
+  const analyzer = (Deno.env.get('EMOTION_ANALYZER') || 'local').toLowerCase()
+  const language = detectLanguage(text) ?? hint ?? DEFAULT_LANGUAGE
+
+  let analysis: EmotionAnalysis
+  switch (analyzer) {
+    case 'local':
+      analysis = classifyEmotions(text, language)
+      break
+    case 'llm':
+      analysis = await analyzeWithLLM(text, language)
+      break
+    default:
+      throw new ConfigurationError(`Unknown EMOTION_ANALYZER "${analyzer}"`)
   }
 
-  try {
-    const { text }: SentimentRequest = await req.json()
+  return { ...analysis, language, analyzer }
+}))
 
-    // Simple sentiment analysis implementation
-    // In production, you would use a proper AI service like OpenAI, Azure Cognitive Services, etc.
-    const sentiment = analyzeSentiment(text);
+// Emotions feed charts and recaps but never block saving a reflection, so a model
+// failure degrades to the local classifier instead of failing the request
+async function analyzeWithLLM(text: string, language: Language): Promise<EmotionAnalysis> {
+  if (!text.trim()) return classifyEmotions(text, language)
 
-    const response: SentimentResponse = {
-      sentiment: sentiment.sentiment,
-      confidence: sentiment.confidence,
-    };
-
-    return new Response(
-      JSON.stringify(response),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
+  try {
+    const llm = await getLLMProvider()
+    const emotions = await chatJson(llm, {
+      task: 'emotions',
+      schema: EmotionScoresSchema,
+      messages: [
+        {
+          role: 'system',
+          content: `You rate the emotions in a personal journal entry.
+
+For each of joy, sadness, anger, fear, surprise and calm give an intensity from 0 (absent) to 1 (overwhelming).
+The entry may be written in any language; rate it in that language, do not translate it first.
+Rate what the writer feels, not what they describe others feeling. Negations matter: "not happy" is not joy.
+
+Respond with a JSON object in this exact format:
+{ "joy": 0.0, "sadness": 0.0, "anger": 0.0, "fear": 0.0, "surprise": 0.0, "calm": 0.0 }`
+        },
+        { role: 'user', content: text }
+      ],
+      temperature: 0,
+      maxTokens: 100
+    })
+
+    return summarizeEmotions(emotions)
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+    console.error('LLM emotion analysis failed, using local classifier:', error)
+    return classifyEmotions(text, language)
   }
-})
-
-function analyzeSentiment(text: string): { sentiment: 'positive' | 'neutral' | 'negative'; confidence: number } {
-  const positiveWords = [
-    'happy', 'joy', 'love', 'amazing', 'wonderful', 'great', 'excellent', 'fantastic',
-    'good', 'awesome', 'brilliant', 'perfect', 'beautiful', 'success', 'achievement',
-    'grateful', 'thankful', 'blessed', 'excited', 'motivated', 'confident', 'proud',
-    'peaceful', 'content', 'satisfied', 'delighted', 'thrilled', 'optimistic'
-  ];
-
-  const negativeWords = [
-    'sad', 'angry', 'hate', 'terrible', 'awful', 'bad', 'horrible', 'disappointed',
-    'frustrated', 'stressed', 'anxious', 'worried', 'depressed', 'lonely', 'tired',
-    'exhausted', 'overwhelmed', 'difficult', 'challenging', 'struggle', 'pain',
-    'hurt', 'upset', 'annoyed', 'irritated', 'confused', 'lost', 'hopeless'
-  ];
-
-  const words = text.toLowerCase().split(/\s+/);
-  let positiveCount = 0;
-  let negativeCount = 0;
-
-  words.forEach(word => {
-    // Remove punctuation
-    const cleanWord = word.replace(/[^\w]/g, '');
-    
-    if (positiveWords.includes(cleanWord)) {
-      positiveCount++;
-    } else if (negativeWords.includes(cleanWord)) {
-      negativeCount++;
-    }
-  });
-
-  const totalSentimentWords = positiveCount + negativeCount;
-  
-  if (totalSentimentWords === 0) {
-    return { sentiment: 'neutral', confidence: 0.5 };
-  }
-
-  const positiveRatio = positiveCount / totalSentimentWords;
-  const confidence = Math.min(totalSentimentWords / words.length * 2, 1);
-
-  if (positiveRatio > 0.6) {
-    return { sentiment: 'positive', confidence };
-  } else if (positiveRatio < 0.4) {
-    return { sentiment: 'negative', confidence };
-  } else {
-    return { sentiment: 'neutral', confidence };
-  }
-}
\ No newline at end of file
+}
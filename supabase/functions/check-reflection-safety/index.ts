@@ -0,0 +1,55 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { createAdminClient } from '../_shared/auth.ts'
+import { NotFoundError, UpstreamError } from '../_shared/errors.ts'
+import { SAFETY_CLASSIFIER_VERSION, assessRisk } from '../_shared/safety.ts'
+import * as s from '../_shared/schema.ts'
+
+const SafetyRequestSchema = s.object({
+  reflection_id: s.string({ min: 1, max: 64 }),
+})
+
+// Runs after a reflection is saved or edited. The reflection is read with the
+// caller's client, so RLS confirms it is theirs; the flag is written with the
+// admin client because users can read their flags but never write or delete them.
+// Nothing is sent anywhere else: the result goes back to the caller only.
+serve(createHandler('check-reflection-safety', async ({ req, user, supabase }) => {
+  const { reflection_id } = await readJson(req, SafetyRequestSchema)
+
+  const { data: reflection, error: reflectionError } = await supabase
+    .from('reflections')
+    .select('id, content, version')
+    .eq('id', reflection_id)
+    .maybeSingle()
+
+  if (reflectionError) {
+    throw new UpstreamError('Database', `Failed to load reflection: ${reflectionError.message}`)
+  }
+  if (!reflection) {
+    throw new NotFoundError('Reflection not found')
+  }
+
+  const assessment = assessRisk(reflection.content)
+  if (assessment.level === 'none') {
+    return assessment
+  }
+
+  // Re-checking the same version (e.g. a retried request) keeps the original flag
+  const { error: flagError } = await createAdminClient()
+    .from('safety_flags')
+    .upsert([{
+      user_id: user.id,
+      reflection_id: reflection.id,
+      reflection_version: reflection.version,
+      level: assessment.level,
+      categories: assessment.categories,
+      classifier: SAFETY_CLASSIFIER_VERSION,
+    }], { onConflict: 'reflection_id,reflection_version,classifier', ignoreDuplicates: true })
+
+  // The user still needs to see the resources even if the audit write failed
+  if (flagError) {
+    console.error('Failed to record safety flag:', flagError)
+  }
+
+  return assessment
+}))
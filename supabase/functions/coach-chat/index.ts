@@ -0,0 +1,158 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { NotFoundError, UpstreamError } from '../_shared/errors.ts'
+import { ChatMessage, getLLMProvider } from '../_shared/llm/index.ts'
+import { getPreferredLanguage, languageInstruction } from '../_shared/language.ts'
+import { buildMemoryContext } from '../_shared/memory.ts'
+import { assessRisk } from '../_shared/safety.ts'
+import * as s from '../_shared/schema.ts'
+
+const CoachChatSchema = s.object({
+  coach_id: s.string({ min: 1, max: 64 }),
+  message: s.string({ min: 1, max: 4000 }),
+})
+
+// Turns replayed to the model. Older messages stay in the table but are not sent.
+const HISTORY_LIMIT = 20
+
+// Added after every coach's own prompt, which the user wrote and may be brief
+const GROUND_RULES = `You are a coach inside a personal journaling and wellbeing app. Stay in the role, tone and focus described above.
+You are not a therapist or doctor: do not diagnose, and suggest a professional when something is beyond coaching.
+Keep replies conversational and under 200 words. Ask at most one question at a time.`
+
+// Replaces the coaching brief for a turn where the user's message reads as a crisis
+const SAFETY_BRIEF = `The user's latest message contains language that may mean they are in crisis or thinking about harming themselves.
+For this reply, set the coaching focus aside. Respond warmly and without judgement, acknowledge what they said, and gently encourage them to reach out to someone they trust or a crisis line, or emergency services if they might be in danger.
+Mention that support lines are shown in the app. Do not give exercises, plans or advice in this reply.`
+
+// Streams the coach's reply as plain text. The user's message is stored once the model
+// has started answering, so a provider failure leaves no unanswered question behind,
+// and the reply once it has finished, so a dropped connection never leaves a reply
+// without the question that prompted it.
+serve(createHandler('coach-chat', async ({ req, user, supabase }) => {
+  const { coach_id, message } = await readJson(req, CoachChatSchema)
+
+  const { data: coach, error: coachError } = await supabase
+    .from('user_coaches')
+    .select('id, coach_name, system_prompt, initial_message')
+    .eq('id', coach_id)
+    .maybeSingle()
+
+  if (coachError) {
+    throw new UpstreamError('Database', `Failed to load coach: ${coachError.message}`)
+  }
+  if (!coach) {
+    throw new NotFoundError('Coach not found')
+  }
+
+  const { data: recent, error: historyError } = await supabase
+    .from('coach_messages')
+    .select('role, content')
+    .eq('coach_id', coach.id)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (historyError) {
+    throw new UpstreamError('Database', `Failed to load conversation: ${historyError.message}`)
+  }
+
+  const risk = assessRisk(message)
+  const language = await getPreferredLanguage(supabase, user.id)
+  // Left out of a crisis turn, where goals and commitments are beside the point
+  const memory = risk.level === 'none' ? await buildMemoryContext(supabase, user.id) : ''
+
+  const history: ChatMessage[] = (recent || [])
+    .reverse()
+    .map((row: { role: 'user' | 'assistant'; content: string }) => ({ role: row.role, content: row.content }))
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: [
+        coach.system_prompt,
+        GROUND_RULES,
+        ...(memory ? [`What you know about the user from their journal and earlier recaps. Draw on it naturally when relevant; don't recite it:\n${memory}`] : []),
+        languageInstruction(language),
+        ...(risk.level !== 'none' ? [SAFETY_BRIEF] : []),
+      ].join('\n\n'),
+    },
+    // The greeting the user saw when the conversation started
+    ...(history.length === 0 ? [{ role: 'assistant' as const, content: coach.initial_message }] : history),
+    { role: 'user', content: message.trim() },
+  ]
+
+  const llm = await getLLMProvider()
+  const iterator = llm.stream({
+    task: 'coach-chat',
+    messages,
+    temperature: 0.7,
+    maxTokens: 500,
+  })[Symbol.asyncIterator]()
+
+  // Wait for the first fragment so a provider failure still becomes a proper error
+  // response instead of an empty 200 stream
+  const first = await iterator.next()
+
+  const { error: insertError } = await supabase
+    .from('coach_messages')
+    .insert({ user_id: user.id, coach_id: coach.id, role: 'user', content: message.trim() })
+
+  if (insertError) {
+    await iterator.return?.()
+    throw new UpstreamError('Database', `Failed to save message: ${insertError.message}`)
+  }
+
+  let reply = ''
+  let saved = false
+  const saveReply = async () => {
+    if (saved || !reply.trim()) return
+    saved = true
+    const { error } = await supabase
+      .from('coach_messages')
+      .insert({ user_id: user.id, coach_id: coach.id, role: 'assistant', content: reply.trim() })
+    if (error) {
+      console.error('Failed to save coach reply:', error)
+    }
+  }
+
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (!first.done) {
+        reply += first.value
+        controller.enqueue(encoder.encode(first.value))
+      }
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next()
+        if (done) {
+          await saveReply()
+          controller.close()
+          return
+        }
+        reply += value
+        controller.enqueue(encoder.encode(value))
+      } catch (error) {
+        console.error('Coach reply stream failed:', error)
+        await saveReply()
+        controller.error(error)
+      }
+    },
+    // The client went away; keep what was said so far
+    async cancel() {
+      await iterator.return?.()
+      await saveReply()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'x-safety-level': risk.level,
+    },
+  })
+}))
@@ -0,0 +1,130 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { NotFoundError, UpstreamError } from '../_shared/errors.ts'
+import { EmbeddingProvider, getEmbeddingProvider } from '../_shared/llm/index.ts'
+import * as s from '../_shared/schema.ts'
+
+const SimilarRequestSchema = s.object({
+  reflection_id: s.string({ min: 1, max: 64 }),
+  limit: s.optional(s.number({ integer: true, min: 1, max: 20 })),
+})
+
+// Embeddings are filled in lazily, a bounded number per request, so a first search
+// over a long journal does not hit the function timeout. The source reflection is
+// always embedded first; older ones catch up on later searches.
+const MAX_EMBEDDINGS_PER_REQUEST = 200
+const EMBEDDING_BATCH_SIZE = 50
+
+// The user client from the handler context is bound to the caller, so RLS keeps
+// every read and write inside their own journal
+serve(createHandler('find-similar-reflections', async ({ req, user, supabase }) => {
+  const { reflection_id, limit = 5 } = await readJson(req, SimilarRequestSchema)
+  const embedder = getEmbeddingProvider()
+
+  const { data: source, error: sourceError } = await supabase
+    .from('reflections')
+    .select('id')
+    .eq('id', reflection_id)
+    .maybeSingle()
+
+  if (sourceError) {
+    throw new UpstreamError('Database', `Failed to load reflection: ${sourceError.message}`)
+  }
+  if (!source) {
+    throw new NotFoundError('Reflection not found')
+  }
+
+  const embedded = await syncEmbeddings(supabase, user.id, embedder, reflection_id)
+
+  const { data: matches, error: matchError } = await supabase.rpc('match_reflections', {
+    source_reflection_id: reflection_id,
+    embedding_model: embedder.model,
+    match_count: limit,
+  })
+
+  if (matchError) {
+    throw new UpstreamError('Database', `Similarity search failed: ${matchError.message}`)
+  }
+
+  return {
+    matches: matches ?? [],
+    provider: embedder.name,
+    model: embedder.model,
+    newly_embedded: embedded,
+  }
+}))
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Embed reflections that have no vector for this model yet, or whose content changed
+// since it was embedded. Returns how many were (re)embedded.
+async function syncEmbeddings(
+  supabase: SupabaseClient,
+  userId: string,
+  embedder: EmbeddingProvider,
+  sourceId: string
+): Promise<number> {
+  const [reflectionsResult, embeddingsResult] = await Promise.all([
+    supabase
+      .from('reflections')
+      .select('id, content')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('reflection_embeddings')
+      .select('reflection_id, content_hash')
+      .eq('user_id', userId)
+      .eq('model', embedder.model),
+  ])
+
+  if (reflectionsResult.error) {
+    throw new UpstreamError('Database', `Failed to load reflections: ${reflectionsResult.error.message}`)
+  }
+  if (embeddingsResult.error) {
+    throw new UpstreamError('Database', `Failed to load embeddings: ${embeddingsResult.error.message}`)
+  }
+
+  const existing = new Map(
+    (embeddingsResult.data ?? []).map((row: { reflection_id: string; content_hash: string }) => [row.reflection_id, row.content_hash])
+  )
+
+  const pending: { id: string; content: string; hash: string }[] = []
+  for (const reflection of reflectionsResult.data ?? []) {
+    const hash = await sha256(reflection.content)
+    if (existing.get(reflection.id) !== hash) {
+      pending.push({ id: reflection.id, content: reflection.content, hash })
+    }
+  }
+
+  pending.sort((a, b) => Number(b.id === sourceId) - Number(a.id === sourceId))
+  const queue = pending.slice(0, MAX_EMBEDDINGS_PER_REQUEST)
+
+  for (let offset = 0; offset < queue.length; offset += EMBEDDING_BATCH_SIZE) {
+    const batch = queue.slice(offset, offset + EMBEDDING_BATCH_SIZE)
+    const vectors = await embedder.embed(batch.map((reflection) => reflection.content))
+
+    const { error } = await supabase
+      .from('reflection_embeddings')
+      .upsert(batch.map((reflection, i) => ({
+        reflection_id: reflection.id,
+        user_id: userId,
+        model: embedder.model,
+        content_hash: reflection.hash,
+        embedding: JSON.stringify(vectors[i]),
+      })), { onConflict: 'reflection_id,model' })
+
+    if (error) {
+      throw new UpstreamError('Database', `Failed to save embeddings: ${error.message}`)
+    }
+  }
+
+  if (pending.length > queue.length) {
+    console.log(`${pending.length - queue.length} reflections left to embed for user ${userId}`)
+  }
+
+  return queue.length
+}
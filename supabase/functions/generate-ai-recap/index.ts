@@ -1,16 +1,66 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { assertOwnUserId, createAdminClient } from '../_shared/auth.ts'
+import { BadRequestError, HttpError, UpstreamError } from '../_shared/errors.ts'
+import { EMOTIONS, EmotionScores, classifyEmotions, topEmotions } from '../_shared/emotions.ts'
+import { Language, getPreferredLanguage, isLanguage, languageInstruction } from '../_shared/language.ts'
+import { RiskAssessment, assessRiskAcross } from '../_shared/safety.ts'
+import { chatJson, getLLMProvider, LLMProvider } from '../_shared/llm/index.ts'
+import { buildMemoryContext, updateMemoryFromRecap } from '../_shared/memory.ts'
+import { FollowUpItem, createRecommendationActions, describeFollowUp, loadFollowUp } from '../_shared/recommendations.ts'
+import * as s from '../_shared/schema.ts'
+
+const RecapRequestSchema = s.object({
+  user_id: s.optional(s.string()), // Optional - must match the authenticated caller when provided
+  timeFrame: s.oneOf(['daily', 'weekly', 'monthly'] as const),
+  date: s.optional(s.string()), // Optional specific date for daily/weekly recaps
+})
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
+// Shape the model must return for the 'ai-recap' prompt
+const RecapContentSchema = s.object({
+  summaryText: s.string({ min: 1, max: 4000 }),
+  motivationalMessage: s.string({ min: 1, max: 6000 }),
+  recommendations: s.array(s.string({ min: 1, max: 500 }), { min: 1, max: 5 }),
+})
 
-interface RecapRequest {
-  user_id: string;
-  timeFrame: 'daily' | 'weekly' | 'monthly';
-  date?: string; // Optional specific date for daily/weekly recaps
+// Shown when the safety recap cannot be generated, in the user's language
+const SAFETY_FALLBACK: Record<Language, s.Infer<typeof RecapContentSchema>> = {
+  en: {
+    summaryText: 'Some of what you wrote recently sounds really painful, and it took courage to put it into words. You do not have to carry this on your own.',
+    motivationalMessage: 'Please consider reaching out to someone you trust, or to a crisis line - they are there to listen at any time, and the support links in the app list the ones near you. If you feel you might act on thoughts of harming yourself, contact emergency services or a crisis line right away. You matter, and help is available.',
+    recommendations: [
+      'Tell one person you trust how you have been feeling',
+      'Save a crisis line number where you can find it quickly',
+      'If you can, talk to a doctor or therapist about what you are going through'
+    ]
+  },
+  es: {
+    summaryText: 'Parte de lo que escribiste últimamente suena muy doloroso, y hace falta valor para ponerlo en palabras. No tienes por qué cargar con esto sin ayuda.',
+    motivationalMessage: 'Por favor, piensa en hablar con alguien de confianza o con una línea de crisis: están para escucharte a cualquier hora, y los enlaces de apoyo de la app muestran las que tienes cerca. Si sientes que podrías hacerte daño, contacta ahora mismo con los servicios de emergencia o con una línea de crisis. Importas, y hay ayuda disponible.',
+    recommendations: [
+      'Cuéntale a una persona de confianza cómo te has sentido',
+      'Guarda el número de una línea de crisis donde puedas encontrarlo rápido',
+      'Si puedes, habla con un médico o terapeuta sobre lo que estás viviendo'
+    ]
+  },
+  de: {
+    summaryText: 'Einiges von dem, was du in letzter Zeit geschrieben hast, klingt sehr schmerzhaft, und es hat Mut gekostet, das in Worte zu fassen. Du musst das nicht allein tragen.',
+    motivationalMessage: 'Bitte überlege, dich an einen Menschen deines Vertrauens oder an ein Krisentelefon zu wenden - dort hört man dir jederzeit zu, und die Hilfe-Links in der App zeigen dir Angebote in deiner Nähe. Wenn du das Gefühl hast, dir etwas antun zu können, wende dich sofort an den Notruf oder ein Krisentelefon. Du bist wichtig, und es gibt Hilfe.',
+    recommendations: [
+      'Erzähle einem Menschen, dem du vertraust, wie es dir in letzter Zeit geht',
+      'Speichere die Nummer eines Krisentelefons so, dass du sie schnell findest',
+      'Sprich, wenn du kannst, mit einer Ärztin, einem Arzt oder einer Therapeutin über das, was du gerade durchmachst'
+    ]
+  },
+  he: {
+    summaryText: 'חלק ממה שכתבת לאחרונה נשמע כואב מאוד, ונדרש אומץ כדי לשים את זה במילים. אין צורך לשאת את זה לבד.',
+    motivationalMessage: 'כדאי לפנות לאדם שסומכים עליו או לקו סיוע - יש שם מי שמקשיב בכל שעה, וקישורי התמיכה באפליקציה מציגים את הקווים הקרובים אליך. אם יש תחושה שאפשר לפעול על מחשבות לפגוע בעצמך, יש לפנות מיד לשירותי החירום או לקו סיוע. יש לך ערך, ויש עזרה זמינה.',
+    recommendations: [
+      'לספר לאדם אחד שסומכים עליו איך ההרגשה בזמן האחרון',
+      'לשמור מספר של קו סיוע במקום שקל למצוא אותו',
+      'אם אפשר, לדבר עם רופא או מטפל על מה שעובר עליך'
+    ]
+  }
 }
 
 interface RecapResponse {
@@ -20,6 +70,9 @@ interface RecapResponse {
   moodAverage?: number;
   reflectionCount: number;
   topEmotions?: string[];
+  safetyMode: boolean;
+  reportId: string;
+  followUp: FollowUpItem[];
 }
 
 interface AIRecapData {
@@ -29,173 +82,178 @@ interface AIRecapData {
   moodAverage?: number;
   reflectionCount: number;
   topEmotions?: string[];
+  safetyMode: boolean;
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+serve(createHandler('generate-ai-recap', async ({ req, user, supabase: userSupabase }) => {
+  const body = await readJson(req, RecapRequestSchema)
+  const { timeFrame, date } = body
+  const user_id = assertOwnUserId(user, body.user_id)
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+  const llm = await getLLMProvider()
+
+  // Two Supabase clients:
+  // - User client (from the handler context) for fetching user data (respects RLS)
+  // - Admin client for inserting insight reports (bypasses RLS)
+  const adminSupabase = createAdminClient()
+
+  // Calculate date range based on timeFrame
+  const { startDate, endDate } = calculateDateRange(timeFrame, date)
+  
+  console.log(`Generating ${timeFrame} recap for user ${user_id} from ${startDate} to ${endDate}`)
+
+  // Fetch user's reflections for the specified period using user client
+  const { data: reflections, error: reflectionsError } = await userSupabase
+    .from('reflections')
+    .select('id, version, content, mood_score, sentiment, emotions, language, created_at')
+    .eq('user_id', user_id)
+    .gte('created_at', startDate)
+    .lte('created_at', endDate)
+    .order('created_at', { ascending: true })
+
+  if (reflectionsError) {
+    throw new UpstreamError('Database', `Error fetching reflections: ${reflectionsError.message}`)
   }
 
-  try {
-    const { user_id, timeFrame, date }: RecapRequest = await req.json()
-    
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  // What became of the last recap's recommendations. Read before this recap is saved,
+  // which would otherwise become "the last recap".
+  const followUp = await loadFollowUp(userSupabase, user_id).catch(error => {
+    console.error('Error loading recommendation follow-up:', error)
+    return [] as FollowUpItem[]
+  })
+
+  // Initialize final AI recap data
+  let finalAiRecap: AIRecapData;
+  let language: Language | undefined
+
+  // Generate AI recap content based on whether reflections exist
+  if (!reflections || reflections.length === 0) {
+    // No reflections case - use default response
+    finalAiRecap = {
+      summaryText: `You haven't recorded any reflections for this ${timeFrame} period yet.`,
+      motivationalMessage: "Every journey starts with a single step, and I'm here to walk alongside you as your supportive companion. Consider adding your first reflection today! Taking time to reflect on your thoughts and feelings is a powerful way to understand yourself better and grow as a person. You have so much potential within you, and reflection can help you unlock it. Starting a reflection practice shows real commitment to personal growth, and that's something to be genuinely proud of. The fact that you're here, thinking about self-reflection, already demonstrates wisdom and self-awareness that many people never develop. Your future self will thank you for taking this important step toward personal development, and I'll be here to support you every step of the way.",
+      recommendations: [
+        "Start with a simple daily reflection about how you're feeling - even just a few sentences can make a difference", 
+        "Set a regular time each day for self-reflection, perhaps in the morning with coffee or before bed", 
+        "Focus on both challenges you face and things you're grateful for - balance is key to growth"
+      ],
+      reflectionCount: 0,
+      safetyMode: false
+    }
+  } else {
+    // Reflections exist - generate AI-powered recap
+    console.log(`Found ${reflections.length} reflections, generating AI recap...`)
+
+    // Prepare data for analysis
+    const reflectionTexts = reflections.map(r => r.content)
+    const moodScores = reflections.filter(r => r.mood_score).map(r => r.mood_score)
+    const sentiments = reflections.filter(r => r.sentiment).map(r => r.sentiment)
     
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
+    const moodAverage = moodScores.length > 0 
+      ? moodScores.reduce((sum, score) => sum + score, 0) / moodScores.length 
+      : 0
+
+    const sentimentCounts = sentiments.reduce((acc, sentiment) => {
+      acc[sentiment] = (acc[sentiment] || 0) + 1
+      return acc
+    }, {} as Record<string, number>)
+
+    // Reflections saved before emotions were tracked are classified on the fly
+    const emotionScores: EmotionScores[] = reflections.map(r =>
+      r.emotions ?? classifyEmotions(r.content, isLanguage(r.language) ? r.language : undefined).emotions
+    )
+    const emotionAverages = EMOTIONS.reduce((acc, emotion) => {
+      acc[emotion] = emotionScores.reduce((sum, scores) => sum + (scores[emotion] ?? 0), 0) / emotionScores.length
+      return acc
+    }, {} as EmotionScores)
+
+    // Reflections may be in any language; the recap is written in the one the user picked
+    language = await getPreferredLanguage(userSupabase, user_id)
+
+    // Crisis or self-harm language anywhere in the period switches to the
+    // safety-first prompt; a cheerful "keep going!" recap would be the wrong reply
+    const risk = assessRiskAcross(reflectionTexts)
+
+    // Generate AI recap with the configured model
+    const aiRecap = risk.level === 'none'
+      ? await generateRecapWithLLM(reflectionTexts, timeFrame, {
+          reflectionCount: reflections.length,
+          moodAverage,
+          sentimentCounts,
+          emotionAverages,
+          language,
+          memory: await buildMemoryContext(userSupabase, user_id),
+          followUp: describeFollowUp(followUp),
+          llm
+        })
+      : await generateSafetyRecap(reflectionTexts, timeFrame, risk, language, llm)
+
+    finalAiRecap = {
+      ...aiRecap,
+      safetyMode: risk.level !== 'none',
+      moodAverage: Math.round(moodAverage * 10) / 10,
+      reflectionCount: reflections.length,
+      topEmotions: topEmotions(emotionScores)
     }
+  }
 
-    // 2️⃣ Create two Supabase clients:
-    // - User client for fetching user data (respects RLS)
-    // - Admin client for inserting insight reports (bypasses RLS)
-    const userSupabase = createClient(
-      supabaseUrl,
-      Deno.env.get('SUPABASE_ANON_KEY')!,
-      {
-        global: {
-          headers: { Authorization: authHeader }
-        }
-      }
-    );
+  // Save the complete report to insight_reports table using admin client (bypasses RLS)
+  const { data: report, error: insertError } = await adminSupabase
+    .from('insight_reports')
+    .insert([{
+      user_id,
+      report_type: timeFrame,
+      summary: finalAiRecap.summaryText,
+      motivation: finalAiRecap.motivationalMessage,
+      recommendations: finalAiRecap.recommendations,
+      safety_mode: finalAiRecap.safetyMode,
+      follow_up: !finalAiRecap.safetyMode && followUp.length > 0 ? followUp : null,
+      // Reflections can be edited later; keep the exact versions this recap read
+      source_versions: (reflections ?? []).map(r => ({ reflection_id: r.id, version: r.version }))
+    }])
+    .select('id')
+    .single()
+
+  if (insertError) {
+    console.error('Error saving insight report:', insertError)
+    throw new UpstreamError('Database', `Failed to save insight report: ${insertError.message}`)
+  }
 
-    const adminSupabase = createClient(supabaseUrl, supabaseServiceKey);
+  console.log('Insight report saved successfully')
 
-    // Calculate date range based on timeFrame
-    const { startDate, endDate } = calculateDateRange(timeFrame, date)
-    
-    console.log(`Generating ${timeFrame} recap for user ${user_id} from ${startDate} to ${endDate}`)
-
-    // Fetch user's reflections for the specified period using user client
-    const { data: reflections, error: reflectionsError } = await userSupabase
-      .from('reflections')
-      .select('content, mood_score, sentiment, created_at')
-      .eq('user_id', user_id)
-      .gte('created_at', startDate)
-      .lte('created_at', endDate)
-      .order('created_at', { ascending: true })
-
-    if (reflectionsError) {
-      throw new Error(`Error fetching reflections: ${reflectionsError.message}`)
+  // Support suggestions in a safety recap are not tracked: nothing to snooze or turn into a habit
+  if (!finalAiRecap.safetyMode) {
+    try {
+      await createRecommendationActions(userSupabase, user_id, report.id, finalAiRecap.recommendations)
+    } catch (error) {
+      // The app adds the row itself when the user first acts on a recommendation
+      console.error('Error creating recommendation actions:', error)
     }
+  }
 
-    // Initialize final AI recap data
-    let finalAiRecap: AIRecapData;
-
-    // Generate AI recap content based on whether reflections exist
-    if (!reflections || reflections.length === 0) {
-      // No reflections case - use default response
-      finalAiRecap = {
-        summaryText: `You haven't recorded any reflections for this ${timeFrame} period yet.`,
-        motivationalMessage: "Every journey starts with a single step, and I'm here to walk alongside you as your supportive companion. Consider adding your first reflection today! Taking time to reflect on your thoughts and feelings is a powerful way to understand yourself better and grow as a person. You have so much potential within you, and reflection can help you unlock it. Starting a reflection practice shows real commitment to personal growth, and that's something to be genuinely proud of. The fact that you're here, thinking about self-reflection, already demonstrates wisdom and self-awareness that many people never develop. Your future self will thank you for taking this important step toward personal development, and I'll be here to support you every step of the way.",
-        recommendations: [
-          "Start with a simple daily reflection about how you're feeling - even just a few sentences can make a difference", 
-          "Set a regular time each day for self-reflection, perhaps in the morning with coffee or before bed", 
-          "Focus on both challenges you face and things you're grateful for - balance is key to growth"
-        ],
-        reflectionCount: 0
-      }
-    } else {
-      // Reflections exist - generate AI-powered recap
-      console.log(`Found ${reflections.length} reflections, generating AI recap...`)
-
-      // Prepare data for analysis
-      const reflectionTexts = reflections.map(r => r.content)
-      const moodScores = reflections.filter(r => r.mood_score).map(r => r.mood_score)
-      const sentiments = reflections.filter(r => r.sentiment).map(r => r.sentiment)
-      
-      const moodAverage = moodScores.length > 0 
-        ? moodScores.reduce((sum, score) => sum + score, 0) / moodScores.length 
-        : 0
-
-      const sentimentCounts = sentiments.reduce((acc, sentiment) => {
-        acc[sentiment] = (acc[sentiment] || 0) + 1
-        return acc
-      }, {} as Record<string, number>)
-
-      // Generate AI recap using OpenAI
-      const aiRecap = await generateOpenAIRecap(reflectionTexts, timeFrame, {
-        reflectionCount: reflections.length,
-        moodAverage,
-        sentimentCounts,
-        OPENAI_API_KEY
+  // Remember what this recap learned for the next one and for coach chats. Awaited so
+  // the function isn't torn down mid-write, but a failure only costs the memory.
+  if (language && !finalAiRecap.safetyMode) {
+    try {
+      await updateMemoryFromRecap(userSupabase, llm, user_id, {
+        reportId: report.id,
+        reflectionTexts: (reflections ?? []).map(r => r.content),
+        recommendations: finalAiRecap.recommendations,
+        language,
       })
-
-      finalAiRecap = {
-        ...aiRecap,
-        moodAverage: Math.round(moodAverage * 10) / 10,
-        reflectionCount: reflections.length,
-        topEmotions: Object.entries(sentimentCounts)
-          .sort(([,a], [,b]) => b - a)
-          .slice(0, 3)
-          .map(([emotion]) => emotion)
-      }
+    } catch (error) {
+      console.error('Error updating memory:', error)
     }
+  }
 
-    // Save the complete report to insight_reports table using admin client (bypasses RLS)
-    const { error: insertError } = await adminSupabase
-      .from('insight_reports')
-      .insert([{
-        user_id,
-        report_type: timeFrame,
-        summary: finalAiRecap.summaryText,
-        motivation: finalAiRecap.motivationalMessage,
-        recommendations: finalAiRecap.recommendations
-      }])
-
-    if (insertError) {
-      console.error('Error saving insight report:', insertError)
-      throw new Error(`Failed to save insight report: ${insertError.message}`)
-    }
-
-    console.log('Insight report saved successfully')
-
-    // Return the response based on final AI recap data
-    const response: RecapResponse = finalAiRecap
-
-    return new Response(
-      JSON.stringify(response),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('AI recap generation error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'AI recap generation failed'
-      }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+  // Return the response based on final AI recap data
+  const response: RecapResponse = {
+    ...finalAiRecap,
+    reportId: report.id,
+    followUp: finalAiRecap.safetyMode ? [] : followUp,
   }
-})
+  return response
+}))
 
 function calculateDateRange(timeFrame: string, date?: string) {
   const now = new Date()
@@ -233,27 +291,37 @@ function calculateDateRange(timeFrame: string, date?: string) {
       }
     
     default:
-      throw new Error('Invalid timeFrame. Must be daily, weekly, or monthly.')
+      throw new BadRequestError('Invalid timeFrame. Must be daily, weekly, or monthly.')
   }
 }
 
-async function generateOpenAIRecap(
+async function generateRecapWithLLM(
   reflectionTexts: string[], 
   timeFrame: string, 
   context: {
     reflectionCount: number,
     moodAverage: number,
     sentimentCounts: Record<string, number>,
-    OPENAI_API_KEY: string
+    emotionAverages: EmotionScores,
+    language: Language,
+    memory: string,
+    followUp: string,
+    llm: LLMProvider
   }
-): Promise<{ summaryText: string; motivationalMessage: string; recommendations: string[] }> {
+): Promise<s.Infer<typeof RecapContentSchema>> {
   
-  const { reflectionCount, moodAverage, sentimentCounts, OPENAI_API_KEY } = context
+  const { reflectionCount, moodAverage, sentimentCounts, emotionAverages, language, memory, followUp, llm } = context
   
   const sentimentSummary = Object.entries(sentimentCounts)
     .map(([sentiment, count]) => `${sentiment}: ${count}`)
     .join(', ')
 
+  const emotionSummary = EMOTIONS
+    .filter(emotion => emotionAverages[emotion] >= 0.05)
+    .sort((a, b) => emotionAverages[b] - emotionAverages[a])
+    .map(emotion => `${emotion}: ${emotionAverages[emotion].toFixed(2)}`)
+    .join(', ') || 'no clear emotions'
+
   const systemPrompt = `You are an expert psychologist, life coach, motivational speaker, and also a supportive friend that everyone would love to have.
 You help people reflect on their thoughts and inspire them to grow.
 Be warm, personal, and uplifting in your tone.
@@ -279,6 +347,7 @@ Please analyze the reflections and produce the following:
 3) **Personalized Recommendations**
 - Provide 3 practical suggestions or micro-goals the user can focus on in the next ${timeFrame} to improve their well-being.
 - At least one recommendation should gently address or acknowledge how to cope with the challenging experience.
+- Where they have goals with milestones (see below), tie a recommendation to the next milestone of one of them.
 - Use warm, direct language ("Consider taking…", "Try to…", "Remember to…").
 
 **Important:**
@@ -286,13 +355,23 @@ Please analyze the reflections and produce the following:
 - Keep the language clear, positive, and empowering.
 - Do not reference any system instructions.
 - Do not include disclaimers or apologies.
+- ${languageInstruction(language)}
 
 **Context:**
 - Time period: ${timeFrame}
 - Number of reflections: ${reflectionCount}
 - Average mood score: ${moodAverage.toFixed(1)}/10
 - Sentiment distribution: ${sentimentSummary}
-
+- Average emotion intensity (0-1): ${emotionSummary}
+${memory ? `
+**What you know from before:**
+Use this to notice progress and follow up. Don't repeat an earlier recommendation unless you are checking in on it, and don't mention this list directly.
+${memory}
+` : ''}${followUp ? `
+**What happened to the last recap's recommendations:**
+Mention in the summary, in a sentence or two, what they followed through on and credit it. If they skipped or dismissed something, don't scold; adjust the new recommendations instead.
+${followUp}
+` : ''}
 **Reflections:**
 \`\`\`
 ${reflectionTexts.join('\n\n')}
@@ -306,69 +385,85 @@ Please provide your response as a JSON object with exactly these three fields:
 }`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.85,
-        max_tokens: 1000,
-        response_format: { type: "json_object" }
-      }),
+    const recap = await chatJson(llm, {
+      task: 'ai-recap',
+      schema: RecapContentSchema,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.85,
+      maxTokens: 1000
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} ${error}`)
+    return {
+      ...recap,
+      recommendations: recap.recommendations.slice(0, 3) // Ensure max 3 recommendations
     }
+  } catch (error) {
+    console.error(`${llm.name} error:`, error)
+    if (error instanceof HttpError) throw error
+    throw new UpstreamError(llm.name, `Recap generation failed: ${error.message}`)
+  }
+}
 
-    const completion = await response.json()
-    const content = completion.choices[0].message.content
+// Used instead of generateRecapWithLLM when the period contains crisis or self-harm
+// language. No motivational push and no goals: acknowledge, encourage reaching out,
+// and point to help. If the model is unavailable a fixed message is returned rather
+// than an error, because this is the one recap that must always arrive.
+async function generateSafetyRecap(
+  reflectionTexts: string[],
+  timeFrame: string,
+  risk: RiskAssessment,
+  language: Language,
+  llm: LLMProvider
+): Promise<s.Infer<typeof RecapContentSchema>> {
+  const systemPrompt = `You are a calm, caring companion responding to someone's private journal.
+Some of their recent entries contain language suggesting serious distress${risk.level === 'high' ? ' and possibly thoughts of suicide or self-harm' : ''}.
+Your only goals are to make them feel heard and to gently encourage them to reach out for support.`
+
+  const userPrompt = `Below are the user's reflections for this ${timeFrame} period.
+
+Write a short, supportive reply that follows these rules:
+- Acknowledge that things sound hard, in plain and warm words. Do not quote or repeat distressing details.
+- Do not diagnose, do not minimise their feelings and do not use forced positivity.
+- Do not set goals, challenges or productivity tips.
+- Encourage them to talk to someone they trust and, if they can, a doctor or therapist.
+- Mention that crisis lines are available any time, and that the app lists the ones near them.
+- Say clearly that if they feel they might act on thoughts of harming themselves, they should contact emergency services or a crisis line right away.
+- Always use second person (you, your).
+- ${languageInstruction(language)}
 
-    try {
-      const parsed = JSON.parse(content)
-      
-      // Validate the required fields
-      if (!parsed.summaryText || !parsed.motivationalMessage || !Array.isArray(parsed.recommendations)) {
-        throw new Error('Invalid response format from OpenAI')
-      }
+**Reflections:**
+\`\`\`
+${reflectionTexts.join('\n\n')}
+\`\`\`
+
+Respond with a JSON object with exactly these three fields:
+{
+  "summaryText": "2-3 sentences acknowledging what they are going through",
+  "motivationalMessage": "3-5 sentences of support, encouraging them to reach out and naming crisis lines and emergency services",
+  "recommendations": ["small, gentle step focused on connection or safety", "another", "another"]
+}`
+
+  try {
+    const recap = await chatJson(llm, {
+      task: 'ai-recap-safety',
+      schema: RecapContentSchema,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.4,
+      maxTokens: 700
+    })
 
-      return {
-        summaryText: parsed.summaryText,
-        motivationalMessage: parsed.motivationalMessage,
-        recommendations: parsed.recommendations.slice(0, 3) // Ensure max 3 recommendations
-      }
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError)
-      // Enhanced fallback response with supportive friend tone
-      return {
-        summaryText: `You've courageously shared ${reflectionCount} meaningful reflections this ${timeFrame} with an average mood of ${moodAverage.toFixed(1)}/10. I can see you've faced some challenging moments that tested your resilience, but also experienced beautiful moments that brought you joy. Your willingness to be vulnerable and explore both the difficult and wonderful aspects of your life shows incredible emotional maturity and strength. The depth of your self-awareness shines through in how thoughtfully you approach each reflection. Your consistency in this practice, even during tough times, demonstrates a genuine commitment to understanding yourself better and growing through life's ups and downs.`,
-        motivationalMessage: "I want you to know how proud I am of your dedication to this reflection practice, especially during the challenging moments you've shared with such honesty and courage. When life throws unexpected difficulties your way, the fact that you continue to show up and process your experiences thoughtfully speaks volumes about your character and resilience. Your ability to find light even in darker moments and to celebrate the good times with genuine appreciation shows real wisdom and emotional intelligence. As your supportive companion on this journey, I see someone who is genuinely committed to growth, healing, and becoming the best version of themselves. Every reflection you write, whether it captures struggle or joy, is evidence of your strength and your willingness to embrace the full spectrum of human experience. Your future self will thank you for this incredible dedication to personal growth, and I'll be here cheering you on every step of the way.",
-        recommendations: [
-          `Continue your consistent ${timeFrame} reflection practice, especially during difficult times when it matters most - you're building incredible emotional resilience`,
-          "When facing challenging experiences, remember to be as compassionate with yourself as you would be with a dear friend - practice self-kindness during tough moments",
-          "Take time to actively celebrate and savor the positive moments you experience, no matter how small they might seem - they're important building blocks for happiness"
-        ]
-      }
-    }
-  } catch (error) {
-    console.error('OpenAI API error:', error)
-    // Enhanced fallback response with supportive friend tone and validation
     return {
-      summaryText: `You've bravely shared ${reflectionCount} thoughtful entries this ${timeFrame} with an average mood of ${moodAverage.toFixed(1)}/10, opening your heart to both life's challenges and its beautiful moments. I can see you've navigated some difficult experiences that required real strength and resilience, while also embracing positive moments with genuine appreciation and joy. Your commitment to honest, consistent self-reflection, especially during tough times, demonstrates remarkable emotional courage and maturity. The way you examine your thoughts and feelings with such care and vulnerability shows a deep desire for personal growth and self-understanding. This level of emotional honesty and dedication to inner work during both struggles and celebrations is truly admirable and inspiring.`,
-      motivationalMessage: "As your supportive friend in this journey, I want you to know how incredibly proud I am of your courage to face both challenges and joys with such openness and authenticity. In a world that often discourages vulnerability and deep emotional exploration, you're choosing to brave the full spectrum of human experience with remarkable grace and wisdom. When you share your struggles, I see someone who refuses to give up and continues to seek understanding and growth even in difficult moments - that takes real strength. When you celebrate your positive experiences, I see someone who knows how to embrace joy and gratitude with a full heart. Every time you sit down to reflect, whether you're processing pain or celebrating happiness, you're investing in the most important relationship you'll ever have - the one with yourself. Your dedication to this practice shows that you understand that real growth happens through embracing all of life's experiences with compassion and wisdom. You're doing absolutely incredible, transformative work.",
-      recommendations: [
-        "Keep building on your reflection habit with consistency, especially during challenging times when processing emotions becomes most important for your healing and growth",
-        "During difficult periods, practice treating yourself with the same kindness and understanding you would offer your best friend - you deserve that compassion",
-        "Make sure to consciously celebrate and acknowledge the positive moments in your life, no matter how small - they're vital sources of strength and happiness"
-      ]
+      ...recap,
+      recommendations: recap.recommendations.slice(0, 3)
     }
+  } catch (error) {
+    console.error(`${llm.name} safety recap error, using the fixed message:`, error)
+    return SAFETY_FALLBACK[language]
   }
-}
\ No newline at end of file
+}
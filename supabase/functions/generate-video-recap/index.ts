@@ -1,15 +1,29 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { assertOwnUserId, createAdminClient } from '../_shared/auth.ts'
+import {
+  BadRequestError,
+  ConfigurationError,
+  HttpError,
+  NotFoundError,
+  UpstreamError,
+  requireEnv
+} from '../_shared/errors.ts'
+import { DEFAULT_LANGUAGE, Language, isLanguage, languageInstruction } from '../_shared/language.ts'
+import { chatJson, getLLMProvider, LLMProvider } from '../_shared/llm/index.ts'
+import { RiskLevel, assessRiskAcross } from '../_shared/safety.ts'
+import { GoalSummary, describeGoals, loadActiveGoals } from '../_shared/goals.ts'
+import * as s from '../_shared/schema.ts'
+
+const VideoRecapRequestSchema = s.object({
+  user_id: s.optional(s.string()), // Optional - must match the authenticated caller when provided
+})
 
-interface VideoRecapRequest {
-  user_id: string;
-}
+// Shape the model must return for the 'video-script' prompt. The script is read aloud
+// in a short video, so the length cap catches a reply that ignored the 5–6 sentence brief.
+const VideoScriptSchema = s.object({
+  script: s.string({ min: 1, max: 2000 }),
+})
 
 interface VideoRecapResponse {
   video_id: string;
@@ -19,170 +33,119 @@ interface VideoRecapResponse {
   week_end: string;
   reflection_count: number;
   mood_average: number;
+  safety_mode: boolean;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
-  }
-
-  try {
-    // Validate and sanitize inputs
-    const body = await req.json();
-    const { user_id }: VideoRecapRequest = body;
-    
-    if (!user_id || typeof user_id !== 'string') {
-      return new Response(
-        JSON.stringify({ error: "Missing or invalid user_id" }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, "Content-Type": "application/json" } 
-        }
-      );
-    }
-
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-    const TAVUS_API_KEY = Deno.env.get('TAVUS_API_KEY')
-    const TAVUS_REPLICA_ID = Deno.env.get('TAVUS_REPLICA_ID') || 'r7c4f8e8a-b2d1-4c6e-9f0a-1b3c5d7e9f0a'
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
-    
-    if (!TAVUS_API_KEY) {
-      throw new Error('Tavus API key not configured')
-    }
-
-    // Initialize Supabase client with service key for admin access
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+serve(createHandler('generate-video-recap', async ({ req, user }) => {
+  const body = await readJson(req, VideoRecapRequestSchema)
+  const user_id = assertOwnUserId(user, body.user_id)
 
-    // Calculate week range (Sunday 00:00 to Saturday 23:59)
-    const { startDate, endDate } = calculateWeekRange()
-    
-    console.log(`Generating weekly recap for user ${user_id} from ${startDate} to ${endDate}`)
-
-    // Get user's first name
-    const { data: userProfile } = await supabase
-      .from('user_profiles')
-      .select('full_name')
-      .eq('id', user_id)
-      .single()
-
-    const userName = extractFirstName(userProfile?.full_name)
-    console.log(`User name: ${userName}`)
-
-    // Fetch user's reflections for the past 7 days
-    const { data: reflections, error: reflectionsError } = await supabase
-      .from('reflections')
-      .select('content, mood_score, created_at')
-      .eq('user_id', user_id)
-      .gte('created_at', startDate)
-      .lte('created_at', endDate)
-      .order('created_at', { ascending: true })
-
-    if (reflectionsError) {
-      throw new Error(`Error fetching reflections: ${reflectionsError.message}`)
-    }
+  const llm = await getLLMProvider()
+  const TAVUS_API_KEY = requireEnv('TAVUS_API_KEY')
+  const TAVUS_REPLICA_ID = Deno.env.get('TAVUS_REPLICA_ID') || 'r7c4f8e8a-b2d1-4c6e-9f0a-1b3c5d7e9f0a'
 
-    if (!reflections || reflections.length === 0) {
-      throw new Error('No reflections found for the past week. Please add some reflections first.')
-    }
+  // Service-role client for admin access - every query below is scoped to the verified user_id
+  const supabase = createAdminClient()
 
-    // Generate personalized motivational script using OpenAI GPT API
-    const reflectionTexts = reflections.map(r => r.content)
-    console.log(`Found ${reflections.length} reflections, generating script...`)
-    
-    const videoScript = await generateOpenAIScript(reflectionTexts, userName, OPENAI_API_KEY)
-    console.log('Script generated successfully')
+  // Calculate week range (Sunday 00:00 to Saturday 23:59)
+  const { startDate, endDate } = calculateWeekRange()
+  
+  console.log(`Generating weekly recap for user ${user_id} from ${startDate} to ${endDate}`)
+
+  // Get user's first name
+  const { data: userProfile } = await supabase
+    .from('user_profiles')
+    .select('full_name, preferred_language')
+    .eq('id', user_id)
+    .single()
+
+  const userName = extractFirstName(userProfile?.full_name)
+  const language: Language = isLanguage(userProfile?.preferred_language) ? userProfile.preferred_language : DEFAULT_LANGUAGE
+  console.log(`User name: ${userName}`)
+
+  // Fetch user's reflections for the past 7 days
+  const { data: reflections, error: reflectionsError } = await supabase
+    .from('reflections')
+    .select('content, mood_score, created_at')
+    .eq('user_id', user_id)
+    .gte('created_at', startDate)
+    .lte('created_at', endDate)
+    .order('created_at', { ascending: true })
+
+  if (reflectionsError) {
+    throw new UpstreamError('Database', `Error fetching reflections: ${reflectionsError.message}`)
+  }
 
-    // Validate script content
-    if (!videoScript || typeof videoScript !== 'string' || videoScript.trim() === '') {
-      throw new Error('Generated script is empty or invalid')
-    }
+  if (!reflections || reflections.length === 0) {
+    throw new NotFoundError('No reflections found for the past week. Please add some reflections first.')
+  }
 
-    // Create video with Tavus v2 API (without waiting for completion)
-    console.log('Creating video with Tavus v2 API...')
-    const { video_id, hosted_url } = await createTavusVideo(videoScript, userName, TAVUS_API_KEY, TAVUS_REPLICA_ID)
-    
-    console.log('Video creation initiated successfully:', { video_id, hosted_url })
-
-    // Calculate stats for response
-    const moodScores = reflections.filter(r => r.mood_score).map(r => r.mood_score)
-    const moodAverage = moodScores.length > 0 
-      ? moodScores.reduce((sum, score) => sum + score, 0) / moodScores.length 
-      : 0
-
-    // Save initial record to weekly_recaps table (without video_url for now)
-    const { data: savedRecap } = await supabase
-      .from('weekly_recaps')
-      .insert([{
-        user_id,
-        week_start: startDate,
-        week_end: endDate,
-        summary: videoScript,
-        video_url: null // Will be updated when video is complete
-      }])
-      .select()
-      .single()
+  // Generate personalized motivational script with the configured model
+  const reflectionTexts = reflections.map(r => r.content)
+  console.log(`Found ${reflections.length} reflections, generating script...`)
+  
+  // Crisis or self-harm language switches the script to the supportive safety-first brief
+  const risk = assessRiskAcross(reflectionTexts)
+  // Goals are only for the regular brief, which ends on a call to action; a script
+  // without them is still worth sending
+  const goals = risk.level === 'none'
+    ? await loadActiveGoals(supabase, user_id).catch((error): GoalSummary[] => {
+      console.error('Failed to load goals for the script:', error)
+      return []
+    })
+    : []
+  const videoScript = await generateScript(reflectionTexts, userName, language, risk.level, goals, llm)
+  console.log('Script generated successfully')
 
-    console.log('Weekly recap saved to database (pending video completion)')
+  // Validate script content
+  if (!videoScript || typeof videoScript !== 'string' || videoScript.trim() === '') {
+    throw new UpstreamError(llm.name, 'Generated script is empty or invalid')
+  }
 
-    // Return immediately with video_id and hosted_url for frontend polling
-    const response: VideoRecapResponse = {
-      video_id,
-      hosted_url,
-      video_script: videoScript,
+  // Create video with Tavus v2 API (without waiting for completion)
+  console.log('Creating video with Tavus v2 API...')
+  const { video_id, hosted_url } = await createTavusVideo(videoScript, userName, TAVUS_API_KEY, TAVUS_REPLICA_ID)
+  
+  console.log('Video creation initiated successfully:', { video_id, hosted_url })
+
+  // Calculate stats for response
+  const moodScores = reflections.filter(r => r.mood_score).map(r => r.mood_score)
+  const moodAverage = moodScores.length > 0 
+    ? moodScores.reduce((sum, score) => sum + score, 0) / moodScores.length 
+    : 0
+
+  // Save initial record to weekly_recaps table (without video_url for now)
+  const { error: saveError } = await supabase
+    .from('weekly_recaps')
+    .insert([{
+      user_id,
       week_start: startDate,
       week_end: endDate,
-      reflection_count: reflections.length,
-      mood_average: Math.round(moodAverage * 10) / 10
-    }
+      summary: videoScript,
+      video_url: null // Will be updated when video is complete
+    }])
+
+  // The video is already being rendered, so a failed save is logged rather than thrown
+  if (saveError) {
+    console.error('Failed to save weekly recap:', saveError)
+  } else {
+    console.log('Weekly recap saved to database (pending video completion)')
+  }
 
-    return new Response(
-      JSON.stringify(response),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('Video recap generation error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'Video recap generation failed'
-      }),
-      { 
-        status: 500,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+  // Return immediately with video_id and hosted_url for frontend polling
+  const response: VideoRecapResponse = {
+    video_id,
+    hosted_url,
+    video_script: videoScript,
+    week_start: startDate,
+    week_end: endDate,
+    reflection_count: reflections.length,
+    mood_average: Math.round(moodAverage * 10) / 10,
+    safety_mode: risk.level !== 'none'
   }
-})
+
+  return response
+}))
 
 function calculateWeekRange() {
   const now = new Date()
@@ -211,24 +174,44 @@ function extractFirstName(fullName?: string | null): string {
   return firstName || 'friend'
 }
 
-async function generateOpenAIScript(
+async function generateScript(
   reflectionTexts: string[], 
   userName: string,
-  OPENAI_API_KEY: string
+  language: Language,
+  riskLevel: RiskLevel,
+  goals: GoalSummary[],
+  llm: LLMProvider
 ): Promise<string> {
-  
-  const userPrompt = `You will be given a list of user reflections and the user's first name.
+  const safetyMode = riskLevel !== 'none'
 
-Please write a motivational script to be used in an AI video message.
+  const requirements = safetyMode
+    ? `Please write a short, caring script to be used in an AI video message. Some of the reflections
+contain language suggesting serious distress${riskLevel === 'high' ? ' and possibly thoughts of suicide or self-harm' : ''}.
+
+Script Requirements:
+- Start by greeting the user gently by name.
+- Acknowledge that things sound hard. Do not quote or repeat distressing details.
+- Do not minimise their feelings, use forced positivity or set goals for the week.
+- Encourage them to talk to someone they trust and to reach out to a crisis line, which is available any time.
+- Say that if they feel unsafe they should contact emergency services right away.
+- Keep it to 4–5 sentences, calm and warm.
+- ${languageInstruction(language)}`
+    : `Please write a motivational script to be used in an AI video message.
 
 Script Requirements:
 - Start by greeting the user by name.
 - Mention 2–3 specific examples from their reflections (including at least one challenge and one positive moment).
 - Acknowledge any difficult moments with empathy and encouragement.
-- Highlight their strengths and progress.
+- Highlight their strengths and progress.${goals.length > 0 ? `
+- Connect the week to one of their goals below, mentioning the progress made or the next milestone.` : ''}
 - End with an uplifting call to action for the upcoming week.
 - Keep it to 5–6 sentences.
 - Use warm, supportive language as if you are their personal coach and friend.
+- ${languageInstruction(language)}`
+
+  const userPrompt = `You will be given a list of user reflections and the user's first name.
+
+${requirements}
 
 Reflections:
 \`\`\`
@@ -236,37 +219,31 @@ ${reflectionTexts.join('\n')}
 \`\`\`
 
 User Name:
-${userName}`
+${userName}
+${!safetyMode && goals.length > 0 ? `
+Their Goals:
+${describeGoals(goals)}
+` : ''}
+Respond with a JSON object in this exact format:
+{
+  "script": "The full script as plain spoken text"
+}`
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.85,
-        max_tokens: 500
-      }),
+    const { script } = await chatJson(llm, {
+      task: safetyMode ? 'video-script-safety' : 'video-script',
+      schema: VideoScriptSchema,
+      messages: [
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: safetyMode ? 0.4 : 0.85,
+      maxTokens: 500
     })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`OpenAI API error: ${response.status} ${error}`)
-    }
-
-    const completion = await response.json()
-    const script = completion.choices[0].message.content.trim()
-
-    return script
+    return script.trim()
   } catch (error) {
-    console.error('OpenAI script generation error:', error)
-    throw new Error(`Script generation failed: ${error.message}`)
+    console.error(`${llm.name} script generation error:`, error)
+    if (error instanceof HttpError) throw error
+    throw new UpstreamError(llm.name, `Script generation failed: ${error.message}`)
   }
 }
 
@@ -282,11 +259,11 @@ async function createTavusVideo(
   
   // Validate required parameters
   if (!script || script.trim() === '') {
-    throw new Error('Script is missing or empty')
+    throw new BadRequestError('Script is missing or empty')
   }
   
   if (!TAVUS_REPLICA_ID) {
-    throw new Error('Replica ID is missing - please configure TAVUS_REPLICA_ID environment variable')
+    throw new ConfigurationError('Replica ID is missing - please configure TAVUS_REPLICA_ID environment variable')
   }
   
   const requestPayload = {
@@ -317,7 +294,7 @@ async function createTavusVideo(
     // Enhanced error handling
     if (!response.ok) {
       console.error('Tavus v2 API Error:', responseData)
-      throw new Error(`Video creation failed: ${responseData.message || responseData.error || response.statusText}`)
+      throw new UpstreamError('Tavus', `Video creation failed: ${responseData.message || responseData.error || response.statusText}`)
     }
     
     // Extract video_id and hosted_url from response
@@ -325,7 +302,7 @@ async function createTavusVideo(
     const hosted_url = responseData.hosted_url || ''
     
     if (!video_id) {
-      throw new Error('No video_id received from Tavus v2 API')
+      throw new UpstreamError('Tavus', 'No video_id received from Tavus v2 API')
     }
     
     console.log('Video creation initiated. Video ID:', video_id)
@@ -334,6 +311,7 @@ async function createTavusVideo(
     
   } catch (error) {
     console.error('Tavus v2 video creation failed:', error)
-    throw new Error(`Video creation failed: ${error.message}`)
+    if (error instanceof UpstreamError) throw error
+    throw new UpstreamError('Tavus', `Video creation failed: ${error.message}`)
   }
 }
\ No newline at end of file
@@ -1,125 +1,72 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
-
-interface WeeklyRecapRequest {
-  user_id: string;
-  week_start: string;
-  week_end: string;
-}
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { assertOwnUserId } from '../_shared/auth.ts'
+import { UpstreamError } from '../_shared/errors.ts'
+import * as s from '../_shared/schema.ts'
+
+const WeeklyRecapRequestSchema = s.object({
+  user_id: s.optional(s.string()), // Optional - must match the authenticated caller when provided
+  week_start: s.string({ min: 1 }),
+  week_end: s.string({ min: 1 }),
+})
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+serve(createHandler('generate-weekly-recap', async ({ req, user, supabase }) => {
+  const body = await readJson(req, WeeklyRecapRequestSchema)
+  const { week_start, week_end } = body
+  const user_id = assertOwnUserId(user, body.user_id)
+
+  // Fetch user's reflections for the week
+  const { data: reflections } = await supabase
+    .from('reflections')
+    .select('*')
+    .eq('user_id', user_id)
+    .gte('created_at', week_start)
+    .lte('created_at', week_end)
+    .order('created_at', { ascending: true })
+
+  // Fetch user's habit completions for the week
+  const { data: habitCompletions } = await supabase
+    .from('habit_completions')
+    .select('*, habits(*)')
+    .eq('user_id', user_id)
+    .gte('completed_at', week_start)
+    .lte('completed_at', week_end)
+
+  // Generate summary
+  const summary = generateWeeklySummary(reflections || [], habitCompletions || [])
+  
+  // In a real implementation, you would:
+  // 1. Use Tavus API to generate a personalized video
+  // 2. Upload the video to storage
+  // 3. Return the video URL
+  
+  const TAVUS_API_KEY = Deno.env.get('TAVUS_API_KEY')
+  
+  let videoUrl = null
+  if (TAVUS_API_KEY) {
+    // Placeholder for Tavus integration
+    // videoUrl = await generateTavusVideo(summary, user_id)
   }
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+  // Save the weekly recap
+  const { data: recap, error: saveError } = await supabase
+    .from('weekly_recaps')
+    .insert([{
+      user_id,
+      week_start,
+      week_end,
+      summary,
+      video_url: videoUrl,
+    }])
+    .select()
+    .single()
+
+  if (saveError) {
+    throw new UpstreamError('Database', `Failed to save weekly recap: ${saveError.message}`)
   }
 
-  try {
-    const { user_id, week_start, week_end }: WeeklyRecapRequest = await req.json()
-    
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
-    
-    // 2️⃣ Use Supabase Client with Authorization
-    const supabase = createClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        global: {
-          headers: { Authorization: authHeader }
-        }
-      }
-    );
-
-    // Fetch user's reflections for the week
-    const { data: reflections } = await supabase
-      .from('reflections')
-      .select('*')
-      .eq('user_id', user_id)
-      .gte('created_at', week_start)
-      .lte('created_at', week_end)
-      .order('created_at', { ascending: true })
-
-    // Fetch user's habit completions for the week
-    const { data: habitCompletions } = await supabase
-      .from('habit_completions')
-      .select('*, habits(*)')
-      .eq('user_id', user_id)
-      .gte('completed_at', week_start)
-      .lte('completed_at', week_end)
-
-    // Generate summary
-    const summary = generateWeeklySummary(reflections || [], habitCompletions || [])
-    
-    // In a real implementation, you would:
-    // 1. Use Tavus API to generate a personalized video
-    // 2. Upload the video to storage
-    // 3. Return the video URL
-    
-    const TAVUS_API_KEY = Deno.env.get('TAVUS_API_KEY')
-    
-    let videoUrl = null
-    if (TAVUS_API_KEY) {
-      // Placeholder for Tavus integration
-      // videoUrl = await generateTavusVideo(summary, user_id)
-    }
-
-    // Save the weekly recap
-    const { data: recap } = await supabase
-      .from('weekly_recaps')
-      .insert([{
-        user_id,
-        week_start,
-        week_end,
-        summary,
-        video_url: videoUrl,
-      }])
-      .select()
-      .single()
-
-    return new Response(
-      JSON.stringify(recap),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
-  }
-})
+  return recap
+}))
 
 function generateWeeklySummary(reflections: any[], habitCompletions: any[]): string {
   const totalReflections = reflections.length
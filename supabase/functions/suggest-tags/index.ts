@@ -0,0 +1,82 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { HttpError, UpstreamError } from '../_shared/errors.ts'
+import { chatJson, getLLMProvider, LLMProvider } from '../_shared/llm/index.ts'
+import * as s from '../_shared/schema.ts'
+
+const SuggestTagsRequestSchema = s.object({
+  text: s.string({ min: 1, max: 20000 }),
+})
+
+// Shape the model must return for the 'reflection-tags' prompt
+const ReflectionTagsSchema = s.object({
+  tags: s.array(s.string({ min: 1, max: 30 }), { max: 5 }),
+})
+
+const MAX_SUGGESTIONS = 3
+const KNOWN_TAGS_IN_PROMPT = 50
+
+// Same rules as the app's tag input: lower case, single spaces, no leading '#'
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase().slice(0, 30)
+}
+
+// The user client from the handler context is bound to the caller, so the tag
+// vocabulary below only contains their own tags
+serve(createHandler('suggest-tags', async ({ req, supabase }) => {
+  const llm = await getLLMProvider()
+  const { text } = await readJson(req, SuggestTagsRequestSchema)
+
+  const { data: stats, error } = await supabase.rpc('reflection_tag_stats')
+  if (error) {
+    throw new UpstreamError('Database', `Failed to load tags: ${error.message}`)
+  }
+
+  // Offer the most used tags first so the model reuses them instead of inventing near-duplicates
+  const knownTags: string[] = (stats ?? [])
+    .sort((a: { reflection_count: number }, b: { reflection_count: number }) => b.reflection_count - a.reflection_count)
+    .slice(0, KNOWN_TAGS_IN_PROMPT)
+    .map((stat: { tag: string }) => stat.tag)
+
+  const tags = await suggestTags(text, knownTags, llm)
+  return { tags }
+}))
+
+async function suggestTags(text: string, knownTags: string[], llm: LLMProvider): Promise<string[]> {
+  const systemPrompt = `You label journal reflections with short topic tags so the writer can group entries later.
+
+Rules:
+- Suggest 1 to ${MAX_SUGGESTIONS} tags describing what the reflection is about (e.g. work, family, health, sleep, friends, money).
+- Each tag is one or two lower-case words, no '#'.
+- Prefer the writer's existing tags when they fit; only invent a new tag when none of them do.
+- Do not tag emotions; mood is tracked separately.
+
+Respond with a JSON object in this exact format:
+{
+  "tags": ["work", "sleep"]
+}`
+
+  const userPrompt = `Existing tags: ${knownTags.length > 0 ? knownTags.join(', ') : 'none yet'}
+
+Reflection:
+${text}`
+
+  try {
+    const result = await chatJson(llm, {
+      task: 'reflection-tags',
+      schema: ReflectionTagsSchema,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.2,
+      maxTokens: 100
+    })
+
+    return [...new Set(result.tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_SUGGESTIONS)
+  } catch (error) {
+    console.error(`${llm.name} error:`, error)
+    if (error instanceof HttpError) throw error
+    throw new UpstreamError(llm.name, `Tag suggestion failed: ${error.message}`)
+  }
+}
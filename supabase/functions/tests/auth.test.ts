@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assertOwnUserId, requireUser } from '../_shared/auth.ts'
+import { ForbiddenError, UnauthorizedError } from '../_shared/errors.ts'
+import { loadHandler } from './helpers/serve.ts'
+import { fakeSupabase, jsonRequest } from './helpers/supabase.ts'
+
+const ALICE = '00000000-0000-4000-8000-00000000a11c'
+const BOB = '00000000-0000-4000-8000-000000000b0b'
+
+const alice = { id: ALICE } as User
+
+Deno.test('assertOwnUserId refuses a user_id naming someone else', () => {
+  assert.throws(() => assertOwnUserId(alice, BOB), ForbiddenError)
+})
+
+Deno.test('assertOwnUserId falls back to the caller when user_id is omitted', () => {
+  assert.equal(assertOwnUserId(alice, undefined), ALICE)
+  assert.equal(assertOwnUserId(alice, null), ALICE)
+  assert.equal(assertOwnUserId(alice, ALICE), ALICE)
+})
+
+Deno.test('requireUser rejects a request without a token', async () => {
+  await assert.rejects(requireUser(new Request('http://functions.test', { method: 'POST' })), UnauthorizedError)
+})
+
+Deno.test('requireUser rejects a token the auth server does not accept', async () => {
+  const supabase = fakeSupabase({ 'alice-token': ALICE })
+  try {
+    await assert.rejects(requireUser(jsonRequest('forged-token', {})), UnauthorizedError)
+  } finally {
+    supabase.restore()
+  }
+})
+
+for (const name of ['update-video-url', 'generate-ai-recap']) {
+  Deno.test(`${name} answers 403 when the body names another user`, async () => {
+    const supabase = fakeSupabase({ 'alice-token': ALICE })
+    try {
+      const handler = await loadHandler(name)
+      const response = await handler(jsonRequest('alice-token', {
+        user_id: BOB,
+        timeFrame: 'weekly',
+        video_url: 'https://videos.example.com/recap.mp4',
+        week_start: '2025-10-12',
+        week_end: '2025-10-18',
+      }))
+
+      assert.equal(response.status, 403)
+      assert.equal((await response.json()).code, 'forbidden')
+      assert.deepEqual(supabase.requests, [], 'nothing should reach the database')
+    } finally {
+      supabase.restore()
+    }
+  })
+}
+
+Deno.test('update-video-url only updates the caller\'s own recap', async () => {
+  const updates: { method: string; url: URL }[] = []
+  const supabase = fakeSupabase({ 'alice-token': ALICE }, (request, url) => {
+    updates.push({ method: request.method, url })
+    return Response.json([])
+  })
+  try {
+    const handler = await loadHandler('update-video-url')
+    const response = await handler(jsonRequest('alice-token', {
+      user_id: ALICE,
+      video_url: 'https://videos.example.com/recap.mp4',
+      week_start: '2025-10-12',
+      week_end: '2025-10-18',
+    }))
+
+    // The fake database has no recap for that week
+    assert.equal(response.status, 404)
+    assert.deepEqual(supabase.requests, ['/rest/v1/weekly_recaps'])
+
+    const [{ method, url }] = updates
+    assert.equal(method, 'PATCH')
+    assert.equal(url.searchParams.get('user_id'), `eq.${ALICE}`)
+    assert.equal(url.searchParams.get('week_start'), 'eq.2025-10-12')
+    assert.equal(url.searchParams.get('week_end'), 'eq.2025-10-18')
+  } finally {
+    supabase.restore()
+  }
+})
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { LocalEmbeddingProvider } from '../_shared/llm/embeddings.ts'
+import { loadHandler } from './helpers/serve.ts'
+import { fakeSupabase, jsonRequest } from './helpers/supabase.ts'
+
+const ALICE = '00000000-0000-4000-8000-00000000a11c'
+const BOB = '00000000-0000-4000-8000-000000000b0b'
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0)
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0))
+  return dot / (norm(a) * norm(b))
+}
+
+Deno.test('LocalEmbeddingProvider gives the same text the same vector', async () => {
+  const text = 'Went for a long walk in the park this morning'
+  const [first] = await new LocalEmbeddingProvider().embed([text])
+  const [again, other] = await new LocalEmbeddingProvider().embed([text, 'Argued with my manager'])
+
+  assert.deepEqual(first, again)
+  assert.notDeepEqual(first, other)
+  assert.equal(first.length, 256)
+})
+
+Deno.test('LocalEmbeddingProvider returns unit vectors, even for stopword-only text', async () => {
+  const vectors = await new LocalEmbeddingProvider().embed(['The park was lovely', 'and so it was', 'it was so'])
+
+  for (const vector of vectors) {
+    assert.ok(Math.abs(Math.hypot(...vector) - 1) < 1e-9)
+  }
+  assert.notDeepEqual(vectors[1], vectors[2])
+})
+
+Deno.test('LocalEmbeddingProvider scores overlapping wording above unrelated text', async () => {
+  const [source, similar, unrelated] = await new LocalEmbeddingProvider().embed([
+    'Walked in the park this morning and felt calm',
+    'Another calm morning walk through the park',
+    'The budget meeting with my manager ran late',
+  ])
+
+  assert.ok(cosine(source, similar) > cosine(source, unrelated))
+  assert.ok(cosine(source, similar) > 0.3)
+})
+
+// Just enough of the reflections and reflection_embeddings tables, and of the
+// match_reflections function, for find-similar-reflections. Rows are scoped to the
+// caller the way RLS scopes them.
+function fakeJournal(reflections: { id: string; user_id: string; content: string }[], users: Record<string, string>) {
+  const embeddings = new Map<string, { reflection_id: string; user_id: string; model: string; content_hash: string; embedding: string }>()
+
+  return fakeSupabase(users, async (request, url) => {
+    const caller = users[request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '']
+    const eq = (column: string) => url.searchParams.get(column)?.replace(/^eq\./, '')
+    const own = <T extends { user_id: string }>(rows: T[]) => rows.filter(row => row.user_id === caller)
+
+    switch (`${request.method} ${url.pathname}`) {
+      case 'GET /rest/v1/reflections':
+        return Response.json(own(reflections).filter(row => !eq('id') || row.id === eq('id')))
+
+      case 'GET /rest/v1/reflection_embeddings':
+        return Response.json(own([...embeddings.values()]).filter(row => row.model === eq('model')))
+
+      case 'POST /rest/v1/reflection_embeddings':
+        for (const row of await request.json()) {
+          assert.equal(row.user_id, caller)
+          embeddings.set(`${row.reflection_id}:${row.model}`, row)
+        }
+        return new Response(null, { status: 201 })
+
+      case 'POST /rest/v1/rpc/match_reflections': {
+        const { source_reflection_id, embedding_model, match_count } = await request.json()
+        const source = embeddings.get(`${source_reflection_id}:${embedding_model}`)
+        if (!source || source.user_id !== caller) return Response.json([])
+
+        const vector = (row: { embedding: string }) => JSON.parse(row.embedding) as number[]
+        return Response.json(
+          [...embeddings.values()]
+            .filter(row => row.user_id === source.user_id && row.model === embedding_model && row.reflection_id !== source_reflection_id)
+            .map(row => ({
+              ...reflections.find(r => r.id === row.reflection_id)!,
+              similarity: cosine(vector(row), vector(source)),
+            }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, match_count)
+        )
+      }
+
+      default:
+        throw new Error(`Unexpected request ${request.method} ${url.pathname}`)
+    }
+  })
+}
+
+Deno.test('find-similar-reflections ranks the most similar of the caller\'s reflections first', async () => {
+  const users = { 'alice-token': ALICE, 'bob-token': BOB }
+  const supabase = fakeJournal([
+    { id: 'walk-1', user_id: ALICE, content: 'Walked in the park this morning and felt calm' },
+    { id: 'budget', user_id: ALICE, content: 'The budget meeting with my manager ran late' },
+    { id: 'walk-2', user_id: ALICE, content: 'Another calm morning walk through the park' },
+    { id: 'dinner', user_id: ALICE, content: 'Cooked dinner for friends and laughed a lot' },
+    { id: 'bobs-walk', user_id: BOB, content: 'Walked in the park this morning and felt calm' },
+  ], users)
+
+  try {
+    Deno.env.delete('EMBEDDING_PROVIDER') // LLM_PROVIDER=mock falls back to the local embedder
+    const handler = await loadHandler('find-similar-reflections')
+    const response = await handler(jsonRequest('alice-token', { reflection_id: 'walk-1', limit: 3 }))
+    const body = await response.json()
+
+    assert.equal(response.status, 200)
+    assert.equal(body.provider, 'local')
+    assert.equal(body.newly_embedded, 4)
+    assert.deepEqual(body.matches.map((match: { id: string }) => match.id).sort(), ['budget', 'dinner', 'walk-2'])
+    assert.equal(body.matches[0].id, 'walk-2')
+    assert.ok(body.matches[0].similarity > body.matches[1].similarity)
+
+    // Unchanged reflections are not embedded a second time
+    const again = await (await handler(jsonRequest('alice-token', { reflection_id: 'walk-1' }))).json()
+    assert.equal(again.newly_embedded, 0)
+    assert.deepEqual(again.matches.map((match: { id: string }) => match.id), body.matches.map((match: { id: string }) => match.id))
+  } finally {
+    supabase.restore()
+  }
+})
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { classifyEmotions } from '../_shared/emotions.ts'
+
+Deno.test('classifyEmotions reads a plain emotion word', () => {
+  const analysis = classifyEmotions('I feel happy today')
+
+  assert.equal(analysis.primary_emotion, 'joy')
+  assert.equal(analysis.sentiment, 'positive')
+  assert.ok(analysis.emotions.joy > 0.4)
+})
+
+Deno.test('classifyEmotions leaves text with no emotion words neutral', () => {
+  const analysis = classifyEmotions('I went to the shop and bought bread')
+
+  assert.equal(analysis.primary_emotion, null)
+  assert.equal(analysis.sentiment, 'neutral')
+})
+
+for (const apostrophe of ["'", '’']) {
+  Deno.test(`classifyEmotions negates "don${apostrophe}t"`, () => {
+    const analysis = classifyEmotions(`I don${apostrophe}t feel happy`)
+
+    assert.equal(analysis.emotions.joy, 0)
+    assert.equal(analysis.primary_emotion, 'sadness')
+    assert.equal(analysis.sentiment, 'negative')
+  })
+
+  Deno.test(`classifyEmotions negates "wasn${apostrophe}t" with an intensifier in between`, () => {
+    const analysis = classifyEmotions(`It wasn${apostrophe}t really stressful`)
+
+    assert.equal(analysis.emotions.fear, 0)
+    assert.equal(analysis.primary_emotion, 'calm')
+  })
+}
+
+Deno.test('classifyEmotions ends negation after a few words or at a comma', () => {
+  assert.equal(classifyEmotions('Not that I minded much, I was happy').primary_emotion, 'joy')
+  assert.equal(classifyEmotions('I did not go out and in the end I was happy').primary_emotion, 'joy')
+})
+
+Deno.test('classifyEmotions scales a word by the intensifier before it', () => {
+  const plain = classifyEmotions('I am stressed').emotions.fear
+  const very = classifyEmotions('I am very stressed').emotions.fear
+  const slightly = classifyEmotions('I am slightly stressed').emotions.fear
+
+  assert.ok(very > plain)
+  assert.ok(slightly < plain)
+  // Only the next word is intensified
+  assert.equal(classifyEmotions('I am very tired and stressed').emotions.fear, plain)
+})
+
+Deno.test('classifyEmotions counts exclamation marks and capitals as emphasis', () => {
+  const plain = classifyEmotions('I am happy').emotions.joy
+
+  assert.ok(classifyEmotions('I am happy!!').emotions.joy > plain)
+  assert.ok(classifyEmotions('I am HAPPY').emotions.joy > plain)
+})
+
+Deno.test('classifyEmotions scores emoji, with or without a variation selector', () => {
+  assert.equal(classifyEmotions('😭😭').primary_emotion, 'sadness')
+  assert.equal(classifyEmotions('🤬').primary_emotion, 'anger')
+  assert.equal(classifyEmotions('❤️').primary_emotion, 'joy')
+  assert.equal(classifyEmotions('Long day 😌').primary_emotion, 'calm')
+})
+
+const LANGUAGES = [
+  { language: 'en', text: 'I was so anxious before the exam', negated: 'I was not anxious at all' },
+  { language: 'es', text: 'Estoy muy preocupada por el trabajo', negated: 'No estoy preocupada por el trabajo' },
+  { language: 'de', text: 'Ich bin wirklich besorgt wegen der Arbeit', negated: 'Ich bin nicht besorgt wegen der Arbeit' },
+  { language: 'he', text: 'אני ממש לחוצה מהעבודה', negated: 'אני לא לחוצה מהעבודה' },
+] as const
+
+for (const { language, text, negated } of LANGUAGES) {
+  Deno.test(`classifyEmotions (${language}) finds worry and its negation`, () => {
+    const analysis = classifyEmotions(text, language)
+    assert.equal(analysis.primary_emotion, 'fear')
+    assert.equal(analysis.sentiment, 'negative')
+
+    const calm = classifyEmotions(negated, language)
+    assert.equal(calm.emotions.fear, 0)
+    assert.equal(calm.primary_emotion, 'calm')
+  })
+}
+
+Deno.test('classifyEmotions matches Spanish and German words with or without accents and endings', () => {
+  assert.equal(classifyEmotions('Me siento contenta y llena de alegria', 'es').primary_emotion, 'joy')
+  assert.equal(classifyEmotions('Heute war ich glücklicher als gestern', 'de').primary_emotion, 'joy')
+  assert.equal(classifyEmotions('Heute war ich glucklich', 'de').primary_emotion, 'joy')
+})
+
+Deno.test('classifyEmotions strips Hebrew one-letter prefixes', () => {
+  // ו "and" before עצובה "sad"
+  assert.equal(classifyEmotions('הייתי עייפה ועצובה', 'he').primary_emotion, 'sadness')
+})
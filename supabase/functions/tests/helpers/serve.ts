@@ -0,0 +1,27 @@
+// Stands in for std's `serve` when tests import a function's index.ts (see the import
+// map in tests/deno.json): the handler is kept instead of starting a server, so a test
+// can call it with a Request.
+
+type RequestHandler = (req: Request) => Response | Promise<Response>
+
+let lastHandler: RequestHandler | null = null
+const handlers = new Map<string, RequestHandler>()
+
+export function serve(handler: RequestHandler): void {
+  lastHandler = handler
+}
+
+// `name` is the function's directory, e.g. 'update-video-url'
+export async function loadHandler(name: string): Promise<RequestHandler> {
+  const cached = handlers.get(name)
+  if (cached) return cached
+
+  lastHandler = null
+  await import(`../../${name}/index.ts`)
+  if (!lastHandler) {
+    throw new Error(`${name}/index.ts did not call serve()`)
+  }
+
+  handlers.set(name, lastHandler)
+  return lastHandler
+}
@@ -0,0 +1,61 @@
+// A fake Supabase API for handler tests. `requireUser` asks GoTrue who the bearer
+// token belongs to; every other request is recorded and passed to `rest`, which by
+// default answers with an empty result, so a test can assert that nothing reached
+// the database or play the part of the tables a function uses.
+
+export const SUPABASE_URL = 'http://supabase.test'
+
+export interface FakeSupabase {
+  requests: string[]; // paths of non-auth requests, e.g. '/rest/v1/weekly_recaps'
+  restore: () => void;
+}
+
+type RestHandler = (request: Request, url: URL) => Response | Promise<Response>
+
+// `users` maps bearer tokens to user ids
+export function fakeSupabase(
+  users: Record<string, string>,
+  rest: RestHandler = () => Response.json([])
+): FakeSupabase {
+  Deno.env.set('SUPABASE_URL', SUPABASE_URL)
+  Deno.env.set('SUPABASE_ANON_KEY', 'anon-key')
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+  Deno.env.set('LLM_PROVIDER', 'mock')
+
+  const originalFetch = globalThis.fetch
+  const requests: string[] = []
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init)
+    const url = new URL(request.url)
+    if (url.origin !== SUPABASE_URL) {
+      return Promise.reject(new Error(`Unexpected request to ${url.origin}`))
+    }
+
+    if (url.pathname === '/auth/v1/user') {
+      const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? ''
+      const id = users[token]
+      return Promise.resolve(id
+        ? Response.json({ id, aud: 'authenticated', role: 'authenticated', email: `${id}@example.com`, app_metadata: {}, user_metadata: {}, created_at: new Date(0).toISOString() })
+        : Response.json({ msg: 'invalid JWT' }, { status: 401 }))
+    }
+
+    requests.push(url.pathname)
+    return Promise.resolve(rest(request, url))
+  }
+
+  return {
+    requests,
+    restore: () => {
+      globalThis.fetch = originalFetch
+    },
+  }
+}
+
+export function jsonRequest(token: string, body: unknown): Request {
+  return new Request('http://functions.test', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
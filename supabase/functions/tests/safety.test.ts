@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict'
+import { assessRisk, assessRiskAcross } from '../_shared/safety.ts'
+
+Deno.test('assessRisk finds nothing in an ordinary entry', () => {
+  assert.deepEqual(assessRisk('Long day at work, but dinner with friends was lovely'), { level: 'none', categories: [] })
+  assert.deepEqual(assessRisk(''), { level: 'none', categories: [] })
+})
+
+Deno.test('assessRisk rates hopelessness as elevated and suicidal or self-harm language as high', () => {
+  assert.deepEqual(assessRisk('Everything feels hopeless lately'), { level: 'elevated', categories: ['hopelessness'] })
+  assert.deepEqual(assessRisk('Some days I want to die'), { level: 'high', categories: ['suicidal_ideation'] })
+  assert.deepEqual(assessRisk('I keep wanting to hurt myself'), { level: 'high', categories: ['self_harm'] })
+})
+
+Deno.test('assessRisk reports every category it matched, at the highest level', () => {
+  const risk = assessRisk('I feel worthless and I have thought about suicide')
+
+  assert.equal(risk.level, 'high')
+  assert.deepEqual([...risk.categories].sort(), ['hopelessness', 'suicidal_ideation'])
+})
+
+Deno.test('assessRisk matches whole phrases only', () => {
+  assert.equal(assessRisk('She laughed hopelessly at the joke').level, 'none')
+  assert.equal(assessRisk('The overdosed plants wilted').level, 'none')
+})
+
+Deno.test('assessRisk ignores case and spacing', () => {
+  assert.equal(assessRisk('I WANT TO   DIE').level, 'high')
+  assert.equal(assessRisk('end\nmy life').level, 'high')
+})
+
+for (const apostrophe of ["'", '’']) {
+  Deno.test(`assessRisk reads "${apostrophe}" in contractions`, () => {
+    assert.equal(assessRisk(`I can${apostrophe}t go on like this`).level, 'elevated')
+    assert.equal(assessRisk(`I don${apostrophe}t want to wake up tomorrow`).level, 'high')
+  })
+}
+
+const LANGUAGES = [
+  { language: 'es', elevated: 'Ya no puedo más con esto', high: 'A veces pienso en quitarme la vida' },
+  { language: 'de', elevated: 'Alles fühlt sich hoffnungslos an', high: 'Ich will sterben' },
+  { language: 'he', elevated: 'אני מרגישה חסרת תקווה', high: 'אני רוצה למות' },
+] as const
+
+for (const { language, elevated, high } of LANGUAGES) {
+  Deno.test(`assessRisk screens ${language} text`, () => {
+    assert.equal(assessRisk(elevated).level, 'elevated')
+    assert.equal(assessRisk(high).level, 'high')
+  })
+}
+
+Deno.test('assessRisk matches with or without accents', () => {
+  assert.deepEqual(assessRisk('Tengo ganas de hacerme daño'), { level: 'high', categories: ['self_harm'] })
+  assert.deepEqual(assessRisk('tengo ganas de hacerme dano'), { level: 'high', categories: ['self_harm'] })
+  assert.equal(assessRisk('Ich hatte Angst vor einer Überdosis').level, 'high')
+  assert.equal(assessRisk('Ya no puedo mas').level, 'elevated')
+})
+
+Deno.test('assessRisk accepts a one-letter Hebrew prefix but not a longer word', () => {
+  // ו "and", ש "that"
+  assert.equal(assessRisk('חשבתי ולהתאבד זה הפתרון').level, 'high')
+  assert.deepEqual(assessRisk('אני מרגיש שאין טעם'), { level: 'elevated', categories: ['hopelessness'] })
+  // Two letters in front are a different word
+  assert.equal(assessRisk('אבלהתאבד').level, 'none')
+})
+
+Deno.test('assessRisk checks every language whatever the entry is written in', () => {
+  assert.equal(assessRisk('Honestly today I just thought quiero morir').level, 'high')
+})
+
+Deno.test('assessRiskAcross takes the highest level and all categories', () => {
+  const risk = assessRiskAcross(['A good walk this morning', 'I feel like a burden, I am a burden', 'I want to die'])
+
+  assert.equal(risk.level, 'high')
+  assert.deepEqual([...risk.categories].sort(), ['hopelessness', 'suicidal_ideation'])
+  assert.equal(assessRiskAcross(['Fine', 'Everything is hopeless']).level, 'elevated')
+  assert.deepEqual(assessRiskAcross([]), { level: 'none', categories: [] })
+})
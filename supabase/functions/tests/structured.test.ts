@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict'
+import { ModelOutputError } from '../_shared/errors.ts'
+import { chatJson, getLLMProvider } from '../_shared/llm/index.ts'
+import { MockChatProvider } from '../_shared/llm/mock.ts'
+import { defaultFixtures } from '../_shared/llm/fixtures.ts'
+import { ChatRequest, ChatResult } from '../_shared/llm/types.ts'
+import * as s from '../_shared/schema.ts'
+
+// Same shape generate-ai-recap asks for
+const RecapSchema = s.object({
+  summaryText: s.string({ min: 1 }),
+  motivationalMessage: s.string({ min: 1 }),
+  recommendations: s.array(s.string({ min: 1 }), { min: 1, max: 5 }),
+})
+
+// The mock with its requests recorded. `replies`, when given, are used in order
+// before falling back to the fixtures.
+class RecordingMock extends MockChatProvider {
+  readonly requests: ChatRequest[] = []
+
+  constructor(fixtures: Record<string, unknown> = defaultFixtures, private readonly replies: string[] = []) {
+    super(fixtures)
+  }
+
+  override chat(request: ChatRequest): Promise<ChatResult> {
+    this.requests.push({ ...request, messages: [...request.messages] })
+    const reply = this.replies.shift()
+    return reply === undefined
+      ? super.chat(request)
+      : Promise.resolve({ content: reply, provider: this.name, model: this.model })
+  }
+}
+
+const request = { task: 'ai-recap', schema: RecapSchema, messages: [{ role: 'user' as const, content: 'Write my recap' }] }
+
+Deno.test('chatJson returns a fixture that matches the schema after one call', async () => {
+  const llm = new RecordingMock()
+  const recap = await chatJson(llm, request)
+
+  assert.deepEqual(recap, defaultFixtures['ai-recap'])
+  assert.equal(llm.requests.length, 1)
+  assert.equal(llm.requests[0].json, true)
+})
+
+Deno.test('chatJson accepts JSON wrapped in a code fence', async () => {
+  const llm = new RecordingMock({ 'ai-recap': `Here you go:\n\`\`\`json\n${JSON.stringify(defaultFixtures['ai-recap'])}\n\`\`\`` })
+
+  assert.deepEqual(await chatJson(llm, request), defaultFixtures['ai-recap'])
+  assert.equal(llm.requests.length, 1)
+})
+
+Deno.test('chatJson sends the issues back once and uses the repaired reply', async () => {
+  const llm = new RecordingMock(defaultFixtures, [JSON.stringify({ summaryText: 'Only a summary' })])
+  const recap = await chatJson(llm, request)
+
+  assert.deepEqual(recap, defaultFixtures['ai-recap'])
+  assert.equal(llm.requests.length, 2)
+
+  const repair = llm.requests[1].messages
+  assert.equal(repair.length, 3)
+  assert.equal(repair[1].role, 'assistant')
+  assert.equal(repair[1].content, JSON.stringify({ summaryText: 'Only a summary' }))
+  assert.match(repair[2].content as string, /motivationalMessage/)
+  assert.match(repair[2].content as string, /JSON Schema/)
+})
+
+Deno.test('chatJson throws ModelOutputError when the repair is still invalid', async () => {
+  const llm = new RecordingMock({ 'ai-recap': { summaryText: 'Only a summary', recommendations: [] } })
+
+  const error = await chatJson(llm, request).then(
+    () => assert.fail('expected chatJson to throw'),
+    (error: unknown) => error
+  )
+
+  assert.ok(error instanceof ModelOutputError)
+  assert.equal(error.status, 502)
+  assert.equal(llm.requests.length, 2, 'one first attempt and a single repair')
+  assert.ok((error.details as string[]).length > 0)
+})
+
+Deno.test('chatJson reports a reply that is not JSON at all', async () => {
+  const llm = new RecordingMock({ 'ai-recap': 'Sorry, I cannot help with that.' })
+
+  await assert.rejects(chatJson(llm, request), (error: unknown) => {
+    assert.ok(error instanceof ModelOutputError)
+    assert.deepEqual(error.details, ['reply is not valid JSON'])
+    return true
+  })
+  assert.equal(llm.requests.length, 2)
+})
+
+Deno.test('chatJson makes no repair attempt when repairAttempts is 0', async () => {
+  const llm = new RecordingMock({ 'ai-recap': '{}' })
+
+  await assert.rejects(chatJson(llm, { ...request, repairAttempts: 0 }), ModelOutputError)
+  assert.equal(llm.requests.length, 1)
+})
+
+Deno.test('LLM_PROVIDER=mock loads fixture overrides from LLM_MOCK_FIXTURES', async () => {
+  Deno.env.set('LLM_PROVIDER', 'mock')
+  Deno.env.set('LLM_MOCK_FIXTURES', new URL('./fixtures/llm.json', import.meta.url).pathname)
+  try {
+    const llm = await getLLMProvider()
+    const { script } = await chatJson(llm, {
+      task: 'video-script',
+      schema: s.object({ script: s.string({ min: 1 }) }),
+      messages: [{ role: 'user', content: 'Write the script' }],
+    })
+    assert.equal(script, 'Hello from the fixture file')
+
+    // Tasks the file does not mention keep their built-in fixture
+    assert.deepEqual(await chatJson(llm, request), defaultFixtures['ai-recap'])
+  } finally {
+    Deno.env.delete('LLM_MOCK_FIXTURES')
+  }
+})
@@ -1,107 +1,58 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createHandler, readFormData } from '../_shared/handler.ts'
+import { BadRequestError } from '../_shared/errors.ts'
+import { isLanguage } from '../_shared/language.ts'
+import { getSTTProvider } from '../_shared/stt/index.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
+// The smallest limit among the providers (OpenAI's 25 MB)
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+// Chrome labels audio-only MediaRecorder output "video/webm" in some versions
+const isAudioType = (type: string) => type.startsWith('audio/') || type.startsWith('video/webm')
 
-  // 1️⃣ Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
-  }
+serve(createHandler('transcribe-audio', async ({ req }) => {
+  const formData = await readFormData(req)
+  const audioFile = formData.get('audio')
 
-  try {
-    const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY')
-    
-    if (!ELEVENLABS_API_KEY) {
-      throw new Error('ElevenLabs API key not configured')
-    }
+  if (!(audioFile instanceof File)) {
+    throw new BadRequestError('No audio file provided')
+  }
 
-    const formData = await req.formData()
-    const audioFile = formData.get('audio') as File
-    
-    if (!audioFile) {
-      throw new Error('No audio file provided')
-    }
+  if (audioFile.size === 0) {
+    throw new BadRequestError('Empty audio buffer')
+  }
 
-    // Convert audio to the format expected by ElevenLabs
-    const audioBuffer = await audioFile.arrayBuffer()
-    
-    if (audioBuffer.byteLength === 0) {
-      throw new Error('Empty audio buffer')
-    }
-    
-    // Create form data for ElevenLabs Speech-to-Text API
-    const elevenLabsFormData = new FormData()
-    // Use 'file' as the field name - this is what ElevenLabs expects
-    elevenLabsFormData.append('file', new Blob([audioBuffer], { type: 'audio/wav' }), 'reflection.wav')
-    // Use the correct model_id for ElevenLabs Speech-to-Text
-    elevenLabsFormData.append('model_id', 'scribe_v1')
+  if (audioFile.size > MAX_AUDIO_BYTES) {
+    throw new BadRequestError('Recording is too long to transcribe. Please keep voice notes under 25 MB.')
+  }
 
-    // Call ElevenLabs Speech-to-Text API
-    const response = await fetch('https://api.elevenlabs.io/v1/speech-to-text', {
-      method: 'POST',
-      headers: {
-        'xi-api-key': ELEVENLABS_API_KEY,
-      },
-      body: elevenLabsFormData,
-    })
+  // Passed through as recorded so the provider decodes the right container
+  const mimeType = audioFile.type || 'audio/webm'
+  if (!isAudioType(mimeType)) {
+    throw new BadRequestError(`Unsupported audio type "${mimeType}"`)
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('ElevenLabs API error:', {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText
-      })
-      throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText} - ${errorText}`)
-    }
+  // Optional hint (the user's preferred language). Without it the provider detects the
+  // language itself, which is less reliable on short clips.
+  const language = formData.get('language')
+  if (language !== null && !isLanguage(language)) {
+    throw new BadRequestError(`Unsupported language "${language}"`)
+  }
 
-    const result = await response.json()
-    
-    return new Response(
-      JSON.stringify({ 
-        text: result.text || '',
-        confidence: result.confidence || 0.5 
-      }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('Transcription error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'Speech-to-text transcription failed'
-      }),
-      { 
-        status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+  const stt = getSTTProvider()
+  console.log(`Transcribing ${audioFile.size} bytes of ${mimeType} with ${stt.name} (${stt.model})`)
+
+  const result = await stt.transcribe({
+    audio: audioFile,
+    mimeType,
+    language: language || undefined,
+  })
+
+  return {
+    text: result.text,
+    language: result.language,
+    words: result.words,
+    duration: result.duration,
+    provider: result.provider,
   }
-})
\ No newline at end of file
+}))
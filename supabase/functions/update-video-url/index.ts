@@ -1,106 +1,50 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
-
-interface UpdateVideoRequest {
-  user_id: string;
-  video_url: string;
-  week_start: string;
-  week_end: string;
-}
-
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+import { createHandler, readJson } from '../_shared/handler.ts'
+import { assertOwnUserId, createAdminClient } from '../_shared/auth.ts'
+import { NotFoundError, UpstreamError } from '../_shared/errors.ts'
+import * as s from '../_shared/schema.ts'
+
+const UpdateVideoRequestSchema = s.object({
+  user_id: s.optional(s.string()), // Optional - must match the authenticated caller when provided
+  video_url: s.string({ min: 1, max: 2048 }),
+  week_start: s.string({ min: 1 }),
+  week_end: s.string({ min: 1 }),
+})
+
+serve(createHandler('update-video-url', async ({ req, user }) => {
+  const body = await readJson(req, UpdateVideoRequestSchema)
+  const { video_url, week_start, week_end } = body
+
+  // Only the caller's own recap may be updated, whatever user_id the body claims
+  const user_id = assertOwnUserId(user, body.user_id)
+
+  // Initialize Supabase client with service key
+  const supabase = createAdminClient()
+
+  console.log(`Updating video URL for user ${user_id}, week ${week_start} to ${week_end}`)
+
+  // Update the weekly_recaps record with the final video URL
+  const { data: updatedRecap, error } = await supabase
+    .from('weekly_recaps')
+    .update({ video_url })
+    .eq('user_id', user_id)
+    .eq('week_start', week_start)
+    .eq('week_end', week_end)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new UpstreamError('Database', `Error updating video URL: ${error.message}`)
   }
 
-  // Require Authorization Header
-  const authHeader = req.headers.get("Authorization");
-  if (!authHeader) {
-    return new Response(
-      JSON.stringify({ error: "Missing Authorization header." }),
-      { 
-        status: 401, 
-        headers: { 
-          ...corsHeaders,
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+  if (!updatedRecap) {
+    throw new NotFoundError('No weekly recap found for that week')
   }
 
-  try {
-    const body = await req.json();
-    const { user_id, video_url, week_start, week_end }: UpdateVideoRequest = body;
-    
-    // Validate inputs
-    if (!user_id || !video_url || !week_start || !week_end) {
-      return new Response(
-        JSON.stringify({ error: "Missing required fields: user_id, video_url, week_start, week_end" }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, "Content-Type": "application/json" } 
-        }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    // Initialize Supabase client with service key
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    console.log(`Updating video URL for user ${user_id}, week ${week_start} to ${week_end}`)
-
-    // Update the weekly_recaps record with the final video URL
-    const { data: updatedRecap, error } = await supabase
-      .from('weekly_recaps')
-      .update({ video_url })
-      .eq('user_id', user_id)
-      .eq('week_start', week_start)
-      .eq('week_end', week_end)
-      .select()
-      .single()
-
-    if (error) {
-      throw new Error(`Error updating video URL: ${error.message}`)
-    }
-
-    console.log('Video URL updated successfully:', updatedRecap)
+  console.log('Video URL updated successfully:', updatedRecap)
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        recap: updatedRecap 
-      }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    )
-    
-  } catch (error) {
-    console.error('Video URL update error:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        details: 'Video URL update failed'
-      }),
-      { 
-        status: 500,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        }
-      }
-    )
+  return {
+    success: true,
+    recap: updatedRecap
   }
-})
\ No newline at end of file
+}))
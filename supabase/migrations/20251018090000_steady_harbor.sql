@@ -0,0 +1,32 @@
+/*
+  # Link structured body coach plans to body feedback
+
+  1. Changes
+    - `body_coach_reports`
+      - `body_feedback_id` (uuid, foreign key to body_feedback, unique) - the plan this
+        structured analysis belongs to; `analysis` holds the workout days/exercises and
+        meals/foods the `body_feedback` text columns are rendered from
+
+  2. Notes
+    - Deleting a body feedback entry deletes its structured report
+    - Older body feedback rows have no report and keep showing their plain text
+
+  3. Security
+    - Replace the `body_coach_reports` policy so a report can only be linked to the
+      user's own body feedback. `body_feedback_id` is unique, so a report pointing at
+      someone else's plan would block theirs.
+*/
+
+ALTER TABLE body_coach_reports
+  ADD COLUMN IF NOT EXISTS body_feedback_id uuid UNIQUE REFERENCES body_feedback(id) ON DELETE CASCADE;
+
+DROP POLICY IF EXISTS "Users can manage own body coach reports" ON body_coach_reports;
+CREATE POLICY "Users can manage own body coach reports"
+  ON body_coach_reports
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (body_feedback_id IS NULL OR EXISTS (SELECT 1 FROM body_feedback WHERE body_feedback.id = body_feedback_id AND body_feedback.user_id = auth.uid()))
+  );
@@ -0,0 +1,77 @@
+/*
+  # Workout session logging for body coach plans
+
+  1. New Tables
+    - `workout_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `body_feedback_id` (uuid, foreign key to body_feedback) - the plan being followed
+      - `day_index` (integer) - position of the plan day in the structured workout
+      - `day_label` (text) - the plan day's name when the session was logged
+      - `performed_on` (date)
+      - `exercises` (jsonb) - per exercise: name plus the sets actually done (reps, load, unit)
+      - `notes` (text)
+      - `completed` (boolean)
+      - `completed_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `body_feedback.habit_id` (uuid, foreign key to habits) - optional habit that is
+      checked off whenever a session for the plan is completed
+
+  3. Security
+    - Enable RLS on `workout_sessions` table
+    - Add policy for authenticated users to manage their own sessions, logged against
+      one of their own plans
+    - Replace the `body_feedback` policy so a plan can only be linked to the user's own habit
+*/
+
+CREATE TABLE IF NOT EXISTS workout_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  body_feedback_id uuid REFERENCES body_feedback(id) ON DELETE CASCADE NOT NULL,
+  day_index integer NOT NULL CHECK (day_index >= 0),
+  day_label text NOT NULL,
+  performed_on date NOT NULL DEFAULT CURRENT_DATE,
+  exercises jsonb NOT NULL DEFAULT '[]',
+  notes text,
+  completed boolean NOT NULL DEFAULT false,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE body_feedback
+  ADD COLUMN IF NOT EXISTS habit_id uuid REFERENCES habits(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE workout_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage own workout sessions"
+  ON workout_sessions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM body_feedback WHERE body_feedback.id = body_feedback_id AND body_feedback.user_id = auth.uid())
+  );
+
+-- Completing a session checks off the plan's habit, so the habit must be the user's own
+DROP POLICY IF EXISTS "Users can manage own body feedback" ON body_feedback;
+CREATE POLICY "Users can manage own body feedback"
+  ON body_feedback
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (habit_id IS NULL OR EXISTS (SELECT 1 FROM habits WHERE habits.id = habit_id AND habits.user_id = auth.uid()))
+  );
+
+-- Create indexes for efficient queries
+CREATE INDEX idx_workout_sessions_plan_performed_on
+  ON workout_sessions (body_feedback_id, performed_on DESC);
+
+CREATE INDEX idx_workout_sessions_user_id_performed_on
+  ON workout_sessions (user_id, performed_on DESC);
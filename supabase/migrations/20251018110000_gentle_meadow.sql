@@ -0,0 +1,79 @@
+/*
+  # Body measurements
+
+  1. New Tables
+    - `body_measurements`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to user_profiles)
+      - `metric` (text) - weight, height, waist, hips, chest, arm, thigh or body_fat
+      - `value` (numeric) - always positive
+      - `unit` (text) - kg or lbs for weight; cm, in or ft for height; % for body_fat;
+        cm or in for the other measurements
+      - `measured_on` (date)
+      - `body_feedback_id` (uuid, foreign key to body_feedback) - set when the value
+        came from a body coach analysis
+      - `note` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `body_measurements` table
+    - Add policy for authenticated users to manage their own measurements, linked
+      only to their own body feedback
+
+  3. Data
+    - Existing `body_feedback` height/weight values that are plain numbers are copied
+      over with the unit stored in their preferences
+*/
+
+CREATE TABLE IF NOT EXISTS body_measurements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  metric text NOT NULL CHECK (metric IN ('weight', 'height', 'waist', 'hips', 'chest', 'arm', 'thigh', 'body_fat')),
+  value numeric(7, 2) NOT NULL CHECK (value > 0),
+  unit text NOT NULL CHECK (unit IN ('kg', 'lbs', 'cm', 'in', 'ft', '%')),
+  measured_on date NOT NULL DEFAULT CURRENT_DATE,
+  body_feedback_id uuid REFERENCES body_feedback(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT body_measurements_metric_unit CHECK (
+    CASE metric
+      WHEN 'weight' THEN unit IN ('kg', 'lbs')
+      WHEN 'height' THEN unit IN ('cm', 'in', 'ft')
+      WHEN 'body_fat' THEN unit = '%'
+      ELSE unit IN ('cm', 'in')
+    END
+  )
+);
+
+-- Enable RLS
+ALTER TABLE body_measurements ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage own body measurements"
+  ON body_measurements
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (body_feedback_id IS NULL OR EXISTS (SELECT 1 FROM body_feedback WHERE body_feedback.id = body_feedback_id AND body_feedback.user_id = auth.uid()))
+  );
+
+-- Create index for efficient queries
+CREATE INDEX idx_body_measurements_user_metric_date
+  ON body_measurements (user_id, metric, measured_on DESC);
+
+-- Backfill from body coach analyses
+INSERT INTO body_measurements (user_id, metric, value, unit, measured_on, body_feedback_id)
+SELECT user_id, 'weight', trim(weight)::numeric,
+       CASE WHEN preferences->>'weightUnit' = 'lbs' THEN 'lbs' ELSE 'kg' END,
+       created_at::date, id
+FROM body_feedback
+WHERE trim(weight) ~ '^[0-9]+(\.[0-9]+)?$' AND trim(weight)::numeric > 0;
+
+INSERT INTO body_measurements (user_id, metric, value, unit, measured_on, body_feedback_id)
+SELECT user_id, 'height', trim(height)::numeric,
+       CASE WHEN preferences->>'heightUnit' = 'ft' THEN 'ft' ELSE 'cm' END,
+       created_at::date, id
+FROM body_feedback
+WHERE trim(height) ~ '^[0-9]+(\.[0-9]+)?$' AND trim(height)::numeric > 0;
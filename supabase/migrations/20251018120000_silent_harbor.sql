@@ -0,0 +1,49 @@
+/*
+  # Make body-analysis and voice-reflections buckets private
+
+  1. Storage Setup
+    - Set `public = false` on 'body-analysis' and 'voice-reflections'
+    - Settle the 'voice-reflections' limits (earlier migrations disagreed on
+      visibility, size limit and mime types)
+
+  2. Security Policies
+    - Drop the "Public read access" policies on both buckets
+    - Owner-only select/insert/update/delete policies are kept as they are
+
+  3. Data Migration
+    - `body_feedback.front_image_url` / `back_image_url` and `reflections.voice_url`
+      now hold object paths inside their bucket (e.g. `<user_id>/front_123.jpg`)
+      instead of public URLs. Clients turn them into short-lived signed URLs.
+    - Public and signed storage URLs already in those columns are rewritten to paths
+*/
+
+-- Both buckets are private; objects are served through signed URLs only
+UPDATE storage.buckets
+SET public = false
+WHERE id IN ('body-analysis', 'voice-reflections');
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 52428800, -- 50MB limit for audio files
+  allowed_mime_types = ARRAY['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/webm', 'audio/ogg', 'audio/mp4']::text[]
+WHERE id = 'voice-reflections';
+
+DROP POLICY IF EXISTS "Public read access to body analysis images" ON storage.objects;
+DROP POLICY IF EXISTS "Public read access to voice reflections" ON storage.objects;
+
+-- Store object paths instead of public URLs
+UPDATE body_feedback
+SET front_image_url = regexp_replace(front_image_url, '^.*/storage/v1/object/(public|sign)/body-analysis/([^?]+).*$', '\2')
+WHERE front_image_url ~ '/storage/v1/object/(public|sign)/body-analysis/';
+
+UPDATE body_feedback
+SET back_image_url = regexp_replace(back_image_url, '^.*/storage/v1/object/(public|sign)/body-analysis/([^?]+).*$', '\2')
+WHERE back_image_url ~ '/storage/v1/object/(public|sign)/body-analysis/';
+
+UPDATE reflections
+SET voice_url = regexp_replace(voice_url, '^.*/storage/v1/object/(public|sign)/voice-reflections/([^?]+).*$', '\2')
+WHERE voice_url ~ '/storage/v1/object/(public|sign)/voice-reflections/';
+
+COMMENT ON COLUMN body_feedback.front_image_url IS 'Object path in the private body-analysis bucket';
+COMMENT ON COLUMN body_feedback.back_image_url IS 'Object path in the private body-analysis bucket';
+COMMENT ON COLUMN reflections.voice_url IS 'Object path in the private voice-reflections bucket';
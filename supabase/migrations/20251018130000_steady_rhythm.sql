@@ -0,0 +1,38 @@
+/*
+  # Habit schedules
+
+  1. Modified Tables
+    - `habits`
+      - `target_frequency` now accepts 'daily', 'weekly', 'weekdays' and 'interval'
+      - `times_per_week` (integer 1-7) - completions needed per week for 'weekly' habits
+      - `weekdays` (smallint[]) - scheduled days for 'weekdays' habits, 0 = Sunday ... 6 = Saturday
+      - `interval_days` (integer 2-365) - cadence for 'interval' habits, counted from `created_at`
+
+  2. Data Migration
+    - Existing 'weekly' habits become "once per week"
+
+  3. Constraints
+    - Each schedule type requires its own setting
+*/
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS times_per_week integer CHECK (times_per_week BETWEEN 1 AND 7);
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS weekdays smallint[];
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS interval_days integer CHECK (interval_days BETWEEN 2 AND 365);
+
+ALTER TABLE habits DROP CONSTRAINT IF EXISTS habits_target_frequency_check;
+ALTER TABLE habits ADD CONSTRAINT habits_target_frequency_check
+  CHECK (target_frequency IN ('daily', 'weekly', 'weekdays', 'interval'));
+
+UPDATE habits
+SET times_per_week = 1
+WHERE target_frequency = 'weekly' AND times_per_week IS NULL;
+
+ALTER TABLE habits ADD CONSTRAINT habits_weekdays_valid
+  CHECK (weekdays IS NULL OR (cardinality(weekdays) BETWEEN 1 AND 7 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]));
+
+ALTER TABLE habits ADD CONSTRAINT habits_schedule_complete
+  CHECK (
+    (target_frequency <> 'weekly' OR times_per_week IS NOT NULL) AND
+    (target_frequency <> 'weekdays' OR weekdays IS NOT NULL) AND
+    (target_frequency <> 'interval' OR interval_days IS NOT NULL)
+  );
@@ -0,0 +1,51 @@
+/*
+  # Quantitative habits
+
+  1. Modified Tables
+    - `habits`
+      - `target_value` (numeric, optional) - daily amount that completes the habit, e.g. 8
+      - `unit` (text, optional) - what is counted, e.g. 'glasses', 'minutes', 'steps'
+      Habits without a target stay yes/no habits.
+
+  2. New Tables
+    - `habit_logs`
+      - `id` (uuid, primary key)
+      - `habit_id` (uuid, references habits)
+      - `user_id` (uuid, references user_profiles)
+      - `logged_on` (date) - day the amount counts towards
+      - `amount` (numeric) - amount added by this entry
+      - `created_at` (timestamp)
+    A day's entries are summed; once the sum reaches `target_value` the app records
+    the usual `habit_completions` row, so streaks and recaps keep reading completions.
+
+  3. Security
+    - Enable RLS on `habit_logs`
+    - Users can only manage their own log entries, logged against one of their own habits
+*/
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS target_value numeric(10,2) CHECK (target_value > 0);
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS unit text CHECK (char_length(unit) <= 30);
+
+CREATE TABLE IF NOT EXISTS habit_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id uuid REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  logged_on date NOT NULL DEFAULT CURRENT_DATE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE habit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own habit logs"
+  ON habit_logs
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM habits WHERE habits.id = habit_id AND habits.user_id = auth.uid())
+  );
+
+CREATE INDEX IF NOT EXISTS idx_habit_logs_habit_day ON habit_logs(habit_id, logged_on);
+CREATE INDEX IF NOT EXISTS idx_habit_logs_user_day ON habit_logs(user_id, logged_on);
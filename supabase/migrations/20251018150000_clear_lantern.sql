@@ -0,0 +1,131 @@
+/*
+  # Full-text and semantic search over reflections
+
+  1. Modified Tables
+    - `reflections`
+      - `search_vector` (tsvector, generated from `content`) with a GIN index
+
+  2. New Tables
+    - `reflection_embeddings`
+      - `reflection_id` (uuid, references reflections)
+      - `user_id` (uuid, references user_profiles)
+      - `model` (text) - embedding model that produced the vector; vectors are only
+        compared within one model, so switching models just builds a new set
+      - `content_hash` (text) - SHA-256 of the content that was embedded, to spot stale rows
+      - `embedding` (vector)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `search_reflections(search_query)` - ranked full-text matches with a highlighted
+      snippet. Matches are wrapped in U+E000 ... U+E001 so the client can mark them up
+      without rendering HTML.
+    - `match_reflections(source_reflection_id, embedding_model, match_count)` - the
+      caller's reflections closest to the given one by cosine distance
+    Both run as the caller, so RLS on `reflections` still applies.
+
+  4. Security
+    - Enable RLS on `reflection_embeddings`
+    - Users can only manage their own embeddings
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_reflections_search_vector ON reflections USING gin(search_vector);
+
+CREATE TABLE IF NOT EXISTS reflection_embeddings (
+  reflection_id uuid REFERENCES reflections(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  model text NOT NULL,
+  content_hash text NOT NULL,
+  embedding extensions.vector NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (reflection_id, model)
+);
+
+ALTER TABLE reflection_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own reflection embeddings"
+  ON reflection_embeddings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_reflection_embeddings_user_model ON reflection_embeddings(user_id, model);
+
+CREATE OR REPLACE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  created_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.created_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
+
+CREATE OR REPLACE FUNCTION match_reflections(
+  source_reflection_id uuid,
+  embedding_model text,
+  match_count integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  created_at timestamptz,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    r.id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.created_at,
+    1 - (candidate.embedding <=> source.embedding) AS similarity
+  FROM reflection_embeddings source
+  JOIN reflection_embeddings candidate
+    ON candidate.user_id = source.user_id
+   AND candidate.model = source.model
+   AND candidate.reflection_id <> source.reflection_id
+  JOIN reflections r ON r.id = candidate.reflection_id
+  WHERE source.reflection_id = source_reflection_id
+    AND source.model = embedding_model
+  ORDER BY candidate.embedding <=> source.embedding
+  LIMIT least(greatest(match_count, 1), 50)
+$$;
@@ -0,0 +1,88 @@
+/*
+  # Tags for reflections
+
+  1. Modified Tables
+    - `reflections`
+      - `tags` (text[], default '{}') - lower-case, user-defined labels such as 'work',
+        'family' or 'health'; at most 10 per reflection. GIN-indexed for tag filters.
+
+  2. Functions
+    - `reflection_tag_stats()` - every tag the caller has used, with how many
+      reflections carry it, their average mood and when it was last used. Feeds tag
+      autocomplete and the per-tag mood averages.
+    - `search_reflections(search_query)` - recreated to also return `tags`
+
+  3. Security
+    - Both functions run as the caller, so RLS on `reflections` applies
+*/
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE reflections ADD CONSTRAINT reflections_tags_limit CHECK (cardinality(tags) <= 10);
+
+CREATE INDEX IF NOT EXISTS idx_reflections_tags ON reflections USING gin(tags);
+
+CREATE OR REPLACE FUNCTION reflection_tag_stats()
+RETURNS TABLE (
+  tag text,
+  reflection_count bigint,
+  avg_mood numeric,
+  last_used_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    t.tag,
+    count(*) AS reflection_count,
+    round(avg(r.mood_score), 1) AS avg_mood,
+    max(r.created_at) AS last_used_at
+  FROM reflections r
+  CROSS JOIN LATERAL unnest(r.tags) AS t(tag)
+  WHERE r.user_id = auth.uid()
+  GROUP BY t.tag
+$$;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS search_reflections(text);
+
+CREATE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  tags text[],
+  created_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.tags,
+    r.created_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
@@ -0,0 +1,153 @@
+/*
+  # Editable reflections with version history
+
+  1. Modified Tables
+    - `reflections`
+      - `version` (integer, default 1) - bumped on every edit
+      - `updated_at` (timestamp) - when the current version was written; null until edited
+    - `insight_reports`
+      - `source_versions` (jsonb, default '[]') - `[{ "reflection_id", "version" }]` for
+        every reflection the recap was generated from, so a recap can be traced back to
+        the exact text it summarised even after the reflections are edited
+
+  2. New Tables
+    - `reflection_versions` - earlier versions of a reflection, written by a trigger
+      - `id` (uuid, primary key)
+      - `reflection_id` (uuid, references reflections)
+      - `user_id` (uuid, references user_profiles)
+      - `version` (integer) - unique per reflection
+      - `content`, `mood_score`, `sentiment`, `tags`, `voice_url` - as they were
+      - `written_at` (timestamp) - when this version was first saved
+      - `archived_at` (timestamp) - when it was replaced
+
+  3. Triggers
+    - `archive_reflection_version` (BEFORE UPDATE on `reflections`) copies the old row
+      into `reflection_versions` and bumps `version`, but only when the journal entry
+      itself changes; other column updates leave the history and `version` alone
+
+  4. Functions
+    - `search_reflections(search_query)` - recreated to also return `version` and `updated_at`
+
+  5. Security
+    - Enable RLS on `reflection_versions`
+    - Users can read their own versions. There is no insert, update or delete policy:
+      versions are only written by the trigger, and only removed together with their
+      reflection.
+    - `archive_reflection_version` is SECURITY DEFINER with a fixed search_path so it
+      can insert on the user's behalf
+*/
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+
+ALTER TABLE insight_reports ADD COLUMN IF NOT EXISTS source_versions jsonb NOT NULL DEFAULT '[]';
+
+CREATE TABLE IF NOT EXISTS reflection_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reflection_id uuid REFERENCES reflections(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  content text NOT NULL,
+  mood_score integer,
+  sentiment text,
+  tags text[] NOT NULL DEFAULT '{}',
+  voice_url text,
+  written_at timestamptz NOT NULL,
+  archived_at timestamptz DEFAULT now(),
+  UNIQUE (reflection_id, version)
+);
+
+ALTER TABLE reflection_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reflection versions"
+  ON reflection_versions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_reflection_versions_reflection ON reflection_versions(reflection_id, version DESC);
+
+-- Runs as the owner: there is no insert policy on reflection_versions, so history can
+-- only be written here, from the row being replaced
+CREATE OR REPLACE FUNCTION archive_reflection_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.mood_score IS NOT DISTINCT FROM OLD.mood_score
+     AND NEW.sentiment IS NOT DISTINCT FROM OLD.sentiment
+     AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+     AND NEW.voice_url IS NOT DISTINCT FROM OLD.voice_url THEN
+    -- Not a new version, and not a way for clients to set the number either
+    NEW.version := OLD.version;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO reflection_versions (
+    reflection_id, user_id, version, content, mood_score, sentiment, tags, voice_url, written_at
+  ) VALUES (
+    OLD.id, OLD.user_id, OLD.version, OLD.content, OLD.mood_score, OLD.sentiment, OLD.tags,
+    OLD.voice_url, coalesce(OLD.updated_at, OLD.created_at)
+  );
+
+  -- Clients cannot pick their own version numbers
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS archive_reflection_version ON reflections;
+
+CREATE TRIGGER archive_reflection_version
+  BEFORE UPDATE ON reflections
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_reflection_version();
+
+DROP FUNCTION IF EXISTS search_reflections(text);
+
+CREATE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  tags text[],
+  version integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.tags,
+    r.version,
+    r.created_at,
+    r.updated_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
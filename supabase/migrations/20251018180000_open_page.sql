@@ -0,0 +1,139 @@
+/*
+  # Guided journaling templates
+
+  1. New Tables
+    - `journal_templates` - templates written by the user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `name` (text)
+      - `description` (text, optional)
+      - `sections` (jsonb) - ordered `[{ "key", "label", "prompt"?, "placeholder"? }]`
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `reflections`
+      - `template_id` (text) - the template the reflection was written with. Built-in
+        templates are defined in the app and use slugs ('gratitude', 'thought-record'),
+        so this is not a foreign key.
+      - `sections` (jsonb) - `[{ "key", "label", "prompt", "answer" }]`. `content` still
+        holds the answers as plain text for search, sentiment and recaps.
+    - `reflection_versions`
+      - `sections` (jsonb) - archived alongside the rest of the entry
+
+  3. Triggers
+    - `archive_reflection_version` now also versions `sections`; it stays SECURITY DEFINER,
+      as the only writer of `reflection_versions`
+
+  4. Functions
+    - `search_reflections(search_query)` - recreated to also return `template_id` and `sections`
+
+  5. Security
+    - Enable RLS on `journal_templates`
+    - Users can only manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS journal_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description text,
+  sections jsonb NOT NULL CHECK (jsonb_typeof(sections) = 'array' AND jsonb_array_length(sections) BETWEEN 1 AND 12),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE journal_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own journal templates"
+  ON journal_templates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_journal_templates_user_id ON journal_templates(user_id);
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS template_id text;
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS sections jsonb;
+
+ALTER TABLE reflection_versions ADD COLUMN IF NOT EXISTS sections jsonb;
+
+CREATE OR REPLACE FUNCTION archive_reflection_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.mood_score IS NOT DISTINCT FROM OLD.mood_score
+     AND NEW.sentiment IS NOT DISTINCT FROM OLD.sentiment
+     AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+     AND NEW.sections IS NOT DISTINCT FROM OLD.sections
+     AND NEW.voice_url IS NOT DISTINCT FROM OLD.voice_url THEN
+    -- Not a new version, and not a way for clients to set the number either
+    NEW.version := OLD.version;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO reflection_versions (
+    reflection_id, user_id, version, content, mood_score, sentiment, tags, sections, voice_url, written_at
+  ) VALUES (
+    OLD.id, OLD.user_id, OLD.version, OLD.content, OLD.mood_score, OLD.sentiment, OLD.tags,
+    OLD.sections, OLD.voice_url, coalesce(OLD.updated_at, OLD.created_at)
+  );
+
+  -- Clients cannot pick their own version numbers
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_reflections(text);
+
+CREATE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  tags text[],
+  template_id text,
+  sections jsonb,
+  version integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.tags,
+    r.template_id,
+    r.sections,
+    r.version,
+    r.created_at,
+    r.updated_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
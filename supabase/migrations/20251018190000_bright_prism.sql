@@ -0,0 +1,121 @@
+/*
+  # Emotions for reflections
+
+  1. Modified Tables
+    - `reflections`
+      - `emotions` (jsonb) - intensity from 0 to 1 for each of joy, sadness, anger,
+        fear, surprise and calm, as returned by `analyze-sentiment`
+      - `primary_emotion` (text) - the strongest of those, or null when none is clear
+    `sentiment` is kept and is now derived from the emotions. Existing rows have no
+    emotions; the recap function classifies them on the fly.
+    - `reflection_versions`
+      - `emotions`, `primary_emotion` - archived alongside the rest of the entry
+
+  2. Triggers
+    - `archive_reflection_version` now also versions `emotions` and `primary_emotion`,
+      so the history shows what a re-analysis changed
+
+  3. Functions
+    - `search_reflections(search_query)` - recreated to also return `emotions` and `primary_emotion`
+
+  4. Security
+    - No changes; the existing reflections policies cover the new columns
+*/
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS emotions jsonb;
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS primary_emotion text
+  CHECK (primary_emotion IN ('joy', 'sadness', 'anger', 'fear', 'surprise', 'calm'));
+
+CREATE INDEX IF NOT EXISTS idx_reflections_user_primary_emotion ON reflections(user_id, primary_emotion);
+
+ALTER TABLE reflection_versions ADD COLUMN IF NOT EXISTS emotions jsonb;
+ALTER TABLE reflection_versions ADD COLUMN IF NOT EXISTS primary_emotion text;
+
+CREATE OR REPLACE FUNCTION archive_reflection_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.mood_score IS NOT DISTINCT FROM OLD.mood_score
+     AND NEW.sentiment IS NOT DISTINCT FROM OLD.sentiment
+     AND NEW.emotions IS NOT DISTINCT FROM OLD.emotions
+     AND NEW.primary_emotion IS NOT DISTINCT FROM OLD.primary_emotion
+     AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+     AND NEW.sections IS NOT DISTINCT FROM OLD.sections
+     AND NEW.voice_url IS NOT DISTINCT FROM OLD.voice_url THEN
+    -- Not a new version, and not a way for clients to set the number either
+    NEW.version := OLD.version;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO reflection_versions (
+    reflection_id, user_id, version, content, mood_score, sentiment, emotions, primary_emotion, tags,
+    sections, voice_url, written_at
+  ) VALUES (
+    OLD.id, OLD.user_id, OLD.version, OLD.content, OLD.mood_score, OLD.sentiment, OLD.emotions,
+    OLD.primary_emotion, OLD.tags, OLD.sections, OLD.voice_url, coalesce(OLD.updated_at, OLD.created_at)
+  );
+
+  -- Clients cannot pick their own version numbers
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_reflections(text);
+
+CREATE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  tags text[],
+  template_id text,
+  sections jsonb,
+  emotions jsonb,
+  primary_emotion text,
+  version integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.tags,
+    r.template_id,
+    r.sections,
+    r.emotions,
+    r.primary_emotion,
+    r.version,
+    r.created_at,
+    r.updated_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
@@ -0,0 +1,123 @@
+/*
+  # Multilingual reflections
+
+  1. Modified Tables
+    - `user_profiles`
+      - `preferred_language` (text, default 'en') - language recaps and video scripts are
+        written in, and the hint passed to transcription
+    - `reflections`
+      - `language` (text) - language the reflection was detected as, used to pick the
+        emotion word list. Null for reflections saved before detection existed.
+    - `reflection_versions`
+      - `language` (text) - archived alongside the rest of the entry
+    Supported languages: en, es, de, he.
+
+  2. Triggers
+    - `archive_reflection_version` now also versions `language`
+
+  3. Functions
+    - `search_reflections(search_query)` - recreated to also return `language`
+
+  4. Security
+    - No changes; existing policies cover the new columns
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'en'
+  CHECK (preferred_language IN ('en', 'es', 'de', 'he'));
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS language text
+  CHECK (language IN ('en', 'es', 'de', 'he'));
+
+ALTER TABLE reflection_versions ADD COLUMN IF NOT EXISTS language text;
+
+CREATE OR REPLACE FUNCTION archive_reflection_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+     AND NEW.mood_score IS NOT DISTINCT FROM OLD.mood_score
+     AND NEW.sentiment IS NOT DISTINCT FROM OLD.sentiment
+     AND NEW.emotions IS NOT DISTINCT FROM OLD.emotions
+     AND NEW.primary_emotion IS NOT DISTINCT FROM OLD.primary_emotion
+     AND NEW.language IS NOT DISTINCT FROM OLD.language
+     AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+     AND NEW.sections IS NOT DISTINCT FROM OLD.sections
+     AND NEW.voice_url IS NOT DISTINCT FROM OLD.voice_url THEN
+    -- Not a new version, and not a way for clients to set the number either
+    NEW.version := OLD.version;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO reflection_versions (
+    reflection_id, user_id, version, content, mood_score, sentiment, emotions, primary_emotion, language,
+    tags, sections, voice_url, written_at
+  ) VALUES (
+    OLD.id, OLD.user_id, OLD.version, OLD.content, OLD.mood_score, OLD.sentiment, OLD.emotions,
+    OLD.primary_emotion, OLD.language, OLD.tags, OLD.sections, OLD.voice_url,
+    coalesce(OLD.updated_at, OLD.created_at)
+  );
+
+  -- Clients cannot pick their own version numbers
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_reflections(text);
+
+CREATE FUNCTION search_reflections(search_query text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  content text,
+  sentiment text,
+  mood_score integer,
+  voice_url text,
+  tags text[],
+  template_id text,
+  sections jsonb,
+  emotions jsonb,
+  primary_emotion text,
+  language text,
+  version integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.content,
+    r.sentiment,
+    r.mood_score,
+    r.voice_url,
+    r.tags,
+    r.template_id,
+    r.sections,
+    r.emotions,
+    r.primary_emotion,
+    r.language,
+    r.version,
+    r.created_at,
+    r.updated_at,
+    ts_rank_cd(r.search_vector, q.query) AS rank,
+    ts_headline(
+      'english',
+      r.content,
+      q.query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxFragments=2, MinWords=10, MaxWords=30'
+    ) AS snippet
+  FROM reflections r
+  CROSS JOIN websearch_to_tsquery('english', search_query) AS q(query)
+  WHERE r.search_vector @@ q.query
+$$;
@@ -0,0 +1,51 @@
+/*
+  # Safety flags
+
+  1. New Tables
+    - `safety_flags` - audit record of reflections the safety screen flagged
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `reflection_id` (uuid, references reflections) - set to null if the reflection is
+        deleted, so the record of the flag outlives it
+      - `reflection_version` (integer) - the version of the reflection that was screened
+      - `level` (text) - 'elevated' or 'high'
+      - `categories` (text[]) - what kind of language matched; the matched text is not copied
+      - `classifier` (text) - version of the rules that produced the flag
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `insight_reports`
+      - `safety_mode` (boolean) - the recap was written with the supportive safety-first
+        prompt because the period contained flagged language
+
+  3. Security
+    - Enable RLS on `safety_flags`
+    - Users can read their own flags. There are no insert, update or delete policies:
+      flags are written by the `check-reflection-safety` function with the service role
+      and are never changed afterwards.
+    - Flags are never shared with anyone but the user
+*/
+
+CREATE TABLE IF NOT EXISTS safety_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  reflection_id uuid REFERENCES reflections(id) ON DELETE SET NULL,
+  reflection_version integer NOT NULL,
+  level text NOT NULL CHECK (level IN ('elevated', 'high')),
+  categories text[] NOT NULL DEFAULT '{}',
+  classifier text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (reflection_id, reflection_version, classifier)
+);
+
+ALTER TABLE safety_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own safety flags"
+  ON safety_flags
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_safety_flags_user_created ON safety_flags(user_id, created_at DESC);
+
+ALTER TABLE insight_reports ADD COLUMN IF NOT EXISTS safety_mode boolean NOT NULL DEFAULT false;
@@ -0,0 +1,25 @@
+/*
+  # Voice recording metadata
+
+  1. Modified Tables
+    - `reflections`
+      - `voice_duration` (real) - length of the voice recording in seconds, measured from
+        the audio when it is generated (or, for older recordings, when the voice library
+        first decodes it)
+      - `voice_peaks` (jsonb) - waveform preview: an array of peak levels between 0 and 1
+      - `voice_position` (real) - where playback was last paused, in seconds, so the voice
+        library can resume from there
+
+  2. Notes
+    - None of these columns are part of the reflection's content, so
+      `archive_reflection_version` ignores them and saving a playback position never
+      creates a new version
+    - Recordings replaced by an edit get a fresh duration and lose their peaks and position
+
+  3. Security
+    - Covered by the existing `reflections` policies
+*/
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS voice_duration real CHECK (voice_duration IS NULL OR voice_duration >= 0);
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS voice_peaks jsonb;
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS voice_position real CHECK (voice_position IS NULL OR voice_position >= 0);
@@ -0,0 +1,61 @@
+/*
+  # Original voice recordings
+
+  1. New Tables
+    - `voice_recordings` - the user's own recordings, kept when they opt in
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `reflection_id` (uuid, references reflections) - removed with the reflection
+      - `audio_path` (text) - object path in the private `voice-reflections` bucket
+      - `mime_type` (text) - as recorded by the browser, e.g. 'audio/webm'
+      - `duration` (real) - seconds
+      - `transcript` (text) - what was transcribed from this clip, before any editing
+      - `words` (jsonb) - `[{ "text", "start", "end" }]`, seconds from the start of the clip
+      - `position` (integer) - order of the clip within the reflection
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `user_profiles`
+      - `keep_voice_recordings` (boolean, default false) - store the original audio
+        instead of discarding it after transcription
+      - `tts_enabled` (boolean, default true) - create an AI voice reading (`voice_url`)
+        when a reflection is saved
+
+  3. Security
+    - Enable RLS on `voice_recordings`
+    - Users can only manage their own recordings, and only attach them to their own
+      reflections
+*/
+
+CREATE TABLE IF NOT EXISTS voice_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  reflection_id uuid REFERENCES reflections(id) ON DELETE CASCADE NOT NULL,
+  audio_path text NOT NULL,
+  mime_type text NOT NULL DEFAULT 'audio/webm',
+  duration real CHECK (duration IS NULL OR duration >= 0),
+  transcript text NOT NULL DEFAULT '',
+  words jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(words) = 'array'),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE voice_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own voice recordings"
+  ON voice_recordings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM reflections
+      WHERE reflections.id = reflection_id AND reflections.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_voice_recordings_reflection ON voice_recordings(reflection_id, position);
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS keep_voice_recordings boolean NOT NULL DEFAULT false;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS tts_enabled boolean NOT NULL DEFAULT true;
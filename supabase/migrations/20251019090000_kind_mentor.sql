@@ -0,0 +1,89 @@
+/*
+  # Custom coaches and their conversations
+
+  1. Modified Tables
+    - `user_coaches`
+      - `template_id` (text, optional) - the built-in template the coach was started from.
+        Templates are defined in the app (`src/lib/coaches.ts`), so this is not a foreign key.
+      - `category` is now unique per user, which is the duplicate rule the column was
+        added for. Any duplicates that already exist are renamed (`<category>-<id prefix>`)
+        rather than deleted.
+      - Length limits on the name, description, prompt and greeting. Added as NOT VALID so
+        existing rows are left alone; new and updated rows are checked.
+
+  2. New Tables
+    - `coach_messages` - one conversation per coach
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `coach_id` (uuid, references user_coaches) - removed with the coach
+      - `role` (text) - 'user' or 'assistant'
+      - `content` (text)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `coach_messages`
+    - Users can read, add and delete messages in conversations with their own coaches.
+      Replies are written by the `coach-chat` function with the caller's client.
+*/
+
+UPDATE user_coaches c
+SET category = c.category || '-' || left(c.id::text, 8)
+WHERE EXISTS (
+  SELECT 1 FROM user_coaches older
+  WHERE older.user_id = c.user_id
+    AND older.category = c.category
+    AND (older.created_at, older.id) < (c.created_at, c.id)
+);
+
+ALTER TABLE user_coaches ADD COLUMN IF NOT EXISTS template_id text;
+
+ALTER TABLE user_coaches
+  ADD CONSTRAINT user_coaches_user_id_category_key UNIQUE (user_id, category);
+
+-- The unique constraint's index covers (user_id, category) lookups
+DROP INDEX IF EXISTS idx_user_coaches_user_id_category;
+
+ALTER TABLE user_coaches
+  ADD CONSTRAINT user_coaches_field_lengths CHECK (
+    char_length(coach_name) BETWEEN 1 AND 60
+    AND char_length(description) <= 300
+    AND char_length(system_prompt) BETWEEN 1 AND 4000
+    AND char_length(initial_message) BETWEEN 1 AND 1000
+  ) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS coach_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  coach_id uuid REFERENCES user_coaches(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 8000),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE coach_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own coach messages"
+  ON coach_messages
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add messages to own coaches"
+  ON coach_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM user_coaches
+      WHERE user_coaches.id = coach_id AND user_coaches.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own coach messages"
+  ON coach_messages
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_coach_messages_coach_created_at ON coach_messages(coach_id, created_at);
@@ -0,0 +1,79 @@
+/*
+  # User-configurable Quick Actions
+
+  1. Modified Tables
+    - `quick_actions`
+      - `feature_key` (text) - which built-in feature a `feature` row opens. Features are
+        defined in the app (`src/lib/quickActions.ts`).
+      - `position` (integer) - order on the dashboard, pinned actions first
+      - `pinned` (boolean) - kept at the top of the list
+      - `hidden` (boolean) - built-in features are hidden rather than deleted, so a user
+        who hides everything still has their layout and does not get the defaults again
+      - `linked_resource` now references `user_coaches` for `ai_coach` rows, and the
+        shortcut is removed with the coach. Shortcuts to coaches that no longer exist
+        are deleted.
+      - A feature or coach appears at most once per user. Duplicates are removed,
+        keeping the oldest.
+
+  2. Security
+    - The existing policy is replaced with one that also requires a linked coach to
+      belong to the user
+*/
+
+ALTER TABLE quick_actions ADD COLUMN IF NOT EXISTS feature_key text;
+ALTER TABLE quick_actions ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+ALTER TABLE quick_actions ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false;
+ALTER TABLE quick_actions ADD COLUMN IF NOT EXISTS hidden boolean NOT NULL DEFAULT false;
+
+DELETE FROM quick_actions q
+WHERE q.type = 'ai_coach'
+  AND (
+    q.linked_resource IS NULL
+    OR NOT EXISTS (SELECT 1 FROM user_coaches c WHERE c.id = q.linked_resource AND c.user_id = q.user_id)
+  );
+
+DELETE FROM quick_actions q
+WHERE EXISTS (
+  SELECT 1 FROM quick_actions older
+  WHERE older.user_id = q.user_id
+    AND (older.feature_key = q.feature_key OR older.linked_resource = q.linked_resource)
+    AND (older.created_at, older.id) < (q.created_at, q.id)
+);
+
+ALTER TABLE quick_actions
+  ADD CONSTRAINT quick_actions_linked_resource_fkey
+  FOREIGN KEY (linked_resource) REFERENCES user_coaches(id) ON DELETE CASCADE;
+
+-- NULLs are distinct, so coach rows (no feature_key) and feature rows (no
+-- linked_resource) don't collide with each other
+ALTER TABLE quick_actions
+  ADD CONSTRAINT quick_actions_user_id_feature_key_key UNIQUE (user_id, feature_key);
+ALTER TABLE quick_actions
+  ADD CONSTRAINT quick_actions_user_id_linked_resource_key UNIQUE (user_id, linked_resource);
+
+-- Earlier feature rows had no key; they are left in place but new rows must have one
+ALTER TABLE quick_actions
+  ADD CONSTRAINT quick_actions_target CHECK (
+    (type = 'feature' AND feature_key IS NOT NULL)
+    OR (type = 'ai_coach' AND linked_resource IS NOT NULL)
+  ) NOT VALID;
+
+DROP POLICY IF EXISTS "Users can manage own quick actions" ON quick_actions;
+
+CREATE POLICY "Users can manage own quick actions"
+  ON quick_actions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      linked_resource IS NULL
+      OR EXISTS (
+        SELECT 1 FROM user_coaches
+        WHERE user_coaches.id = linked_resource AND user_coaches.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_quick_actions_user_position ON quick_actions(user_id, position);
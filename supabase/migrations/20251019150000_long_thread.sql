@@ -0,0 +1,51 @@
+/*
+  # Long-term memory for recaps and coaches
+
+  1. New Tables
+    - `user_memories` - short facts carried from one AI conversation to the next
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `kind` (text) - 'theme' (a recurring topic), 'commitment' (something the user
+        said they would do) or 'recommendation' (advice an earlier recap gave)
+      - `content` (text)
+      - `source_report_id` (uuid, optional) - the insight report it was drawn from; kept
+        when the report is deleted
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `user_memories`
+    - Users can read and delete their memories. Rows are added by `generate-ai-recap`
+      with the caller's client, so users can insert their own too; nothing updates them.
+*/
+
+CREATE TABLE IF NOT EXISTS user_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('theme', 'commitment', 'recommendation')),
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  source_report_id uuid REFERENCES insight_reports(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own memories"
+  ON user_memories
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own memories"
+  ON user_memories
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memories"
+  ON user_memories
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_kind_created_at
+  ON user_memories(user_id, kind, created_at DESC);
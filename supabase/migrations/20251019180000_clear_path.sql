@@ -0,0 +1,72 @@
+/*
+  # Follow-through on recap recommendations
+
+  1. New Tables
+    - `recommendation_actions` - what the user did with each recommendation in a recap
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `report_id` (uuid, references insight_reports) - removed with the report
+      - `item_index` (integer) - position in `insight_reports.recommendations`
+      - `recommendation` (text) - copy of the recommendation
+      - `status` (text) - 'pending', 'accepted', 'completed', 'habit' (turned into a
+        habit), 'snoozed' or 'dismissed'
+      - `habit_id` (uuid, optional) - the habit it became; cleared if the habit is deleted
+      - `snoozed_until` (date, optional) - when a snoozed recommendation comes back
+      - `responded_at` (timestamp, optional) - when the status last changed
+      - `created_at` (timestamp)
+    - One row per recommendation (`report_id`, `item_index`). Rows are added for every
+      existing report.
+
+  2. Modified Tables
+    - `insight_reports`
+      - `follow_up` (jsonb, optional) - what had happened to the previous recap's
+        recommendations when this one was written
+
+  3. Security
+    - Enable RLS on `recommendation_actions`
+    - Users can read and manage rows for their own reports
+*/
+
+ALTER TABLE insight_reports ADD COLUMN IF NOT EXISTS follow_up jsonb;
+
+CREATE TABLE IF NOT EXISTS recommendation_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  report_id uuid REFERENCES insight_reports(id) ON DELETE CASCADE NOT NULL,
+  item_index integer NOT NULL CHECK (item_index >= 0),
+  recommendation text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'completed', 'habit', 'snoozed', 'dismissed')),
+  habit_id uuid REFERENCES habits(id) ON DELETE SET NULL,
+  snoozed_until date,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT recommendation_actions_report_id_item_index_key UNIQUE (report_id, item_index)
+);
+
+INSERT INTO recommendation_actions (user_id, report_id, item_index, recommendation, created_at)
+SELECT r.user_id, r.id, item.ordinality - 1, item.value, r.created_at
+FROM insight_reports r
+CROSS JOIN LATERAL unnest(r.recommendations) WITH ORDINALITY AS item(value, ordinality)
+ON CONFLICT (report_id, item_index) DO NOTHING;
+
+ALTER TABLE recommendation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own recommendation actions"
+  ON recommendation_actions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM insight_reports
+      WHERE insight_reports.id = report_id AND insight_reports.user_id = auth.uid()
+    )
+    AND (
+      habit_id IS NULL
+      OR EXISTS (SELECT 1 FROM habits WHERE habits.id = habit_id AND habits.user_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_actions_user_id ON recommendation_actions(user_id);
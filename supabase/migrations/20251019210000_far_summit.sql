@@ -0,0 +1,137 @@
+/*
+  # Goals with milestones
+
+  1. New Tables
+    - `goals`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `title` (text)
+      - `description` (text, optional)
+      - `category` (text, optional) - one of the onboarding focus ids (`fitness`,
+        `mindfulness`, ...), which `user_profiles.goals` keeps as the user's broad picks
+      - `target_date` (date, optional)
+      - `status` (text) - 'active', 'completed' or 'archived'
+      - `completed_at` (timestamp, optional)
+      - `created_at` (timestamp)
+    - `goal_milestones` - measurable steps towards a goal; progress is the share completed
+      - `id` (uuid, primary key)
+      - `goal_id` (uuid, references goals) - removed with the goal
+      - `user_id` (uuid, references user_profiles)
+      - `title` (text)
+      - `target_date` (date, optional)
+      - `position` (integer) - order within the goal
+      - `completed_at` (timestamp, optional) - set when ticked off
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `habits` and `body_feedback` (body-coach plans)
+      - `goal_id` (uuid, optional) - the goal they work towards; cleared if the goal is deleted
+
+  3. Data
+    - Every onboarding pick in `user_profiles.goals` becomes an active goal with the
+      onboarding wording as its title, so existing users start with something to build on
+    - Users who already have a Quick Actions layout get a Goals shortcut at the end of it;
+      new layouts include it from the app's defaults
+
+  4. Security
+    - Enable RLS on both tables; users manage their own goals and milestones, and
+      milestones must belong to one of their own goals
+    - Habits and plans can only be linked to the user's own goals
+*/
+
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  description text CHECK (char_length(description) <= 1000),
+  category text,
+  target_date date,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS goal_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id uuid REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  target_date date,
+  position integer NOT NULL DEFAULT 0,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS goal_id uuid REFERENCES goals(id) ON DELETE SET NULL;
+ALTER TABLE body_feedback ADD COLUMN IF NOT EXISTS goal_id uuid REFERENCES goals(id) ON DELETE SET NULL;
+
+INSERT INTO goals (user_id, title, category)
+SELECT p.id,
+  CASE pick.value
+    WHEN 'fitness' THEN 'Improve Physical Fitness'
+    WHEN 'mindfulness' THEN 'Practice Mindfulness'
+    WHEN 'productivity' THEN 'Boost Productivity'
+    WHEN 'sleep' THEN 'Better Sleep Habits'
+    WHEN 'learning' THEN 'Learn New Skills'
+    WHEN 'relationships' THEN 'Strengthen Relationships'
+    ELSE initcap(pick.value)
+  END,
+  pick.value
+FROM user_profiles p
+CROSS JOIN LATERAL unnest(p.goals) AS pick(value)
+WHERE NOT EXISTS (SELECT 1 FROM goals g WHERE g.user_id = p.id AND g.category = pick.value);
+
+INSERT INTO quick_actions (user_id, type, label, feature_key, position)
+SELECT user_id, 'feature', 'Goals', 'goals', max(position) + 1
+FROM quick_actions
+GROUP BY user_id
+ON CONFLICT (user_id, feature_key) DO NOTHING;
+
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goal_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own goals"
+  ON goals
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage milestones of own goals"
+  ON goal_milestones
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM goals WHERE goals.id = goal_id AND goals.user_id = auth.uid())
+  );
+
+-- A goal id is not a secret, so make sure it is the user's own before it can be
+-- linked. The body feedback policy keeps its habit ownership check.
+DROP POLICY IF EXISTS "Users can manage own habits" ON habits;
+CREATE POLICY "Users can manage own habits"
+  ON habits
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (goal_id IS NULL OR EXISTS (SELECT 1 FROM goals WHERE goals.id = goal_id AND goals.user_id = auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Users can manage own body feedback" ON body_feedback;
+CREATE POLICY "Users can manage own body feedback"
+  ON body_feedback
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (habit_id IS NULL OR EXISTS (SELECT 1 FROM habits WHERE habits.id = habit_id AND habits.user_id = auth.uid()))
+    AND (goal_id IS NULL OR EXISTS (SELECT 1 FROM goals WHERE goals.id = goal_id AND goals.user_id = auth.uid()))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_goals_user_id_status ON goals(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_goal_milestones_goal_position ON goal_milestones(goal_id, position);
+CREATE INDEX IF NOT EXISTS idx_habits_goal_id ON habits(goal_id);